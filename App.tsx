@@ -1,11 +1,20 @@
 import React, { useState, useRef } from 'react';
-import { AppState, ForensicReport } from './types';
-import { analyzeAsset } from './services/geminiService';
-import { ScanVisualization } from './components/ScanVisualization';
+import { AppState, ForensicReport, ScanStep } from './types';
+import { scanViaServer, ScanApiError } from './services/scanClient';
+import { ReportValidationError } from './services/reportValidation';
+import { MAX_UPLOAD_BYTES } from './services/fileUtils';
+import { saveCase } from './services/caseHistory';
+import { browserSigner } from './services/custody';
+import { APP_VERSION } from './services/appInfo';
+import { ScanVisualization, SCAN_STEPS, applyScanEvent } from './components/ScanVisualization';
 import { ReportView } from './components/ReportView';
+import { VaultView } from './components/VaultView';
+import { BatchView } from './components/BatchView';
+import { HistoryView } from './components/HistoryView';
+import { VerifyView } from './components/VerifyView';
 import { 
   Upload, FileImage, Shield, Link as LinkIcon, FileText, Video, File, Globe, 
-  FileCode, PlayCircle, Image as ImageIcon, FileType, UploadCloud
+  FileCode, PlayCircle, Image as ImageIcon, FileType, UploadCloud, Archive, Layers, History, ShieldCheck, Music
 } from 'lucide-react';
 
 type InputMode = 'file' | 'url';
@@ -21,16 +30,20 @@ const App: React.FC = () => {
   const [urlInput, setUrlInput] = useState('');
 
   const [report, setReport] = useState<ForensicReport | null>(null);
+  const [caseRecordId, setCaseRecordId] = useState<string | undefined>();
   const [error, setError] = useState<string | null>(null);
+  const [scanSteps, setScanSteps] = useState<ScanStep[]>(SCAN_STEPS);
+  const scanAbortRef = useRef<AbortController | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
-      // Validate file size (e.g. 50MB limit for demo)
-      if (e.target.files[0].size > 50 * 1024 * 1024) {
-        alert("File too large. Please upload a file smaller than 50MB.");
+      // Large files are hashed in chunks and uploaded resumably; only the provider's own limit applies
+      if (e.target.files[0].size > MAX_UPLOAD_BYTES) {
+        setError(`${e.target.files[0].name} is too large. Files up to ${MAX_UPLOAD_BYTES / 1024 / 1024 / 1024} GB can be scanned.`);
         return;
       }
+      setError(null);
       setFile(e.target.files[0]);
     }
   };
@@ -39,23 +52,39 @@ const App: React.FC = () => {
     const asset = inputMode === 'url' ? urlInput : file;
     if (!asset) return;
     
+    const controller = new AbortController();
+    scanAbortRef.current = controller;
+    setScanSteps(SCAN_STEPS);
     setAppState(AppState.SCANNING);
     setError(null);
 
     try {
-      const data = await analyzeAsset(asset);
+      const data = await scanViaServer(asset, {
+        signer: browserSigner,
+        signal: controller.signal,
+        onProgress: event => setScanSteps(steps => applyScanEvent(steps, event)),
+      });
       setReport(data);
+      setAppState(AppState.REPORT_READY);
+      saveCase(data).then(record => setCaseRecordId(record.id)).catch(err => console.warn("Could not save case to history:", err));
     } catch (err) {
+      // Cancelled scans already returned to IDLE
+      if (controller.signal.aborted) return;
       console.error(err);
-      setError("Failed to generate report. Please try again.");
+      setError(err instanceof ReportValidationError
+        ? `The model returned an invalid report (${err.issues.join('; ')}). Please try again.`
+        : err instanceof ScanApiError ? err.message
+        : "Failed to generate report. Please try again.");
       setAppState(AppState.ERROR);
+    } finally {
+      if (scanAbortRef.current === controller) scanAbortRef.current = null;
     }
   };
 
-  const onScanComplete = () => {
-    if (report) {
-      setAppState(AppState.REPORT_READY);
-    }
+  const cancelScan = () => {
+    scanAbortRef.current?.abort();
+    scanAbortRef.current = null;
+    setAppState(AppState.IDLE);
   };
 
   const resetApp = () => {
@@ -63,13 +92,14 @@ const App: React.FC = () => {
     setFile(null);
     setUrlInput('');
     setReport(null);
+    setCaseRecordId(undefined);
     setError(null);
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
   // Combined accept attribute for all file types
   const getAcceptAttribute = () => {
-    return 'image/*,video/*,application/pdf,.doc,.docx,.odt,application/msword,application/vnd.openxmlformats-officedocument.wordprocessingml.document,text/plain,text/csv,text/markdown,.txt,.md,.json';
+    return 'image/*,video/*,audio/*,.mp3,.wav,.flac,.m4a,application/pdf,.doc,.docx,.odt,application/msword,application/vnd.openxmlformats-officedocument.wordprocessingml.document,text/plain,text/csv,text/markdown,.txt,.md,.json,.ts,.tsx,.js,.jsx,.mjs,.cjs,.py,.java,.c,.h,.go';
   };
 
   const renderNavButton = (mode: InputMode, icon: React.ReactNode, label: string) => (
@@ -89,7 +119,35 @@ const App: React.FC = () => {
       
       {/* Version Indicator - Absolute Top Right */}
       <div className="absolute top-6 right-6 flex items-center gap-4 z-50">
-        <span className="text-xs font-mono text-slate-500 hidden sm:inline-block">V3.1.0-OMNI</span>
+        {appState === AppState.IDLE && (
+          <>
+            <button
+              onClick={() => setAppState(AppState.HISTORY)}
+              className="text-xs font-mono text-slate-400 hover:text-brand-yellow flex items-center gap-2 transition-colors"
+            >
+              <History className="w-4 h-4" /> CASE HISTORY
+            </button>
+            <button
+              onClick={() => setAppState(AppState.VERIFY)}
+              className="text-xs font-mono text-slate-400 hover:text-brand-yellow flex items-center gap-2 transition-colors"
+            >
+              <ShieldCheck className="w-4 h-4" /> VERIFY REPORT
+            </button>
+            <button
+              onClick={() => setAppState(AppState.BATCH)}
+              className="text-xs font-mono text-slate-400 hover:text-brand-yellow flex items-center gap-2 transition-colors"
+            >
+              <Layers className="w-4 h-4" /> BATCH SCAN
+            </button>
+            <button
+              onClick={() => setAppState(AppState.VAULT)}
+              className="text-xs font-mono text-slate-400 hover:text-brand-yellow flex items-center gap-2 transition-colors"
+            >
+              <Archive className="w-4 h-4" /> ASSET VAULT
+            </button>
+          </>
+        )}
+        <span className="text-xs font-mono text-slate-500 hidden sm:inline-block">{APP_VERSION}</span>
         <div className="w-2 h-2 rounded-full bg-brand-yellow animate-pulse"></div>
       </div>
 
@@ -157,6 +215,7 @@ const App: React.FC = () => {
                       <div className="w-16 h-16 bg-black rounded-full flex items-center justify-center mx-auto mb-4 border border-brand-yellow">
                         {file.type.startsWith('image') ? <ImageIcon className="w-8 h-8 text-brand-yellow" /> :
                          file.type.startsWith('video') ? <PlayCircle className="w-8 h-8 text-brand-yellow" /> :
+                         file.type.startsWith('audio') ? <Music className="w-8 h-8 text-brand-yellow" /> :
                          file.type.includes('pdf') ? <FileText className="w-8 h-8 text-brand-yellow" /> :
                          <File className="w-8 h-8 text-brand-yellow" />
                         }
@@ -169,12 +228,13 @@ const App: React.FC = () => {
                       <div className="flex gap-4 justify-center mb-6">
                          <ImageIcon className="w-6 h-6 text-slate-600 group-hover:text-slate-400 transition-colors" />
                          <PlayCircle className="w-6 h-6 text-slate-600 group-hover:text-slate-400 transition-colors" />
+                         <Music className="w-6 h-6 text-slate-600 group-hover:text-slate-400 transition-colors" />
                          <FileText className="w-6 h-6 text-slate-600 group-hover:text-slate-400 transition-colors" />
                          <FileCode className="w-6 h-6 text-slate-600 group-hover:text-slate-400 transition-colors" />
                       </div>
                       <p className="text-slate-300 font-medium mb-2 group-hover:text-white transition-colors">Drop Asset Here</p>
                       <p className="text-slate-500 text-xs max-w-xs mx-auto">
-                        Support for Images, Videos, PDFs, Docs & Text
+                        Support for Images, Videos, Audio, PDFs, Docs & Text
                       </p>
                     </div>
                   )}
@@ -209,17 +269,34 @@ const App: React.FC = () => {
 
         {appState === AppState.SCANNING && (
           <div className="flex flex-col items-center justify-center min-h-[60vh] animate-fade-in">
-             <ScanVisualization onComplete={onScanComplete} />
+             <ScanVisualization steps={scanSteps} onCancel={cancelScan} />
           </div>
         )}
 
+        {appState === AppState.BATCH && (
+          <BatchView onBack={() => setAppState(AppState.IDLE)} />
+        )}
+
+        {appState === AppState.HISTORY && (
+          <HistoryView onBack={() => setAppState(AppState.IDLE)} />
+        )}
+
+        {appState === AppState.VERIFY && (
+          <VerifyView onBack={() => setAppState(AppState.IDLE)} />
+        )}
+
+        {appState === AppState.VAULT && (
+          <VaultView onBack={() => setAppState(AppState.IDLE)} />
+        )}
+
         {appState === AppState.REPORT_READY && report && (
-          <ReportView report={report} onReset={resetApp} />
+          <ReportView report={report} onReset={resetApp} caseRecordId={caseRecordId} />
         )}
         
-        {appState === AppState.ERROR && !error && (
+        {appState === AppState.ERROR && (
           <div className="text-center pt-20">
              <h2 className="text-2xl text-red-500 mb-4">System Error</h2>
+             {error && <p className="text-red-200 text-sm max-w-xl mx-auto mb-4">{error}</p>}
              <button onClick={resetApp} className="text-slate-400 underline">Return to Dashboard</button>
           </div>
         )}
@@ -0,0 +1,3 @@
+#!/usr/bin/env node
+// Built by `npm run build:cli`
+import '../dist-cli/index.js';
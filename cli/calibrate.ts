@@ -0,0 +1,34 @@
+import { Verdict } from "../types";
+import { calibrationSample, CalibrationSample } from "../services/calibration";
+import { parseVerdictList, ScanResult } from "./output";
+
+// Accepts the output of `decryptc scan --format json` or `--format ndjson`
+export const readScanResults = (text: string): ScanResult[] => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('[')) return JSON.parse(trimmed);
+  return trimmed.split('\n').filter(line => line.trim()).map(line => JSON.parse(line));
+};
+
+// {"<input as scanned>": "pirated" | "original" | "inconclusive"}
+export const parseLabels = (value: unknown): Map<string, Verdict> => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) throw new Error('expected an object mapping scanned inputs to verdicts');
+  const labels = new Map<string, Verdict>();
+  for (const [input, name] of Object.entries(value)) {
+    const verdicts = typeof name === 'string' ? parseVerdictList(name) : [];
+    if (verdicts.length !== 1) throw new Error(`label for "${input}" must be one of pirated, original, inconclusive`);
+    labels.set(input, verdicts[0]);
+  }
+  return labels;
+};
+
+export const labeledSamples = (results: ScanResult[], labels: Map<string, Verdict>) => {
+  const samples: CalibrationSample[] = [];
+  let unlabeled = 0;
+  for (const result of results) {
+    const label = labels.get(result.input);
+    if (!result.report) continue;
+    if (label) samples.push(calibrationSample(result.report, label));
+    else unlabeled++;
+  }
+  return { samples, unlabeled };
+};
@@ -0,0 +1,53 @@
+import { readdir, readFile, stat } from "node:fs/promises";
+import path from "node:path";
+import { CodeCorpus, CodeCorpusFile, CodeRepo } from "../types";
+import { createCodeRepo, fingerprintCorpusFile, isCorpusPath, isSkippedDirectory, MAX_SOURCE_BYTES } from "../services/codeCorpus";
+import { licenseOfText } from "../services/licenseHeaders";
+
+const LICENSE_FILES = ['LICENSE', 'LICENSE.md', 'LICENSE.txt', 'COPYING'];
+
+// Paths relative to the repository root, with forward slashes as in the browser import
+const listSources = async (root: string, relative = ''): Promise<string[]> => {
+  const entries = await readdir(path.join(root, relative), { withFileTypes: true });
+  const files: string[] = [];
+  for (const entry of entries) {
+    const child = relative ? `${relative}/${entry.name}` : entry.name;
+    if (entry.isDirectory() && !isSkippedDirectory(entry.name)) files.push(...await listSources(root, child));
+    else if (entry.isFile() && isCorpusPath(child)) files.push(child);
+  }
+  return files;
+};
+
+const readLicense = async (root: string) => {
+  for (const name of LICENSE_FILES) {
+    try {
+      return licenseOfText(await readFile(path.join(root, name), 'utf8'));
+    } catch {
+      // not present; try the next name
+    }
+  }
+  return undefined;
+};
+
+// `--corpus <dir>`: each directory is one repository, named after the directory, licensed as its LICENSE file says
+export const loadCorpusDirectories = async (dirs: string[]): Promise<CodeCorpus> => {
+  const repos: CodeRepo[] = [];
+  const files: CodeCorpusFile[] = [];
+  const sources = new Map<string, string>();
+  for (const dir of dirs) {
+    if (!(await stat(dir)).isDirectory()) throw new Error(`${dir} is not a directory`);
+    const repo = createCodeRepo({ name: path.basename(path.resolve(dir)), owner: '', license: await readLicense(dir) ?? '' });
+    for (const relative of await listSources(dir)) {
+      const full = path.join(dir, relative);
+      if ((await stat(full)).size > MAX_SOURCE_BYTES) continue;
+      const text = await readFile(full, 'utf8');
+      const file = fingerprintCorpusFile(repo.id, { path: relative, text });
+      if (!file) continue;
+      files.push(file);
+      sources.set(file.id, text);
+      repo.file_count++;
+    }
+    repos.push(repo);
+  }
+  return { repos, files, readSource: async id => sources.get(id) };
+};
@@ -0,0 +1,267 @@
+// Headless scanner: `decryptc scan <path|url...>`. Runs the same pipeline as the app (analyzeAsset) in-process,
+// reading the provider and API key from the environment, and exits non-zero when a report crosses --fail-on.
+// `decryptc calibrate` fits a confidence curve from labeled scan results.
+import { parseArgs } from "node:util";
+import { readFile, writeFile } from "node:fs/promises";
+import { AnalysisProvider, BatchJob, CalibrationCurve, CodeCorpus, EnsembleMember, PolicyRule, UrlLists } from "../types";
+import { analyzeAsset } from "../services/analysisService";
+import { createAnalysisProvider, loadEnsemble, MAX_ENSEMBLE_SIZE } from "../services/analysisProvider";
+import { fitCalibration, parseCalibration } from "../services/calibration";
+import { parsePolicyText } from "../services/policyRules";
+import { createBatchJobs, DEFAULT_CONCURRENCY, MAX_CONCURRENCY, runBatch } from "../services/batchQueue";
+import { APP_VERSION } from "../services/appInfo";
+import { parseUrlLists } from "../services/urlHeuristics";
+import { setStageWarnings } from "../services/stageLog";
+import { resolveTargets, ScanTarget } from "./targets";
+import { loadCorpusDirectories } from "./corpus";
+import { labeledSamples, parseLabels, readScanResults } from "./calibrate";
+import {
+  EXIT_CODES, exitCodeFor, FailPolicy, formatJson, formatNdjsonLine, formatTable, isFlagged,
+  OutputFormat, parseRisk, parseVerdictList, ScanResult,
+} from "./output";
+
+const USAGE = `Usage: decryptc scan <path|url...> [options]
+       decryptc calibrate <results.json...> --labels <file> [-o <file>]
+
+Scan options:
+  -f, --format <table|json|ndjson>  Output format (default: table)
+  -r, --recursive                   Scan subdirectories of directory arguments
+      --fail-on <verdicts>          Comma-separated verdicts that fail the run:
+                                    pirated, inconclusive, original or none (default: pirated)
+      --fail-on-risk <level>        Lowest risk level that fails the run:
+                                    low, medium, high or none (default: high)
+  -c, --concurrency <n>             Parallel scans, 1-${MAX_CONCURRENCY} (default: ${DEFAULT_CONCURRENCY})
+      --provider <id>               Overrides ANALYSIS_PROVIDER (gemini, openai, mock)
+      --model <id>                  Overrides ANALYSIS_MODEL
+      --url-lists <file>            JSON file with brand_domains, blocklist and allowlist
+                                    arrays for the URL heuristics
+      --ensemble <spec>             Overrides ANALYSIS_ENSEMBLE: a run count (2-${MAX_ENSEMBLE_SIZE}) or
+                                    provider[:model][@temperature],... members
+      --calibration <file>          Overrides ANALYSIS_CALIBRATION: curve from decryptc calibrate
+      --policy <file>               JSON or YAML policy rules applied to every report
+      --corpus <dir>                Source repository to compare source files against;
+                                    repeat for several repositories
+
+Calibrate options:
+      --labels <file>               JSON object mapping each scanned input to its true
+                                    verdict: pirated, original or inconclusive
+  -o, --output <file>               Write the curve here instead of stdout
+
+Common options:
+  -v, --verbose                     Also log local stage warnings that are already in data gaps
+  -h, --help                        Show this help
+      --version                     Print the version
+
+Exit codes: 0 nothing flagged, 1 a report crossed a --fail-on threshold,
+            2 nothing flagged but an input could not be scanned, 64 usage error.
+`;
+
+const FORMATS: OutputFormat[] = ['table', 'json', 'ndjson'];
+
+class UsageError extends Error {}
+
+const stderr = (text: string) => process.stderr.write(`${text}\n`);
+
+const parseCommandLine = (argv: string[]) => {
+  try {
+    return parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        format: { type: 'string', short: 'f', default: 'table' },
+        recursive: { type: 'boolean', short: 'r', default: false },
+        'fail-on': { type: 'string', default: 'pirated' },
+        'fail-on-risk': { type: 'string', default: 'high' },
+        concurrency: { type: 'string', short: 'c', default: String(DEFAULT_CONCURRENCY) },
+        provider: { type: 'string' },
+        model: { type: 'string' },
+        'url-lists': { type: 'string' },
+        ensemble: { type: 'string' },
+        calibration: { type: 'string' },
+        policy: { type: 'string' },
+        corpus: { type: 'string', multiple: true },
+        labels: { type: 'string' },
+        output: { type: 'string', short: 'o' },
+        verbose: { type: 'boolean', short: 'v', default: false },
+        help: { type: 'boolean', short: 'h', default: false },
+        version: { type: 'boolean', default: false },
+      },
+    });
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+};
+
+const readJsonOption = async <T>(flag: string, file: string, parse: (value: unknown) => T): Promise<T> => {
+  try {
+    return parse(JSON.parse(await readFile(file, 'utf8')));
+  } catch (error) {
+    throw new UsageError(`--${flag}: ${(error as Error).message}`);
+  }
+};
+
+// Results are `decryptc scan --format json|ndjson` output; only labeled, completed scans are used
+const calibrate = async (inputs: string[], labelsFile: string | undefined, output: string | undefined) => {
+  if (!labelsFile) throw new UsageError('calibrate needs --labels <file>');
+  if (inputs.length === 0) throw new UsageError('Give at least one scan results file');
+  const labels = await readJsonOption('labels', labelsFile, parseLabels);
+  const results = [];
+  for (const file of inputs) {
+    try {
+      results.push(...readScanResults(await readFile(file, 'utf8')));
+    } catch (error) {
+      throw new UsageError(`${file}: ${(error as Error).message}`);
+    }
+  }
+
+  const { samples, unlabeled } = labeledSamples(results, labels);
+  let curve: CalibrationCurve;
+  try {
+    curve = fitCalibration(samples);
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+  const accuracy = Math.round((samples.filter(s => s.correct).length / samples.length) * 100);
+  stderr(`Fitted on ${samples.length} labeled report(s)${unlabeled ? `, ${unlabeled} without a label skipped` : ''}: ` +
+    `verdict accuracy ${accuracy}%, Brier score ${curve.brier_before} → ${curve.brier_after}`);
+  const json = `${JSON.stringify(curve, null, 2)}\n`;
+  if (output) await writeFile(output, json);
+  else process.stdout.write(json);
+  return EXIT_CODES.ok;
+};
+
+const main = async (argv: string[]): Promise<number> => {
+  const { values, positionals } = parseCommandLine(argv);
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return EXIT_CODES.ok;
+  }
+  if (values.version) {
+    process.stdout.write(`${APP_VERSION}\n`);
+    return EXIT_CODES.ok;
+  }
+
+  const [command, ...inputs] = positionals;
+  if (command === 'calibrate') return calibrate(inputs, values.labels, values.output);
+  if (command !== 'scan') throw new UsageError(command ? `Unknown command "${command}"` : 'Missing command');
+  if (inputs.length === 0) throw new UsageError('Give at least one file, directory or URL to scan');
+
+  const format = values.format as OutputFormat;
+  if (!FORMATS.includes(format)) throw new UsageError(`Unknown format "${values.format}" (expected ${FORMATS.join(', ')})`);
+  const concurrency = Number(values.concurrency);
+  if (!Number.isInteger(concurrency) || concurrency < 1) throw new UsageError(`--concurrency must be a positive integer`);
+
+  let policy: FailPolicy;
+  try {
+    policy = { verdicts: parseVerdictList(values['fail-on']!), minRisk: parseRisk(values['fail-on-risk']!) };
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+
+  const urlLists: UrlLists | undefined = values['url-lists']
+    ? await readJsonOption('url-lists', values['url-lists'], parseUrlLists)
+    : undefined;
+  let rules: PolicyRule[] | undefined;
+  if (values.policy) {
+    try {
+      rules = parsePolicyText(await readFile(values.policy, 'utf8'));
+    } catch (error) {
+      throw new UsageError(`--policy: ${(error as Error).message}`);
+    }
+  }
+  let codeCorpus: CodeCorpus | undefined;
+  if (values.corpus) {
+    try {
+      codeCorpus = await loadCorpusDirectories(values.corpus);
+    } catch (error) {
+      throw new UsageError(`--corpus: ${(error as Error).message}`);
+    }
+  }
+  const calibrationFile = values.calibration ?? process.env.ANALYSIS_CALIBRATION;
+  const calibration: CalibrationCurve | undefined = calibrationFile
+    ? await readJsonOption('calibration', calibrationFile, parseCalibration)
+    : undefined;
+
+  if (values.provider) process.env.ANALYSIS_PROVIDER = values.provider;
+  if (values.model) process.env.ANALYSIS_MODEL = values.model;
+  let provider: AnalysisProvider;
+  let ensemble: EnsembleMember[] | undefined;
+  try {
+    provider = createAnalysisProvider();
+    ensemble = loadEnsemble(values.ensemble);
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+
+  // Recoverable stage problems (no vault, no canvas) are already in each report's data gaps; provider and
+  // network errors still reach stderr
+  setStageWarnings(values.verbose!);
+
+  let targets: ScanTarget[];
+  try {
+    targets = await resolveTargets(inputs, values.recursive!);
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+  if (targets.length === 0) throw new UsageError('No files found to scan');
+
+  const jobs = createBatchJobs(targets.map(t => t.input)).map((job, i) => ({ ...job, label: targets[i].label }));
+  const byId = new Map(jobs.map(job => [job.id, job]));
+  const results = new Map<string, ScanResult>();
+
+  const record = (job: BatchJob) => {
+    const result: ScanResult = {
+      input: job.label,
+      status: job.status,
+      flagged: job.report ? isFlagged(job.report, policy) : false,
+      report: job.report,
+      error: job.status === 'done' ? undefined : job.detail,
+    };
+    results.set(job.id, result);
+    if (format === 'ndjson') process.stdout.write(`${formatNdjsonLine(result)}\n`);
+    else if (process.stderr.isTTY) {
+      stderr(`[${results.size}/${jobs.length}] ${result.input} — ${result.report?.verdict ?? result.error ?? result.status}`);
+    }
+  };
+
+  // Oversized files are rejected before the batch starts
+  jobs.filter(job => job.status === 'failed').forEach(record);
+
+  const controller = new AbortController();
+  const onInterrupt = () => {
+    if (controller.signal.aborted) process.exit(130);
+    stderr('Cancelling; press Ctrl+C again to quit immediately');
+    controller.abort();
+  };
+  process.on('SIGINT', onInterrupt);
+
+  await runBatch(jobs, {
+    concurrency,
+    scan: (input, options) => analyzeAsset(input, { ...options, urlLists, ensemble, calibration, policy: rules, codeCorpus }),
+    provider,
+    signal: controller.signal,
+    onUpdate: (id, patch) => {
+      const job = Object.assign(byId.get(id)!, patch);
+      if (job.status === 'done' || job.status === 'failed' || job.status === 'cancelled') record(job);
+    },
+  });
+  process.off('SIGINT', onInterrupt);
+
+  const ordered = jobs.map(job => results.get(job.id)).filter((r): r is ScanResult => r !== undefined);
+  if (format === 'json') process.stdout.write(`${formatJson(ordered)}\n`);
+  if (format === 'table') process.stdout.write(`${formatTable(ordered)}\n`);
+  return exitCodeFor(ordered);
+};
+
+main(process.argv.slice(2)).then(
+  code => { process.exitCode = code; },
+  error => {
+    if (error instanceof UsageError) {
+      stderr(`decryptc: ${error.message}\nRun "decryptc --help" for usage.`);
+      process.exitCode = EXIT_CODES.usage;
+    } else {
+      stderr(`decryptc: ${error instanceof Error ? error.stack : error}`);
+      process.exitCode = EXIT_CODES.scanError;
+    }
+  },
+);
@@ -0,0 +1,86 @@
+import { BatchJobStatus, ForensicReport, Verdict } from "../types";
+
+export type OutputFormat = 'json' | 'ndjson' | 'table';
+export type RiskLevel = ForensicReport['risk_level'];
+
+export const EXIT_CODES = {
+  ok: 0,
+  flagged: 1, // at least one report crossed the --fail-on thresholds
+  scanError: 2, // nothing flagged, but at least one input could not be scanned
+  usage: 64,
+} as const;
+
+// Which reports fail the run. Verdicts are listed explicitly; risk is a minimum level
+export interface FailPolicy {
+  verdicts: Verdict[];
+  minRisk?: RiskLevel;
+}
+
+export interface ScanResult {
+  input: string;
+  status: BatchJobStatus;
+  flagged: boolean;
+  report?: ForensicReport;
+  error?: string;
+}
+
+const RISK_ORDER: RiskLevel[] = ['LOW', 'MEDIUM', 'HIGH'];
+
+const VERDICT_NAMES: Record<string, Verdict> = {
+  pirated: Verdict.PIRATED,
+  inconclusive: Verdict.INCONCLUSIVE,
+  original: Verdict.ORIGINAL,
+};
+
+const SHORT_VERDICTS: Record<Verdict, string> = {
+  [Verdict.PIRATED]: 'PIRATED',
+  [Verdict.INCONCLUSIVE]: 'INCONCLUSIVE',
+  [Verdict.ORIGINAL]: 'ORIGINAL',
+};
+
+// "pirated,inconclusive" → verdicts; "none" → no verdict fails the run
+export const parseVerdictList = (value: string): Verdict[] => {
+  if (value.trim().toLowerCase() === 'none') return [];
+  return value.split(',').map(name => {
+    const verdict = VERDICT_NAMES[name.trim().toLowerCase()];
+    if (!verdict) throw new Error(`Unknown verdict "${name}" (expected ${Object.keys(VERDICT_NAMES).join(', ')} or none)`);
+    return verdict;
+  });
+};
+
+export const parseRisk = (value: string): RiskLevel | undefined => {
+  const level = value.trim().toUpperCase();
+  if (level === 'NONE') return undefined;
+  if (!RISK_ORDER.includes(level as RiskLevel)) throw new Error(`Unknown risk level "${value}" (expected low, medium, high or none)`);
+  return level as RiskLevel;
+};
+
+export const isFlagged = (report: ForensicReport, policy: FailPolicy) =>
+  policy.verdicts.includes(report.verdict)
+  || (policy.minRisk !== undefined && RISK_ORDER.indexOf(report.risk_level) >= RISK_ORDER.indexOf(policy.minRisk));
+
+export const exitCodeFor = (results: ScanResult[]) =>
+  results.some(r => r.flagged) ? EXIT_CODES.flagged
+  : results.some(r => r.status !== 'done') ? EXIT_CODES.scanError
+  : EXIT_CODES.ok;
+
+export const formatNdjsonLine = (result: ScanResult) => JSON.stringify(result);
+
+export const formatJson = (results: ScanResult[]) => JSON.stringify(results, null, 2);
+
+export const formatTable = (results: ScanResult[]) => {
+  const rows = results.map(r => [
+    r.status !== 'done' ? 'ERROR' : r.flagged ? 'FLAG' : 'PASS',
+    r.report ? SHORT_VERDICTS[r.report.verdict] : '-',
+    r.report?.risk_level ?? '-',
+    r.report ? `${r.report.confidence_score}%` : '-',
+    r.status === 'done' ? r.input : `${r.input}  (${r.error ?? r.status})`,
+  ]);
+  const header = ['RESULT', 'VERDICT', 'RISK', 'CONF', 'INPUT'];
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map(row => row[i].length)));
+  const line = (cells: string[]) =>
+    cells.map((cell, i) => i === cells.length - 1 ? cell : cell.padEnd(widths[i])).join('  ');
+
+  const counts = ['PASS', 'FLAG', 'ERROR'].map(kind => `${rows.filter(row => row[0] === kind).length} ${kind.toLowerCase()}`);
+  return [line(header), ...rows.map(line), '', `${results.length} scanned: ${counts.join(', ')}`].join('\n');
+};
@@ -0,0 +1,62 @@
+import { openAsBlob } from "node:fs";
+import { readdir, stat } from "node:fs/promises";
+import path from "node:path";
+
+// Browsers fill in File.type; on the command line it comes from the extension
+const MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg', '.jpeg': 'image/jpeg', '.png': 'image/png', '.gif': 'image/gif',
+  '.webp': 'image/webp', '.bmp': 'image/bmp', '.tif': 'image/tiff', '.tiff': 'image/tiff',
+  '.heic': 'image/heic', '.svg': 'image/svg+xml',
+  '.mp4': 'video/mp4', '.mov': 'video/quicktime', '.webm': 'video/webm', '.mkv': 'video/x-matroska', '.avi': 'video/x-msvideo',
+  '.mp3': 'audio/mpeg', '.wav': 'audio/wav', '.flac': 'audio/flac', '.m4a': 'audio/mp4',
+  '.pdf': 'application/pdf',
+  '.doc': 'application/msword',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.odt': 'application/vnd.oasis.opendocument.text',
+  '.txt': 'text/plain', '.md': 'text/markdown', '.csv': 'text/csv', '.json': 'application/json',
+  '.ts': 'text/x-typescript', '.tsx': 'text/x-typescript', '.js': 'text/javascript', '.jsx': 'text/javascript',
+  '.mjs': 'text/javascript', '.cjs': 'text/javascript', '.py': 'text/x-python', '.java': 'text/x-java',
+  '.c': 'text/x-c', '.h': 'text/x-c', '.go': 'text/x-go',
+};
+
+export interface ScanTarget {
+  label: string; // path as given (or found under a given directory), or the URL
+  input: File | string;
+}
+
+const isUrl = (arg: string) => /^https?:\/\//i.test(arg);
+
+// Backed by the file on disk, so nothing is read until the pipeline needs the bytes
+const openFile = async (file: string): Promise<File> =>
+  new File([await openAsBlob(file)], path.basename(file), {
+    type: MIME_TYPES[path.extname(file).toLowerCase()] ?? '',
+  });
+
+// Dotfiles and dot-directories are skipped; they are almost never assets
+const listDirectory = async (dir: string, recursive: boolean): Promise<string[]> => {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const files: string[] = [];
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    if (entry.name.startsWith('.')) continue;
+    const full = path.join(dir, entry.name);
+    if (entry.isFile()) files.push(full);
+    else if (entry.isDirectory() && recursive) files.push(...await listDirectory(full, recursive));
+  }
+  return files;
+};
+
+// Directories contribute their files (all levels with `recursive`, top level otherwise)
+export const resolveTargets = async (args: string[], recursive: boolean): Promise<ScanTarget[]> => {
+  const targets: ScanTarget[] = [];
+  for (const arg of args) {
+    if (isUrl(arg)) {
+      targets.push({ label: arg, input: arg });
+      continue;
+    }
+    const info = await stat(arg).catch(() => null);
+    if (!info) throw new Error(`No such file, directory or URL: ${arg}`);
+    const files = info.isDirectory() ? await listDirectory(arg, recursive) : [arg];
+    for (const file of files) targets.push({ label: file, input: await openFile(file) });
+  }
+  return targets;
+};
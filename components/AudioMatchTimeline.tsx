@@ -0,0 +1,49 @@
+import React from 'react';
+import { AudioAnalysis } from '../types';
+import { AudioLines } from 'lucide-react';
+import { formatTimestamp } from '../services/videoFrames';
+
+export const AudioMatchTimeline: React.FC<{ analysis: AudioAnalysis }> = ({ analysis }) => {
+  const duration = Math.max(1, analysis.duration);
+  return (
+    <div className="bg-slate-900/50 border border-slate-800 rounded-xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-mono text-white flex items-center gap-2">
+          <AudioLines className="w-5 h-5 text-brand-yellow" /> {analysis.source === 'audio' ? 'Audio' : 'Soundtrack'} Fingerprint
+        </h3>
+        <span className="text-xs font-mono text-slate-500">
+          {formatTimestamp(analysis.duration)} · {analysis.hash_count} HASHES · {analysis.references_checked} REFERENCES · {analysis.matches.length} MATCHED
+        </span>
+      </div>
+
+      {/* Matched stretches over the length of the scanned file */}
+      <div className="relative h-6 bg-slate-800 rounded mb-4 overflow-hidden">
+        {analysis.matches.map((m, i) => (
+          <div
+            key={i}
+            className="absolute inset-y-0 bg-neon-red/70 border-x border-black"
+            style={{ left: `${(m.query_start / duration) * 100}%`, width: `${((m.query_end - m.query_start) / duration) * 100}%` }}
+            title={`${m.label} · ${m.similarity}%`}
+          />
+        ))}
+      </div>
+
+      {analysis.matches.length === 0 ? (
+        <p className="text-slate-500 italic text-sm">
+          {analysis.references_checked > 0 ? 'No stretch matched a reference track.' : 'No reference tracks registered in the vault.'}
+        </p>
+      ) : (
+        <ul className="space-y-1 text-sm font-mono">
+          {analysis.matches.map((m, i) => (
+            <li key={i} className="flex gap-4 text-slate-300">
+              <span className="w-28 shrink-0 text-neon-red">{formatTimestamp(m.query_start)}–{formatTimestamp(m.query_end)}</span>
+              <span className="truncate text-white">{m.label}</span>
+              <span className="text-slate-500 shrink-0">@ {formatTimestamp(m.reference_start)}–{formatTimestamp(m.reference_end)}</span>
+              <span className="ml-auto shrink-0">{m.similarity}%</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
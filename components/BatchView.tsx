@@ -0,0 +1,286 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { BatchJob, ForensicReport, Verdict } from '../types';
+import { createBatchJobs, DEFAULT_CONCURRENCY, MAX_CONCURRENCY, parseUrlList, runBatch } from '../services/batchQueue';
+import { createRateLimitGate } from '../services/rateLimitGate';
+import { scanViaServer } from '../services/scanClient';
+import { saveCase } from '../services/caseHistory';
+import { browserSigner } from '../services/custody';
+import { exportCombinedCsv } from '../services/reportExport';
+import { ReportView } from './ReportView';
+import { ArrowLeft, ArrowDown, ArrowUp, FolderOpen, Files, Link as LinkIcon, Play, Square, Trash2, Layers, Clock, Download } from 'lucide-react';
+
+interface BatchViewProps {
+  onBack: () => void;
+}
+
+type SortKey = 'label' | 'status' | 'verdict' | 'risk' | 'confidence';
+
+// Higher rank sorts first when descending
+const VERDICT_RANK: Record<Verdict, number> = {
+  [Verdict.PIRATED]: 3,
+  [Verdict.INCONCLUSIVE]: 2,
+  [Verdict.ORIGINAL]: 1,
+};
+const RISK_RANK: Record<ForensicReport['risk_level'], number> = { HIGH: 3, MEDIUM: 2, LOW: 1 };
+const STATUS_RANK: Record<BatchJob['status'], number> = { running: 5, queued: 4, failed: 3, cancelled: 2, done: 1 };
+
+const sortValue = (job: BatchJob, key: SortKey): string | number => {
+  switch (key) {
+    case 'label': return job.label.toLowerCase();
+    case 'status': return STATUS_RANK[job.status];
+    case 'verdict': return job.report ? VERDICT_RANK[job.report.verdict] : 0;
+    case 'risk': return job.report ? RISK_RANK[job.report.risk_level] : 0;
+    case 'confidence': return job.report?.confidence_score ?? -1;
+  }
+};
+
+const STATUS_STYLES: Record<BatchJob['status'], string> = {
+  queued: 'text-slate-500',
+  running: 'text-white animate-pulse',
+  done: 'text-brand-yellow',
+  failed: 'text-neon-red',
+  cancelled: 'text-slate-600',
+};
+
+const RISK_STYLES: Record<ForensicReport['risk_level'], string> = {
+  HIGH: 'text-neon-red',
+  MEDIUM: 'text-amber-400',
+  LOW: 'text-brand-yellow',
+};
+
+export const BatchView: React.FC<BatchViewProps> = ({ onBack }) => {
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+  const [urlText, setUrlText] = useState('');
+  const [concurrency, setConcurrency] = useState(DEFAULT_CONCURRENCY);
+  const [running, setRunning] = useState(false);
+  const [pausedUntil, setPausedUntil] = useState(0);
+  const [now, setNow] = useState(Date.now());
+  const [sort, setSort] = useState<{ key: SortKey; desc: boolean }>({ key: 'status', desc: true });
+  const [openJobId, setOpenJobId] = useState<string | null>(null);
+  // Case history ids of finished jobs, so an opened report can be reviewed
+  const [caseIds, setCaseIds] = useState<Record<string, string>>({});
+  const abortRef = useRef<AbortController | null>(null);
+  const filesRef = useRef<HTMLInputElement>(null);
+  const folderRef = useRef<HTMLInputElement>(null);
+
+  // React has no typed prop for directory pickers
+  useEffect(() => { folderRef.current?.setAttribute('webkitdirectory', ''); }, []);
+
+  // Leaving the view cancels whatever is still running
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Tick the shared pause countdown
+  useEffect(() => {
+    if (pausedUntil <= now) return;
+    const timer = setTimeout(() => setNow(Date.now()), 1000);
+    return () => clearTimeout(timer);
+  }, [pausedUntil, now]);
+
+  const addInputs = (inputs: (File | string)[]) => {
+    if (inputs.length > 0) setJobs(prev => [...prev, ...createBatchJobs(inputs)]);
+  };
+
+  const addFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addInputs(Array.from(e.target.files ?? []));
+    e.target.value = '';
+  };
+
+  const addUrls = () => {
+    addInputs(parseUrlList(urlText));
+    setUrlText('');
+  };
+
+  const updateJob = (id: string, patch: Partial<BatchJob>) => {
+    if (patch.report) {
+      saveCase(patch.report)
+        .then(record => setCaseIds(prev => ({ ...prev, [id]: record.id })))
+        .catch(err => console.warn("Could not save case to history:", err));
+    }
+    setJobs(prev => prev.map(job => job.id === id ? { ...job, ...patch } : job));
+  };
+
+  const start = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunning(true);
+    const gate = createRateLimitGate(resumeAt => {
+      setPausedUntil(resumeAt);
+      setNow(Date.now());
+    });
+    try {
+      await runBatch(jobs, { concurrency, scan: scanViaServer, gate, signer: browserSigner, signal: controller.signal, onUpdate: updateJob });
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setRunning(false);
+      setPausedUntil(0);
+    }
+  };
+
+  const cancel = () => abortRef.current?.abort();
+
+  const sorted = useMemo(() => {
+    const direction = sort.desc ? -1 : 1;
+    return [...jobs].sort((a, b) => {
+      const x = sortValue(a, sort.key);
+      const y = sortValue(b, sort.key);
+      return x < y ? -direction : x > y ? direction : 0;
+    });
+  }, [jobs, sort]);
+
+  const toggleSort = (key: SortKey) =>
+    setSort(prev => prev.key === key ? { key, desc: !prev.desc } : { key, desc: key !== 'label' });
+
+  const openJob = jobs.find(job => job.id === openJobId);
+  if (openJob?.report) {
+    return <ReportView report={openJob.report} onReset={() => setOpenJobId(null)} resetLabel="BACK TO BATCH" caseRecordId={caseIds[openJob.id]} />;
+  }
+
+  const queued = jobs.filter(job => job.status === 'queued').length;
+  const finished = jobs.filter(job => job.status === 'done' || job.status === 'failed').length;
+  const secondsPaused = Math.ceil((pausedUntil - now) / 1000);
+
+  const header = (key: SortKey, label: string, className = '') => (
+    <th className={`py-2 px-3 font-normal cursor-pointer select-none hover:text-brand-yellow ${className}`} onClick={() => toggleSort(key)}>
+      <span className="inline-flex items-center gap-1">
+        {label}
+        {sort.key === key && (sort.desc ? <ArrowDown className="w-3 h-3" /> : <ArrowUp className="w-3 h-3" />)}
+      </span>
+    </th>
+  );
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-8 animate-fade-in pb-20">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-mono text-brand-yellow flex items-center gap-3">
+          <Layers className="w-6 h-6" /> BATCH SCAN
+        </h2>
+        <button onClick={onBack} className="text-slate-400 hover:text-brand-yellow font-mono text-sm flex items-center gap-2">
+          <ArrowLeft className="w-4 h-4" /> BACK TO SCANNER
+        </button>
+      </div>
+
+      {/* Inputs */}
+      <div className="bg-slate-900/50 border border-slate-800 rounded-xl p-6 space-y-4">
+        <h3 className="text-sm font-mono text-slate-400 uppercase tracking-widest">Add Assets</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <button
+            onClick={() => filesRef.current?.click()}
+            className="border border-dashed border-slate-700 hover:border-brand-yellow/50 rounded-lg px-4 py-6 font-mono text-sm text-slate-400 flex items-center justify-center gap-2"
+          >
+            <Files className="w-4 h-4" /> Select files
+          </button>
+          <button
+            onClick={() => folderRef.current?.click()}
+            className="border border-dashed border-slate-700 hover:border-brand-yellow/50 rounded-lg px-4 py-6 font-mono text-sm text-slate-400 flex items-center justify-center gap-2"
+          >
+            <FolderOpen className="w-4 h-4" /> Select folder
+          </button>
+          <input ref={filesRef} type="file" multiple className="hidden" onChange={addFiles} />
+          <input ref={folderRef} type="file" multiple className="hidden" onChange={addFiles} />
+        </div>
+        <div className="flex flex-col md:flex-row gap-4">
+          <textarea
+            value={urlText}
+            onChange={(e) => setUrlText(e.target.value)}
+            placeholder={"Paste URLs, one per line\nhttps://example.com/stream/episode-1"}
+            rows={3}
+            className="flex-1 bg-black border border-slate-700 rounded-lg px-3 py-2 text-white placeholder:text-slate-600 focus:outline-none focus:border-brand-yellow font-mono text-sm"
+          />
+          <button
+            onClick={addUrls}
+            disabled={!urlText.trim()}
+            className="md:self-end px-4 py-2 border border-slate-700 hover:border-brand-yellow text-slate-300 font-mono text-sm rounded-lg disabled:opacity-50 flex items-center gap-2"
+          >
+            <LinkIcon className="w-4 h-4" /> ADD URLS
+          </button>
+        </div>
+      </div>
+
+      {/* Queue Controls */}
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="text-xs font-mono text-slate-400 flex items-center gap-2">
+          CONCURRENCY
+          <select
+            value={concurrency}
+            onChange={(e) => setConcurrency(Number(e.target.value))}
+            disabled={running}
+            className="bg-black border border-slate-700 rounded px-2 py-1 text-white"
+          >
+            {Array.from({ length: MAX_CONCURRENCY }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+        {running ? (
+          <button onClick={cancel} className="px-6 py-2 border border-neon-red text-neon-red font-mono text-sm rounded-lg flex items-center gap-2">
+            <Square className="w-4 h-4" /> CANCEL BATCH
+          </button>
+        ) : (
+          <button
+            onClick={start}
+            disabled={queued === 0}
+            className="px-6 py-2 bg-brand-yellow text-black font-bold font-mono text-sm rounded-lg disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+          >
+            <Play className="w-4 h-4" /> RUN {queued} QUEUED
+          </button>
+        )}
+        <button
+          onClick={() => setJobs([])}
+          disabled={running || jobs.length === 0}
+          className="text-xs font-mono text-slate-500 hover:text-neon-red disabled:opacity-50 flex items-center gap-2"
+        >
+          <Trash2 className="w-4 h-4" /> CLEAR
+        </button>
+        <button
+          onClick={() => exportCombinedCsv(jobs.flatMap(job => job.report ? [{ report: job.report }] : []))}
+          disabled={!jobs.some(job => job.report)}
+          className="text-xs font-mono text-slate-500 hover:text-brand-yellow disabled:opacity-50 flex items-center gap-2"
+        >
+          <Download className="w-4 h-4" /> EXPORT CSV
+        </button>
+        <span className="ml-auto text-xs font-mono text-slate-500">{finished} / {jobs.length} FINISHED</span>
+      </div>
+
+      {running && secondsPaused > 0 && (
+        <div className="p-3 bg-amber-500/10 border border-amber-500/30 rounded text-sm font-mono text-amber-200 flex items-center gap-2">
+          <Clock className="w-4 h-4" /> Rate limited: queue paused, resuming in {secondsPaused}s
+        </div>
+      )}
+
+      {/* Results */}
+      <div className="bg-slate-900/50 border border-slate-800 rounded-xl overflow-hidden">
+        {jobs.length === 0 ? (
+          <p className="text-slate-500 italic p-6">Add files, a folder or URLs to build the queue.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="text-xs font-mono text-slate-400 uppercase text-left border-b border-slate-800">
+              <tr>
+                {header('label', 'Asset')}
+                {header('status', 'Status')}
+                {header('verdict', 'Verdict')}
+                {header('risk', 'Risk')}
+                {header('confidence', 'Confidence', 'text-right')}
+              </tr>
+            </thead>
+            <tbody>
+              {sorted.map(job => (
+                <tr
+                  key={job.id}
+                  onClick={() => job.report && setOpenJobId(job.id)}
+                  className={`border-b border-slate-800/60 ${job.report ? 'cursor-pointer hover:bg-white/5' : ''}`}
+                >
+                  <td className="py-2 px-3 text-slate-200 font-mono truncate max-w-xs" title={job.label}>{job.label}</td>
+                  <td className="py-2 px-3 font-mono text-xs">
+                    <span className={`uppercase ${STATUS_STYLES[job.status]}`}>{job.status}</span>
+                    {job.detail && <span className="block text-slate-500 truncate max-w-[16rem]" title={job.detail}>{job.detail}</span>}
+                  </td>
+                  <td className="py-2 px-3 text-slate-300">{job.report?.verdict ?? '—'}</td>
+                  <td className={`py-2 px-3 font-mono ${job.report ? RISK_STYLES[job.report.risk_level] : 'text-slate-600'}`}>{job.report?.risk_level ?? '—'}</td>
+                  <td className="py-2 px-3 font-mono text-right text-slate-200">{job.report ? `${job.report.confidence_score}%` : '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
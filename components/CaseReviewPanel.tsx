@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { AuditAction, CaseRecord, CaseReview, CaseStatus, ForensicReport, Verdict } from '../types';
+import { addNote, CASE_STATUSES, clearOverride, overrideOutcome, reviewOf, setStatus } from '../services/caseReview';
+import { ClipboardCheck, MessageSquare, ScrollText } from 'lucide-react';
+
+const inputClass = "w-full bg-black border border-slate-700 rounded-lg px-3 py-2 text-white placeholder:text-slate-600 focus:outline-none focus:border-brand-yellow font-mono text-sm";
+
+const AUDIT_LABELS: Record<AuditAction, string> = {
+  status: 'STATUS',
+  override: 'OVERRIDE',
+  override_cleared: 'OVERRIDE CLEARED',
+  note: 'NOTE',
+  evidence: 'EVIDENCE',
+};
+
+interface CaseReviewPanelProps {
+  record: CaseRecord;
+  analyst: string;
+  onAnalystChange: (name: string) => void;
+  // Resolves false when the change was refused; the reason is shown in `error`
+  onReview: (change: (record: CaseRecord) => CaseReview) => Promise<boolean>;
+  error: string | null;
+}
+
+const stamp = (iso: string) => new Date(iso).toLocaleString();
+
+// Lifecycle status, analyst override, notes and the audit trail of a filed case
+export const CaseReviewPanel: React.FC<CaseReviewPanelProps> = ({ record, analyst, onAnalystChange, onReview, error }) => {
+  const review = reviewOf(record);
+  const [verdict, setVerdict] = useState<Verdict>(review.override?.verdict ?? record.verdict);
+  const [risk, setRisk] = useState<ForensicReport['risk_level']>(review.override?.risk_level ?? record.risk_level);
+  const [justification, setJustification] = useState('');
+  const [note, setNote] = useState('');
+
+  const applyOverride = async () => {
+    if (await onReview(r => overrideOutcome(r, verdict, risk, justification, analyst))) setJustification('');
+  };
+
+  const removeOverride = async () => {
+    if (await onReview(r => clearOverride(r, justification, analyst))) {
+      setJustification('');
+      setVerdict(record.verdict);
+      setRisk(record.risk_level);
+    }
+  };
+
+  const saveNote = async () => {
+    if (await onReview(r => addNote(r, note, analyst))) setNote('');
+  };
+
+  return (
+    <div className="bg-slate-900/50 border border-slate-800 rounded-xl p-6 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h3 className="text-lg font-mono text-brand-yellow flex items-center gap-2">
+          <ClipboardCheck className="w-5 h-5" /> ANALYST REVIEW
+        </h3>
+        <div className="flex items-center gap-3">
+          <input
+            className={`${inputClass} w-48`}
+            placeholder="Your name"
+            value={analyst}
+            onChange={(e) => onAnalystChange(e.target.value)}
+            title="Recorded on every change"
+          />
+          <select
+            className={`${inputClass} w-56`}
+            value={review.status}
+            onChange={(e) => onReview(r => setStatus(r, e.target.value as CaseStatus, analyst))}
+          >
+            {CASE_STATUSES.map(({ status, label }) => <option key={status} value={status}>{label}</option>)}
+          </select>
+        </div>
+      </div>
+      {error && <p className="text-sm text-red-300">{error}</p>}
+
+      {/* Override */}
+      <div className="space-y-3">
+        <p className="text-xs font-mono text-slate-500 uppercase tracking-widest">
+          Override · model output {record.verdict} · {record.risk_level} risk
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <select className={inputClass} value={verdict} onChange={(e) => setVerdict(e.target.value as Verdict)}>
+            {Object.values(Verdict).map(v => <option key={v} value={v}>{v}</option>)}
+          </select>
+          <select className={inputClass} value={risk} onChange={(e) => setRisk(e.target.value as ForensicReport['risk_level'])}>
+            {(['HIGH', 'MEDIUM', 'LOW'] as const).map(r => <option key={r} value={r}>{r} RISK</option>)}
+          </select>
+          <textarea
+            className={`${inputClass} md:col-span-2 h-20 resize-y`}
+            placeholder="Justification (required to override or to clear an override)"
+            value={justification}
+            onChange={(e) => setJustification(e.target.value)}
+          />
+        </div>
+        <div className="flex justify-end gap-3">
+          {review.override && (
+            <button onClick={removeOverride} className="px-4 py-2 border border-slate-700 hover:border-brand-yellow text-slate-300 hover:text-brand-yellow font-mono text-xs rounded transition-colors">
+              RESTORE MODEL OUTPUT
+            </button>
+          )}
+          <button onClick={applyOverride} className="px-4 py-2 bg-brand-yellow text-black font-bold font-mono text-xs rounded">
+            OVERRIDE
+          </button>
+        </div>
+      </div>
+
+      {/* Notes */}
+      <div className="space-y-3">
+        <p className="text-xs font-mono text-slate-500 uppercase tracking-widest flex items-center gap-2">
+          <MessageSquare className="w-4 h-4" /> Notes · {review.notes.length}
+        </p>
+        {review.notes.map(n => (
+          <div key={n.id} className="border-l-2 border-slate-700 pl-3">
+            <p className="text-sm text-slate-300 whitespace-pre-wrap">{n.text}</p>
+            <p className="text-[10px] font-mono text-slate-500">{n.analyst} · {stamp(n.created_at)}</p>
+          </div>
+        ))}
+        <div className="flex gap-3">
+          <textarea className={`${inputClass} h-16 resize-y`} placeholder="Add a note" value={note} onChange={(e) => setNote(e.target.value)} />
+          <button onClick={saveNote} disabled={!note.trim()} className="px-4 py-2 border border-slate-700 hover:border-brand-yellow text-slate-300 hover:text-brand-yellow font-mono text-xs rounded transition-colors disabled:opacity-50 self-end">
+            ADD NOTE
+          </button>
+        </div>
+      </div>
+
+      {/* Audit log */}
+      <div className="space-y-2">
+        <p className="text-xs font-mono text-slate-500 uppercase tracking-widest flex items-center gap-2">
+          <ScrollText className="w-4 h-4" /> Audit Log · {review.audit.length}
+        </p>
+        {review.audit.length === 0 ? (
+          <p className="text-slate-500 italic text-sm">No review activity yet.</p>
+        ) : (
+          <ul className="space-y-1 text-xs font-mono">
+            {[...review.audit].reverse().map((entry, i) => (
+              <li key={i} className="flex gap-3 text-slate-400">
+                <span className="w-40 shrink-0 text-slate-500">{stamp(entry.at)}</span>
+                <span className="w-32 shrink-0 text-brand-yellow">{AUDIT_LABELS[entry.action]}</span>
+                <span className="min-w-0">
+                  <span className="text-slate-300">{entry.detail}</span> — {entry.analyst}
+                  {entry.justification && <span className="block text-slate-500">“{entry.justification}”</span>}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,126 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CodeRepo } from '../types';
+import { deleteCodeRepo, importCodeRepo, isCorpusPath, listCodeRepos, MAX_SOURCE_BYTES, SourceFile } from '../services/codeCorpus';
+import { licenseOfText } from '../services/licenseHeaders';
+import { Code2, FolderOpen, Plus, Trash2 } from 'lucide-react';
+
+const inputClass = "w-full bg-black border border-slate-700 rounded-lg px-3 py-2 text-white placeholder:text-slate-600 focus:outline-none focus:border-brand-yellow font-mono text-sm";
+
+const LICENSE_FILE = /^(LICENSE|COPYING)(\.(md|txt))?$/i;
+
+// A picked folder's files carry paths that start with the folder's own name
+const repoPath = (file: File) => file.webkitRelativePath.split('/').slice(1).join('/');
+
+// Proprietary repositories that scanned source files are fingerprinted against
+export const CodeCorpusPanel: React.FC = () => {
+  const [repos, setRepos] = useState<CodeRepo[]>([]);
+  const [sources, setSources] = useState<File[]>([]);
+  const [name, setName] = useState('');
+  const [owner, setOwner] = useState('');
+  const [license, setLicense] = useState('');
+  const [progress, setProgress] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = () => listCodeRepos().then(setRepos).catch(err => {
+    console.error(err);
+    setError("Could not open the code corpus (IndexedDB unavailable).");
+  });
+
+  useEffect(() => { refresh(); }, []);
+
+  const pickFolder = async (files: File[]) => {
+    setSources(files.filter(file => isCorpusPath(repoPath(file)) && file.size <= MAX_SOURCE_BYTES));
+    const root = files[0]?.webkitRelativePath.split('/')[0];
+    if (root && !name) setName(root);
+    const licenseFile = files.find(file => LICENSE_FILE.test(repoPath(file)));
+    if (licenseFile && !license) setLicense(licenseOfText(await licenseFile.text()) ?? '');
+  };
+
+  const importRepo = async () => {
+    setError(null);
+    setProgress('Reading files');
+    try {
+      const read: SourceFile[] = [];
+      for (const file of sources) read.push({ path: repoPath(file), text: await file.text() });
+      await importCodeRepo({ name, owner, license }, read, (done, total) => setProgress(`Fingerprinting ${done}/${total}`));
+      setSources([]);
+      setName('');
+      setOwner('');
+      setLicense('');
+      if (folderInputRef.current) folderInputRef.current.value = '';
+      await refresh();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Failed to import repository.");
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const removeRepo = async (id: string) => {
+    await deleteCodeRepo(id);
+    await refresh();
+  };
+
+  return (
+    <div className="bg-slate-900/50 border border-slate-800 rounded-xl p-6 space-y-4">
+      <h3 className="text-sm font-mono text-slate-400 uppercase tracking-widest flex items-center gap-2">
+        <Code2 className="w-4 h-4" /> Code Corpus
+      </h3>
+      <p className="text-xs text-slate-500">
+        Import a checkout of each proprietary repository. Its .ts, .js, .py, .java, .c and .go files are tokenized and
+        fingerprinted locally; dependency, build and hidden folders are skipped. Scanned source files are compared against them.
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <button
+          onClick={() => folderInputRef.current?.click()}
+          className={`md:col-span-3 border border-dashed rounded-lg px-4 py-6 font-mono text-sm transition-colors flex items-center justify-center gap-2 ${sources.length ? 'border-brand-yellow text-brand-yellow' : 'border-slate-700 text-slate-500 hover:border-brand-yellow/50'}`}
+        >
+          <FolderOpen className="w-4 h-4" /> {sources.length ? `${sources.length} source file(s) selected` : 'Select repository folder'}
+        </button>
+        <input
+          type="file"
+          ref={folderInputRef}
+          className="hidden"
+          {...{ webkitdirectory: '' }}
+          onChange={(e) => pickFolder(Array.from(e.target.files ?? []))}
+        />
+        <input className={inputClass} placeholder="Repository name" value={name} onChange={(e) => setName(e.target.value)} />
+        <input className={inputClass} placeholder="Owner / rights holder" value={owner} onChange={(e) => setOwner(e.target.value)} />
+        <input className={inputClass} placeholder="License (e.g. Proprietary)" value={license} onChange={(e) => setLicense(e.target.value)} />
+      </div>
+      <div className="flex justify-end">
+        <button
+          onClick={importRepo}
+          disabled={sources.length === 0 || progress !== null}
+          className="px-6 py-2 bg-brand-yellow text-black font-bold font-mono rounded-lg disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+        >
+          <Plus className="w-4 h-4" /> {progress ?? 'IMPORT REPOSITORY'}
+        </button>
+      </div>
+      {error && <p className="text-sm text-red-300">{error}</p>}
+
+      {repos.length === 0 ? (
+        <p className="text-slate-500 italic text-sm">No repositories imported yet.</p>
+      ) : (
+        <div className="divide-y divide-slate-800">
+          {repos.map(repo => (
+            <div key={repo.id} className="flex items-center gap-4 py-3 text-sm">
+              <Code2 className="w-4 h-4 text-brand-yellow" />
+              <div className="flex-1 min-w-0">
+                <p className="text-white truncate">{repo.name}</p>
+                <p className="text-slate-500 text-xs font-mono truncate">
+                  {repo.owner || 'Unknown owner'} · {repo.license || 'No license set'} · {repo.file_count} file(s)
+                </p>
+              </div>
+              <button onClick={() => removeRepo(repo.id)} className="text-slate-600 hover:text-neon-red transition-colors" title="Remove from corpus">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
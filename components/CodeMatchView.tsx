@@ -0,0 +1,75 @@
+import React from 'react';
+import { CodeAnalysis, CodeMatchRange } from '../types';
+import { FileCode2, Scale } from 'lucide-react';
+
+const Excerpt: React.FC<{ title: string; start: number; text: string }> = ({ title, start, text }) => (
+  <div className="min-w-0">
+    <p className="text-xs font-mono text-slate-500 mb-1 truncate">{title}</p>
+    <pre className="bg-black border border-slate-800 rounded p-2 text-xs text-slate-300 overflow-x-auto max-h-72">
+      {text.split('\n').map((line, i) => (
+        <div key={i}><span className="select-none text-slate-600 inline-block w-10 text-right pr-3">{start + i}</span>{line}</div>
+      ))}
+    </pre>
+  </div>
+);
+
+const span = (start: number, end: number) => (start === end ? `${start}` : `${start}–${end}`);
+
+const RangePair: React.FC<{ range: CodeMatchRange; path: string }> = ({ range, path }) => (
+  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+    <Excerpt title={`Scanned file · lines ${span(range.suspect_start, range.suspect_end)}`} start={range.suspect_start} text={range.suspect_excerpt} />
+    <Excerpt title={`${path} · lines ${span(range.corpus_start, range.corpus_end)}`} start={range.corpus_start} text={range.corpus_excerpt} />
+  </div>
+);
+
+export const CodeMatchView: React.FC<{ analysis: CodeAnalysis }> = ({ analysis }) => (
+  <div className="bg-slate-900/50 border border-slate-800 rounded-xl p-6 space-y-6">
+    <div className="flex items-center justify-between">
+      <h3 className="text-lg font-mono text-white flex items-center gap-2">
+        <FileCode2 className="w-5 h-5 text-brand-yellow" /> Source Code Matches
+      </h3>
+      <span className="text-xs font-mono text-slate-500 uppercase">
+        {analysis.language} · {analysis.token_count} TOKENS · {analysis.fingerprint_count} FINGERPRINTS · {analysis.files_checked} CORPUS FILES · {analysis.matches.length} MATCHED
+      </span>
+    </div>
+
+    {analysis.matches.length === 0 ? (
+      <p className="text-slate-500 italic text-sm">
+        {analysis.files_checked > 0 ? 'No overlap with the code corpus.' : 'No repositories imported into the code corpus.'}
+      </p>
+    ) : analysis.matches.map(match => (
+      <div key={`${match.repo_id}/${match.path}`} className="space-y-3">
+        <div className="flex items-center justify-between gap-4 bg-brand-yellow/5 border border-brand-yellow/20 p-3 rounded text-sm">
+          <div className="min-w-0">
+            <p className="text-white font-mono truncate">{match.repo}/{match.path}</p>
+            <p className="text-slate-500 text-xs font-mono truncate">{match.owner || 'Unknown owner'}{match.license ? ` · ${match.license}` : ''}</p>
+          </div>
+          <div className="text-right font-mono whitespace-nowrap">
+            <p className="text-brand-yellow">{match.suspect_percent}% <span className="text-slate-500 text-xs">OF THIS FILE</span></p>
+            <p className="text-slate-400 text-xs">{match.corpus_percent}% of theirs</p>
+          </div>
+        </div>
+        {match.ranges.map((range, i) => <RangePair key={i} range={range} path={match.path} />)}
+      </div>
+    ))}
+
+    <div>
+      <h4 className="text-sm font-mono text-slate-400 uppercase tracking-widest mb-2 flex items-center gap-2">
+        <Scale className="w-4 h-4" /> License Headers
+      </h4>
+      {analysis.license_headers.length === 0 ? (
+        <p className="text-slate-500 italic text-sm">No license or copyright notice found in the scanned file.</p>
+      ) : (
+        <ul className="space-y-1 text-sm font-mono">
+          {analysis.license_headers.map((header, i) => (
+            <li key={i} className="flex gap-4 text-slate-300">
+              <span className="w-16 shrink-0 text-slate-500">L{header.line}</span>
+              <span className="w-28 shrink-0 text-brand-yellow truncate">{header.kind === 'copyright' ? 'Copyright' : header.license}</span>
+              <span className="truncate">{header.text}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  </div>
+);
@@ -0,0 +1,102 @@
+import React from 'react';
+import { EvidenceItem, EvidenceReview } from '../types';
+import { Bot, Check, ExternalLink, Microscope, X } from 'lucide-react';
+import { groupEvidence } from '../services/evidence';
+
+const weightClass = (weight: number) =>
+  weight > 0 ? 'text-neon-red' : weight < 0 ? 'text-neon-green' : 'text-slate-500';
+
+type Decision = EvidenceReview['decision'];
+
+// Analyst decisions on a filed case's evidence; absent for reports that are not in the case history
+export interface EvidenceDecisions {
+  reviews: Record<number, EvidenceReview>;
+  onDecide: (index: number, decision: Decision | null) => void;
+}
+
+const DecisionButtons: React.FC<{ review?: EvidenceReview; onDecide: (decision: Decision | null) => void }> = ({ review, onDecide }) => (
+  <span className="ml-auto flex items-center gap-1 shrink-0">
+    <button
+      onClick={() => onDecide(review?.decision === 'confirmed' ? null : 'confirmed')}
+      className={`p-0.5 rounded border ${review?.decision === 'confirmed' ? 'border-neon-green text-neon-green' : 'border-slate-700 text-slate-600 hover:text-neon-green'}`}
+      title="Confirm"
+    >
+      <Check className="w-3 h-3" />
+    </button>
+    <button
+      onClick={() => onDecide(review?.decision === 'rejected' ? null : 'rejected')}
+      className={`p-0.5 rounded border ${review?.decision === 'rejected' ? 'border-neon-red text-neon-red' : 'border-slate-700 text-slate-600 hover:text-neon-red'}`}
+      title="Reject"
+    >
+      <X className="w-3 h-3" />
+    </button>
+  </span>
+);
+
+const EvidenceRow: React.FC<{ item: EvidenceItem; review?: EvidenceReview; onDecide?: (decision: Decision | null) => void }> = ({ item, review, onDecide }) => (
+  <li className="text-sm group">
+    <div className="flex gap-3">
+      <span className={`font-mono w-10 shrink-0 text-right ${weightClass(item.weight)}`}>
+        {item.weight > 0 ? '+' : ''}{item.weight}
+      </span>
+      <span className={`${item.origin === 'measured' ? 'text-slate-300 group-hover:text-white transition-colors' : 'text-slate-400 italic'} ${review?.decision === 'rejected' ? 'line-through opacity-60' : ''}`}>
+        {item.claim}
+      </span>
+      {onDecide && <DecisionButtons review={review} onDecide={onDecide} />}
+    </div>
+    <div className="flex flex-wrap items-center gap-2 mt-1 ml-[3.25rem] text-[10px] font-mono">
+      {item.origin === 'measured' ? (
+        <span className="flex items-center gap-1 px-1.5 py-0.5 rounded border border-brand-yellow/40 text-brand-yellow">
+          <Microscope className="w-3 h-3" /> MEASURED
+        </span>
+      ) : (
+        <span className="flex items-center gap-1 px-1.5 py-0.5 rounded border border-amber-500/50 text-amber-500">
+          <Bot className="w-3 h-3" /> MODEL-INFERRED
+        </span>
+      )}
+      <span className="text-slate-500">{item.engine}</span>
+      {item.reference && (item.reference.url ? (
+        <a href={item.reference.url} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 text-slate-400 hover:text-white truncate max-w-[16rem]">
+          <ExternalLink className="w-3 h-3 shrink-0" /> {item.reference.label}
+        </a>
+      ) : (
+        <span className="text-slate-400 truncate max-w-[16rem]">→ {item.reference.label}</span>
+      ))}
+      {review && (
+        <span className={review.decision === 'confirmed' ? 'text-neon-green' : 'text-neon-red'}>
+          {review.decision.toUpperCase()} BY {review.analyst} · {new Date(review.at).toLocaleString()}
+        </span>
+      )}
+    </div>
+  </li>
+);
+
+// Evidence grouped by type; model-inferred items are flagged so they are not read as measurements
+export const EvidenceList: React.FC<{ items: EvidenceItem[]; decisions?: EvidenceDecisions }> = ({ items, decisions }) => {
+  if (items.length === 0) return <p className="text-slate-500 italic text-sm">No evidence recorded.</p>;
+  return (
+    <div className="space-y-6">
+      {groupEvidence(items).map(group => (
+        <div key={group.type}>
+          <h4 className="text-xs font-mono text-slate-500 mb-3 tracking-wider">
+            {group.label.toUpperCase()} · {group.items.length}
+          </h4>
+          <ul className="space-y-3">
+            {group.items.map((item, i) => {
+              // Decisions are keyed by position in the ungrouped list
+              const index = items.indexOf(item);
+              return (
+                <EvidenceRow
+                  key={i}
+                  item={item}
+                  review={decisions?.reviews[index]}
+                  onDecide={decisions && (decision => decisions.onDecide(index, decision))}
+                />
+              );
+            })}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,195 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CaseFilter, CaseRecord, CaseStatus, ForensicReport, Verdict } from '../types';
+import { deleteCase, filterCases, listCases } from '../services/caseHistory';
+import { CASE_STATUSES, reviewedOutcome, reviewOf, statusLabel } from '../services/caseReview';
+import { ReportView } from './ReportView';
+import { ArrowLeft, Download, History, Search, Trash2 } from 'lucide-react';
+import { exportCombinedCsv } from '../services/reportExport';
+
+interface HistoryViewProps {
+  onBack: () => void;
+}
+
+const inputClass = "bg-black border border-slate-700 rounded-lg px-3 py-2 text-white placeholder:text-slate-600 focus:outline-none focus:border-brand-yellow font-mono text-sm";
+
+const RISK_STYLES: Record<ForensicReport['risk_level'], string> = {
+  HIGH: 'text-neon-red',
+  MEDIUM: 'text-amber-400',
+  LOW: 'text-brand-yellow',
+};
+
+export const HistoryView: React.FC<HistoryViewProps> = ({ onBack }) => {
+  const [cases, setCases] = useState<CaseRecord[]>([]);
+  const [filter, setFilter] = useState<CaseFilter>({});
+  const [openCase, setOpenCase] = useState<CaseRecord | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = () => listCases().then(setCases).catch(err => {
+    console.error(err);
+    setError("Could not open the case history (IndexedDB unavailable).");
+  });
+
+  useEffect(() => { refresh(); }, []);
+
+  const visible = useMemo(() => filterCases(cases, filter), [cases, filter]);
+
+  const toggleSelected = (id: string) => setSelected(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id); else next.add(id);
+    return next;
+  });
+
+  const allVisibleSelected = visible.length > 0 && visible.every(c => selected.has(c.id));
+  const toggleAllVisible = () =>
+    setSelected(allVisibleSelected ? new Set() : new Set(visible.map(c => c.id)));
+
+  // Selected cases, or everything that passes the filters when nothing is selected
+  const exportCsv = () => {
+    const chosen = selected.size > 0 ? cases.filter(c => selected.has(c.id)) : visible;
+    if (chosen.length > 0) exportCombinedCsv(chosen.map(c => ({ report: c.report, review: c.review })));
+  };
+
+  const update = (patch: Partial<CaseFilter>) => setFilter(prev => ({ ...prev, ...patch }));
+
+  const removeCase = async (e: React.MouseEvent, id: string) => {
+    e.stopPropagation();
+    await deleteCase(id);
+    setSelected(prev => {
+      const next = new Set(prev);
+      next.delete(id);
+      return next;
+    });
+    await refresh();
+  };
+
+  const closeCase = () => {
+    setOpenCase(null);
+    refresh();
+  };
+
+  // Saved reports are rendered as stored; nothing is sent to the model again. Review changes are saved
+  // beside the report, so the list is reloaded on return
+  if (openCase) {
+    return <ReportView report={openCase.report} onReset={closeCase} resetLabel="BACK TO HISTORY" caseRecordId={openCase.id} />;
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-8 animate-fade-in pb-20">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-mono text-brand-yellow flex items-center gap-3">
+          <History className="w-6 h-6" /> CASE HISTORY
+        </h2>
+        <button onClick={onBack} className="text-slate-400 hover:text-brand-yellow font-mono text-sm flex items-center gap-2">
+          <ArrowLeft className="w-4 h-4" /> BACK TO SCANNER
+        </button>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-slate-900/50 border border-slate-800 rounded-xl p-6 grid grid-cols-1 md:grid-cols-6 gap-4">
+        <div className="md:col-span-2 relative">
+          <Search className="w-4 h-4 text-slate-500 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            className={`${inputClass} w-full pl-9`}
+            placeholder="Case ID, file name or URL"
+            value={filter.query ?? ''}
+            onChange={(e) => update({ query: e.target.value })}
+          />
+        </div>
+        <select
+          className={inputClass}
+          value={filter.verdict ?? ''}
+          onChange={(e) => update({ verdict: (e.target.value || undefined) as Verdict | undefined })}
+        >
+          <option value="">All verdicts</option>
+          {Object.values(Verdict).map(v => <option key={v} value={v}>{v}</option>)}
+        </select>
+        <select
+          className={inputClass}
+          value={filter.risk_level ?? ''}
+          onChange={(e) => update({ risk_level: (e.target.value || undefined) as ForensicReport['risk_level'] | undefined })}
+        >
+          <option value="">All risk levels</option>
+          {(['HIGH', 'MEDIUM', 'LOW'] as const).map(r => <option key={r} value={r}>{r}</option>)}
+        </select>
+        <select
+          className={inputClass}
+          value={filter.status ?? ''}
+          onChange={(e) => update({ status: (e.target.value || undefined) as CaseStatus | undefined })}
+        >
+          <option value="">All statuses</option>
+          {CASE_STATUSES.map(({ status, label }) => <option key={status} value={status}>{label}</option>)}
+        </select>
+        <div className="flex items-center gap-2">
+          <input type="date" className={`${inputClass} flex-1 min-w-0`} value={filter.from ?? ''} onChange={(e) => update({ from: e.target.value || undefined })} title="From" />
+          <input type="date" className={`${inputClass} flex-1 min-w-0`} value={filter.to ?? ''} onChange={(e) => update({ to: e.target.value || undefined })} title="To" />
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-300">{error}</p>}
+
+      {/* Saved Cases */}
+      <div className="bg-slate-900/50 border border-slate-800 rounded-xl overflow-hidden">
+        <div className="flex items-center justify-between px-6 pt-4">
+          <p className="text-xs font-mono text-slate-500">{visible.length} OF {cases.length} CASES{selected.size > 0 && ` · ${selected.size} SELECTED`}</p>
+          <button
+            onClick={exportCsv}
+            disabled={visible.length === 0 && selected.size === 0}
+            className="text-xs font-mono text-slate-400 hover:text-brand-yellow disabled:opacity-50 flex items-center gap-2"
+          >
+            <Download className="w-4 h-4" /> EXPORT CSV ({selected.size || visible.length})
+          </button>
+        </div>
+        {visible.length === 0 ? (
+          <p className="text-slate-500 italic p-6">{cases.length === 0 ? 'No scans saved yet.' : 'No cases match these filters.'}</p>
+        ) : (
+          <table className="w-full text-sm mt-2">
+            <thead className="text-xs font-mono text-slate-400 uppercase text-left border-b border-slate-800">
+              <tr>
+                <th className="py-2 pl-6 pr-1 w-4">
+                  <input type="checkbox" checked={allVisibleSelected} onChange={toggleAllVisible} className="accent-brand-yellow" />
+                </th>
+                <th className="py-2 px-3 font-normal">Scanned</th>
+                <th className="py-2 px-3 font-normal">Case</th>
+                <th className="py-2 px-3 font-normal">Source</th>
+                <th className="py-2 px-3 font-normal">Status</th>
+                <th className="py-2 px-3 font-normal">Verdict</th>
+                <th className="py-2 px-3 font-normal">Risk</th>
+                <th className="py-2 px-3 font-normal text-right">Confidence</th>
+                <th className="py-2 px-3 font-normal">Model</th>
+                <th className="py-2 px-3" />
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map(c => {
+                const outcome = reviewedOutcome(c);
+                return (
+                  <tr key={c.id} onClick={() => setOpenCase(c)} className="border-b border-slate-800/60 cursor-pointer hover:bg-white/5">
+                    <td className="py-2 pl-6 pr-1" onClick={(e) => e.stopPropagation()}>
+                      <input type="checkbox" checked={selected.has(c.id)} onChange={() => toggleSelected(c.id)} className="accent-brand-yellow" />
+                    </td>
+                    <td className="py-2 px-3 font-mono text-xs text-slate-400 whitespace-nowrap">{new Date(c.created_at).toLocaleString()}</td>
+                    <td className="py-2 px-3 font-mono text-xs text-slate-300">{c.case_id}</td>
+                    <td className="py-2 px-3 font-mono text-slate-200 truncate max-w-xs" title={c.sha256 ? `${c.source}\nSHA-256 ${c.sha256}` : c.source}>{c.source}</td>
+                    <td className="py-2 px-3 text-xs font-mono text-slate-300 whitespace-nowrap">{statusLabel(reviewOf(c).status)}</td>
+                    <td className="py-2 px-3 text-slate-300" title={outcome.overridden ? `Analyst override · model output ${c.verdict} · ${c.risk_level}` : undefined}>
+                      {outcome.verdict}{outcome.overridden && '*'}
+                    </td>
+                    <td className={`py-2 px-3 font-mono ${RISK_STYLES[outcome.risk_level]}`}>{outcome.risk_level}</td>
+                    <td className="py-2 px-3 font-mono text-right text-slate-200">{c.confidence_score}%</td>
+                    <td className="py-2 px-3 font-mono text-xs text-slate-500">{c.provider} · {c.model}</td>
+                    <td className="py-2 px-3 text-right">
+                      <button onClick={(e) => removeCase(e, c.id)} className="text-slate-500 hover:text-neon-red" title="Delete case">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
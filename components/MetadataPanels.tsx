@@ -0,0 +1,206 @@
+import React from 'react';
+import { DocumentMetadata, ImageMetadata, PdfMetadata, UrlAnalysis } from '../types';
+import { MapPin, History, Eraser } from 'lucide-react';
+
+type Row = [string, string | number | undefined];
+
+const toRows = (rows: Row[]): [string, string][] =>
+  rows
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([label, value]) => [label, String(value)]);
+
+const MetadataGrid: React.FC<{ rows: [string, string][] }> = ({ rows }) => (
+  <dl className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-x-8 gap-y-3 text-sm">
+    {rows.map(([label, value]) => (
+      <div key={label} className="flex justify-between gap-4 border-b border-slate-800 pb-2">
+        <dt className="text-slate-500 font-mono text-xs uppercase">{label}</dt>
+        <dd className="text-slate-200 text-right truncate" title={value}>{value}</dd>
+      </div>
+    ))}
+  </dl>
+);
+
+export const DocumentMetadataPanel: React.FC<{ metadata: DocumentMetadata }> = ({ metadata: m }) => (
+  <div className="bg-slate-900/50 border border-slate-800 rounded-xl p-6">
+    <h3 className="text-lg font-mono text-white mb-4">Document Metadata</h3>
+    <MetadataGrid rows={toRows([
+      ['Format', m.format.toUpperCase()],
+      ['Title', m.title],
+      ['Author', m.creator],
+      ['Last Modified By', m.last_modified_by],
+      ['Created', m.created],
+      ['Modified', m.modified],
+      ['Last Printed', m.last_printed],
+      ['Revisions', m.revision],
+      ['Edit Time', m.total_edit_minutes !== undefined ? `${m.total_edit_minutes} min` : undefined],
+      ['Template', m.template],
+      ['Application', m.application],
+      ['Company', m.company],
+      ['Pages', m.pages],
+      ['Words', m.words],
+    ])} />
+  </div>
+);
+
+export const ImageMetadataPanel: React.FC<{ metadata: ImageMetadata }> = ({ metadata: m }) => {
+  const blocks = [m.has_exif && 'EXIF', m.has_xmp && 'XMP', m.has_iptc && 'IPTC'].filter(Boolean).join(' · ') || 'NONE';
+  return (
+    <div className="bg-slate-900/50 border border-slate-800 rounded-xl p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-mono text-white">Image Metadata</h3>
+        <span className="text-xs font-mono text-slate-500">{m.container.toUpperCase()} · {blocks}</span>
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-6">
+        <div className="flex-1">
+          <MetadataGrid rows={toRows([
+            ['Make', m.make],
+            ['Model', m.model],
+            ['Lens', m.lens],
+            ['Serial', m.serial_number],
+            ['Software', m.software],
+            ['Creator Tool', m.xmp_creator_tool],
+            ['Captured', m.date_time_original],
+            ['Digitized', m.date_time_digitized],
+            ['Modified', m.date_time_modified ?? m.xmp_modify_date],
+            ['EXIF Size', m.pixel_width && m.pixel_height ? `${m.pixel_width}x${m.pixel_height}` : undefined],
+            ['Artist', m.artist],
+            ['Copyright', m.copyright],
+            ['XMP Creator', m.xmp_creators?.join(', ')],
+            ['XMP Rights', m.xmp_rights],
+            ['IPTC By-line', m.iptc_byline],
+            ['IPTC Copyright', m.iptc_copyright],
+            ['IPTC Credit', m.iptc_credit],
+            ['IPTC Source', m.iptc_source],
+          ])} />
+          {m.gps && (
+            <p className="mt-4 text-sm text-slate-300 flex items-center gap-2 font-mono">
+              <MapPin className="w-4 h-4 text-brand-yellow" />
+              {m.gps.latitude.toFixed(5)}, {m.gps.longitude.toFixed(5)}
+              {m.gps.altitude !== undefined && <span className="text-slate-500">· {Math.round(m.gps.altitude)} m</span>}
+            </p>
+          )}
+        </div>
+
+        {m.thumbnail && (
+          <div className="shrink-0 text-center">
+            <img src={m.thumbnail.data_url} alt="Embedded EXIF thumbnail" className="max-w-[160px] rounded border border-slate-700 mx-auto" />
+            <p className="text-xs font-mono text-slate-500 mt-2">
+              EMBEDDED THUMBNAIL {m.thumbnail.width}x{m.thumbnail.height}
+              {m.thumbnail.similarity_to_main !== undefined && <><br />{m.thumbnail.similarity_to_main}% MATCH TO MAIN</>}
+            </p>
+          </div>
+        )}
+      </div>
+
+      {m.edit_history.length > 0 && (
+        <div>
+          <h4 className="text-xs font-mono text-slate-400 uppercase tracking-widest mb-3 flex items-center gap-2">
+            <History className="w-4 h-4" /> XMP Edit History
+          </h4>
+          <ol className="space-y-1 text-sm font-mono">
+            {m.edit_history.map((event, i) => (
+              <li key={i} className="flex gap-4 text-slate-300">
+                <span className="text-brand-yellow w-20 shrink-0">{event.action}</span>
+                <span className="text-slate-500 w-48 shrink-0">{event.when ?? '—'}</span>
+                <span className="truncate">{event.software ?? ''}</span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const PdfMetadataPanel: React.FC<{ metadata: PdfMetadata }> = ({ metadata: m }) => (
+  <div className="bg-slate-900/50 border border-slate-800 rounded-xl p-6 space-y-6">
+    <div className="flex items-center justify-between">
+      <h3 className="text-lg font-mono text-white">PDF Structure</h3>
+      <span className="text-xs font-mono text-slate-500">
+        PDF {m.version} · {m.page_count} PAGES · {m.revision_count} REVISION{m.revision_count === 1 ? '' : 'S'}{m.encrypted ? ' · ENCRYPTED' : ''}
+      </span>
+    </div>
+
+    <MetadataGrid rows={toRows([
+      ['Title', m.title],
+      ['Author', m.author],
+      ['Subject', m.subject],
+      ['Creator', m.creator],
+      ['Producer', m.producer],
+      ['Created', m.created],
+      ['Modified', m.modified],
+      ['XMP Creator Tool', m.xmp_creator_tool],
+      ['XMP Producer', m.xmp_producer],
+      ['XMP Created', m.xmp_created],
+      ['XMP Modified', m.xmp_modified],
+      ['Text Pages', `${m.text_pages} / ${m.page_count}`],
+      ['Rewritten Objects', m.redefined_objects || undefined],
+      ['Embedded Images', m.images.length],
+    ])} />
+
+    {m.removed_objects.length > 0 && (
+      <div>
+        <h4 className="text-xs font-mono text-slate-400 uppercase tracking-widest mb-3 flex items-center gap-2">
+          <Eraser className="w-4 h-4" /> Removed in Later Revisions
+        </h4>
+        <ul className="space-y-1 text-sm font-mono">
+          {m.removed_objects.map(r => (
+            <li key={r.object} className="flex gap-4 text-slate-300">
+              <span className="text-neon-red w-24 shrink-0 uppercase">{r.kind}</span>
+              <span className="text-slate-500 w-32 shrink-0">#{r.object} · rev {r.revision}</span>
+              <span className="truncate">{r.detail}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    )}
+
+    {m.fonts.length > 0 && (
+      <div>
+        <h4 className="text-xs font-mono text-slate-400 uppercase tracking-widest mb-3">Fonts</h4>
+        <div className="flex flex-wrap gap-2">
+          {m.fonts.map(f => (
+            <span key={f.name} className="px-2 py-1 rounded border border-slate-700 text-xs font-mono text-slate-300" title={f.subtype}>
+              {f.name}{!f.embedded && <span className="text-amber-400"> · not embedded</span>}
+            </span>
+          ))}
+        </div>
+      </div>
+    )}
+  </div>
+);
+
+export const UrlAnalysisPanel: React.FC<{ analysis: UrlAnalysis }> = ({ analysis: a }) => (
+  <div className="bg-slate-900/50 border border-slate-800 rounded-xl p-6 space-y-6">
+    <div className="flex items-center justify-between">
+      <h3 className="text-lg font-mono text-white">URL Heuristics</h3>
+      <span className={`text-xs font-mono ${a.score >= 50 ? 'text-neon-red' : a.score >= 20 ? 'text-amber-400' : 'text-slate-500'}`}>
+        SCORE {a.score}/100 · {a.signals.length} SIGNAL{a.signals.length === 1 ? '' : 'S'}
+      </span>
+    </div>
+
+    <MetadataGrid rows={toRows([
+      ['Host', a.host],
+      ['Displays As', a.unicode_host],
+      ['Registrable Domain', a.registrable_domain],
+    ])} />
+
+    {a.signals.length === 0 ? (
+      <p className="text-slate-500 italic text-sm">No heuristic fired for this URL.</p>
+    ) : (
+      <ul className="space-y-1 text-sm font-mono">
+        {a.signals.map(s => (
+          <li key={s.id} className="flex gap-4 text-slate-300">
+            <span className={`w-12 shrink-0 text-right ${s.weight > 0 ? 'text-neon-red' : 'text-neon-green'}`}>
+              {s.weight > 0 ? '+' : ''}{s.weight}
+            </span>
+            <span className="text-slate-500 w-24 shrink-0 uppercase">{s.category}</span>
+            <span className="text-white shrink-0">{s.label}</span>
+            <span className="truncate text-slate-500" title={s.detail}>{s.detail}</span>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
@@ -0,0 +1,195 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CaseReview, ForensicReport, NoticeKind, NoticeTemplate, RightsHolderProfile } from '../types';
+import {
+  DEFAULT_TEMPLATES, EMPTY_PROFILE, NOTICE_KINDS, exportNotice, loadProfile, loadTemplate,
+  noticeTargets, noticeToText, renderNotice, resetTemplate, saveProfile, saveTemplate,
+} from '../services/takedownNotice';
+import { AlertTriangle, ArrowLeft, Copy, Download, FileText, Save, RotateCcw, User } from 'lucide-react';
+
+interface NoticeComposerProps {
+  report: ForensicReport;
+  review?: CaseReview;
+  onBack: () => void;
+}
+
+const inputClass = "w-full bg-black border border-slate-700 rounded-lg px-3 py-2 text-white placeholder:text-slate-600 focus:outline-none focus:border-brand-yellow font-mono text-sm";
+const smallButton = "px-3 py-1.5 border border-slate-700 hover:border-brand-yellow text-slate-300 hover:text-brand-yellow font-mono text-xs rounded transition-colors flex items-center gap-2 disabled:opacity-50";
+
+const PROFILE_FIELDS: [keyof RightsHolderProfile, string][] = [
+  ['name', 'Full name'],
+  ['organization', 'Organization (optional)'],
+  ['email', 'Email'],
+  ['phone', 'Phone (optional)'],
+  ['address', 'Postal address'],
+  ['signature', 'Electronic signature (typed name)'],
+];
+
+export const NoticeComposer: React.FC<NoticeComposerProps> = ({ report, review, onBack }) => {
+  const targets = useMemo(() => noticeTargets(report), [report]);
+  const [kind, setKind] = useState<NoticeKind>('dmca');
+  const [templates, setTemplates] = useState<Record<NoticeKind, NoticeTemplate>>(DEFAULT_TEMPLATES);
+  const [profile, setProfile] = useState<RightsHolderProfile>(EMPTY_PROFILE);
+  const [selectedUrls, setSelectedUrls] = useState<Set<string>>(() => new Set(targets));
+  const [works, setWorks] = useState(report.probable_original_sources.join('\n'));
+  const [status, setStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([loadProfile(), ...NOTICE_KINDS.map(k => loadTemplate(k.kind))])
+      .then(([savedProfile, ...saved]) => {
+        setProfile(savedProfile);
+        setTemplates(Object.fromEntries(saved.map(t => [t.kind, t])) as Record<NoticeKind, NoticeTemplate>);
+      })
+      .catch(err => {
+        console.error(err);
+        setStatus("Saved profile and templates unavailable (IndexedDB); using defaults.");
+      });
+  }, []);
+
+  const template = templates[kind];
+  const notice = useMemo(() => renderNotice(template, {
+    report,
+    review,
+    profile,
+    urls: targets.filter(url => selectedUrls.has(url)),
+    works: works.split('\n'),
+  }), [template, report, review, profile, targets, selectedUrls, works]);
+
+  const flash = (message: string) => {
+    setStatus(message);
+    setTimeout(() => setStatus(null), 2500);
+  };
+
+  const toggleUrl = (url: string) => setSelectedUrls(prev => {
+    const next = new Set(prev);
+    if (next.has(url)) next.delete(url); else next.add(url);
+    return next;
+  });
+
+  const editTemplate = (patch: Partial<NoticeTemplate>) =>
+    setTemplates(prev => ({ ...prev, [kind]: { ...prev[kind], ...patch } }));
+
+  const restoreDefault = async () => {
+    await resetTemplate(kind);
+    setTemplates(prev => ({ ...prev, [kind]: DEFAULT_TEMPLATES[kind] }));
+    flash("Template reset to default.");
+  };
+
+  const copyText = async () => {
+    await navigator.clipboard.writeText(noticeToText(notice));
+    flash("Notice copied to clipboard.");
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-8 animate-fade-in pb-20">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-mono text-brand-yellow flex items-center gap-3">
+          <FileText className="w-6 h-6" /> TAKEDOWN NOTICE
+        </h2>
+        <button onClick={onBack} className="text-slate-400 hover:text-brand-yellow font-mono text-sm flex items-center gap-2">
+          <ArrowLeft className="w-4 h-4" /> BACK TO REPORT
+        </button>
+      </div>
+
+      <div className="flex gap-2">
+        {NOTICE_KINDS.map(k => (
+          <button
+            key={k.kind}
+            onClick={() => setKind(k.kind)}
+            className={`px-4 py-2 font-mono text-xs rounded border transition-colors ${kind === k.kind ? 'border-brand-yellow text-brand-yellow bg-brand-yellow/10' : 'border-slate-700 text-slate-400 hover:text-white'}`}
+          >
+            {k.label}
+          </button>
+        ))}
+        <span className="ml-auto self-center text-xs font-mono text-slate-500">CASE {report.case_id}</span>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-6">
+          {/* Targets */}
+          <div className="bg-slate-900/50 border border-slate-800 rounded-xl p-6 space-y-3">
+            <h3 className="text-sm font-mono text-slate-400 uppercase tracking-widest">Infringing URLs ({selectedUrls.size}/{targets.length})</h3>
+            {targets.length === 0 ? (
+              <p className="text-slate-500 italic text-sm">This report lists no URLs to take down.</p>
+            ) : targets.map(url => (
+              <label key={url} className="flex items-start gap-3 text-sm font-mono text-slate-300 cursor-pointer break-all">
+                <input type="checkbox" checked={selectedUrls.has(url)} onChange={() => toggleUrl(url)} className="accent-brand-yellow mt-1" />
+                {url}
+              </label>
+            ))}
+          </div>
+
+          {/* Works */}
+          <div className="bg-slate-900/50 border border-slate-800 rounded-xl p-6 space-y-3">
+            <h3 className="text-sm font-mono text-slate-400 uppercase tracking-widest">Copyrighted work(s) — one per line</h3>
+            <textarea className={`${inputClass} h-24`} value={works} onChange={(e) => setWorks(e.target.value)} placeholder="Title, registration number or URL of the original" />
+          </div>
+
+          {/* Profile */}
+          <div className="bg-slate-900/50 border border-slate-800 rounded-xl p-6 space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-mono text-slate-400 uppercase tracking-widest flex items-center gap-2">
+                <User className="w-4 h-4" /> Rights holder
+              </h3>
+              <button onClick={() => saveProfile(profile).then(() => flash("Profile saved."))} className={smallButton}>
+                <Save className="w-3 h-3" /> SAVE PROFILE
+              </button>
+            </div>
+            {PROFILE_FIELDS.map(([field, label]) => field === 'address' ? (
+              <textarea key={field} className={`${inputClass} h-16`} placeholder={label} value={profile[field]}
+                onChange={(e) => setProfile(prev => ({ ...prev, [field]: e.target.value }))} />
+            ) : (
+              <input key={field} className={inputClass} placeholder={label} value={profile[field]}
+                onChange={(e) => setProfile(prev => ({ ...prev, [field]: e.target.value }))} />
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          {/* Template */}
+          <div className="bg-slate-900/50 border border-slate-800 rounded-xl p-6 space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-mono text-slate-400 uppercase tracking-widest">Template</h3>
+              <div className="flex gap-2">
+                <button onClick={restoreDefault} className={smallButton}>
+                  <RotateCcw className="w-3 h-3" /> RESET
+                </button>
+                <button onClick={() => saveTemplate(template).then(() => flash("Template saved."))} className={smallButton}>
+                  <Save className="w-3 h-3" /> SAVE TEMPLATE
+                </button>
+              </div>
+            </div>
+            <input className={inputClass} value={template.subject} onChange={(e) => editTemplate({ subject: e.target.value })} />
+            <textarea className={`${inputClass} h-48 text-xs`} value={template.body} onChange={(e) => editTemplate({ body: e.target.value })} />
+            <p className="text-xs text-slate-500 font-mono">
+              Placeholders: {'{{urls}} {{works}} {{evidence}} {{case_id}} {{date}} {{content_sha256}} {{holder_name}} {{holder_party}} {{holder_email}} {{holder_address}} {{signature}} {{verdict}} {{risk_level}} {{case_status}} {{override_justification}}'}
+            </p>
+          </div>
+
+          {/* Preview */}
+          <div className="bg-slate-900/50 border border-slate-800 rounded-xl p-6 space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-mono text-slate-400 uppercase tracking-widest">Preview</h3>
+              <div className="flex gap-2">
+                <button onClick={copyText} className={smallButton}><Copy className="w-3 h-3" /> COPY</button>
+                <button onClick={() => exportNotice(notice, report.case_id, 'txt')} className={smallButton}><Download className="w-3 h-3" /> TEXT</button>
+                <button onClick={() => exportNotice(notice, report.case_id, 'pdf')} className={smallButton}><Download className="w-3 h-3" /> PDF</button>
+              </div>
+            </div>
+            {(notice.missing.length > 0 || selectedUrls.size === 0) && (
+              <div className="flex gap-2 text-xs text-amber-300 bg-amber-500/10 border border-amber-500/30 rounded p-3">
+                <AlertTriangle className="w-4 h-4 shrink-0" />
+                <span>
+                  {selectedUrls.size === 0 && 'No URLs selected. '}
+                  {notice.missing.length > 0 && `Missing: ${notice.missing.join(', ')}.`}
+                </span>
+              </div>
+            )}
+            <p className="text-sm font-mono text-white">{notice.subject}</p>
+            <pre className="text-xs text-slate-300 whitespace-pre-wrap font-mono bg-black/40 rounded p-4 max-h-[32rem] overflow-y-auto">{notice.body}</pre>
+          </div>
+          {status && <p className="text-xs font-mono text-brand-yellow">{status}</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
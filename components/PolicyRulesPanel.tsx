@@ -0,0 +1,72 @@
+import React, { useEffect, useState } from 'react';
+import { EXAMPLE_POLICY, loadPolicyText, parsePolicyText, savePolicyText } from '../services/policyRules';
+import { Gavel, Save } from 'lucide-react';
+
+// Team rules that adjust verdict, risk and actions on every finished report
+export const PolicyRulesPanel: React.FC = () => {
+  const [text, setText] = useState('');
+  const [status, setStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadPolicyText().then(setText).catch(err => {
+      console.error(err);
+      setStatus("Could not load saved rules.");
+    });
+  }, []);
+
+  let ruleCount: number | null = null;
+  try {
+    ruleCount = parsePolicyText(text).length;
+  } catch {
+    // Shown on save; the count just goes blank while the text is invalid
+  }
+
+  const save = async () => {
+    try {
+      await savePolicyText(text);
+      setStatus("Saved. New scans apply these rules.");
+    } catch (err) {
+      console.error(err);
+      setStatus(err instanceof Error ? err.message : "Failed to save rules.");
+    }
+  };
+
+  return (
+    <div className="bg-slate-900/50 border border-slate-800 rounded-xl p-6 space-y-4">
+      <h3 className="text-sm font-mono text-slate-400 uppercase tracking-widest flex items-center gap-2">
+        <Gavel className="w-4 h-4" /> Policy Rules {ruleCount !== null && `(${ruleCount})`}
+      </h3>
+      <p className="text-xs text-slate-500">
+        JSON or YAML. Rules run top to bottom on each finished report and can set the verdict or risk, cap or raise the
+        risk, and add recommended actions. Reports list the rules that fired and what they changed.
+      </p>
+      <textarea
+        className="w-full h-72 bg-black border border-slate-700 rounded-lg px-3 py-2 text-white placeholder:text-slate-700 focus:outline-none focus:border-brand-yellow font-mono text-xs resize-y"
+        placeholder={EXAMPLE_POLICY}
+        spellCheck={false}
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          setStatus(null);
+        }}
+      />
+      <div className="flex items-center justify-end gap-4">
+        {status && <p className="text-xs text-slate-400">{status}</p>}
+        {!text.trim() && (
+          <button
+            onClick={() => setText(EXAMPLE_POLICY)}
+            className="px-4 py-2 border border-slate-700 text-slate-300 hover:text-white font-mono text-sm rounded-lg"
+          >
+            LOAD EXAMPLE
+          </button>
+        )}
+        <button
+          onClick={save}
+          className="px-6 py-2 bg-brand-yellow text-black font-bold font-mono rounded-lg flex items-center gap-2"
+        >
+          <Save className="w-4 h-4" /> SAVE RULES
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,11 +1,25 @@
-import React from 'react';
-import { ForensicReport, Verdict } from '../types';
+import React, { useEffect, useMemo, useState } from 'react';
+import { CaseRecord, CaseReview, ForensicReport, Verdict } from '../types';
+import { DocumentMetadataPanel, ImageMetadataPanel, PdfMetadataPanel, UrlAnalysisPanel } from './MetadataPanels';
+import { VideoFilmstrip } from './VideoFilmstrip';
+import { AudioMatchTimeline } from './AudioMatchTimeline';
+import { CodeMatchView } from './CodeMatchView';
+import { EvidenceList } from './EvidenceList';
+import { NoticeComposer } from './NoticeComposer';
+import { CaseReviewPanel } from './CaseReviewPanel';
 import { PieChart, Pie, Cell, ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip, TooltipProps } from 'recharts';
-import { AlertTriangle, CheckCircle, FileWarning, ExternalLink, ShieldAlert, ArrowRight } from 'lucide-react';
+import { AlertTriangle, CheckCircle, FileWarning, ExternalLink, ShieldAlert, ArrowRight, Download, Fingerprint, FileText, Stamp, Gavel, Layers } from 'lucide-react';
+import { contentHash, ExportFormat, exportReport } from '../services/reportExport';
+import { evidenceItems } from '../services/evidence';
+import { formatPolicyChange } from '../services/policyRules';
+import { getCase, updateReview } from '../services/caseHistory';
+import { loadAnalyst, reviewedOutcome, reviewEvidence, saveAnalyst } from '../services/caseReview';
 
 interface ReportViewProps {
   report: ForensicReport;
   onReset: () => void;
+  resetLabel?: string;
+  caseRecordId?: string; // set when the report is filed in the case history, enabling analyst review
 }
 
 const COLORS = {
@@ -15,6 +29,13 @@ const COLORS = {
   safe: '#0aff64'
 };
 
+const EXPORT_FORMATS: [ExportFormat, string][] = [
+  ['pdf', 'PDF'],
+  ['json', 'JSON'],
+  ['md', 'MARKDOWN'],
+  ['csv', 'CSV'],
+];
+
 const CustomTooltip = ({ active, payload, label }: TooltipProps<number, string>) => {
   if (active && payload && payload.length) {
     return (
@@ -26,8 +47,63 @@ const CustomTooltip = ({ active, payload, label }: TooltipProps<number, string>)
   return null;
 };
 
-export const ReportView: React.FC<ReportViewProps> = ({ report, onReset }) => {
-  
+const VERDICT_COLORS: Record<Verdict, string> = {
+  [Verdict.PIRATED]: COLORS.high,
+  [Verdict.ORIGINAL]: COLORS.safe,
+  [Verdict.INCONCLUSIVE]: COLORS.medium,
+};
+
+type ScoreRow = { name: string; score: number; verdict?: Verdict };
+
+const ScoreBars: React.FC<{ data: ScoreRow[]; color: (row: ScoreRow) => string }> = ({ data, color }) => (
+  <div className="w-full" style={{ height: Math.max(96, data.length * 36) }}>
+    <ResponsiveContainer width="100%" height="100%">
+      <BarChart data={data} layout="vertical" margin={{ left: 40 }}>
+        <XAxis type="number" domain={[0, 100]} hide />
+        <YAxis dataKey="name" type="category" stroke="#94a3b8" fontSize={12} tickLine={false} axisLine={false} width={140} />
+        <Tooltip cursor={{fill: 'rgba(255,255,255,0.05)'}} content={<CustomTooltip />} />
+        <Bar dataKey="score" radius={[0, 4, 4, 0]} barSize={20}>
+          {data.map((row, i) => <Cell key={i} fill={color(row)} />)}
+        </Bar>
+      </BarChart>
+    </ResponsiveContainer>
+  </div>
+);
+
+export const ReportView: React.FC<ReportViewProps> = ({ report, onReset, resetLabel = 'START NEW SCAN', caseRecordId }) => {
+  const [composingNotice, setComposingNotice] = useState(false);
+  const [record, setRecord] = useState<CaseRecord | null>(null);
+  const [analyst, setAnalyst] = useState('');
+  const [reviewError, setReviewError] = useState<string | null>(null);
+  const evidence = useMemo(() => evidenceItems(report), [report]);
+
+  useEffect(() => {
+    if (!caseRecordId) return;
+    getCase(caseRecordId).then(found => setRecord(found ?? null)).catch(err => console.warn("Could not load case review:", err));
+    loadAnalyst().then(setAnalyst).catch(() => {});
+  }, [caseRecordId]);
+
+  const changeAnalyst = (name: string) => {
+    setAnalyst(name);
+    saveAnalyst(name).catch(err => console.warn("Could not save analyst name:", err));
+  };
+
+  const changeReview = async (change: (record: CaseRecord) => CaseReview) => {
+    if (!record) return false;
+    setReviewError(null);
+    try {
+      setRecord(await updateReview(record.id, change));
+      return true;
+    } catch (err) {
+      setReviewError(err instanceof Error ? err.message : "Could not update the case.");
+      return false;
+    }
+  };
+
+  // The signed report is never changed; an analyst override only changes what is displayed
+  const outcome = record ? reviewedOutcome(record) : { verdict: report.verdict, risk_level: report.risk_level, overridden: false };
+  const override = record?.review?.override;
+
   const getRiskColor = (risk: string) => {
     switch (risk) {
       case 'HIGH': return 'text-neon-red border-neon-red shadow-[0_0_15px_rgba(255,0,60,0.3)]';
@@ -37,12 +113,7 @@ export const ReportView: React.FC<ReportViewProps> = ({ report, onReset }) => {
     }
   };
 
-  const engineData = report.engine_scores || [
-    { name: 'TinEye', score: report.confidence_score },
-    { name: 'Yandex', score: report.confidence_score * 0.9 },
-    { name: 'Bing', score: report.confidence_score * 0.85 },
-    { name: 'Meta', score: report.confidence_score * 0.95 },
-  ];
+  const ensemble = report.ensemble;
 
   const confidenceData = [
     { name: 'Confidence', value: report.confidence_score },
@@ -52,8 +123,12 @@ export const ReportView: React.FC<ReportViewProps> = ({ report, onReset }) => {
   // Logic: Pirated = Red, Original = Green, Inconclusive = Yellow (or standard colors)
   // To stick to yellow theme: we use yellow as a primary accent, but verdict colors should likely remain semantic (Red/Green/Orange)
   const verdictColor = 
-    report.verdict === Verdict.PIRATED ? COLORS.high : 
-    report.verdict === Verdict.ORIGINAL ? COLORS.safe : COLORS.medium;
+    outcome.verdict === Verdict.PIRATED ? COLORS.high : 
+    outcome.verdict === Verdict.ORIGINAL ? COLORS.safe : COLORS.medium;
+
+  if (composingNotice) {
+    return <NoticeComposer report={report} review={record?.review} onBack={() => setComposingNotice(false)} />;
+  }
 
   return (
     <div className="max-w-6xl mx-auto space-y-8 animate-fade-in pb-20">
@@ -61,21 +136,37 @@ export const ReportView: React.FC<ReportViewProps> = ({ report, onReset }) => {
       {/* Header Section */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         {/* Verdict Card */}
-        <div className={`md:col-span-2 p-8 rounded-xl border-l-4 bg-slate-900/50 backdrop-blur border-t border-r border-b border-slate-800 ${getRiskColor(report.risk_level)}`}>
+        <div className={`md:col-span-2 p-8 rounded-xl border-l-4 bg-slate-900/50 backdrop-blur border-t border-r border-b border-slate-800 ${getRiskColor(outcome.risk_level)}`}>
           <div className="flex items-start justify-between">
             <div>
-              <p className="text-xs font-mono opacity-70 mb-2 uppercase tracking-widest">Forensic Verdict</p>
+              <p className="text-xs font-mono opacity-70 mb-2 uppercase tracking-widest">
+                {outcome.overridden ? 'Analyst Verdict' : 'Forensic Verdict'}
+              </p>
               <h2 className="text-3xl md:text-4xl font-bold font-mono leading-tight">
-                {report.verdict}
+                {outcome.verdict}
               </h2>
             </div>
-            {report.risk_level === 'HIGH' ? <ShieldAlert className="w-12 h-12 opacity-80" /> : 
-             report.risk_level === 'LOW' ? <CheckCircle className="w-12 h-12 opacity-80" /> : 
+            {outcome.risk_level === 'HIGH' ? <ShieldAlert className="w-12 h-12 opacity-80" /> : 
+             outcome.risk_level === 'LOW' ? <CheckCircle className="w-12 h-12 opacity-80" /> : 
              <AlertTriangle className="w-12 h-12 opacity-80" />}
           </div>
+          {override && (
+            <div className="mt-4 p-3 bg-white/5 border border-white/10 rounded text-xs font-mono text-slate-300">
+              <p className="uppercase tracking-widest mb-1">
+                Overridden by {override.analyst} · {new Date(override.at).toLocaleString()} · model output {report.verdict} · {report.risk_level} risk
+              </p>
+              <p className="text-slate-400">{override.justification}</p>
+            </div>
+          )}
           <p className="mt-4 text-slate-300 leading-relaxed border-t border-white/10 pt-4">
             {report.summary}
           </p>
+          {report.validation_warnings && report.validation_warnings.length > 0 && (
+            <div className="mt-4 p-3 bg-amber-500/10 border border-amber-500/30 rounded text-xs font-mono text-amber-200">
+              <p className="uppercase tracking-widest mb-1">Inconsistent model output</p>
+              {report.validation_warnings.map((warning, i) => <p key={i}>{warning}</p>)}
+            </div>
+          )}
         </div>
 
         {/* Confidence Gauge */}
@@ -105,9 +196,69 @@ export const ReportView: React.FC<ReportViewProps> = ({ report, onReset }) => {
           <div className="absolute top-1/2 mt-4 text-center">
             <span className="text-4xl font-bold text-white">{report.confidence_score}%</span>
           </div>
+          {report.calibration && (
+            <p className="absolute bottom-4 text-[10px] font-mono text-slate-500 text-center">
+              CALIBRATED FROM {report.calibration.raw_confidence}% · {report.calibration.samples} LABELED SCANS
+            </p>
+          )}
         </div>
       </div>
 
+      {record && (
+        <CaseReviewPanel record={record} analyst={analyst} onAnalystChange={changeAnalyst} onReview={changeReview} error={reviewError} />
+      )}
+
+      {/* Team policy overrode the model: say so before anything else is read */}
+      {report.policy && (
+        <div className="p-6 rounded-xl border border-brand-yellow/50 bg-brand-yellow/5 space-y-3">
+          <p className="text-xs font-mono text-brand-yellow uppercase tracking-widest flex items-center gap-2">
+            <Gavel className="w-4 h-4" /> Policy Rules Applied · {report.policy.fired.length}
+          </p>
+          <ul className="space-y-2 text-sm">
+            {report.policy.fired.map(firing => (
+              <li key={firing.rule_id}>
+                <span className="font-mono text-white">{firing.rule_id}</span>
+                {firing.description && <span className="text-slate-400"> — {firing.description}</span>}
+                <p className="text-xs font-mono text-slate-500">
+                  {firing.changes.length > 0 ? firing.changes.map(formatPolicyChange).join(' · ') : 'matched; report already complied'}
+                </p>
+              </li>
+            ))}
+          </ul>
+          <p className="text-xs font-mono text-slate-500 border-t border-white/10 pt-2">
+            MODEL OUTPUT: {report.policy.model_output.verdict} · {report.policy.model_output.risk_level} RISK
+          </p>
+        </div>
+      )}
+
+      {/* Decoded watermark outranks everything below it */}
+      {report.watermark && (
+        <div className={`p-6 rounded-xl border-2 flex items-start gap-4 ${report.watermark.asset && !report.watermark.owner_mismatch ? 'border-brand-yellow bg-brand-yellow/10' : 'border-amber-500/60 bg-amber-500/10'}`}>
+          <Stamp className="w-8 h-8 text-brand-yellow shrink-0" />
+          <div className="min-w-0 space-y-1">
+            <p className="text-xs font-mono text-brand-yellow uppercase tracking-widest">Invisible Watermark Detected</p>
+            {report.watermark.asset ? (
+              <>
+                <p className="text-xl font-bold text-white">
+                  Registered to {report.watermark.asset.owner || 'an unnamed owner'}
+                </p>
+                <p className="text-sm text-slate-300 truncate">
+                  Vault asset “{report.watermark.asset.title}”{report.watermark.asset.license ? ` · ${report.watermark.asset.license}` : ''}
+                </p>
+                {report.watermark.owner_mismatch && (
+                  <p className="text-sm text-amber-300">The embedded owner id does not match this asset's registered owner.</p>
+                )}
+              </>
+            ) : (
+              <p className="text-lg font-bold text-white">Owner {report.watermark.owner_id} · not registered in this vault</p>
+            )}
+            <p className="text-xs font-mono text-slate-500">
+              OWNER ID {report.watermark.owner_id} · ASSET ID {report.watermark.asset_id} · {report.watermark.agreement}% OF COPIES AGREE
+            </p>
+          </div>
+        </div>
+      )}
+
       {/* Analysis Grid */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
         
@@ -116,34 +267,73 @@ export const ReportView: React.FC<ReportViewProps> = ({ report, onReset }) => {
           <h3 className="text-lg font-mono text-brand-yellow mb-6 flex items-center gap-2">
             <FileWarning className="w-5 h-5" /> KEY EVIDENCE
           </h3>
-          <ul className="space-y-4">
-            {report.key_evidence.map((evidence, i) => (
-              <li key={i} className="flex gap-3 text-sm text-slate-300 group">
-                <span className="text-brand-yellow font-mono mt-1">0{i + 1}</span>
-                <span className="group-hover:text-white transition-colors">{evidence}</span>
-              </li>
-            ))}
-          </ul>
+          <EvidenceList
+            items={evidence}
+            decisions={record ? {
+              reviews: record.review?.evidence ?? {},
+              onDecide: (index, decision) => changeReview(r => reviewEvidence(r, index, evidence[index], decision, analyst)),
+            } : undefined}
+          />
         </div>
 
-        {/* Engine Correlation Chart */}
-        <div className="bg-slate-900/50 border border-slate-800 rounded-xl p-6">
-          <h3 className="text-lg font-mono text-brand-yellow mb-6 flex items-center gap-2">
+        {/* Engine scores: measured by local stages, and one bar per ensemble run. Nothing is estimated */}
+        <div className="bg-slate-900/50 border border-slate-800 rounded-xl p-6 space-y-6">
+          <h3 className="text-lg font-mono text-brand-yellow flex items-center gap-2">
             <ExternalLink className="w-5 h-5" /> CROSS-ENGINE CORRELATION
           </h3>
-          <div className="h-64 w-full">
-            <ResponsiveContainer width="100%" height="100%">
-              <BarChart data={engineData} layout="vertical" margin={{ left: 40 }}>
-                <XAxis type="number" domain={[0, 100]} hide />
-                <YAxis dataKey="name" type="category" stroke="#94a3b8" fontSize={12} tickLine={false} axisLine={false} />
-                <Tooltip cursor={{fill: 'rgba(255,255,255,0.05)'}} content={<CustomTooltip />} />
-                <Bar dataKey="score" fill={verdictColor} radius={[0, 4, 4, 0]} barSize={20} />
-              </BarChart>
-            </ResponsiveContainer>
-          </div>
+          {report.engine_scores && report.engine_scores.length > 0 && (
+            <div>
+              <p className="text-xs font-mono text-slate-500 mb-2">
+                {report.image_fingerprint
+                  ? `MEASURED SIMILARITY VS. CLOSEST INDEXED IMAGE · pHash ${report.image_fingerprint.phash}`
+                  : 'MEASURED BY LOCAL ENGINES'}
+              </p>
+              <ScoreBars data={report.engine_scores} color={() => verdictColor} />
+            </div>
+          )}
+          {ensemble && (
+            <div>
+              <p className="text-xs font-mono text-slate-500 mb-2">
+                {ensemble.runs.length} MODEL RUNS · {ensemble.agreement}% AGREE ON VERDICT · CONFIDENCE SPREAD {ensemble.confidence_spread} PTS (σ {ensemble.confidence_stdev})
+                {ensemble.failed > 0 && ` · ${ensemble.failed} FAILED`}
+              </p>
+              <ScoreBars
+                data={ensemble.runs.map(run => ({ name: run.label, score: run.confidence_score, verdict: run.verdict }))}
+                color={row => VERDICT_COLORS[row.verdict!]}
+              />
+            </div>
+          )}
+          {!report.engine_scores?.length && !ensemble && (
+            <p className="text-slate-500 italic h-64 flex items-center justify-center text-center px-6">
+              No per-engine data: no local engine produced a score for this input, and the verdict comes from a single model run.
+            </p>
+          )}
         </div>
       </div>
 
+      {/* Large inputs: one model request per page range, text stretch or time window */}
+      {report.segments && report.segments.length > 0 && (
+        <div className="bg-slate-900/50 border border-slate-800 rounded-xl p-6">
+          <h3 className="text-lg font-mono text-white mb-4 flex items-center gap-2">
+            <Layers className="w-5 h-5 text-brand-yellow" /> Parts Analyzed ({report.segments.length})
+          </h3>
+          <div className="space-y-3">
+            {report.segments.map((segment, i) => (
+              <div key={i} className="border-l-2 pl-4 py-1" style={{ borderColor: VERDICT_COLORS[segment.verdict] }}>
+                <div className="flex flex-wrap items-baseline gap-x-3 text-xs font-mono">
+                  <span className="text-white">{segment.label}</span>
+                  <span style={{ color: VERDICT_COLORS[segment.verdict] }}>{segment.verdict}</span>
+                  <span className="text-slate-500">
+                    {segment.confidence_score}% · {segment.risk_level} RISK{segment.agreement !== undefined && ` · ${segment.agreement}% AGREE`}
+                  </span>
+                </div>
+                <p className="text-sm text-slate-400 mt-1">{segment.summary}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Actionable Intelligence */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
         <div className="bg-slate-900/50 border border-slate-800 rounded-xl p-6 relative overflow-hidden">
@@ -173,12 +363,86 @@ export const ReportView: React.FC<ReportViewProps> = ({ report, onReset }) => {
         </div>
       </div>
       
+      {report.video_analysis && <VideoFilmstrip analysis={report.video_analysis} />}
+      {report.audio_analysis && <AudioMatchTimeline analysis={report.audio_analysis} />}
+      {report.code_analysis && <CodeMatchView analysis={report.code_analysis} />}
+
+      {/* Embedded Metadata */}
+      {report.metadata && <ImageMetadataPanel metadata={report.metadata} />}
+      {report.document_metadata && <DocumentMetadataPanel metadata={report.document_metadata} />}
+      {report.pdf_metadata && <PdfMetadataPanel metadata={report.pdf_metadata} />}
+      {report.url_analysis && <UrlAnalysisPanel analysis={report.url_analysis} />}
+
+      {/* Vault Ownership Matches */}
+      <div className="bg-slate-900/50 border border-slate-800 rounded-xl p-6">
+        <h3 className="text-lg font-mono text-white mb-4">Probable Original Sources</h3>
+        {report.vault_matches && report.vault_matches.length > 0 ? (
+          <div className="space-y-2">
+            {report.vault_matches.map((match) => (
+              <div key={match.asset_id} className="flex items-center justify-between gap-4 bg-brand-yellow/5 border border-brand-yellow/20 p-3 rounded text-sm">
+                <div className="min-w-0">
+                  <p className="text-white truncate">{match.title}</p>
+                  <p className="text-slate-500 text-xs font-mono truncate">{match.owner || 'Unknown owner'}{match.license ? ` · ${match.license}` : ''}</p>
+                </div>
+                <span className="font-mono text-brand-yellow whitespace-nowrap">{match.similarity}% <span className="text-slate-500 text-xs uppercase">{match.method}</span></span>
+              </div>
+            ))}
+          </div>
+        ) : <p className="text-slate-500 italic">No registered vault asset matched this scan.</p>}
+      </div>
+
+      {/* Chain of Custody */}
+      {report.provenance && (
+        <div className="bg-slate-900/50 border border-slate-800 rounded-xl p-6">
+          <h3 className="text-sm font-mono text-slate-400 uppercase tracking-widest mb-4 flex items-center gap-2">
+            <Fingerprint className="w-4 h-4" /> Chain of Custody
+          </h3>
+          <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-2 text-xs font-mono">
+            {([
+              ['Source', report.provenance.source],
+              ['Content SHA-256', contentHash(report)],
+              ['Scanned', report.provenance.scanned_at],
+              ['App Version', report.provenance.app_version],
+              ['Model', `${report.provenance.provider} / ${report.provenance.model}`],
+              ['Signature', report.signature ? `ECDSA P-256 · key ${report.signature.key_fingerprint.slice(0, 16)}…` : 'UNSIGNED'],
+            ] as [string, string][]).map(([label, value]) => (
+              <div key={label} className="flex justify-between gap-4 border-b border-slate-800 pb-2 min-w-0">
+                <dt className="text-slate-500 uppercase shrink-0">{label}</dt>
+                <dd className="text-slate-200 truncate" title={value}>{value}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      )}
+
+      {/* Export */}
+      <div className="bg-slate-900/50 border border-slate-800 rounded-xl p-6 flex flex-wrap items-center gap-4">
+        <h3 className="text-sm font-mono text-slate-400 uppercase tracking-widest flex items-center gap-2">
+          <Download className="w-4 h-4" /> Export
+        </h3>
+        {EXPORT_FORMATS.map(([format, label]) => (
+          <button
+            key={format}
+            onClick={() => exportReport(report, format, record?.review)}
+            className="px-4 py-2 border border-slate-700 hover:border-brand-yellow text-slate-300 hover:text-brand-yellow font-mono text-xs rounded transition-colors"
+          >
+            {label}
+          </button>
+        ))}
+        <button
+          onClick={() => setComposingNotice(true)}
+          className="ml-auto px-4 py-2 border border-brand-yellow/50 hover:border-brand-yellow text-brand-yellow font-mono text-xs rounded transition-colors flex items-center gap-2"
+        >
+          <FileText className="w-4 h-4" /> DRAFT TAKEDOWN NOTICE
+        </button>
+      </div>
+
       <div className="flex justify-center pt-8">
         <button 
           onClick={onReset}
           className="px-8 py-3 bg-slate-800 hover:bg-slate-700 text-white font-mono rounded border border-slate-600 transition-all hover:border-brand-yellow"
         >
-          START NEW SCAN
+          {resetLabel}
         </button>
       </div>
 
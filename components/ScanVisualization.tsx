@@ -1,56 +1,33 @@
-import React, { useEffect, useState } from 'react';
-import { ScanStep } from '../types';
-import { ShieldCheck, Search, Database, Globe, Cpu } from 'lucide-react';
+import React from 'react';
+import { ScanProgressEvent, ScanStep } from '../types';
+import { ShieldCheck, Search, Database, Globe, Cpu, XCircle, UploadCloud } from 'lucide-react';
 
 interface ScanVisualizationProps {
-  onComplete: () => void;
+  steps: ScanStep[];
+  onCancel: () => void;
 }
 
-const STEPS: ScanStep[] = [
-  { id: 'upload', label: 'Initializing Secure Analysis Environment', status: 'pending' },
-  { id: 'hash', label: 'Generating Content Fingerprints / Embeddings', status: 'pending' },
-  { id: 'tineye', label: 'Querying Global Index & Reverse Search', status: 'pending' },
-  { id: 'yandex', label: 'Cross-referencing Visual/Text Databases', status: 'pending' },
-  { id: 'meta', label: 'Analyzing Pattern & Metadata Anomalies', status: 'pending' },
-  { id: 'gemini', label: 'Synthesizing Forensic Report (Gemini AI)', status: 'pending' },
+export const SCAN_STEPS: ScanStep[] = [
+  { id: 'hash', label: 'Computing Content Hash (SHA-256)', status: 'pending' },
+  { id: 'extract', label: 'Generating Content Fingerprints & Metadata', status: 'pending' },
+  { id: 'vault', label: 'Cross-referencing Protected-Asset Vault', status: 'pending' },
+  { id: 'upload', label: 'Uploading Large Asset for Analysis', status: 'pending' },
+  { id: 'model', label: 'Synthesizing Forensic Report', status: 'pending' },
+  { id: 'validate', label: 'Validating Report Against Schema', status: 'pending' },
 ];
 
-export const ScanVisualization: React.FC<ScanVisualizationProps> = ({ onComplete }) => {
-  const [steps, setSteps] = useState<ScanStep[]>(STEPS);
-  const [currentStepIndex, setCurrentStepIndex] = useState(0);
+export const applyScanEvent = (steps: ScanStep[], event: ScanProgressEvent): ScanStep[] =>
+  steps.map(step => step.id === event.stage ? { ...step, status: event.status, detail: event.detail ?? step.detail } : step);
 
-  useEffect(() => {
-    if (currentStepIndex >= steps.length) {
-      setTimeout(onComplete, 800); // Small delay after finish
-      return;
-    }
-
-    // Set current step to active
-    setSteps(prev => prev.map((s, i) => 
-      i === currentStepIndex ? { ...s, status: 'active' } : s
-    ));
-
-    // Simulate duration for each step (randomized slightly)
-    const duration = 600 + Math.random() * 800;
-
-    const timer = setTimeout(() => {
-      setSteps(prev => prev.map((s, i) => 
-        i === currentStepIndex ? { ...s, status: 'complete' } : s
-      ));
-      setCurrentStepIndex(prev => prev + 1);
-    }, duration);
-
-    return () => clearTimeout(timer);
-  }, [currentStepIndex, onComplete]);
-
-  const getIcon = (id: string) => {
+export const ScanVisualization: React.FC<ScanVisualizationProps> = ({ steps, onCancel }) => {
+  const getIcon = (id: ScanStep['id']) => {
     switch (id) {
-      case 'upload': return <ShieldCheck className="w-5 h-5" />;
-      case 'hash': return <Cpu className="w-5 h-5" />;
-      case 'tineye':
-      case 'yandex': return <Search className="w-5 h-5" />;
-      case 'meta': return <Database className="w-5 h-5" />;
-      case 'gemini': return <Globe className="w-5 h-5" />;
+      case 'hash': return <ShieldCheck className="w-5 h-5" />;
+      case 'extract': return <Cpu className="w-5 h-5" />;
+      case 'vault': return <Database className="w-5 h-5" />;
+      case 'upload': return <UploadCloud className="w-5 h-5" />;
+      case 'model': return <Globe className="w-5 h-5" />;
+      case 'validate': return <Search className="w-5 h-5" />;
       default: return <ShieldCheck className="w-5 h-5" />;
     }
   };
@@ -65,7 +42,7 @@ export const ScanVisualization: React.FC<ScanVisualizationProps> = ({ onComplete
         </h2>
 
         <div className="space-y-4 relative z-10">
-          {steps.map((step, idx) => (
+          {steps.map((step) => (
             <div key={step.id} className="flex items-center gap-4">
               <div className={`
                 w-8 h-8 rounded-full flex items-center justify-center border transition-all duration-300
@@ -77,7 +54,7 @@ export const ScanVisualization: React.FC<ScanVisualizationProps> = ({ onComplete
               </div>
               <div className="flex-1">
                 <div className="flex justify-between text-sm font-mono mb-1">
-                  <span className={step.status === 'pending' ? 'text-slate-500' : 'text-slate-200'}>
+                  <span className={step.status === 'pending' || step.status === 'skipped' ? 'text-slate-500' : 'text-slate-200'}>
                     {step.label}
                   </span>
                   <span className={`
@@ -88,10 +65,14 @@ export const ScanVisualization: React.FC<ScanVisualizationProps> = ({ onComplete
                     {step.status === 'active' ? 'PROCESSING' : step.status}
                   </span>
                 </div>
+                {step.detail && (
+                  <p className="text-xs font-mono text-slate-500 mb-1 truncate">{step.detail}</p>
+                )}
                 {/* Progress Bar for individual step */}
                 <div className="h-1 bg-slate-800 rounded-full overflow-hidden">
                   <div className={`h-full bg-brand-yellow transition-all duration-1000 ease-out ${
                     step.status === 'complete' ? 'w-full' : 
+                    step.status === 'skipped' ? 'w-full opacity-30' : 
                     step.status === 'active' ? 'w-1/2' : 'w-0'
                   }`} />
                 </div>
@@ -99,6 +80,15 @@ export const ScanVisualization: React.FC<ScanVisualizationProps> = ({ onComplete
             </div>
           ))}
         </div>
+
+        <div className="mt-8 flex justify-end relative z-10">
+          <button
+            onClick={onCancel}
+            className="text-xs font-mono text-slate-400 hover:text-neon-red flex items-center gap-2 transition-colors"
+          >
+            <XCircle className="w-4 h-4" /> CANCEL SCAN
+          </button>
+        </div>
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from 'react';
+import { UrlLists } from '../types';
+import { loadUrlLists, saveUrlLists } from '../services/urlHeuristics';
+import { Globe, Save } from 'lucide-react';
+
+type ListKey = keyof UrlLists;
+
+const LISTS: { key: ListKey; label: string; hint: string }[] = [
+  { key: 'brand_domains', label: 'Brand Domains', hint: 'example.com\nexample.co.uk' },
+  { key: 'blocklist', label: 'Blocklist', hint: 'known-pirate.site\nmirror.example.net/releases' },
+  { key: 'allowlist', label: 'Allowlist', hint: 'partner-store.com\nlicensed.example.org' },
+];
+
+const textareaClass = "w-full h-40 bg-black border border-slate-700 rounded-lg px-3 py-2 text-white placeholder:text-slate-700 focus:outline-none focus:border-brand-yellow font-mono text-xs resize-y";
+
+const toText = (lists: UrlLists): Record<ListKey, string> => ({
+  brand_domains: lists.brand_domains.join('\n'),
+  blocklist: lists.blocklist.join('\n'),
+  allowlist: lists.allowlist.join('\n'),
+});
+
+const toLines = (text: string) => text.split(/[\n,]/).map(line => line.trim()).filter(Boolean);
+
+// Domains the URL heuristics compare against: lookalikes of brand domains, plus local block/allowlists
+export const UrlListsPanel: React.FC = () => {
+  const [text, setText] = useState<Record<ListKey, string>>({ brand_domains: '', blocklist: '', allowlist: '' });
+  const [status, setStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadUrlLists().then(lists => setText(toText(lists))).catch(err => {
+      console.error(err);
+      setStatus("Could not load saved lists.");
+    });
+  }, []);
+
+  const save = async () => {
+    try {
+      const lists = { brand_domains: toLines(text.brand_domains), blocklist: toLines(text.blocklist), allowlist: toLines(text.allowlist) };
+      await saveUrlLists(lists);
+      setText(toText(lists));
+      setStatus("Saved. New URL scans use these lists.");
+    } catch (err) {
+      console.error(err);
+      setStatus(err instanceof Error ? err.message : "Failed to save lists.");
+    }
+  };
+
+  return (
+    <div className="bg-slate-900/50 border border-slate-800 rounded-xl p-6 space-y-4">
+      <h3 className="text-sm font-mono text-slate-400 uppercase tracking-widest flex items-center gap-2">
+        <Globe className="w-4 h-4" /> URL Heuristics Lists
+      </h3>
+      <p className="text-xs text-slate-500">
+        One domain per line. Brand domains are checked for typosquats and lookalikes; blocklisted and allowlisted
+        domains (or domain/path prefixes) raise or clear the URL risk score.
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {LISTS.map(({ key, label, hint }) => (
+          <label key={key} className="space-y-2">
+            <span className="text-xs font-mono text-slate-400 uppercase">{label} ({toLines(text[key]).length})</span>
+            <textarea
+              className={textareaClass}
+              placeholder={hint}
+              value={text[key]}
+              onChange={(e) => {
+                setText({ ...text, [key]: e.target.value });
+                setStatus(null);
+              }}
+            />
+          </label>
+        ))}
+      </div>
+      <div className="flex items-center justify-end gap-4">
+        {status && <p className="text-xs text-slate-400">{status}</p>}
+        <button
+          onClick={save}
+          className="px-6 py-2 bg-brand-yellow text-black font-bold font-mono rounded-lg flex items-center gap-2"
+        >
+          <Save className="w-4 h-4" /> SAVE LISTS
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,176 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { VaultAsset } from '../types';
+import { addVaultAsset, deleteVaultAsset, listVaultAssets } from '../services/vaultService';
+import { UrlListsPanel } from './UrlListsPanel';
+import { PolicyRulesPanel } from './PolicyRulesPanel';
+import { CodeCorpusPanel } from './CodeCorpusPanel';
+import { watermarkVaultAsset } from '../services/watermark';
+import { downloadBlob } from '../services/reportExport';
+import { Archive, FileText, Image as ImageIcon, PlayCircle, File, Trash2, Plus, ArrowLeft, Stamp, Music } from 'lucide-react';
+
+interface VaultViewProps {
+  onBack: () => void;
+}
+
+const KIND_ICONS: Record<VaultAsset['kind'], React.ReactNode> = {
+  image: <ImageIcon className="w-4 h-4" />,
+  video: <PlayCircle className="w-4 h-4" />,
+  audio: <Music className="w-4 h-4" />,
+  pdf: <FileText className="w-4 h-4" />,
+  text: <FileText className="w-4 h-4" />,
+  document: <FileText className="w-4 h-4" />,
+  other: <File className="w-4 h-4" />,
+};
+
+const inputClass = "w-full bg-black border border-slate-700 rounded-lg px-3 py-2 text-white placeholder:text-slate-600 focus:outline-none focus:border-brand-yellow font-mono text-sm";
+
+export const VaultView: React.FC<VaultViewProps> = ({ onBack }) => {
+  const [assets, setAssets] = useState<VaultAsset[]>([]);
+  const [file, setFile] = useState<File | null>(null);
+  const [title, setTitle] = useState('');
+  const [owner, setOwner] = useState('');
+  const [license, setLicense] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [marking, setMarking] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = () => listVaultAssets().then(setAssets).catch(err => {
+    console.error(err);
+    setError("Could not open the local vault (IndexedDB unavailable).");
+  });
+
+  useEffect(() => { refresh(); }, []);
+
+  const register = async () => {
+    if (!file) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await addVaultAsset(file, { title, owner, license });
+      setFile(null);
+      setTitle('');
+      if (fileInputRef.current) fileInputRef.current.value = '';
+      await refresh();
+    } catch (err) {
+      console.error(err);
+      setError("Failed to register asset.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const exportWatermarked = async (asset: VaultAsset) => {
+    setMarking(asset.id);
+    setError(null);
+    try {
+      const { blob, fileName } = await watermarkVaultAsset(asset);
+      downloadBlob(blob, fileName);
+      await refresh();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Failed to watermark asset.");
+    } finally {
+      setMarking(null);
+    }
+  };
+
+  const removeAsset = async (id: string) => {
+    await deleteVaultAsset(id);
+    await refresh();
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-8 animate-fade-in pb-20">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-mono text-brand-yellow flex items-center gap-3">
+          <Archive className="w-6 h-6" /> PROTECTED-ASSET VAULT
+        </h2>
+        <button onClick={onBack} className="text-slate-400 hover:text-brand-yellow font-mono text-sm flex items-center gap-2">
+          <ArrowLeft className="w-4 h-4" /> BACK TO SCANNER
+        </button>
+      </div>
+
+      {/* Registration Form */}
+      <div className="bg-slate-900/50 border border-slate-800 rounded-xl p-6 space-y-4">
+        <h3 className="text-sm font-mono text-slate-400 uppercase tracking-widest">Register Original</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className={`md:col-span-2 border border-dashed rounded-lg px-4 py-6 font-mono text-sm transition-colors ${file ? 'border-brand-yellow text-brand-yellow' : 'border-slate-700 text-slate-500 hover:border-brand-yellow/50'}`}
+          >
+            {file ? `${file.name} · ${(file.size / 1024 / 1024).toFixed(2)} MB` : 'Select image, PDF, text, video or audio file'}
+          </button>
+          <input
+            type="file"
+            ref={fileInputRef}
+            className="hidden"
+            accept="image/*,video/*,audio/*,.mp3,.wav,.flac,.m4a,application/pdf,.doc,.docx,.odt,text/plain,text/markdown,.txt,.md,.json"
+            onChange={(e) => {
+              const selected = e.target.files?.[0] ?? null;
+              setFile(selected);
+              if (selected && !title) setTitle(selected.name);
+            }}
+          />
+          <input className={inputClass} placeholder="Title" value={title} onChange={(e) => setTitle(e.target.value)} />
+          <input className={inputClass} placeholder="Owner / rights holder" value={owner} onChange={(e) => setOwner(e.target.value)} />
+          <input className={`${inputClass} md:col-span-2`} placeholder="License (e.g. All rights reserved, CC BY-NC 4.0)" value={license} onChange={(e) => setLicense(e.target.value)} />
+        </div>
+        <div className="flex justify-end">
+          <button
+            onClick={register}
+            disabled={!file || busy}
+            className="px-6 py-2 bg-brand-yellow text-black font-bold font-mono rounded-lg disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+          >
+            <Plus className="w-4 h-4" /> {busy ? 'FINGERPRINTING...' : 'ADD TO VAULT'}
+          </button>
+        </div>
+        {error && <p className="text-sm text-red-300">{error}</p>}
+      </div>
+
+      {/* Registered Assets */}
+      <div className="bg-slate-900/50 border border-slate-800 rounded-xl p-6">
+        <h3 className="text-sm font-mono text-slate-400 uppercase tracking-widest mb-4">Registered Originals ({assets.length})</h3>
+        {assets.length === 0 ? (
+          <p className="text-slate-500 italic">No assets registered yet.</p>
+        ) : (
+          <div className="divide-y divide-slate-800">
+            {assets.map(asset => (
+              <div key={asset.id} className="flex items-center gap-4 py-3 text-sm">
+                <span className="text-brand-yellow">{KIND_ICONS[asset.kind]}</span>
+                <div className="flex-1 min-w-0">
+                  <p className="text-white truncate">{asset.title}</p>
+                  <p className="text-slate-500 text-xs font-mono truncate">
+                    {asset.owner || 'Unknown owner'} · {asset.license || 'No license set'} · sha256 {asset.sha256.slice(0, 12)}…
+                  </p>
+                </div>
+                <span className="text-xs font-mono text-slate-600">
+                  {asset.image_fingerprint || asset.video_keyframes ? 'pHash' : asset.text_signature ? 'MinHash' : asset.audio_fingerprint ? 'Audio' : 'SHA-256'}
+                  {asset.video_keyframes && asset.audio_fingerprint && ' + Audio'}
+                  {asset.watermarked_at && ' · WATERMARKED'}
+                </span>
+                {asset.kind === 'image' && (
+                  <button
+                    onClick={() => exportWatermarked(asset)}
+                    disabled={marking !== null}
+                    className="text-slate-600 hover:text-brand-yellow transition-colors disabled:opacity-50"
+                    title="Download an invisibly watermarked copy for publishing"
+                  >
+                    <Stamp className={`w-4 h-4 ${marking === asset.id ? 'animate-pulse text-brand-yellow' : ''}`} />
+                  </button>
+                )}
+                <button onClick={() => removeAsset(asset.id)} className="text-slate-600 hover:text-neon-red transition-colors" title="Remove from vault">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <CodeCorpusPanel />
+      <UrlListsPanel />
+      <PolicyRulesPanel />
+    </div>
+  );
+};
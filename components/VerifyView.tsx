@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { ForensicReport } from '../types';
+import { verifyReport, VerificationResult } from '../services/custody';
+import { ArrowLeft, CheckCircle, FileJson, FileSearch, ShieldCheck, XCircle, AlertTriangle } from 'lucide-react';
+
+interface VerifyViewProps {
+  onBack: () => void;
+}
+
+type Tone = 'good' | 'bad' | 'warn' | 'neutral';
+
+const TONE_STYLES: Record<Tone, string> = {
+  good: 'border-green-500/40 bg-green-500/10 text-green-300',
+  bad: 'border-red-500/40 bg-red-500/10 text-red-300',
+  warn: 'border-amber-500/40 bg-amber-500/10 text-amber-300',
+  neutral: 'border-slate-700 bg-slate-900/50 text-slate-300',
+};
+
+const TONE_ICONS: Record<Tone, React.ReactNode> = {
+  good: <CheckCircle className="w-5 h-5 shrink-0" />,
+  bad: <XCircle className="w-5 h-5 shrink-0" />,
+  warn: <AlertTriangle className="w-5 h-5 shrink-0" />,
+  neutral: <FileSearch className="w-5 h-5 shrink-0" />,
+};
+
+const Finding: React.FC<{ tone: Tone; title: string; children?: React.ReactNode }> = ({ tone, title, children }) => (
+  <div className={`border rounded-xl p-4 flex gap-3 ${TONE_STYLES[tone]}`}>
+    {TONE_ICONS[tone]}
+    <div className="min-w-0 space-y-1">
+      <p className="font-mono text-sm font-bold">{title}</p>
+      {children && <div className="text-xs font-mono text-slate-400 break-all space-y-1">{children}</div>}
+    </div>
+  </div>
+);
+
+const fileInputClass = "block w-full text-sm text-slate-400 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:font-mono file:text-sm file:bg-slate-800 file:text-brand-yellow hover:file:bg-slate-700";
+
+export const VerifyView: React.FC<VerifyViewProps> = ({ onBack }) => {
+  const [reportFile, setReportFile] = useState<File | null>(null);
+  const [evidenceFile, setEvidenceFile] = useState<File | null>(null);
+  const [report, setReport] = useState<ForensicReport | null>(null);
+  const [result, setResult] = useState<VerificationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const verify = async () => {
+    if (!reportFile) return;
+    setBusy(true);
+    setError(null);
+    setResult(null);
+    try {
+      let parsed: ForensicReport;
+      try {
+        parsed = JSON.parse(await reportFile.text());
+      } catch {
+        throw new Error("The report file is not valid JSON. Export the report as JSON to verify it.");
+      }
+      if (!parsed || typeof parsed !== 'object' || !parsed.case_id) {
+        throw new Error("This JSON file is not a Decryptc report.");
+      }
+      setReport(parsed);
+      setResult(await verifyReport(parsed, evidenceFile ?? undefined));
+    } catch (err) {
+      setReport(null);
+      setError(err instanceof Error ? err.message : "Verification failed.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const p = report?.provenance;
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-8 animate-fade-in pb-20">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-mono text-brand-yellow flex items-center gap-3">
+          <ShieldCheck className="w-6 h-6" /> VERIFY REPORT
+        </h2>
+        <button onClick={onBack} className="text-slate-400 hover:text-brand-yellow font-mono text-sm flex items-center gap-2">
+          <ArrowLeft className="w-4 h-4" /> BACK TO SCANNER
+        </button>
+      </div>
+
+      <div className="bg-slate-900/50 border border-slate-800 rounded-xl p-6 space-y-6">
+        <label className="block space-y-2">
+          <span className="text-xs font-mono text-slate-400 uppercase tracking-widest flex items-center gap-2">
+            <FileJson className="w-4 h-4" /> Exported report (JSON)
+          </span>
+          <input type="file" accept=".json,application/json" className={fileInputClass}
+            onChange={(e) => { setReportFile(e.target.files?.[0] ?? null); setResult(null); }} />
+        </label>
+        <label className="block space-y-2">
+          <span className="text-xs font-mono text-slate-400 uppercase tracking-widest flex items-center gap-2">
+            <FileSearch className="w-4 h-4" /> Original evidence file (optional)
+          </span>
+          <input type="file" className={fileInputClass}
+            onChange={(e) => { setEvidenceFile(e.target.files?.[0] ?? null); setResult(null); }} />
+        </label>
+        <button
+          onClick={verify}
+          disabled={!reportFile || busy}
+          className="px-6 py-2 bg-brand-yellow text-black font-bold font-mono rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {busy ? 'VERIFYING…' : 'VERIFY'}
+        </button>
+        {error && <p className="text-sm text-red-300">{error}</p>}
+      </div>
+
+      {result && report && (
+        <div className="space-y-4">
+          {result.signature === 'valid' && (
+            <Finding tone="good" title="Signature valid — report has not been altered since signing">
+              <p>Key fingerprint {result.key_fingerprint}</p>
+              <p>{result.signed_by_this_installation ? 'Signed by this installation.' : 'Signed by a different installation; confirm the fingerprint with its owner.'}</p>
+            </Finding>
+          )}
+          {result.signature === 'invalid' && (
+            <Finding tone="bad" title="Signature invalid — the report was modified after signing or the signature is corrupt">
+              {result.key_fingerprint && <p>Claimed key {result.key_fingerprint}</p>}
+            </Finding>
+          )}
+          {result.signature === 'unsigned' && (
+            <Finding tone="warn" title="Report is unsigned — its integrity cannot be checked" />
+          )}
+
+          {result.file === 'match' && (
+            <Finding tone="good" title="Evidence file matches the scanned content">
+              <p>SHA-256 {result.file_sha256}</p>
+            </Finding>
+          )}
+          {result.file === 'mismatch' && (
+            <Finding tone="bad" title="Evidence file does not match the scanned content">
+              <p>Report  {p?.sha256}</p>
+              <p>File    {result.file_sha256}</p>
+            </Finding>
+          )}
+          {result.file === 'no_hash' && (
+            <Finding tone="warn" title="Report records no content hash to compare against">
+              <p>File SHA-256 {result.file_sha256}</p>
+            </Finding>
+          )}
+          {result.file === 'not_checked' && (
+            <Finding tone="neutral" title="No evidence file supplied — content hash not checked" />
+          )}
+
+          <Finding tone="neutral" title={`Case ${report.case_id} · ${report.verdict}`}>
+            {p ? (
+              <>
+                <p>Source {p.source}</p>
+                <p>Scanned {p.scanned_at}</p>
+                <p>{p.app_version} · {p.provider} / {p.model}</p>
+              </>
+            ) : (
+              <p>No provenance recorded.</p>
+            )}
+          </Finding>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,39 @@
+import React from 'react';
+import { VideoAnalysis } from '../types';
+import { Film } from 'lucide-react';
+import { formatTimestamp } from '../services/videoFrames';
+
+export const VideoFilmstrip: React.FC<{ analysis: VideoAnalysis }> = ({ analysis }) => {
+  const matched = analysis.keyframes.filter(k => k.match).length;
+  return (
+    <div className="bg-slate-900/50 border border-slate-800 rounded-xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-mono text-white flex items-center gap-2">
+          <Film className="w-5 h-5 text-brand-yellow" /> Keyframe Timeline
+        </h3>
+        <span className="text-xs font-mono text-slate-500">
+          {formatTimestamp(analysis.duration)} · {analysis.width}x{analysis.height} · {analysis.keyframes.length} KEYFRAMES · {matched} MATCHED
+        </span>
+      </div>
+      <div className="flex gap-3 overflow-x-auto pb-2">
+        {analysis.keyframes.map(frame => (
+          <figure key={frame.timestamp} className="shrink-0 w-40" title={frame.match ? `${frame.match.label} (${frame.match.similarity}%)` : undefined}>
+            <img
+              src={frame.thumbnail_data_url}
+              alt={`Frame at ${formatTimestamp(frame.timestamp)}`}
+              className={`w-40 rounded border-2 ${frame.match ? 'border-neon-red' : 'border-slate-700'}`}
+            />
+            <figcaption className="mt-1 text-xs font-mono">
+              <span className="text-slate-300">{formatTimestamp(frame.timestamp)}</span>
+              {frame.match ? (
+                <span className="block text-neon-red truncate">{frame.match.similarity}% · {frame.match.label}</span>
+              ) : (
+                <span className="block text-slate-600">no match</span>
+              )}
+            </figcaption>
+          </figure>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,172 @@
+import { createHash } from 'node:crypto';
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { mkdtemp, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createMockProvider } from '../services/mockProvider';
+import { setStageWarnings } from '../services/stageLog';
+import { createScanApi, ScanApiOptions } from './api';
+
+setStageWarnings(false);
+
+let server: Server | undefined;
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(os.tmpdir(), 'api-test-'));
+  process.env.UPLOAD_DIR = dir;
+});
+
+afterEach(async () => {
+  await new Promise(resolve => server ? server.close(resolve) : resolve(undefined));
+  server = undefined;
+  delete process.env.UPLOAD_DIR;
+  await rm(dir, { recursive: true, force: true });
+});
+
+const start = async (options: ScanApiOptions = {}) => {
+  const api = createScanApi({ provider: createMockProvider({ provider: 'mock', model: 'mock-fixtures-v1' }), ...options });
+  server = createServer((req, res) => api(req, res));
+  await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return (pathname: string, init?: RequestInit) => fetch(`http://127.0.0.1:${port}${pathname}`, init);
+};
+
+const uploadBody = (sha: string, size = 4) =>
+  JSON.stringify({ name: 'clip.mp4', mime_type: 'video/mp4', size, sha256: sha.repeat(64) });
+
+const json = (body: unknown): RequestInit =>
+  ({ method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+
+const errorOf = async (response: Response) => ({ status: response.status, error: (await response.json()).error });
+
+describe('scan API', () => {
+  it('refuses URL scans of private or non-web addresses', async () => {
+    const request = await start();
+    const urls = ['http://127.0.0.1/admin', 'http://[::ffff:127.0.0.1]/', 'http://100.64.0.1/',
+      'http://169.254.169.254/latest/meta-data', 'http://localhost:8080', 'ftp://example.com/a'];
+    for (const url of urls) {
+      expect((await request('/api/scans', json({ url }))).status).toBe(400);
+    }
+  });
+
+  it('rejects malformed and unsupported bodies', async () => {
+    const request = await start();
+    const malformed = await request('/api/scans', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: '{"url":' });
+    expect(await errorOf(malformed)).toEqual({ status: 400, error: 'Malformed JSON body' });
+    expect((await request('/api/scans', json({ prepared: { parts: [] } }))).status).toBe(400);
+    expect((await request('/api/scans', json([1, 2]))).status).toBe(400);
+    expect((await request('/api/scans', { method: 'POST', headers: { 'Content-Type': 'text/plain' }, body: 'x' })).status).toBe(415);
+  });
+
+  it('rate limits scans per client before reading the body', async () => {
+    const request = await start({ rateLimit: { limit: 1, windowMs: 60000 } });
+    expect((await request('/api/scans', json({ url: 'http://127.0.0.1' }))).status).toBe(400);
+    const refused = await request('/api/scans', json({ url: 'http://127.0.0.1' }));
+    expect(refused.status).toBe(429);
+    expect(refused.headers.get('retry-after')).toBe('60');
+  });
+
+  it('answers unknown routes with 404', async () => {
+    const request = await start();
+    expect((await request('/api/nothing')).status).toBe(404);
+    expect((await request('/api/scans/unknown')).status).toBe(404);
+  });
+});
+
+describe('upload API', () => {
+  it('stores chunks, resumes by content and scans the finished upload', async () => {
+    const request = await start();
+    const content = 'chunked upload body';
+    const sha256 = createHash('sha256').update(content).digest('hex');
+    const body = JSON.stringify({ name: 'notes.txt', mime_type: 'text/plain', size: content.length, sha256 });
+    const created = await request('/api/uploads', { method: 'POST', body });
+    expect(created.status).toBe(201);
+    const session = await created.json();
+    expect(created.headers.get('location')).toBe(`/api/uploads/${session.id}`);
+    expect(session).toMatchObject({ received: 0, complete: false });
+
+    expect((await request(`/api/uploads/${session.id}?offset=0`, { method: 'PUT', body: content.slice(0, 8) })).status).toBe(200);
+    expect((await request(`/api/uploads/${session.id}?offset=0`, { method: 'PUT', body: content.slice(8) })).status).toBe(409);
+    expect((await request(`/api/uploads/${session.id}?offset=-1`, { method: 'PUT', body: 'x' })).status).toBe(400);
+    const resumed = await request('/api/uploads', { method: 'POST', body });
+    expect(resumed.status).toBe(200);
+    expect(await resumed.json()).toMatchObject({ id: session.id, received: 8 });
+
+    const done = await request(`/api/uploads/${session.id}?offset=8`, { method: 'PUT', body: content.slice(8) });
+    expect(await done.json()).toMatchObject({ received: content.length, complete: true });
+
+    const scan = await request('/api/scans', json({ upload: session.id }));
+    expect(scan.status).toBe(202);
+    const { id } = await scan.json();
+    let status = 'running';
+    for (let i = 0; i < 100 && status === 'running'; i++) {
+      await new Promise(resolve => setTimeout(resolve, 50));
+      status = (await (await request(`/api/scans/${id}`)).json()).status;
+    }
+    expect(status).toBe('done');
+  });
+
+  it('refuses scans of unknown or incomplete uploads', async () => {
+    const request = await start();
+    expect((await request('/api/scans', json({ upload: 'missing' }))).status).toBe(404);
+    const { id } = await (await request('/api/uploads', { method: 'POST', body: uploadBody('a') })).json();
+    expect((await request('/api/scans', json({ upload: id }))).status).toBe(409);
+  });
+
+  it('keeps uploads to the client that made them', async () => {
+    const request = await start({ trustProxy: true });
+    const as = (client: string, init: RequestInit = {}) => ({ ...init, headers: { ...init.headers, 'X-Forwarded-For': client } });
+    const content = 'abcd';
+    const body = JSON.stringify({ name: 'a.txt', mime_type: 'text/plain', size: 4, sha256: createHash('sha256').update(content).digest('hex') });
+    const { id } = await (await request('/api/uploads', as('203.0.113.1', { method: 'POST', body }))).json();
+    await request(`/api/uploads/${id}?offset=0`, as('203.0.113.1', { method: 'PUT', body: content }));
+
+    const other = await request('/api/uploads', as('203.0.113.2', { method: 'POST', body }));
+    expect(other.status).toBe(201);
+    expect((await other.json()).id).not.toBe(id);
+    expect((await request(`/api/uploads/${id}`, as('203.0.113.2'))).status).toBe(404);
+    expect((await request(`/api/uploads/${id}?offset=0`, as('203.0.113.2', { method: 'PUT', body: 'zzzz' }))).status).toBe(404);
+    expect((await request('/api/scans', as('203.0.113.2', json({ upload: id })))).status).toBe(404);
+    expect(await (await request(`/api/uploads/${id}`, as('203.0.113.1'))).json()).toMatchObject({ complete: true });
+  });
+
+  it('discards an upload whose content does not match its SHA-256', async () => {
+    const request = await start();
+    const { id } = await (await request('/api/uploads', { method: 'POST', body: uploadBody('a') })).json();
+    expect((await request(`/api/uploads/${id}?offset=0`, { method: 'PUT', body: 'abcd' })).status).toBe(422);
+    expect((await request(`/api/uploads/${id}`)).status).toBe(404);
+  });
+
+  it('validates the upload request', async () => {
+    const request = await start();
+    const bad = (body: unknown) => request('/api/uploads', { method: 'POST', body: JSON.stringify(body) });
+    expect((await bad({ name: 'a', mime_type: 'video/mp4', size: 4, sha256: 'A'.repeat(64) })).status).toBe(400);
+    expect((await bad({ name: 'a', mime_type: 'video/mp4', size: 0, sha256: 'a'.repeat(64) })).status).toBe(400);
+    expect((await bad({ name: 'a', mime_type: 'video/mp4', size: 3 * 1024 ** 3, sha256: 'a'.repeat(64) })).status).toBe(413);
+    expect((await bad(null)).status).toBe(400);
+    expect((await request('/api/uploads', { method: 'POST', body: 'not json' })).status).toBe(400);
+  });
+
+  it('rate limits upload creation and chunk PUTs together', async () => {
+    const request = await start({ uploadRateLimit: { limit: 2, windowMs: 60000 } });
+    const created = await request('/api/uploads', { method: 'POST', body: uploadBody('a') });
+    expect(created.status).toBe(201);
+    const { id } = await created.json();
+    expect((await request(`/api/uploads/${id}?offset=0`, { method: 'PUT', body: 'ab' })).status).toBe(200);
+    const refused = await request(`/api/uploads/${id}?offset=2`, { method: 'PUT', body: 'cd' });
+    expect(refused.status).toBe(429);
+    expect(Number(refused.headers.get('retry-after'))).toBeGreaterThan(0);
+    expect((await request('/api/uploads', { method: 'POST', body: uploadBody('b') })).status).toBe(429);
+  });
+
+  it('refuses a new upload past the per-client quota', async () => {
+    const request = await start({ uploadQuota: { sessions: 1, bytes: 1000 } });
+    expect((await request('/api/uploads', { method: 'POST', body: uploadBody('a') })).status).toBe(201);
+    const refused = await request('/api/uploads', { method: 'POST', body: uploadBody('b') });
+    expect(refused.status).toBe(429);
+    expect((await refused.json()).error).toMatch(/Too many uploads/);
+  });
+});
@@ -0,0 +1,307 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { readFileSync } from "node:fs";
+import { AnalysisProvider, CalibrationCurve, EnsembleMember, PreparedScan, PromptPart, UrlLists } from "../types";
+import { analyzeAsset, completeScan } from "../services/analysisService";
+import { createAnalysisProvider, loadEnsemble } from "../services/analysisProvider";
+import { parseCalibration } from "../services/calibration";
+import { createRateLimitGate } from "../services/rateLimitGate";
+import { MAX_DIRECT_UPLOAD_BYTES, MAX_UPLOAD_BYTES, UPLOAD_URI_PREFIX } from "../services/fileUtils";
+import { APP_VERSION } from "../services/appInfo";
+import { parseUrlLists } from "../services/urlHeuristics";
+import { isEvidenceItem } from "../services/evidence";
+import { isRecord, isStringList } from "../services/typeGuards";
+import { checkPublicUrl } from "../services/publicUrl";
+import { createRateLimiter, RateLimitOptions } from "./rateLimiter";
+import { createScanJobs } from "./scanJobs";
+import { createUploads, DEFAULT_UPLOAD_QUOTA, UPLOAD_CHUNK_BYTES, UploadError, UploadQuota, UploadRequest } from "./uploads";
+
+// Base64 prompt parts are a third larger than the file they came from
+const MAX_BODY_BYTES = Math.ceil(MAX_DIRECT_UPLOAD_BYTES * 1.4);
+
+const megabytes = (bytes: number) => `${bytes / 1024 / 1024} MB`;
+
+export interface ScanApiOptions {
+  provider?: AnalysisProvider;
+  ensemble?: EnsembleMember[]; // overrides `provider` for the model stage
+  calibration?: CalibrationCurve;
+  rateLimit?: RateLimitOptions; // applies to POST /api/scans, per client
+  uploadRateLimit?: RateLimitOptions; // applies to POST and PUT /api/uploads, per client
+  uploadQuota?: UploadQuota;
+  trustProxy?: boolean; // take the client address from X-Forwarded-For
+}
+
+type Next = () => void;
+
+class HttpError extends Error {
+  constructor(public status: number, message: string, public headers: Record<string, string> = {}) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+// ANALYSIS_CALIBRATION names a curve written by `decryptc calibrate`; a bad file stops the server at startup
+const loadCalibration = (file = process.env.ANALYSIS_CALIBRATION): CalibrationCurve | undefined => {
+  if (!file) return undefined;
+  try {
+    return parseCalibration(JSON.parse(readFileSync(file, 'utf8')));
+  } catch (error) {
+    throw new Error(`ANALYSIS_CALIBRATION ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+};
+
+export const loadApiOptions = (): ScanApiOptions => {
+  const windowMs = (Number(process.env.SCAN_RATE_WINDOW_SECONDS) || 60) * 1000;
+  return {
+    ensemble: loadEnsemble(),
+    calibration: loadCalibration(),
+    rateLimit: { limit: Number(process.env.SCAN_RATE_LIMIT) || 10, windowMs },
+    uploadRateLimit: { limit: Number(process.env.UPLOAD_RATE_LIMIT) || 600, windowMs },
+    uploadQuota: {
+      sessions: Number(process.env.UPLOAD_MAX_SESSIONS) || DEFAULT_UPLOAD_QUOTA.sessions,
+      bytes: Number(process.env.UPLOAD_MAX_MB) * 1024 * 1024 || DEFAULT_UPLOAD_QUOTA.bytes,
+    },
+    trustProxy: process.env.TRUST_PROXY === '1' || process.env.TRUST_PROXY === 'true',
+  };
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req: IncomingMessage, limit = MAX_BODY_BYTES): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    if (Number(req.headers['content-length']) > limit) {
+      reject(new HttpError(413, `Request body larger than ${megabytes(limit)}`));
+      return;
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        req.destroy();
+        reject(new HttpError(413, `Request body larger than ${megabytes(limit)}`));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+
+const parseScanUrl = (value: unknown): string => {
+  if (typeof value !== 'string') throw new HttpError(400, '"url" must be a string');
+  try {
+    return checkPublicUrl(value);
+  } catch (error) {
+    throw new HttpError(400, (error as Error).message);
+  }
+};
+
+// Stored files may only name uploads made to this server
+const isPromptPart = (part: unknown): part is PromptPart =>
+  isRecord(part) && (
+    typeof part.text === 'string'
+    || (isRecord(part.inlineData) && typeof part.inlineData.mimeType === 'string' && typeof part.inlineData.data === 'string')
+    || (isRecord(part.fileData) && typeof part.fileData.mimeType === 'string' && typeof part.fileData.fileUri === 'string'
+      && part.fileData.fileUri.startsWith(UPLOAD_URI_PREFIX)));
+
+const isPromptSegment = (segment: unknown) =>
+  isRecord(segment) && typeof segment.label === 'string'
+  && Array.isArray(segment.parts) && segment.parts.length > 0 && segment.parts.every(isPromptPart);
+
+const isLocalFindings = (findings: unknown) =>
+  isRecord(findings) && Array.isArray(findings.evidence) && findings.evidence.every(isEvidenceItem)
+  && isStringList(findings.promptContext) && isStringList(findings.dataGaps);
+
+// The browser's local stages are trusted as far as their shape; the system prompt and schema stay server-side
+const isPreparedScan = (value: unknown): value is PreparedScan => {
+  if (!isRecord(value)) return false;
+  const { parts, segments, local, provenance } = value;
+  const segmented = Array.isArray(segments) && segments.length > 0;
+  return Array.isArray(parts) && (parts.length > 0 || segmented) && parts.every(isPromptPart)
+    && (segments === undefined || (segmented && segments.every(isPromptSegment)))
+    && Array.isArray(local) && local.every(isLocalFindings)
+    && isRecord(provenance) && (provenance.input_kind === 'file' || provenance.input_kind === 'url')
+    && typeof provenance.source === 'string';
+};
+
+const parsePrepared = (value: unknown): PreparedScan => {
+  if (!isPreparedScan(value)) throw new HttpError(400, '"prepared" is not a valid prepared scan');
+  return value;
+};
+
+// Optional brand domains and block/allowlists for URL scans; multipart sends them as a JSON string field
+const parseScanLists = (value: unknown): UrlLists | undefined => {
+  if (value === undefined || value === null) return undefined;
+  try {
+    return parseUrlLists(typeof value === 'string' ? JSON.parse(value) : value);
+  } catch (error) {
+    throw new HttpError(400, `"url_lists": ${error instanceof Error ? error.message : 'malformed'}`);
+  }
+};
+
+const parseUploadRequest = (value: unknown): UploadRequest => {
+  if (!isRecord(value)) throw new HttpError(400, 'Send {"name", "mime_type", "size", "sha256"}');
+  const { name, mime_type, size, sha256 } = value;
+  if (typeof name !== 'string' || !name) throw new HttpError(400, '"name" must be a non-empty string');
+  if (typeof mime_type !== 'string') throw new HttpError(400, '"mime_type" must be a string');
+  if (typeof size !== 'number' || !Number.isInteger(size) || size <= 0) throw new HttpError(400, '"size" must be a positive integer');
+  if (size > MAX_UPLOAD_BYTES) throw new HttpError(413, `File larger than ${megabytes(MAX_UPLOAD_BYTES)}`);
+  if (typeof sha256 !== 'string' || !/^[0-9a-f]{64}$/.test(sha256)) throw new HttpError(400, '"sha256" must be a lowercase hex SHA-256');
+  return { name, mime_type, size, sha256 };
+};
+
+const parseJson = (body: Buffer): unknown => {
+  try {
+    return JSON.parse(body.toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Malformed JSON body');
+  }
+};
+
+type ScanInput = { file: File } | { url: string; urlLists?: UrlLists } | { prepared: PreparedScan } | { upload: string };
+
+const parseScanRequest = async (req: IncomingMessage): Promise<ScanInput> => {
+  const contentType = req.headers['content-type'] ?? '';
+  const body = await readBody(req);
+
+  if (contentType.startsWith('multipart/form-data')) {
+    let form: FormData;
+    try {
+      form = await new Response(body, { headers: { 'Content-Type': contentType } }).formData();
+    } catch {
+      throw new HttpError(400, 'Malformed multipart body');
+    }
+    const file = form.get('file');
+    if (file instanceof File) {
+      if (file.size > MAX_DIRECT_UPLOAD_BYTES) {
+        throw new HttpError(413, `File larger than ${megabytes(MAX_DIRECT_UPLOAD_BYTES)}; send it through /api/uploads`);
+      }
+      return { file };
+    }
+    if (form.has('url')) return { url: parseScanUrl(form.get('url')), urlLists: parseScanLists(form.get('url_lists')) };
+    throw new HttpError(400, 'Send a "file" part or a "url" field');
+  }
+
+  if (contentType.startsWith('application/json')) {
+    const parsed = parseJson(body);
+    const json = isRecord(parsed) ? parsed : {};
+    if (json.prepared !== undefined) return { prepared: parsePrepared(json.prepared) };
+    if (json.url !== undefined) return { url: parseScanUrl(json.url), urlLists: parseScanLists(json.url_lists) };
+    if (typeof json.upload === 'string') return { upload: json.upload };
+    throw new HttpError(400, 'Send {"url": ...}, {"upload": ...} or {"prepared": ...}');
+  }
+
+  throw new HttpError(415, 'Use multipart/form-data or application/json');
+};
+
+// Connect-style handler for /api/*; anything else falls through to `next`
+export const createScanApi = (options: ScanApiOptions = loadApiOptions()) => {
+  const provider = options.provider ?? createAnalysisProvider();
+  // One gate for every client: the upstream quota belongs to the server's key
+  const gate = createRateLimitGate();
+  const jobs = createScanJobs();
+  const uploads = createUploads(options.uploadQuota);
+  const limiter = createRateLimiter(options.rateLimit ?? { limit: 10, windowMs: 60000 });
+  // Each chunk of a large file is its own request, so uploads get a far larger allowance than scans
+  const uploadLimiter = createRateLimiter(options.uploadRateLimit ?? { limit: 600, windowMs: 60000 });
+
+  const clientId = (req: IncomingMessage) => {
+    const forwarded = req.headers['x-forwarded-for'];
+    if (options.trustProxy && typeof forwarded === 'string') return forwarded.split(',')[0].trim();
+    return req.socket.remoteAddress ?? 'unknown';
+  };
+
+  // Checked before the body is read, so a refused request costs no more than its headers
+  const throttle = (bucket: ReturnType<typeof createRateLimiter>, req: IncomingMessage, what: string) => {
+    const decision = bucket.take(clientId(req));
+    if (!decision.allowed) {
+      const seconds = Math.ceil(decision.retryAfterMs / 1000);
+      throw new HttpError(429, `Too many ${what}; retry in ${seconds}s`, { 'Retry-After': String(seconds) });
+    }
+    return decision;
+  };
+
+  const createScan = async (req: IncomingMessage, res: ServerResponse) => {
+    const decision = throttle(limiter, req, 'scans');
+    const client = clientId(req);
+    const input = await parseScanRequest(req);
+    // Every stored file a scan refers to has to be the client's own and complete before the scan starts
+    const uploadIds = 'upload' in input ? [input.upload]
+      : 'prepared' in input ? [...input.prepared.parts, ...(input.prepared.segments ?? []).flatMap(s => s.parts)]
+        .flatMap(part => 'fileData' in part ? [part.fileData.fileUri.slice(UPLOAD_URI_PREFIX.length)] : [])
+      : [];
+    for (const id of uploadIds) {
+      if (!uploads.get(id, client).complete) throw new HttpError(409, `Upload ${id} is not complete`);
+    }
+    const openFile = async (fileUri: string) =>
+      fileUri.startsWith(UPLOAD_URI_PREFIX) ? (await uploads.open(fileUri.slice(UPLOAD_URI_PREFIX.length)))?.blob : undefined;
+
+    const scan = jobs.start(async (signal, onProgress) => {
+      const scanOptions = { provider, ensemble: options.ensemble, calibration: options.calibration, gate, signal, onProgress, openFile };
+      if ('prepared' in input) return completeScan(input.prepared, scanOptions);
+      if ('file' in input) return analyzeAsset(input.file, scanOptions);
+      if ('upload' in input) {
+        const stored = await uploads.open(input.upload);
+        if (!stored) throw new Error(`Upload ${input.upload} has expired`);
+        return analyzeAsset(new File([stored.blob], stored.name, { type: stored.blob.type }), scanOptions);
+      }
+      return analyzeAsset(input.url, { ...scanOptions, urlLists: input.urlLists });
+    });
+    sendJson(res, 202, scan, { Location: `/api/scans/${scan.id}`, 'RateLimit-Remaining': String(decision.remaining) });
+  };
+
+  return async (req: IncomingMessage, res: ServerResponse, next?: Next) => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    if (!pathname.startsWith('/api/')) {
+      if (next) return next();
+      return sendJson(res, 404, { error: 'Not found' });
+    }
+
+    jobs.prune();
+    uploads.prune();
+    limiter.prune();
+    uploadLimiter.prune();
+    const scanId = pathname.match(/^\/api\/scans\/([\w-]+)$/)?.[1];
+    const uploadId = pathname.match(/^\/api\/uploads\/([\w-]+)$/)?.[1];
+
+    try {
+      if (pathname === '/api/health' && req.method === 'GET') {
+        return sendJson(res, 200, {
+          status: 'ok', provider: provider.id, model: provider.model, app_version: APP_VERSION,
+          ensemble_size: options.ensemble?.length ?? 1, calibrated: !!options.calibration,
+        });
+      }
+      if (pathname === '/api/scans' && req.method === 'POST') {
+        return await createScan(req, res);
+      }
+      if (pathname === '/api/uploads' && req.method === 'POST') {
+        throttle(uploadLimiter, req, 'upload requests');
+        const request = parseUploadRequest(parseJson(await readBody(req)));
+        const { session, resumed } = await uploads.create(request, clientId(req));
+        return sendJson(res, resumed ? 200 : 201, session, { Location: `/api/uploads/${session.id}` });
+      }
+      if (uploadId && req.method === 'GET') {
+        return sendJson(res, 200, uploads.get(uploadId, clientId(req)));
+      }
+      if (uploadId && req.method === 'PUT') {
+        const offset = Number(new URL(req.url ?? '/', 'http://localhost').searchParams.get('offset'));
+        if (!Number.isInteger(offset) || offset < 0) throw new HttpError(400, 'PUT needs a non-negative ?offset=');
+        throttle(uploadLimiter, req, 'upload requests');
+        return sendJson(res, 200, await uploads.append(uploadId, clientId(req), offset, await readBody(req, UPLOAD_CHUNK_BYTES)));
+      }
+      if (scanId && (req.method === 'GET' || req.method === 'DELETE')) {
+        const scan = req.method === 'GET' ? jobs.get(scanId) : jobs.cancel(scanId);
+        return scan ? sendJson(res, 200, scan) : sendJson(res, 404, { error: `No scan ${scanId}` });
+      }
+      sendJson(res, 404, { error: `No route for ${req.method} ${pathname}` });
+    } catch (error) {
+      if (error instanceof HttpError) return sendJson(res, error.status, { error: error.message }, error.headers);
+      if (error instanceof UploadError) return sendJson(res, error.status, { error: error.message });
+      console.error('Scan API error:', error);
+      sendJson(res, 500, { error: 'Internal server error' });
+    }
+  };
+};
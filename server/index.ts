@@ -0,0 +1,59 @@
+// Production entry: serves the built app from dist/ and the scan API from the same origin.
+// Build with `npm run build && npm run build:server`, then `npm start`.
+import { createServer, ServerResponse } from "node:http";
+import { existsSync } from "node:fs";
+import { readFile, stat } from "node:fs/promises";
+import path from "node:path";
+import { createScanApi } from "./api";
+
+// .env.local is optional: containers and CI pass the variables directly, and those win over the file
+if (existsSync('.env.local')) process.loadEnvFile('.env.local');
+
+const PORT = Number(process.env.PORT) || 8787;
+const STATIC_ROOT = path.resolve(process.env.STATIC_ROOT || 'dist');
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+  '.woff2': 'font/woff2',
+};
+
+const sendFile = async (res: ServerResponse, file: string) => {
+  const body = await readFile(file);
+  res.writeHead(200, { 'Content-Type': CONTENT_TYPES[path.extname(file)] ?? 'application/octet-stream' });
+  res.end(body);
+};
+
+// Unknown paths get index.html so client-side state survives a reload
+const serveStatic = async (url: string | undefined, res: ServerResponse) => {
+  const { pathname } = new URL(url ?? '/', 'http://localhost');
+  try {
+    const file = path.join(STATIC_ROOT, path.normalize(decodeURIComponent(pathname)));
+    const found = file.startsWith(STATIC_ROOT + path.sep) && (await stat(file).catch(() => null))?.isFile();
+    if (found) return await sendFile(res, file);
+    await sendFile(res, path.join(STATIC_ROOT, 'index.html'));
+  } catch {
+    res.writeHead(404, { 'Content-Type': 'text/plain' });
+    res.end(`Not found. Run \`npm run build\` to create ${STATIC_ROOT}.`);
+  }
+};
+
+const api = createScanApi();
+
+createServer((req, res) => {
+  api(req, res, () => {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.writeHead(405);
+      res.end();
+      return;
+    }
+    serveStatic(req.url, res);
+  });
+}).listen(PORT, () => {
+  console.log(`Decryptc scan server listening on http://localhost:${PORT}`);
+});
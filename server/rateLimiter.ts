@@ -0,0 +1,49 @@
+// Per-client token bucket: `limit` scans per `windowMs`, refilled continuously so bursts drain and recover smoothly
+
+export interface RateLimitOptions {
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number; // 0 when allowed
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export const createRateLimiter = ({ limit, windowMs }: RateLimitOptions) => {
+  const buckets = new Map<string, Bucket>();
+  const refillPerMs = limit / windowMs;
+
+  const refill = (bucket: Bucket, now: number) => {
+    bucket.tokens = Math.min(limit, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+  };
+
+  return {
+    take: (client: string): RateLimitDecision => {
+      const now = Date.now();
+      const bucket = buckets.get(client) ?? { tokens: limit, updatedAt: now };
+      refill(bucket, now);
+      buckets.set(client, bucket);
+      if (bucket.tokens < 1) {
+        return { allowed: false, remaining: 0, retryAfterMs: Math.ceil((1 - bucket.tokens) / refillPerMs) };
+      }
+      bucket.tokens -= 1;
+      return { allowed: true, remaining: Math.floor(bucket.tokens), retryAfterMs: 0 };
+    },
+    // Full buckets carry no state worth keeping
+    prune: () => {
+      const now = Date.now();
+      for (const [client, bucket] of buckets) {
+        refill(bucket, now);
+        if (bucket.tokens >= limit) buckets.delete(client);
+      }
+    },
+  };
+};
@@ -0,0 +1,71 @@
+import { ForensicReport, RemoteScan, ScanProgressEvent } from "../types";
+import { ReportValidationError } from "../services/reportValidation";
+
+// Finished scans stay readable this long, so a client that polls late still gets its report
+const RESULT_TTL_MS = 15 * 60 * 1000;
+
+interface ScanJob extends RemoteScan {
+  controller: AbortController;
+  finishedAt?: number;
+}
+
+type ScanRunner = (signal: AbortSignal, onProgress: (event: ScanProgressEvent) => void) => Promise<ForensicReport>;
+
+const view = ({ controller: _controller, finishedAt: _finishedAt, ...scan }: ScanJob): RemoteScan => scan;
+
+export const createScanJobs = () => {
+  const jobs = new Map<string, ScanJob>();
+
+  const finish = (job: ScanJob, patch: Partial<RemoteScan>) => {
+    Object.assign(job, patch);
+    job.finishedAt = Date.now();
+  };
+
+  return {
+    // Starts the scan in the background and returns its initial state immediately
+    start: (run: ScanRunner): RemoteScan => {
+      const job: ScanJob = {
+        id: crypto.randomUUID(),
+        status: 'running',
+        created_at: new Date().toISOString(),
+        events: [],
+        controller: new AbortController(),
+      };
+      jobs.set(job.id, job);
+
+      run(job.controller.signal, event => job.events.push(event))
+        .then(report => finish(job, { status: 'done', report }))
+        .catch(error => {
+          if (job.controller.signal.aborted) return finish(job, { status: 'cancelled' });
+          console.error(`Scan ${job.id} failed:`, error);
+          finish(job, {
+            status: 'failed',
+            error: {
+              message: error instanceof Error ? error.message : 'Scan failed',
+              issues: error instanceof ReportValidationError ? error.issues : undefined,
+            },
+          });
+        });
+      return view(job);
+    },
+
+    get: (id: string): RemoteScan | undefined => {
+      const job = jobs.get(id);
+      return job && view(job);
+    },
+
+    cancel: (id: string): RemoteScan | undefined => {
+      const job = jobs.get(id);
+      if (!job) return undefined;
+      if (job.status === 'running') job.controller.abort();
+      return view(job);
+    },
+
+    prune: () => {
+      const cutoff = Date.now() - RESULT_TTL_MS;
+      for (const [id, job] of jobs) {
+        if (job.finishedAt && job.finishedAt < cutoff) jobs.delete(id);
+      }
+    },
+  };
+};
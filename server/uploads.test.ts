@@ -0,0 +1,74 @@
+import { createHash } from 'node:crypto';
+import { mkdtemp, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createUploads, UploadError } from './uploads';
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(os.tmpdir(), 'uploads-test-'));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+const sha256 = (data: Buffer | string) => createHash('sha256').update(data).digest('hex');
+
+const request = (content: string, size = Buffer.byteLength(content)) =>
+  ({ name: 'clip.mp4', mime_type: 'video/mp4', size, sha256: sha256(content) });
+
+describe('createUploads', () => {
+  it('stores chunks at their offset and completes on a matching SHA-256', async () => {
+    const uploads = createUploads(undefined, dir);
+    const { session, resumed } = await uploads.create(request('hello world'), 'a');
+    expect(resumed).toBe(false);
+    await uploads.append(session.id, 'a', 0, Buffer.from('hello '));
+    await expect(uploads.append(session.id, 'a', 0, Buffer.from('world'))).rejects.toMatchObject({ status: 409 });
+    expect(await uploads.append(session.id, 'a', 6, Buffer.from('world'))).toMatchObject({ received: 11, complete: true });
+  });
+
+  it('resumes the client\'s own upload of the same content instead of starting another', async () => {
+    const uploads = createUploads({ sessions: 1, bytes: 100 }, dir);
+    const first = await uploads.create(request('same'), 'a');
+    const again = await uploads.create(request('same'), 'a');
+    expect(again.resumed).toBe(true);
+    expect(again.session).toMatchObject({ id: first.session.id, received: 0 });
+  });
+
+  it('keeps each client\'s uploads to itself', async () => {
+    const uploads = createUploads({ sessions: 1, bytes: 100 }, dir);
+    const first = await uploads.create(request('same'), 'a');
+    const other = await uploads.create(request('same'), 'b');
+    expect(other.resumed).toBe(false);
+    expect(other.session.id).not.toBe(first.session.id);
+    expect(() => uploads.get(first.session.id, 'b')).toThrow(UploadError);
+    await expect(uploads.append(first.session.id, 'b', 0, Buffer.from('nope'))).rejects.toMatchObject({ status: 404 });
+    expect(uploads.get(first.session.id, 'a')).toMatchObject({ received: 0 });
+  });
+
+  it('caps the uploads one client holds at once', async () => {
+    const uploads = createUploads({ sessions: 2, bytes: 1000 }, dir);
+    await uploads.create(request('one'), 'a');
+    await uploads.create(request('two'), 'a');
+    const refused = uploads.create(request('three'), 'a');
+    await expect(refused).rejects.toBeInstanceOf(UploadError);
+    await expect(refused).rejects.toMatchObject({ status: 429 });
+    await expect(uploads.create(request('three'), 'b')).resolves.toMatchObject({ resumed: false });
+  });
+
+  it('counts concurrent requests against the session cap', async () => {
+    const uploads = createUploads({ sessions: 1, bytes: 1000 }, dir);
+    const results = await Promise.allSettled([uploads.create(request('one'), 'a'), uploads.create(request('two'), 'a')]);
+    expect(results.map(r => r.status)).toEqual(['fulfilled', 'rejected']);
+  });
+
+  it('caps the total declared size one client holds', async () => {
+    const uploads = createUploads({ sessions: 10, bytes: 100 }, dir);
+    await uploads.create(request('big', 80), 'a');
+    await expect(uploads.create(request('bigger', 30), 'a')).rejects.toMatchObject({ status: 429 });
+    await expect(uploads.create(request('small', 20), 'a')).resolves.toMatchObject({ resumed: false });
+  });
+});
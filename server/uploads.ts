@@ -0,0 +1,149 @@
+import { createHash, randomUUID } from "node:crypto";
+import { createReadStream, openAsBlob } from "node:fs";
+import { mkdir, open, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { UploadSession } from "../types";
+
+// Uploads stay on disk this long after they were last touched, so an interrupted client can resume
+const UPLOAD_TTL_MS = 60 * 60 * 1000;
+export const UPLOAD_CHUNK_BYTES = 8 * 1024 * 1024;
+
+// What one client may hold on disk at a time, complete or not, until its uploads expire
+export interface UploadQuota {
+  sessions: number;
+  bytes: number; // total declared size
+}
+
+export const DEFAULT_UPLOAD_QUOTA: UploadQuota = { sessions: 8, bytes: 8 * 1024 * 1024 * 1024 };
+
+export class UploadError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'UploadError';
+  }
+}
+
+export type UploadRequest = Pick<UploadSession, 'name' | 'mime_type' | 'size' | 'sha256'>;
+
+interface Upload extends UploadRequest {
+  id: string;
+  client: string;
+  file: string;
+  received: number;
+  complete: boolean;
+  writing: boolean;
+  touchedAt: number;
+}
+
+const view = (upload: Upload): UploadSession => ({
+  id: upload.id, name: upload.name, mime_type: upload.mime_type, size: upload.size, sha256: upload.sha256,
+  received: upload.received, chunk_size: UPLOAD_CHUNK_BYTES, complete: upload.complete,
+  expires_at: new Date(upload.touchedAt + UPLOAD_TTL_MS).toISOString(),
+});
+
+const hashFile = (file: string) =>
+  new Promise<string>((resolve, reject) => {
+    const hash = createHash('sha256');
+    createReadStream(file).on('data', chunk => hash.update(chunk)).on('end', () => resolve(hash.digest('hex'))).on('error', reject);
+  });
+
+export const createUploads = (
+  quota = DEFAULT_UPLOAD_QUOTA, dir = process.env.UPLOAD_DIR || path.join(os.tmpdir(), 'decryptc-uploads')
+) => {
+  const uploads = new Map<string, Upload>();
+
+  // Another client's upload is reported as missing, so ids cannot be probed
+  const find = (id: string, client: string) => {
+    const upload = uploads.get(id);
+    if (!upload || upload.client !== client) throw new UploadError(`No upload ${id}`, 404);
+    return upload;
+  };
+
+  const discard = (upload: Upload) => {
+    uploads.delete(upload.id);
+    rm(upload.file, { force: true }).catch(error => console.warn(`Could not remove upload ${upload.id}:`, error));
+  };
+
+  return {
+    // The client's own upload of the same content, if still on disk, is resumed (or reused, when complete) instead of restarted
+    create: async (request: UploadRequest, client: string): Promise<{ session: UploadSession; resumed: boolean }> => {
+      const existing = [...uploads.values()].find(u => u.client === client && u.sha256 === request.sha256 && u.size === request.size);
+      if (existing) {
+        existing.touchedAt = Date.now();
+        return { session: view(existing), resumed: true };
+      }
+      const held = [...uploads.values()].filter(u => u.client === client);
+      if (held.length >= quota.sessions) {
+        throw new UploadError(`Too many uploads held (${quota.sessions}); finish one or wait for it to expire`, 429);
+      }
+      if (held.reduce((total, u) => total + u.size, request.size) > quota.bytes) {
+        throw new UploadError(`Uploads held would exceed ${quota.bytes / 1024 / 1024} MB; wait for one to expire`, 429);
+      }
+      // Registered before the file exists, so concurrent requests from one client count against its quota
+      const id = randomUUID();
+      const upload: Upload = { ...request, id, client, file: path.join(dir, id), received: 0, complete: false, writing: true, touchedAt: Date.now() };
+      uploads.set(id, upload);
+      try {
+        await mkdir(dir, { recursive: true });
+        await writeFile(upload.file, '');
+      } catch (error) {
+        uploads.delete(id);
+        throw error;
+      } finally {
+        upload.writing = false;
+      }
+      return { session: view(upload), resumed: false };
+    },
+
+    get: (id: string, client: string): UploadSession => view(find(id, client)),
+
+    // A chunk must start exactly where the stored bytes end; the last one triggers the SHA-256 check
+    append: async (id: string, client: string, offset: number, chunk: Buffer): Promise<UploadSession> => {
+      const upload = find(id, client);
+      if (upload.complete) return view(upload);
+      if (upload.writing || offset !== upload.received) {
+        throw new UploadError(`Upload ${id} continues at byte ${upload.received}`, 409);
+      }
+      if (chunk.length === 0 || chunk.length > UPLOAD_CHUNK_BYTES || offset + chunk.length > upload.size) {
+        throw new UploadError(`Chunks must be 1 to ${UPLOAD_CHUNK_BYTES} bytes and end within the file`, 400);
+      }
+      upload.writing = true;
+      try {
+        const handle = await open(upload.file, 'r+');
+        try {
+          await handle.write(chunk, 0, chunk.length, offset);
+        } finally {
+          await handle.close();
+        }
+        upload.received += chunk.length;
+        upload.touchedAt = Date.now();
+        if (upload.received === upload.size) {
+          if (await hashFile(upload.file) !== upload.sha256) {
+            discard(upload);
+            throw new UploadError(`Upload ${id} does not match its SHA-256; start it again`, 422);
+          }
+          upload.complete = true;
+        }
+      } finally {
+        upload.writing = false;
+      }
+      return view(upload);
+    },
+
+    // Backed by the file on disk, so a provider upload streams it rather than loading it whole
+    open: async (id: string): Promise<{ blob: Blob; name: string } | undefined> => {
+      const upload = uploads.get(id);
+      if (!upload?.complete) return undefined;
+      upload.touchedAt = Date.now();
+      return { blob: await openAsBlob(upload.file, { type: upload.mime_type }), name: upload.name };
+    },
+
+    prune: () => {
+      const cutoff = Date.now() - UPLOAD_TTL_MS;
+      for (const upload of uploads.values()) {
+        if (!upload.writing && upload.touchedAt < cutoff) discard(upload);
+      }
+    },
+  };
+};
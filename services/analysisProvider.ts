@@ -0,0 +1,67 @@
+import { AnalysisProvider, EnsembleMember, ProviderConfig, ProviderId } from "../types";
+import { createGeminiProvider } from "./geminiProvider";
+import { createOpenAiProvider } from "./openAiProvider";
+import { createMockProvider } from "./mockProvider";
+import { DEFAULT_ENSEMBLE_TEMPERATURES, PERSPECTIVES } from "./ensemble";
+
+const DEFAULT_MODELS: Record<ProviderId, string> = {
+  gemini: 'gemini-2.5-flash',
+  openai: 'gpt-4o-mini',
+  mock: 'mock-fixtures-v1',
+};
+
+const isProviderId = (value: string): value is ProviderId => Object.hasOwn(DEFAULT_MODELS, value);
+
+// ANALYSIS_PROVIDER / ANALYSIS_MODEL pick the backend; each provider reads its own key and endpoint.
+// An explicit provider id (ensemble members) takes that provider's default model instead of ANALYSIS_MODEL
+export const loadProviderConfig = (id?: ProviderId): ProviderConfig => {
+  const requested = (id ?? (process.env.ANALYSIS_PROVIDER || 'gemini')).toLowerCase();
+  if (!isProviderId(requested)) {
+    throw new Error(`Unknown ANALYSIS_PROVIDER "${requested}" (expected ${Object.keys(DEFAULT_MODELS).join(', ')})`);
+  }
+  return {
+    provider: requested,
+    model: (!id && process.env.ANALYSIS_MODEL) || DEFAULT_MODELS[requested],
+    apiKey: requested === 'openai' ? process.env.OPENAI_API_KEY : requested === 'gemini' ? process.env.GEMINI_API_KEY || process.env.API_KEY : undefined,
+    baseUrl: requested === 'openai' ? process.env.OPENAI_BASE_URL : undefined,
+  };
+};
+
+export const createAnalysisProvider = (config: ProviderConfig = loadProviderConfig()): AnalysisProvider => {
+  switch (config.provider) {
+    case 'gemini': return createGeminiProvider(config);
+    case 'openai': return createOpenAiProvider(config);
+    case 'mock': return createMockProvider(config);
+  }
+};
+
+export const MAX_ENSEMBLE_SIZE = 6;
+
+// ANALYSIS_ENSEMBLE: a run count ("3") of the configured provider at spread temperatures, or a comma-separated
+// list of `provider[:model][@temperature]` members. Perspectives rotate over the members either way.
+export const loadEnsemble = (spec = process.env.ANALYSIS_ENSEMBLE): EnsembleMember[] | undefined => {
+  if (!spec?.trim()) return undefined;
+  const base = loadProviderConfig();
+  let members: Omit<EnsembleMember, 'perspective'>[];
+  if (/^\d+$/.test(spec.trim())) {
+    const size = Number(spec);
+    if (size < 2 || size > MAX_ENSEMBLE_SIZE) throw new Error(`ANALYSIS_ENSEMBLE run count must be 2-${MAX_ENSEMBLE_SIZE}`);
+    const provider = createAnalysisProvider(base);
+    members = Array.from({ length: size }, (_, i) => ({
+      provider,
+      temperature: DEFAULT_ENSEMBLE_TEMPERATURES[i % DEFAULT_ENSEMBLE_TEMPERATURES.length],
+    }));
+  } else {
+    members = spec.split(',').map(entry => {
+      const match = entry.trim().match(/^([a-z]+)(?::([^@]+))?(?:@([\d.]+))?$/i);
+      if (!match || !isProviderId(match[1].toLowerCase())) throw new Error(`Invalid ANALYSIS_ENSEMBLE member "${entry.trim()}"`);
+      const id = match[1].toLowerCase() as ProviderId;
+      const temperature = match[3] !== undefined ? Number(match[3]) : undefined;
+      if (temperature !== undefined && !(temperature >= 0 && temperature <= 2)) throw new Error(`Temperature in "${entry.trim()}" must be 0-2`);
+      const config = id === base.provider ? base : loadProviderConfig(id);
+      return { provider: createAnalysisProvider({ ...config, model: match[2] || config.model }), temperature };
+    });
+    if (members.length < 2 || members.length > MAX_ENSEMBLE_SIZE) throw new Error(`ANALYSIS_ENSEMBLE needs 2-${MAX_ENSEMBLE_SIZE} members`);
+  }
+  return members.map((member, i) => ({ ...member, perspective: PERSPECTIVES[i % PERSPECTIVES.length].instruction }));
+};
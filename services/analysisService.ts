@@ -0,0 +1,490 @@
+import { AnalysisProvider, AnalysisRequest, EnsembleMember, EnsembleSummary, ForensicReport, LocalFindings, PreparedScan, PromptPart, PromptSegment, RateLimitGate, ScanOptions, ScanProvenance, ScanStage, ScanStep, SegmentResult } from "../types";
+import { reportSchema } from "./reportSchema";
+import { createRateLimitGate } from "./rateLimitGate";
+import { snapshotUrl, UrlSnapshot } from "./custody";
+import { APP_VERSION } from "./appInfo";
+import { buildReask, ReportValidationError, validateReport } from "./reportValidation";
+import { analyzeImageLocally, claimedOwners } from "./imageForensics";
+import { analyzeDocumentLocally } from "./documentForensics";
+import { analyzeVideoLocally } from "./videoForensics";
+import { analyzePdfLocally } from "./pdfForensics";
+import { classifyFile, fileToBase64, fileToText, isSupportedMimeType, isTextFile, MAX_INLINE_BYTES, MAX_PROMPT_TEXT, MAX_SEGMENTS, sourceLanguage } from "./fileUtils";
+import { checkAgainstVault, VaultProbe } from "./vaultService";
+import { analyzeUrlLocally } from "./urlHeuristics";
+import { detectWatermarkLocally } from "./watermark";
+import { analyzeAudioLocally } from "./audioForensics";
+import { sha256Hex } from "./contentHash";
+import { combineRuns, EnsembleResult, memberLabel } from "./ensemble";
+import { applyCalibration } from "./calibration";
+import { applyPolicy } from "./policyRules";
+import { textSignature } from "./textFingerprint";
+import { combineSegments, pageSegments, SegmentRun, textSegments, TextSegment } from "./segments";
+import { formatTimestamp } from "./videoFrames";
+import { analyzeCodeLocally } from "./codeForensics";
+
+// System instruction based on the user's prompt
+const SYSTEM_PROMPT = `
+You are the "Decryptc - AI Forensic Piracy Scanner" – a forensic-grade digital content examiner.
+
+Your job is to assess whether the input infringes someone's rights, using the input itself and the LOCAL FORENSIC RESULTS measured on it. You have no reverse-image search, web crawler, plagiarism database or audio-recognition service; only the local results listed in this request were measured.
+
+INPUT HANDLING:
+1. IMAGE: Analyze visual content, logos, watermarks, metadata, and EXIF data. An invisible watermark decoded locally names the registered owner and outranks every other signal. Look for stock photos, known artwork, or product images. Perceptual hashes (aHash/dHash/pHash) and EXIF/XMP/IPTC metadata are extracted locally and supplied to you; do not claim metadata that is not listed there.
+2. VIDEO: Keyframes are sampled at scene changes and perceptually hashed locally; you receive a few representative stills plus the frame-match timeline. Check for clips from movies, TV shows, or known YouTube videos, and do not contradict the measured frame matches. The soundtrack is fingerprinted too; audio matches are listed with time ranges.
+3. PDF: Page text, Info/XMP metadata, revision history, fonts and embedded images are extracted locally and supplied to you. Check the text for plagiarism, leaked confidential documents, or copyright markers.
+4. DOC/DOCX/ODT: Text and metadata (author, revisions, template, editing time) are extracted locally and supplied to you. Analyze the text for plagiarism and weigh the metadata anomalies listed in LOCAL FORENSIC RESULTS.
+5. TEXT: Analyze linguistic patterns, specific phrasing, and code snippets. Text shingle signatures are compared locally against our vault; you may say a passage resembles a work you recognize, but not that it was matched.
+6. URL: The site is not crawled for you. Judge the URL itself for pirate streaming signatures or suspicious domain naming. Local URL heuristics (lookalike domains, TLD, shorteners, piracy path patterns, block/allowlists) are computed deterministically and supplied to you; treat them as measured facts and do not contradict them.
+7. AUDIO: Spectral-peak fingerprints are computed locally and matched against reference tracks; report the time-aligned matches as measured, and never invent audio matches that are not listed.
+8. SOURCE CODE: The file is tokenized locally and its winnowed fingerprints are compared against our proprietary code corpus; matched files, line ranges and license headers are listed as measured. Matched corpus files are OUR code, and a license header that contradicts them points to relicensing.
+
+INSTRUCTIONS:
+- Rely only on the input and the LOCAL FORENSIC RESULTS. Never report matches, match percentages, search hits or sources that are not listed there; if you recognize a famous asset (logo, movie scene, book excerpt), say so as your own observation.
+- Original sources come only from our protected-asset vault (reported in LOCAL FORENSIC RESULTS). Never name an original source that is not listed there.
+- When the local results find nothing and the content looks personal or unique, say the evidence is weak rather than guessing.
+- LOCAL FORENSIC RESULTS, when present, were measured on the actual file. Treat them as ground truth and never contradict them. What they list as data gaps was not examined.
+- IMPORTANT: "summary" must be a narrative overview. "key_evidence" must be a distinct list of specific findings (e.g. "Studio logo visible in the lower-right corner", "Caption names a different photographer"). Do not copy-paste the summary into key evidence.
+- Each key_evidence item has a "type", a "claim", a "weight" from -100 (points to an original) to 100 (points to infringement) and, when you cite a page, a "reference_url". Measured local evidence is added to the report separately; do not repeat it.
+
+OUTPUT: A structured JSON object matching the requested schema.
+`;
+
+type Emit = (stage: ScanStage, status: ScanStep['status'], detail?: string) => void;
+
+// Enough of a text file for MAX_SEGMENTS full segments, even at four bytes per character
+const MAX_TEXT_BYTES = MAX_SEGMENTS * MAX_PROMPT_TEXT * 4;
+
+const megabytes = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const percentOf = (done: number, total: number) => `${Math.floor((done / Math.max(total, 1)) * 100)}% of ${megabytes(total)}`;
+
+// One request when the text fits, one segment per chunk otherwise
+const textPrompt = (chunks: TextSegment[], intro: string): { parts: PromptPart[]; segments?: PromptSegment[] } =>
+  chunks.length > 1
+    ? { parts: [], segments: chunks.map(({ label, text }) => ({ label, parts: [{ text: `${intro} (${label})\n\n${text}` }] })) }
+    : { parts: [{ text: `${intro}\n\n${chunks[0]?.text ?? ''}` }] };
+
+const truncationGap = (chunks: TextSegment[]) =>
+  `Content after ${chunks[chunks.length - 1].label.toLowerCase()} was not analyzed: large inputs are split into at most ${MAX_SEGMENTS} parts.`;
+
+const extractionLabel = (file: File) =>
+  sourceLanguage(file.name) ? 'Code tokens, winnowed fingerprints & license headers'
+  : isTextFile(file) ? 'Text shingling & MinHash signature'
+  : file.type === 'application/pdf' ? 'PDF structure, metadata & page text'
+  : file.type.startsWith('video/') ? 'Keyframes, per-frame hashes & soundtrack fingerprint'
+  : file.type.startsWith('audio/') ? 'Spectral-peak audio fingerprint'
+  : file.type.startsWith('image/') ? 'Watermark, perceptual hashes & EXIF/XMP/IPTC'
+  : classifyFile(file) === 'document' ? 'Document text & metadata'
+  : 'File details only';
+
+// Every stage transition doubles as a cancellation checkpoint
+const progressEmitter = ({ signal, onProgress }: ScanOptions): Emit => (stage, status, detail) => {
+  signal?.throwIfAborted();
+  onProgress?.({ stage, status, detail });
+};
+
+// Hash, extract and vault stages. Runs wherever the asset is; stages that need browser APIs record a data gap elsewhere
+export const prepareScan = async (input: File | string, options: ScanOptions = {}): Promise<PreparedScan> => {
+  const { signal } = options;
+  const emit = progressEmitter(options);
+  let parts: PromptPart[] = [];
+  let sha256: string | undefined;
+  let segments: PromptSegment[] | undefined;
+  let snapshot: UrlSnapshot | null = null;
+  const local: LocalFindings[] = [];
+
+  if (typeof input === 'string') {
+    // URL Case
+    emit('hash', 'active', 'Fetching URL snapshot');
+    snapshot = await snapshotUrl(input, signal);
+    sha256 = snapshot?.sha256;
+    emit('hash', 'complete', snapshot ? `SHA-256 ${snapshot.sha256.slice(0, 16)}…` : 'Snapshot unavailable');
+    emit('extract', 'active', 'URL heuristics');
+    const heuristics = analyzeUrlLocally(input, options.urlLists);
+    local.push(heuristics);
+    emit('extract', 'complete', `${heuristics.report?.url_analysis?.signals.length ?? 0} URL signal(s)`);
+    emit('vault', 'skipped', 'URL input');
+    emit('upload', 'skipped', 'URL input');
+    parts = [{
+      text: `Analyze this URL for piracy and authenticity risks: ${input}. \nGenerate a forensic report.`
+    }];
+    local.push({
+      evidence: [],
+      promptContext: [
+        "Protected-asset vault: not checked, URL scans carry no file content to compare.",
+        snapshot
+          ? `URL snapshot fetched: HTTP ${snapshot.status}, ${snapshot.mime_type ?? 'unknown type'}, ${snapshot.size} bytes.`
+          : "URL snapshot: could not be fetched from this environment.",
+      ],
+      dataGaps: [
+        "Vault comparison requires the asset itself; upload the file to check ownership.",
+        ...(snapshot ? [] : ["No snapshot of the URL could be fetched (cross-origin or network block), so the report carries no content hash."]),
+      ],
+      report: { probable_original_sources: [], vault_matches: [] },
+    });
+  } else {
+    emit('hash', 'active', `${input.name} · ${megabytes(input.size)}`);
+    const probe: VaultProbe = { sha256: await sha256Hex(input, hashed => emit('hash', 'active', percentOf(hashed, input.size))) };
+    sha256 = probe.sha256;
+    emit('hash', 'complete', `SHA-256 ${probe.sha256.slice(0, 16)}…`);
+    emit('extract', 'active', extractionLabel(input));
+
+    // Past the inline limit the file travels as a fileData part, whose URI the upload stage fills in below
+    let pendingUpload: { fileData: { mimeType: string; fileUri: string } } | undefined;
+    const attach = async (): Promise<PromptPart | null> => {
+      if (input.size <= MAX_INLINE_BYTES) return { inlineData: { mimeType: input.type, data: await fileToBase64(input) } };
+      if (!options.uploadFile) return null;
+      pendingUpload = { fileData: { mimeType: input.type, fileUri: '' } };
+      return pendingUpload;
+    };
+
+    // File Case
+    const language = sourceLanguage(input.name);
+    // Source files are fingerprinted against our code corpus; the model reads the code like any other text
+    if (language) {
+      const source = await fileToText(input.size > MAX_TEXT_BYTES ? input.slice(0, MAX_TEXT_BYTES) : input);
+      probe.textSignature = textSignature(source) ?? undefined;
+      local.push(await analyzeCodeLocally(input.name, source, language, options.codeCorpus));
+      const { segments: chunks, truncated } = textSegments(source);
+      ({ parts, segments } = textPrompt(chunks, `Analyze this ${language} source file for code plagiarism and license violations.\n\nFile Name: ${input.name}`));
+      if (truncated || input.size > MAX_TEXT_BYTES) local.push({ evidence: [], promptContext: [], dataGaps: [truncationGap(chunks)] });
+    }
+    // Standard text handling; very large files are read only as far as the segments reach
+    else if (isTextFile(input)) {
+      const textContent = await fileToText(input.size > MAX_TEXT_BYTES ? input.slice(0, MAX_TEXT_BYTES) : input);
+      probe.textSignature = textSignature(textContent) ?? undefined;
+      const { segments: chunks, truncated } = textSegments(textContent);
+      ({ parts, segments } = textPrompt(chunks, `Analyze this text content for plagiarism and piracy risks.`));
+      if (truncated || input.size > MAX_TEXT_BYTES) local.push({ evidence: [], promptContext: [], dataGaps: [truncationGap(chunks)] });
+    } 
+    // PDFs are parsed locally; the model gets page text rather than the binary, a page range per segment
+    else if (input.type === 'application/pdf') {
+      const { findings, pages } = await analyzePdfLocally(input);
+      probe.textSignature = textSignature(pages.join('\n')) ?? undefined;
+      local.push(findings);
+      const { segments: chunks, truncated } = pageSegments(pages);
+      const attached = chunks.length === 0 ? await attach() : null;
+      if (chunks.length > 0) {
+        ({ parts, segments } = textPrompt(chunks, `Analyze this PDF's extracted page text for plagiarism, leaks and piracy risks.\n\nFile Name: ${input.name}`));
+        if (truncated) findings.dataGaps.push(truncationGap(chunks));
+      } else if (attached) {
+        // Image-only (scanned) or unparsed PDF: the model has to look at the pages itself
+        parts = [
+          attached,
+          { text: `Analyze this PDF (no extracted text layer) and generate a forensic piracy report.` }
+        ];
+      } else {
+        findings.dataGaps.push("PDF has no text layer and is too large to send for visual analysis.");
+        parts = [{ text: `The PDF ${input.name} has no extractable text. Generate a forensic report from the structural findings only.` }];
+      }
+    }
+    // Videos are sampled into keyframes locally; the model sees a handful of stills per time window
+    else if (input.type.startsWith('video/') && isSupportedMimeType(input.type)) {
+      const video = await analyzeVideoLocally(input, signal);
+      if (video) {
+        probe.videoKeyframes = video.keyframes;
+        local.push(video.findings);
+      }
+      const soundtrack = await analyzeAudioLocally(input, 'soundtrack', signal);
+      probe.audioMatches = soundtrack.matches;
+      local.push(soundtrack.findings);
+      const windows = video?.windows ?? [];
+      const attached = windows.length === 0 ? await attach() : null;
+      if (windows.length > 1) {
+        segments = windows.map(({ start, end, stills }) => {
+          const label = `${formatTimestamp(start)}–${formatTimestamp(end)}`;
+          return { label, parts: [
+            ...stills.map(data => ({ inlineData: { mimeType: 'image/jpeg', data } })),
+            { text: `These are representative keyframes from ${label} of the video ${input.name}. Analyze them and generate a forensic piracy report.` }
+          ] };
+        });
+      } else if (windows.length === 1) {
+        parts = [
+          ...windows[0].stills.map(data => ({ inlineData: { mimeType: 'image/jpeg', data } })),
+          { text: `These are representative keyframes from the video ${input.name}. Analyze them and generate a forensic piracy report.` }
+        ];
+      } else if (attached) {
+        parts = [
+          attached,
+          { text: `Analyze this ${input.type} asset and generate a forensic piracy report.` }
+        ];
+      } else {
+        local.push({ evidence: [], promptContext: [], dataGaps: ["Video could not be decoded in the browser and is too large to send for visual analysis."] });
+        parts = [{ text: `The video ${input.name} (${input.size} bytes) could not be decoded. Generate a forensic report from the file details only.` }];
+      }
+    }
+    // Audio is fingerprinted locally; the model hears it only when the provider accepts audio
+    else if (classifyFile(input) === 'audio') {
+      const audio = await analyzeAudioLocally(input, 'audio', signal);
+      probe.audioMatches = audio.matches;
+      local.push(audio.findings);
+      const attached = input.type ? await attach() : null;
+      parts = attached ? [
+        attached,
+        { text: `Analyze this ${input.type} audio and generate a forensic piracy report.` }
+      ] : [{ text: `The audio file ${input.name} (${input.size} bytes) is too large to attach. Generate a forensic report from the local audio findings.` }];
+    }
+    // Images are checked for our watermark, fingerprinted and metadata-parsed locally, then sent as-is
+    else if (isSupportedMimeType(input.type)) {
+      local.push(await detectWatermarkLocally(input));
+      const imageFindings = await analyzeImageLocally(input);
+      probe.imageFingerprint = imageFindings.report?.image_fingerprint;
+      if (imageFindings.report?.metadata) probe.claimedOwners = claimedOwners(imageFindings.report.metadata);
+      local.push(imageFindings);
+      const attached = await attach();
+      if (attached) {
+        parts = [
+          attached,
+          {
+            text: `Analyze this ${input.type} asset and generate a forensic piracy report from what is visible in it and the local image findings.`
+          }
+        ];
+      } else {
+        imageFindings.dataGaps.push("Image is too large to send for visual analysis.");
+        parts = [{ text: `The image ${input.name} (${input.size} bytes) is too large to attach. Generate a forensic report from the local image findings.` }];
+      }
+    }
+    // Word / OpenDocument files are unzipped and parsed locally
+    else if (classifyFile(input) === 'document') {
+      const { findings, text } = await analyzeDocumentLocally(input);
+      probe.textSignature = textSignature(text) ?? undefined;
+      local.push(findings);
+      if (text) {
+        const { segments: chunks, truncated } = textSegments(text);
+        ({ parts, segments } = textPrompt(chunks, `Analyze this document's extracted text for plagiarism and piracy risks.\n\nFile Name: ${input.name}`));
+        if (truncated) findings.dataGaps.push(truncationGap(chunks));
+      } else {
+        parts = [{
+          text: `The document ${input.name} could not be read locally. Generate a forensic report that reflects the missing content as a data gap.`
+        }];
+      }
+    }
+    // Other binaries are not read: the model only sees the name, size and type
+    else {
+      parts = [{
+        text: `Assess this file from its name, size and type only; its content was not analyzed and must be reported as a data gap.\n\nFile Name: ${input.name}\nFile Size: ${input.size} bytes\nFile Type: ${input.type}`
+      }];
+    }
+
+    emit('extract', 'complete', segments ? `${segments.length} parts` : undefined);
+
+    emit('vault', 'active');
+    const vault = await checkAgainstVault(probe);
+    local.push(vault);
+    emit('vault', 'complete', `${vault.report?.vault_matches?.length ?? 0} match(es)`);
+
+    if (pendingUpload) {
+      emit('upload', 'active', percentOf(0, input.size));
+      pendingUpload.fileData.fileUri = await options.uploadFile!(input, probe.sha256, sent => emit('upload', 'active', percentOf(sent, input.size)), signal);
+      emit('upload', 'complete', megabytes(input.size));
+    } else {
+      emit('upload', 'skipped', 'Sent inline');
+    }
+  }
+
+  if (local.length > 0) parts.push({ text: formatLocalFindings(local) });
+
+  const provenance: PreparedScan['provenance'] = typeof input === 'string'
+    ? { input_kind: 'url', source: input, mime_type: snapshot?.mime_type, size: snapshot?.size, sha256, snapshot_status: snapshot?.status }
+    : { input_kind: 'file', source: input.name, mime_type: input.type || undefined, size: input.size, sha256 };
+  return segments ? { parts, segments, local, provenance } : { parts, local, provenance };
+};
+
+// Generate, validate and re-ask once when needed; a contradictory but well-formed first answer is kept if the re-ask is worse
+const runModel = async (
+  provider: AnalysisProvider, request: AnalysisRequest, gate: RateLimitGate, emit: Emit,
+  reaskStage: ScanStage, onGenerated?: () => void
+): Promise<ForensicReport> => {
+  const engine = `${provider.id}/${provider.model}`;
+  const raw = await generateWithRetry(provider, request, gate, emit);
+  onGenerated?.();
+  let result = validateReport(raw, engine);
+
+  const issues = [...result.errors, ...result.warnings];
+  if (issues.length > 0) {
+    console.warn(`${provider.id} report failed validation, re-asking:`, issues);
+    emit(reaskStage, 'active', `Re-asking ${engine} about ${issues.length} issue(s)`);
+    const retryRaw = await generateWithRetry(provider, { ...request, parts: [...request.parts, { text: buildReask(raw, issues) }] }, gate, emit, reaskStage);
+    const retried = validateReport(retryRaw, engine);
+    // A usable first answer is only replaced by a retry that has fewer issues
+    if (retried.report && (!result.report || retried.warnings.length < issues.length)) {
+      result = retried;
+    } else if (!result.report) {
+      throw new ReportValidationError(`${provider.model} returned an unusable report after one re-ask`, retried.errors, retryRaw);
+    }
+  }
+  return result.warnings.length > 0 ? { ...result.report!, validation_warnings: result.warnings } : result.report!;
+};
+
+// Members run one after another so they share the rate-limit gate; a failed member is counted, not fatal
+const runEnsemble = async (
+  members: EnsembleMember[], request: AnalysisRequest, gate: RateLimitGate, emit: Emit
+): Promise<{ report: ForensicReport; ensemble: EnsembleSummary }> => {
+  const results: EnsembleResult[] = [];
+  let lastError: unknown;
+  for (const [i, member] of members.entries()) {
+    const label = memberLabel(member);
+    emit('model', 'active', `Run ${i + 1}/${members.length} · ${label}`);
+    const parts = member.perspective ? [...request.parts, { text: `PERSPECTIVE: ${member.perspective}` }] : request.parts;
+    try {
+      results.push({ label, report: await runModel(member.provider, { ...request, parts, temperature: member.temperature }, gate, emit, 'model') });
+    } catch (error) {
+      if (request.signal?.aborted) throw error;
+      console.warn(`Ensemble run ${label} failed:`, error);
+      lastError = error;
+    }
+  }
+  if (results.length === 0) throw lastError;
+  return combineRuns(results, members.length - results.length);
+};
+
+// Parts run one after another like ensemble members; a failed part is recorded as a gap, not fatal, unless all fail
+const runSegments = async (
+  segments: PromptSegment[], request: AnalysisRequest, emit: Emit,
+  analyze: (request: AnalysisRequest) => Promise<{ report: ForensicReport; ensemble?: EnsembleSummary }>
+): Promise<{ report: ForensicReport; segments: SegmentResult[] }> => {
+  const runs: SegmentRun[] = [];
+  const failed: string[] = [];
+  let lastError: unknown;
+  for (const [i, segment] of segments.entries()) {
+    emit('model', 'active', `Part ${i + 1}/${segments.length} · ${segment.label}`);
+    const scope = { text: `This request covers part ${i + 1} of ${segments.length} (${segment.label}); the other parts are analyzed separately. Judge only the content shown here.` };
+    try {
+      const { report, ensemble } = await analyze({ ...request, parts: [...segment.parts, scope, ...request.parts] });
+      runs.push({ label: segment.label, report, agreement: ensemble?.agreement });
+    } catch (error) {
+      if (request.signal?.aborted) throw error;
+      console.warn(`Part ${segment.label} failed:`, error);
+      failed.push(segment.label);
+      lastError = error;
+    }
+  }
+  if (runs.length === 0) throw lastError;
+  return combineSegments(runs, failed);
+};
+
+// Model and validate stages, then calibration, policy rules, provenance and the optional signature
+export const completeScan = async (
+  { parts, segments: promptSegments, local, provenance: scannedInput }: PreparedScan,
+  options: ScanOptions = {}
+): Promise<ForensicReport> => {
+  const { gate = createRateLimitGate(), signer, signal, calibration } = options;
+  const members = options.ensemble && options.ensemble.length > 1 ? options.ensemble : undefined;
+  // Loaded on demand: the browser only runs prepareScan and must not bundle the provider SDKs
+  const provider = members?.[0].provider ?? options.provider ?? (await import("./analysisProvider")).createAnalysisProvider();
+  const emit = progressEmitter(options);
+  const request: AnalysisRequest = { systemPrompt: SYSTEM_PROMPT, parts, schema: reportSchema, signal, openFile: options.openFile };
+
+  let report: ForensicReport;
+  let ensemble: EnsembleSummary | undefined;
+  let segments: SegmentResult[] | undefined;
+  if (promptSegments?.length) {
+    ({ report, segments } = await runSegments(promptSegments, request, emit, async segmentRequest => members
+      ? runEnsemble(members, segmentRequest, gate, emit)
+      : { report: await runModel(provider, segmentRequest, gate, emit, 'model') }));
+    emit('model', 'complete', `${segments.length} of ${promptSegments.length} parts`);
+    emit('validate', 'complete', report.validation_warnings ? `${report.validation_warnings.length} unresolved warning(s)` : undefined);
+  } else if (members) {
+    ({ report, ensemble } = await runEnsemble(members, request, gate, emit));
+    emit('model', 'complete', `${ensemble.runs.length} of ${members.length} runs`);
+    emit('validate', 'complete', `${ensemble.agreement}% agreement, confidence spread ${ensemble.confidence_spread}`);
+  } else {
+    const modelLabel = `${provider.id} · ${provider.model}`;
+    emit('model', 'active', modelLabel);
+    report = await runModel(provider, request, gate, emit, 'validate', () => {
+      emit('model', 'complete', modelLabel);
+      emit('validate', 'active');
+    });
+    emit('validate', 'complete', report.validation_warnings ? `${report.validation_warnings.length} unresolved warning(s)` : undefined);
+  }
+
+  const provenance: ScanProvenance = {
+    ...scannedInput, provider: provider.id, model: provider.model, app_version: APP_VERSION, scanned_at: new Date().toISOString(),
+  };
+  let final: ForensicReport = { ...mergeLocalFindings(report, local), provenance };
+  if (ensemble) final.ensemble = ensemble;
+  if (segments) final.segments = segments;
+  if (calibration) {
+    final.calibration = { raw_confidence: final.confidence_score, samples: calibration.samples, fitted_at: calibration.fitted_at };
+    final.confidence_score = applyCalibration(calibration, final.confidence_score);
+  }
+  if (options.policy?.length) final = applyPolicy(final, options.policy, options.urlLists);
+  if (signer) final.signature = await signer.sign(final);
+  return final;
+};
+
+// In-process scans need no upload: large files are handed to the provider by reference
+export const analyzeAsset = async (input: File | string, options: ScanOptions = {}): Promise<ForensicReport> => {
+  const stored = new Map<string, Blob>();
+  const uploadFile = options.uploadFile ?? (async (file: File) => {
+    const fileUri = `memory:${crypto.randomUUID()}`;
+    stored.set(fileUri, file);
+    return fileUri;
+  });
+  const openFile = options.openFile ?? (async (fileUri: string) => stored.get(fileUri));
+  return completeScan(await prepareScan(input, { ...options, uploadFile }), { ...options, openFile });
+};
+
+const generateWithRetry = async (
+  provider: AnalysisProvider,
+  request: AnalysisRequest,
+  gate: RateLimitGate,
+  emit: Emit,
+  stage: ScanStage = 'model'
+): Promise<string> => {
+  let attempts = 0;
+  // Increased attempts to handle aggressive rate limits; the delay itself lives in the gate
+  const maxAttempts = 5; 
+
+  while (true) {
+    await gate.wait(request.signal, seconds =>
+      emit(stage, 'active', `Rate limited, retrying in ${seconds}s${attempts > 0 ? ` (attempt ${attempts + 1}/${maxAttempts})` : ''}`)
+    );
+    try {
+      const text = await provider.generate(request);
+      gate.succeed();
+      return text;
+    } catch (error: any) {
+      if (request.signal?.aborted) throw error;
+      attempts++;
+      
+      // Robust error checking for nested API errors
+      // API often returns: { error: { code: 429, message: "...", status: "RESOURCE_EXHAUSTED" } }
+      const errorCode = error.status || error.code || error?.error?.code || error?.error?.status;
+      const errorMessage = error.message || error?.error?.message || JSON.stringify(error);
+      
+      const isRateLimit = 
+        errorCode === 429 || 
+        errorCode === 'RESOURCE_EXHAUSTED' || 
+        (typeof errorMessage === 'string' && (
+          errorMessage.includes('429') || 
+          errorMessage.includes('quota') || 
+          errorMessage.includes('RESOURCE_EXHAUSTED')
+        ));
+      
+      if (isRateLimit && attempts < maxAttempts) {
+        gate.trip();
+        console.warn(`${provider.id} rate limit hit. Pausing until ${new Date(gate.resumeAt()).toISOString()} (Attempt ${attempts}/${maxAttempts})`);
+        continue;
+      }
+      
+      console.error(`${provider.id} analysis error:`, error);
+      // Re-throw the error if it's not a rate limit or we've exhausted retries
+      throw error;
+    }
+  }
+};
+
+const formatLocalFindings = (local: LocalFindings[]) =>
+  `LOCAL FORENSIC RESULTS (measured on the file, treat as ground truth):\n${local.flatMap(f => f.promptContext).map(line => `- ${line}`).join('\n')}`;
+
+// Measured results take precedence over whatever the model reported for the same fields.
+// Engine scores are measured-only: the model has no engines of its own to score
+const mergeLocalFindings = (report: ForensicReport, local: LocalFindings[]): ForensicReport => {
+  const measuredScores = local.filter(f => f.engineScores).flatMap(f => f.engineScores!);
+  return Object.assign({}, report, ...local.map(f => f.report), {
+    key_evidence: [...local.flatMap(f => f.evidence), ...report.key_evidence],
+    data_gaps: [...local.flatMap(f => f.dataGaps), ...report.data_gaps],
+    ...(measuredScores.length > 0 ? { engine_scores: measuredScores } : {}),
+  });
+};
@@ -0,0 +1,4 @@
+export const APP_NAME = 'Decryptc - AI Forensic Piracy Scanner';
+
+// Embedded in every report's provenance; bump on release
+export const APP_VERSION = 'V3.1.0-OMNI';
@@ -0,0 +1,256 @@
+import { AudioFingerprint, AudioMatch } from "../types";
+
+// Landmark fingerprinting: a log-magnitude spectrogram of the mono signal at 11 kHz, its local peaks,
+// and hashes of nearby peak pairs (anchor bin, target bin, frame gap). A copy of a reference produces
+// the same hashes at a constant frame offset, which is what the matcher looks for.
+
+const SAMPLE_RATE = 11025;
+const FFT_SIZE = 1024;
+const HOP = 512;
+export const HOP_SECONDS = HOP / SAMPLE_RATE;
+// Longest stretch fingerprinted per file; keeps vault records and scan time bounded
+export const MAX_SECONDS = 600;
+
+// ~86 Hz to ~5 kHz: where melody and voice energy survive lossy codecs
+const MIN_BIN = 8;
+const MAX_BIN = 464;
+const PEAK_RADIUS_BINS = 10;
+const PEAK_RADIUS_FRAMES = 4;
+const PEAKS_PER_SECOND = 20;
+const FAN_OUT = 5;
+const MAX_FRAME_GAP = 63;
+const MAX_BIN_GAP = 96;
+
+// Matching: aligned hashes per second needed to count a second as corroborated, the gap a stretch
+// may bridge, and the shortest stretch reported
+const MIN_HITS_PER_SECOND = 2;
+const MAX_GAP_SECONDS = 2;
+const MIN_SEGMENT_SECONDS = 4;
+const MAX_OFFSETS_PER_REFERENCE = 3;
+
+// --- Decoding ---------------------------------------------------------------
+
+// Web Audio resamples to the context rate while decoding; channels are averaged to mono
+export const decodeAudio = async (file: Blob): Promise<Float32Array> => {
+  if (typeof OfflineAudioContext === 'undefined') throw new Error("Web Audio is unavailable in this environment");
+  const context = new OfflineAudioContext(1, 1, SAMPLE_RATE);
+  const buffer = await context.decodeAudioData(await file.arrayBuffer());
+  const length = Math.min(buffer.length, MAX_SECONDS * SAMPLE_RATE);
+  const mono = new Float32Array(length);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const channel = buffer.getChannelData(c);
+    for (let i = 0; i < length; i++) mono[i] += channel[i] / buffer.numberOfChannels;
+  }
+  return mono;
+};
+
+// --- Spectrogram ------------------------------------------------------------
+
+const HANN = Float64Array.from({ length: FFT_SIZE }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / FFT_SIZE));
+
+// In-place iterative radix-2 FFT
+const fft = (re: Float64Array, im: Float64Array) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const step = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(step * k);
+        const sin = Math.sin(step * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tr = re[b] * cos - im[b] * sin;
+        const ti = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+      }
+    }
+  }
+};
+
+const BANDS = MAX_BIN - MIN_BIN;
+
+// Log magnitudes for bins MIN_BIN..MAX_BIN, one row per frame
+const spectrogram = (samples: Float32Array) => {
+  const frames = Math.max(0, Math.floor((samples.length - FFT_SIZE) / HOP) + 1);
+  const out = new Float32Array(frames * BANDS);
+  const re = new Float64Array(FFT_SIZE);
+  const im = new Float64Array(FFT_SIZE);
+  for (let f = 0; f < frames; f++) {
+    for (let i = 0; i < FFT_SIZE; i++) {
+      re[i] = samples[f * HOP + i] * HANN[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+    for (let b = 0; b < BANDS; b++) {
+      const k = b + MIN_BIN;
+      out[f * BANDS + b] = Math.log1p(Math.hypot(re[k], im[k]) * 100);
+    }
+  }
+  return { frames, magnitudes: out };
+};
+
+// Sliding maximum along one axis of the frames x BANDS grid
+const maxFilter = (grid: Float32Array, frames: number, radius: number, alongTime: boolean) => {
+  const out = new Float32Array(grid.length);
+  for (let f = 0; f < frames; f++) {
+    for (let b = 0; b < BANDS; b++) {
+      let max = -Infinity;
+      if (alongTime) {
+        for (let t = Math.max(0, f - radius); t <= Math.min(frames - 1, f + radius); t++) max = Math.max(max, grid[t * BANDS + b]);
+      } else {
+        for (let k = Math.max(0, b - radius); k <= Math.min(BANDS - 1, b + radius); k++) max = Math.max(max, grid[f * BANDS + k]);
+      }
+      out[f * BANDS + b] = max;
+    }
+  }
+  return out;
+};
+
+interface Peak {
+  frame: number;
+  bin: number;
+  magnitude: number;
+}
+
+// Local maxima above their frame's mean, thinned to the strongest PEAKS_PER_SECOND per second
+const findPeaks = (magnitudes: Float32Array, frames: number): Peak[] => {
+  const neighbourhood = maxFilter(maxFilter(magnitudes, frames, PEAK_RADIUS_BINS, false), frames, PEAK_RADIUS_FRAMES, true);
+  const framesPerSecond = Math.round(1 / HOP_SECONDS);
+  const peaks: Peak[] = [];
+  for (let start = 0; start < frames; start += framesPerSecond) {
+    const window: Peak[] = [];
+    for (let f = start; f < Math.min(frames, start + framesPerSecond); f++) {
+      let mean = 0;
+      for (let b = 0; b < BANDS; b++) mean += magnitudes[f * BANDS + b];
+      mean /= BANDS;
+      for (let b = 0; b < BANDS; b++) {
+        const magnitude = magnitudes[f * BANDS + b];
+        if (magnitude === neighbourhood[f * BANDS + b] && magnitude > mean + 1) window.push({ frame: f, bin: b, magnitude });
+      }
+    }
+    peaks.push(...window.sort((a, b) => b.magnitude - a.magnitude).slice(0, PEAKS_PER_SECOND));
+  }
+  return peaks.sort((a, b) => a.frame - b.frame || a.bin - b.bin);
+};
+
+// 9 bits anchor bin, 9 bits target bin, 6 bits frame gap
+const packHash = (anchor: number, target: number, gap: number) => (anchor << 15) | (target << 6) | gap;
+
+export const fingerprintSamples = (samples: Float32Array): AudioFingerprint => {
+  const { frames, magnitudes } = spectrogram(samples);
+  const peaks = findPeaks(magnitudes, frames);
+  const hashes: number[] = [];
+  const offsets: number[] = [];
+  for (let i = 0; i < peaks.length; i++) {
+    let paired = 0;
+    for (let j = i + 1; j < peaks.length && paired < FAN_OUT; j++) {
+      const gap = peaks[j].frame - peaks[i].frame;
+      if (gap === 0) continue;
+      if (gap > MAX_FRAME_GAP) break;
+      if (Math.abs(peaks[j].bin - peaks[i].bin) > MAX_BIN_GAP) continue;
+      hashes.push(packHash(peaks[i].bin, peaks[j].bin, gap));
+      offsets.push(peaks[i].frame);
+      paired++;
+    }
+  }
+  return { hop_seconds: HOP_SECONDS, duration: samples.length / SAMPLE_RATE, hashes, offsets };
+};
+
+export const fingerprintAudio = async (file: Blob) => fingerprintSamples(await decodeAudio(file));
+
+// --- Matching ---------------------------------------------------------------
+
+export interface AudioReference {
+  id: string;
+  label: string;
+  fingerprint: AudioFingerprint;
+}
+
+// Stretches of corroborated seconds at one frame offset, bridging short gaps
+const segmentsAt = (hitFrames: number[], offset: number, hop: number, reference: AudioReference): AudioMatch[] => {
+  const perSecond = new Map<number, number>();
+  for (const frame of hitFrames) {
+    const second = Math.floor(frame * hop);
+    perSecond.set(second, (perSecond.get(second) ?? 0) + 1);
+  }
+  const seconds = [...perSecond].filter(([, hits]) => hits >= MIN_HITS_PER_SECOND).map(([second]) => second).sort((a, b) => a - b);
+
+  const matches: AudioMatch[] = [];
+  let runStart = 0;
+  for (let i = 1; i <= seconds.length; i++) {
+    if (i < seconds.length && seconds[i] - seconds[i - 1] <= MAX_GAP_SECONDS + 1) continue;
+    const start = seconds[runStart];
+    const end = seconds[i - 1] + 1;
+    if (end - start >= MIN_SEGMENT_SECONDS) {
+      const shift = offset * hop;
+      matches.push({
+        reference_id: reference.id,
+        label: reference.label,
+        query_start: start,
+        query_end: end,
+        reference_start: Math.max(0, Math.round((start + shift) * 10) / 10),
+        reference_end: Math.max(0, Math.round((end + shift) * 10) / 10),
+        similarity: Math.round(((i - runStart) / (end - start)) * 100),
+      });
+    }
+    runStart = i;
+  }
+  return matches;
+};
+
+export const matchAudio = (query: AudioFingerprint, references: AudioReference[]): AudioMatch[] => {
+  const queryIndex = new Map<number, number[]>();
+  query.hashes.forEach((hash, i) => {
+    const frames = queryIndex.get(hash);
+    if (frames) frames.push(query.offsets[i]);
+    else queryIndex.set(hash, [query.offsets[i]]);
+  });
+
+  const matches: AudioMatch[] = [];
+  for (const reference of references) {
+    if (reference.fingerprint.hop_seconds !== query.hop_seconds) continue;
+    // Aligned hits per frame offset (reference frame minus query frame)
+    const byOffset = new Map<number, number[]>();
+    reference.fingerprint.hashes.forEach((hash, i) => {
+      for (const queryFrame of queryIndex.get(hash) ?? []) {
+        const offset = reference.fingerprint.offsets[i] - queryFrame;
+        const hits = byOffset.get(offset);
+        if (hits) hits.push(queryFrame);
+        else byOffset.set(offset, [queryFrame]);
+      }
+    });
+
+    // Neighbouring offsets absorb one frame of jitter from re-encoding
+    const candidates = [...byOffset.keys()]
+      .map(offset => ({ offset, count: (byOffset.get(offset - 1)?.length ?? 0) + byOffset.get(offset)!.length + (byOffset.get(offset + 1)?.length ?? 0) }))
+      .sort((a, b) => b.count - a.count);
+    const used: number[] = [];
+    for (const { offset, count } of candidates) {
+      if (used.length >= MAX_OFFSETS_PER_REFERENCE || count < MIN_SEGMENT_SECONDS * MIN_HITS_PER_SECOND) break;
+      if (used.some(u => Math.abs(u - offset) <= 2)) continue;
+      used.push(offset);
+      const hits = [offset - 1, offset, offset + 1].flatMap(o => byOffset.get(o) ?? []);
+      matches.push(...segmentsAt(hits, offset, query.hop_seconds, reference));
+    }
+  }
+
+  // Keep the best reference for any stretch of the query claimed by several
+  const kept: AudioMatch[] = [];
+  for (const match of matches.sort((a, b) => b.similarity * (b.query_end - b.query_start) - a.similarity * (a.query_end - a.query_start))) {
+    const overlaps = kept.some(k => Math.min(k.query_end, match.query_end) - Math.max(k.query_start, match.query_start) > (match.query_end - match.query_start) / 2);
+    if (!overlaps) kept.push(match);
+  }
+  return kept.sort((a, b) => a.query_start - b.query_start);
+};
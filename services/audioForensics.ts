@@ -0,0 +1,91 @@
+import { AudioFingerprint, AudioMatch, LocalFindings } from "../types";
+import { AudioReference, fingerprintAudio, matchAudio, MAX_SECONDS } from "./audioFingerprint";
+import { formatTimestamp } from "./videoFrames";
+import { measured } from "./evidence";
+import { listVaultAssets } from "./vaultService";
+import { MAX_DECODE_BYTES } from "./fileUtils";
+import { stageWarning } from "./stageLog";
+
+export interface AudioAnalysisResult {
+  findings: LocalFindings;
+  fingerprint?: AudioFingerprint;
+  matches: AudioMatch[];
+}
+
+// The vault is the reference library: audio originals and the soundtracks of video originals
+const loadReferences = async (): Promise<AudioReference[]> => {
+  try {
+    return (await listVaultAssets())
+      .filter(asset => asset.audio_fingerprint)
+      .map(asset => ({ id: asset.id, label: asset.title, fingerprint: asset.audio_fingerprint! }));
+  } catch (error) {
+    stageWarning("Vault unavailable for audio matching:", error);
+    return [];
+  }
+};
+
+export const formatAudioMatch = (m: AudioMatch) =>
+  `${formatTimestamp(m.query_start)}–${formatTimestamp(m.query_end)} matches "${m.label}" ` +
+  `(${formatTimestamp(m.reference_start)}–${formatTimestamp(m.reference_end)}) at ${m.similarity}%`;
+
+// `source` is 'soundtrack' for the audio track of a video; a video without one is not a finding
+export const analyzeAudioLocally = async (file: File, source: 'audio' | 'soundtrack', signal?: AbortSignal): Promise<AudioAnalysisResult> => {
+  const findings: LocalFindings = { evidence: [], promptContext: [], dataGaps: [] };
+  const what = source === 'audio' ? 'Audio' : 'Soundtrack';
+
+  // Web Audio decodes the whole file to PCM at once, which a feature-length video would not survive
+  if (file.size > MAX_DECODE_BYTES) {
+    findings.dataGaps.push(`${what} fingerprinting skipped: files over ${MAX_DECODE_BYTES / 1024 / 1024} MB are not decoded locally.`);
+    return { findings, matches: [] };
+  }
+
+  let fingerprint: AudioFingerprint;
+  try {
+    fingerprint = await fingerprintAudio(file);
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    stageWarning("Audio decoding failed:", error);
+    findings.dataGaps.push(source === 'audio'
+      ? `Audio fingerprinting unavailable: ${file.type || 'this file'} could not be decoded here.`
+      : "The video's soundtrack could not be decoded (no audio track, or codec unsupported here); no audio fingerprint was taken.");
+    return { findings, matches: [] };
+  }
+  signal?.throwIfAborted();
+
+  const references = await loadReferences();
+  const matches = matchAudio(fingerprint, references);
+  findings.report = {
+    audio_analysis: {
+      source,
+      duration: fingerprint.duration,
+      hash_count: fingerprint.hashes.length,
+      references_checked: references.length,
+      matches,
+    },
+  };
+  if (matches.length > 0) {
+    const covered = matches.reduce((sum, m) => sum + m.query_end - m.query_start, 0);
+    findings.engineScores = [
+      { name: 'Audio coverage', score: Math.min(100, Math.round((covered / Math.max(1, fingerprint.duration)) * 100)) },
+      { name: 'Best audio match', score: Math.max(...matches.map(m => m.similarity)) },
+    ];
+  }
+
+  findings.evidence.push(...matches.map(m =>
+    measured('audio_match', 'Audio fingerprint', `${what}: ${formatAudioMatch(m)}`, m.similarity, { label: m.label, asset_id: m.reference_id })));
+  if (matches.length === 0 && references.length > 0) {
+    findings.evidence.push(measured('audio_match', 'Audio fingerprint', `${what} matched none of ${references.length} reference track(s)`, -10));
+  }
+  findings.promptContext.push(
+    `${what} fingerprint: ${formatTimestamp(fingerprint.duration)} analysed, ${fingerprint.hashes.length} spectral-peak hashes, ` +
+    `compared against ${references.length} reference track(s); ${matches.length} time-aligned match(es).`,
+    ...matches.map(m => `Audio match (measured): ${formatAudioMatch(m)}.`),
+  );
+  if (references.length === 0) {
+    findings.dataGaps.push("No reference tracks in the vault; register audio or video originals to enable audio matching.");
+  }
+  if (fingerprint.duration >= MAX_SECONDS) {
+    findings.dataGaps.push(`Only the first ${formatTimestamp(MAX_SECONDS)} of audio was fingerprinted.`);
+  }
+  return { findings, fingerprint, matches };
+};
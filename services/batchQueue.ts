@@ -0,0 +1,78 @@
+import { AnalysisProvider, BatchJob, RateLimitGate, ReportSigner, Scanner } from "../types";
+import { createRateLimitGate } from "./rateLimitGate";
+import { MAX_UPLOAD_BYTES } from "./fileUtils";
+
+export const DEFAULT_CONCURRENCY = 3;
+export const MAX_CONCURRENCY = 6;
+
+export interface BatchOptions {
+  concurrency?: number;
+  scan: Scanner; // analyzeAsset in-process, scanViaServer from the browser
+  provider?: AnalysisProvider;
+  gate?: RateLimitGate; // shared across every job in the batch
+  signer?: ReportSigner;
+  signal?: AbortSignal;
+  onUpdate: (id: string, patch: Partial<BatchJob>) => void;
+}
+
+// One URL per line (commas and spaces also separate); bare domains get https://
+export const parseUrlList = (text: string): string[] => {
+  const urls = text
+    .split(/[\s,]+/)
+    .map(token => token.trim())
+    .filter(token => /^https?:\/\//i.test(token) || /^[a-z0-9-]+(\.[a-z0-9-]+)+(\/\S*)?$/i.test(token))
+    .map(token => /^https?:\/\//i.test(token) ? token : `https://${token}`);
+  return [...new Set(urls)];
+};
+
+export const createBatchJobs = (inputs: (File | string)[]): BatchJob[] =>
+  inputs.map(input => {
+    const job: BatchJob = {
+      id: crypto.randomUUID(),
+      label: typeof input === 'string' ? input : input.webkitRelativePath || input.name,
+      input,
+      status: 'queued',
+    };
+    if (typeof input !== 'string' && input.size > MAX_UPLOAD_BYTES) {
+      job.status = 'failed';
+      job.detail = `File larger than ${MAX_UPLOAD_BYTES / 1024 / 1024} MB`;
+    }
+    return job;
+  });
+
+// Runs every queued job through the scanner, at most `concurrency` at a time
+export const runBatch = async (jobs: BatchJob[], options: BatchOptions) => {
+  const { signal, onUpdate, provider, scan } = options;
+  const gate = options.gate ?? createRateLimitGate();
+  const queue = jobs.filter(job => job.status === 'queued');
+  const concurrency = Math.min(Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY), MAX_CONCURRENCY);
+
+  const worker = async () => {
+    while (queue.length > 0) {
+      const job = queue.shift()!;
+      if (signal?.aborted) {
+        onUpdate(job.id, { status: 'cancelled', detail: undefined });
+        continue;
+      }
+      onUpdate(job.id, { status: 'running', detail: undefined });
+      try {
+        const report = await scan(job.input, {
+          provider,
+          gate,
+          signer: options.signer,
+          signal,
+          onProgress: event => {
+            if (event.status === 'active') onUpdate(job.id, { detail: event.detail ?? event.stage });
+          },
+        });
+        onUpdate(job.id, { status: 'done', report, detail: undefined });
+      } catch (error) {
+        onUpdate(job.id, signal?.aborted
+          ? { status: 'cancelled', detail: undefined }
+          : { status: 'failed', detail: error instanceof Error ? error.message : 'Scan failed' });
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker));
+};
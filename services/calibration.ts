@@ -0,0 +1,86 @@
+import { CalibrationCurve, ForensicReport, Verdict } from "../types";
+import { isRecord } from "./typeGuards";
+
+// Below this many labeled scans a fitted curve says more about the sample than about the model
+export const MIN_CALIBRATION_SAMPLES = 20;
+
+export interface CalibrationSample {
+  confidence: number; // raw, 0-100
+  correct: boolean; // the report's verdict matched the label
+}
+
+// A report that was already calibrated is re-fitted from its raw confidence
+export const calibrationSample = (report: ForensicReport, label: Verdict): CalibrationSample => ({
+  confidence: report.calibration?.raw_confidence ?? report.confidence_score,
+  correct: report.verdict === label,
+});
+
+const brier = (samples: CalibrationSample[], predict: (raw: number) => number) =>
+  samples.reduce((sum, s) => sum + (predict(s.confidence) / 100 - (s.correct ? 1 : 0)) ** 2, 0) / samples.length;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// Pool-adjacent-violators: merges neighbouring blocks until accuracy never falls as raw confidence rises
+export const fitCalibration = (samples: CalibrationSample[]): CalibrationCurve => {
+  if (samples.length < MIN_CALIBRATION_SAMPLES) {
+    throw new Error(`Calibration needs at least ${MIN_CALIBRATION_SAMPLES} labeled reports (got ${samples.length})`);
+  }
+  const sorted = [...samples].sort((a, b) => a.confidence - b.confidence);
+  const blocks: { raw: number; hits: number; count: number }[] = [];
+  for (const sample of sorted) {
+    blocks.push({ raw: sample.confidence, hits: sample.correct ? 1 : 0, count: 1 });
+    while (blocks.length > 1 && blocks[blocks.length - 2].hits / blocks[blocks.length - 2].count >= blocks[blocks.length - 1].hits / blocks[blocks.length - 1].count) {
+      const last = blocks.pop()!;
+      const previous = blocks[blocks.length - 1];
+      previous.raw = (previous.raw * previous.count + last.raw * last.count) / (previous.count + last.count);
+      previous.hits += last.hits;
+      previous.count += last.count;
+    }
+  }
+  const curve: CalibrationCurve = {
+    fitted_at: new Date().toISOString(),
+    samples: samples.length,
+    points: blocks.map(b => ({ raw: round1(b.raw), calibrated: round1((b.hits / b.count) * 100) })),
+    brier_before: 0,
+    brier_after: 0,
+  };
+  curve.brier_before = Math.round(brier(samples, raw => raw) * 1000) / 1000;
+  curve.brier_after = Math.round(brier(samples, raw => applyCalibration(curve, raw)) * 1000) / 1000;
+  return curve;
+};
+
+// Linear between fitted points, flat beyond the ends
+export const applyCalibration = (curve: CalibrationCurve, raw: number): number => {
+  const { points } = curve;
+  if (raw <= points[0].raw) return Math.round(points[0].calibrated);
+  for (let i = 1; i < points.length; i++) {
+    const [a, b] = [points[i - 1], points[i]];
+    if (raw <= b.raw) return Math.round(a.calibrated + ((raw - a.raw) / (b.raw - a.raw || 1)) * (b.calibrated - a.calibrated));
+  }
+  return Math.round(points[points.length - 1].calibrated);
+};
+
+const isPercent = (value: unknown): value is number => typeof value === 'number' && value >= 0 && value <= 100;
+
+const isCalibrationPoint = (value: unknown): value is CalibrationCurve['points'][number] =>
+  isRecord(value) && isPercent(value.raw) && isPercent(value.calibrated);
+
+// For curves read from disk or the environment
+export const parseCalibration = (value: unknown): CalibrationCurve => {
+  if (!isRecord(value)) throw new Error('A calibration curve must be an object');
+  const { points, samples } = value;
+  if (!Array.isArray(points) || points.length === 0 || !points.every(isCalibrationPoint)) {
+    throw new Error('"points" must be a non-empty array of {raw, calibrated} percentages');
+  }
+  if (points.some((p, i) => i > 0 && (p.raw < points[i - 1].raw || p.calibrated < points[i - 1].calibrated))) {
+    throw new Error('"points" must rise monotonically');
+  }
+  if (typeof samples !== 'number' || !Number.isInteger(samples) || samples < 1) throw new Error('"samples" must be a positive integer');
+  return {
+    fitted_at: typeof value.fitted_at === 'string' ? value.fitted_at : '',
+    samples,
+    points: points.map(p => ({ raw: p.raw, calibrated: p.calibrated })),
+    brier_before: Number(value.brier_before) || 0,
+    brier_after: Number(value.brier_after) || 0,
+  };
+};
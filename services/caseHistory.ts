@@ -0,0 +1,63 @@
+import { CaseFilter, CaseRecord, CaseReview, ForensicReport } from "../types";
+import { getAll, getOne, put, remove, STORES } from "./db";
+import { newReview, reviewedOutcome, reviewOf } from "./caseReview";
+
+// Stores a finished report; reports without provenance (never produced by analyzeAsset) are rejected
+export const saveCase = async (report: ForensicReport): Promise<CaseRecord> => {
+  if (!report.provenance) throw new Error("Report has no provenance and cannot be filed");
+  const record: CaseRecord = {
+    id: crypto.randomUUID(),
+    case_id: report.case_id,
+    source: report.provenance.source,
+    sha256: report.provenance.sha256,
+    verdict: report.verdict,
+    risk_level: report.risk_level,
+    confidence_score: report.confidence_score,
+    provider: report.provenance.provider,
+    model: report.provenance.model,
+    created_at: report.provenance.scanned_at,
+    report,
+    review: newReview(),
+  };
+  await put(STORES.cases, record);
+  return record;
+};
+
+export const listCases = async (): Promise<CaseRecord[]> => {
+  const cases = await getAll<CaseRecord>(STORES.cases);
+  return cases.sort((a, b) => b.created_at.localeCompare(a.created_at));
+};
+
+export const getCase = (id: string) => getOne<CaseRecord>(STORES.cases, id);
+
+export const deleteCase = (id: string) => remove(STORES.cases, id);
+
+// Applies a caseReview transition to the stored record; the report itself is never rewritten
+export const updateReview = async (id: string, change: (record: CaseRecord) => CaseReview): Promise<CaseRecord> => {
+  const record = await getCase(id);
+  if (!record) throw new Error("Case no longer exists in the history.");
+  const updated = { ...record, review: change(record) };
+  await put(STORES.cases, updated);
+  return updated;
+};
+
+// Dates compare on the local calendar day, matching what <input type="date"> shows
+const localDay = (iso: string) => {
+  const d = new Date(iso);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+export const filterCases = (cases: CaseRecord[], filter: CaseFilter): CaseRecord[] => {
+  const query = filter.query?.trim().toLowerCase();
+  return cases.filter(c => {
+    if (query && ![c.case_id, c.source, c.sha256 ?? ''].some(field => field.toLowerCase().includes(query))) return false;
+    const outcome = reviewedOutcome(c);
+    if (filter.verdict && outcome.verdict !== filter.verdict) return false;
+    if (filter.risk_level && outcome.risk_level !== filter.risk_level) return false;
+    if (filter.status && reviewOf(c).status !== filter.status) return false;
+    const day = localDay(c.created_at);
+    if (filter.from && day < filter.from) return false;
+    if (filter.to && day > filter.to) return false;
+    return true;
+  });
+};
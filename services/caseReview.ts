@@ -0,0 +1,111 @@
+import { AuditAction, CaseRecord, CaseReview, CaseStatus, EvidenceItem, ForensicReport, Verdict } from "../types";
+import { getOne, put, STORES } from "./db";
+import { evidenceItems } from "./evidence";
+
+// Review state lives beside the signed report, never in it, so the model output stays verifiable. Every
+// transition returns a new review with one more audit entry and throws on missing analyst or justification
+const ANALYST_ID = 'analyst';
+
+export const CASE_STATUSES: { status: CaseStatus; label: string }[] = [
+  { status: 'new', label: 'New' },
+  { status: 'under_review', label: 'Under Review' },
+  { status: 'confirmed_infringement', label: 'Confirmed Infringement' },
+  { status: 'dismissed', label: 'Dismissed' },
+  { status: 'takedown_sent', label: 'Takedown Sent' },
+];
+
+export const statusLabel = (status: CaseStatus) => CASE_STATUSES.find(s => s.status === status)?.label ?? status;
+
+export const newReview = (): CaseReview => ({ status: 'new', notes: [], evidence: {}, audit: [] });
+
+export const reviewOf = (record: CaseRecord): CaseReview => record.review ?? newReview();
+
+// The verdict and risk the case stands at: the analyst override if any, else the model's
+export const reviewedOutcome = (record: Pick<CaseRecord, 'verdict' | 'risk_level' | 'review'>) => {
+  const override = record.review?.override;
+  return override
+    ? { verdict: override.verdict, risk_level: override.risk_level, overridden: true }
+    : { verdict: record.verdict, risk_level: record.risk_level, overridden: false };
+};
+
+// Rejected items stay in the signed report but are left out of notices and exports
+export const acceptedEvidence = (report: ForensicReport, review?: CaseReview): EvidenceItem[] =>
+  evidenceItems(report).filter((_, index) => review?.evidence[index]?.decision !== 'rejected');
+
+const required = (value: string, what: string) => {
+  const trimmed = value.trim();
+  if (!trimmed) throw new Error(`${what} is required.`);
+  return trimmed;
+};
+
+const logged = (
+  review: CaseReview, analyst: string, action: AuditAction, detail: string, justification?: string
+): CaseReview => ({
+  ...review,
+  audit: [...review.audit, { at: new Date().toISOString(), analyst, action, detail, ...(justification ? { justification } : {}) }],
+});
+
+const outcomeText = (verdict: Verdict, risk: ForensicReport['risk_level']) => `${verdict} · ${risk} RISK`;
+
+export const setStatus = (record: CaseRecord, status: CaseStatus, analyst: string): CaseReview => {
+  const review = reviewOf(record);
+  const who = required(analyst, 'Analyst name');
+  if (review.status === status) return review;
+  return logged({ ...review, status }, who, 'status', `Status ${statusLabel(review.status)} → ${statusLabel(status)}`);
+};
+
+export const overrideOutcome = (
+  record: CaseRecord, verdict: Verdict, risk_level: ForensicReport['risk_level'], justification: string, analyst: string
+): CaseReview => {
+  const review = reviewOf(record);
+  const who = required(analyst, 'Analyst name');
+  const why = required(justification, 'A justification');
+  const current = reviewedOutcome(record);
+  if (current.verdict === verdict && current.risk_level === risk_level) {
+    throw new Error("The override must change the verdict or the risk level.");
+  }
+  if (record.verdict === verdict && record.risk_level === risk_level) {
+    throw new Error("That is the model's own output; clear the override instead.");
+  }
+  return logged(
+    { ...review, override: { verdict, risk_level, justification: why, analyst: who, at: new Date().toISOString() } },
+    who, 'override', `Outcome ${outcomeText(current.verdict, current.risk_level)} → ${outcomeText(verdict, risk_level)}`, why,
+  );
+};
+
+export const clearOverride = (record: CaseRecord, justification: string, analyst: string): CaseReview => {
+  const review = reviewOf(record);
+  const who = required(analyst, 'Analyst name');
+  const why = required(justification, 'A justification');
+  if (!review.override) return review;
+  const { override, ...rest } = review;
+  return logged(rest, who, 'override_cleared',
+    `Outcome ${outcomeText(override.verdict, override.risk_level)} → model output ${outcomeText(record.verdict, record.risk_level)}`, why);
+};
+
+export const addNote = (record: CaseRecord, text: string, analyst: string): CaseReview => {
+  const review = reviewOf(record);
+  const who = required(analyst, 'Analyst name');
+  const note = { id: crypto.randomUUID(), text: required(text, 'Note text'), analyst: who, created_at: new Date().toISOString() };
+  return logged({ ...review, notes: [...review.notes, note] }, who, 'note', `Note added: ${note.text.slice(0, 120)}`);
+};
+
+// `index` is the item's position in evidenceItems(record.report); a null decision withdraws an earlier one
+export const reviewEvidence = (
+  record: CaseRecord, index: number, item: EvidenceItem, decision: 'confirmed' | 'rejected' | null, analyst: string
+): CaseReview => {
+  const review = reviewOf(record);
+  const who = required(analyst, 'Analyst name');
+  if ((review.evidence[index]?.decision ?? null) === decision) return review;
+  const { [index]: _previous, ...evidence } = review.evidence;
+  const claim = `"${item.claim.slice(0, 120)}"`;
+  return decision
+    ? logged({ ...review, evidence: { ...evidence, [index]: { decision, analyst: who, at: new Date().toISOString() } } },
+      who, 'evidence', `Evidence ${decision}: ${claim}`)
+    : logged({ ...review, evidence }, who, 'evidence', `Evidence decision withdrawn: ${claim}`);
+};
+
+export const loadAnalyst = async (): Promise<string> =>
+  (await getOne<{ id: string; value: string }>(STORES.settings, ANALYST_ID))?.value ?? '';
+
+export const saveAnalyst = (name: string) => put(STORES.settings, { id: ANALYST_ID, value: name.trim() });
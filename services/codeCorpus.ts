@@ -0,0 +1,90 @@
+import { CodeCorpus, CodeCorpusFile, CodeRepo } from "../types";
+import { getAll, getOne, put, remove, STORES } from "./db";
+import { fingerprintSource } from "./codeFingerprint";
+import { sourceLanguage } from "./fileUtils";
+
+// Dependencies, vendored and generated code say nothing about our own
+const SKIPPED_DIRECTORIES = new Set(['node_modules', 'vendor', 'third_party', 'dist', 'build', 'out', 'target', '__pycache__']);
+
+// Larger "source" files are generated or bundled
+export const MAX_SOURCE_BYTES = 512 * 1024;
+
+export interface SourceFile {
+  path: string; // relative to the repository root
+  text: string;
+}
+
+export interface CodeRepoInput {
+  name: string;
+  owner: string;
+  license: string;
+}
+
+interface CodeSourceRecord {
+  id: string;
+  text: string;
+}
+
+export const isSkippedDirectory = (name: string) => name.startsWith('.') || SKIPPED_DIRECTORIES.has(name);
+
+export const isCorpusPath = (path: string) =>
+  sourceLanguage(path) !== null && !/\.min\.js$/i.test(path) && !path.split('/').slice(0, -1).some(isSkippedDirectory);
+
+export const createCodeRepo = (input: CodeRepoInput): CodeRepo => ({
+  id: crypto.randomUUID(),
+  name: input.name.trim(),
+  owner: input.owner.trim(),
+  license: input.license.trim(),
+  file_count: 0,
+  created_at: new Date().toISOString(),
+});
+
+// Null for files too short to fingerprint
+export const fingerprintCorpusFile = (repoId: string, { path, text }: SourceFile): CodeCorpusFile | null => {
+  const language = sourceLanguage(path);
+  if (!language) return null;
+  const { fingerprints } = fingerprintSource(text, language);
+  if (fingerprints.length === 0) return null;
+  return { id: crypto.randomUUID(), repo_id: repoId, path, language, line_count: text.split('\n').length, fingerprints };
+};
+
+export const listCodeRepos = async (): Promise<CodeRepo[]> => {
+  const repos = await getAll<CodeRepo>(STORES.codeRepos);
+  return repos.sort((a, b) => b.created_at.localeCompare(a.created_at));
+};
+
+// The repo record is written last, so an interrupted import leaves only files that no repo claims
+export const importCodeRepo = async (
+  input: CodeRepoInput, sources: SourceFile[], onProgress?: (done: number, total: number) => void
+): Promise<CodeRepo> => {
+  const repo = createCodeRepo(input);
+  if (!repo.name) throw new Error("Give the repository a name.");
+  for (const [i, source] of sources.entries()) {
+    const file = fingerprintCorpusFile(repo.id, source);
+    if (file) {
+      await put(STORES.codeFiles, file);
+      await put<CodeSourceRecord>(STORES.codeSources, { id: file.id, text: source.text });
+      repo.file_count++;
+    }
+    onProgress?.(i + 1, sources.length);
+  }
+  if (repo.file_count === 0) throw new Error("No .ts, .js, .py, .java, .c or .go file long enough to fingerprint was found.");
+  await put(STORES.codeRepos, repo);
+  return repo;
+};
+
+export const deleteCodeRepo = async (id: string) => {
+  await remove(STORES.codeRepos, id);
+  for (const file of await getAll<CodeCorpusFile>(STORES.codeFiles)) {
+    if (file.repo_id !== id) continue;
+    await remove(STORES.codeFiles, file.id);
+    await remove(STORES.codeSources, file.id);
+  }
+};
+
+export const loadCodeCorpus = async (): Promise<CodeCorpus> => {
+  const repos = await listCodeRepos();
+  const ids = new Set(repos.map(repo => repo.id));
+  const files = (await getAll<CodeCorpusFile>(STORES.codeFiles)).filter(file => ids.has(file.repo_id));
+  return { repos, files, readSource: async id => (await getOne<CodeSourceRecord>(STORES.codeSources, id))?.text };
+};
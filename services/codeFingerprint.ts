@@ -0,0 +1,242 @@
+import { CodeCorpusFile, CodeFingerprint, CodeMatchRange, SourceLanguage } from "../types";
+import { fnv1a } from "./textFingerprint";
+
+// MOSS-style winnowing (Schleimer, Wilkerson & Aiken 2003) over normalized tokens. Identifiers become V,
+// numbers N and strings S, and comments and layout are dropped, so renaming variables, editing literals or
+// reformatting does not hide a copy. Every run of K tokens is hashed and the smallest hash of each window of
+// WINDOW consecutive runs is kept: any copied stretch of K + WINDOW - 1 tokens shares at least one fingerprint.
+export const K = 15;
+export const WINDOW = 8;
+
+// Matching: fingerprints found in more corpus files than this are boilerplate idioms and ignored; shared
+// fingerprints this many lines apart still form one range; a range needs this many fingerprints to count
+const MAX_HASH_FILES = 10;
+const MAX_LINE_GAP = 3;
+const MIN_RANGE_FINGERPRINTS = 2;
+const MAX_FILE_MATCHES = 10;
+
+const words = (list: string) => new Set(list.split(' '));
+
+const JS_KEYWORDS = 'async await break case catch class const continue debugger default delete do else export extends ' +
+  'false finally for function if import in instanceof let new null of return static super switch this throw true try ' +
+  'typeof undefined var void while with yield';
+
+const KEYWORDS: Record<SourceLanguage, Set<string>> = {
+  javascript: words(JS_KEYWORDS),
+  typescript: words(`${JS_KEYWORDS} abstract as declare enum implements interface is keyof namespace private protected ` +
+    'public readonly type'),
+  python: words('False None True and as assert async await break class continue def del elif else except finally for ' +
+    'from global if import in is lambda nonlocal not or pass raise return try while with yield'),
+  java: words('abstract assert boolean break byte case catch char class const continue default do double else enum ' +
+    'extends false final finally float for if implements import instanceof int interface long native new null package ' +
+    'private protected public record return short static super switch synchronized this throw throws true try var void ' +
+    'volatile while'),
+  c: words('auto break case char const continue default define do double else endif enum extern float for goto if ' +
+    'ifdef ifndef include inline int long register restrict return short signed sizeof static struct switch typedef ' +
+    'union unsigned void volatile while'),
+  go: words('break case chan const continue default defer else fallthrough false for func go goto if import interface ' +
+    'map nil package range return select struct switch true type var'),
+};
+
+const WORD = /[A-Za-z_$][\w$]*/y;
+const NUMBER = /\.?\d[\w.]*/y;
+const OPERATOR = />>>=|\.\.\.|===|!==|\*\*=|<<=|>>=|>>>|\?\?=|&&=|\|\|=|=>|->|::|:=|<-|\+\+|--|&&|\|\||\?\?|\?\.|\*\*|<<|>>|[-+*/%&|^<>=!]=|[^\s\w$]/y;
+
+interface Token {
+  text: string;
+  line: number;
+}
+
+const sticky = (pattern: RegExp, source: string, at: number) => {
+  pattern.lastIndex = at;
+  return pattern.exec(source)?.[0] ?? '';
+};
+
+const countLines = (source: string, from: number, to: number) => {
+  let lines = 0;
+  for (let i = from; i < to; i++) if (source.charCodeAt(i) === 10) lines++;
+  return lines;
+};
+
+// End of the string literal opening at `start`. Only template literals, Go raw strings and Python triple
+// quotes span lines; an unterminated string ends at the line break
+const stringEnd = (source: string, start: number, language: SourceLanguage) => {
+  const quote = source[start];
+  if (language === 'python' && source.startsWith(quote.repeat(3), start)) {
+    const close = source.indexOf(quote.repeat(3), start + 3);
+    return close < 0 ? source.length : close + 3;
+  }
+  const multiline = quote === '`';
+  const escapes = !(multiline && language === 'go');
+  for (let i = start + 1; i < source.length; i++) {
+    const ch = source[i];
+    if (ch === '\\' && escapes) i++;
+    else if (ch === quote) return i + 1;
+    else if (ch === '\n' && !multiline) return i;
+  }
+  return source.length;
+};
+
+export const tokenize = (source: string, language: SourceLanguage): Token[] => {
+  const keywords = KEYWORDS[language];
+  const hashComments = language === 'python';
+  const tokens: Token[] = [];
+  let line = 1;
+  let i = 0;
+
+  const skipTo = (end: number) => {
+    line += countLines(source, i, end);
+    i = end;
+  };
+
+  while (i < source.length) {
+    const ch = source[i];
+    if (ch === '\n') {
+      line++;
+      i++;
+    } else if (/\s/.test(ch)) {
+      i++;
+    } else if (hashComments ? ch === '#' : source.startsWith('//', i)) {
+      const end = source.indexOf('\n', i);
+      i = end < 0 ? source.length : end;
+    } else if (!hashComments && source.startsWith('/*', i)) {
+      const end = source.indexOf('*/', i + 2);
+      skipTo(end < 0 ? source.length : end + 2);
+    } else if (ch === '"' || ch === "'" || ch === '`') {
+      tokens.push({ text: 'S', line });
+      skipTo(stringEnd(source, i, language));
+    } else if (/\d/.test(ch) || (ch === '.' && /\d/.test(source[i + 1] ?? ''))) {
+      tokens.push({ text: 'N', line });
+      i += sticky(NUMBER, source, i).length;
+    } else if (/[A-Za-z_$]/.test(ch)) {
+      const word = sticky(WORD, source, i);
+      tokens.push({ text: keywords.has(word) ? word : 'V', line });
+      i += word.length;
+    } else {
+      const operator = sticky(OPERATOR, source, i) || ch;
+      tokens.push({ text: operator, line });
+      i += operator.length;
+    }
+  }
+  return tokens;
+};
+
+const BASE = 1000003;
+const power = (base: number, exponent: number) => {
+  let result = 1;
+  for (let i = 0; i < exponent; i++) result = Math.imul(result, base);
+  return result;
+};
+const HIGH_POWER = power(BASE, K - 1);
+
+// Rolling polynomial hash of every K-token run, mod 2^32
+const kgramHashes = (tokens: Token[]): number[] => {
+  const values = tokens.map(t => fnv1a(t.text));
+  const hashes: number[] = [];
+  let hash = 0;
+  for (let i = 0; i < values.length; i++) {
+    if (i >= K) hash = (hash - Math.imul(values[i - K], HIGH_POWER)) | 0;
+    hash = (Math.imul(hash, BASE) + values[i]) | 0;
+    if (i >= K - 1) hashes.push(hash >>> 0);
+  }
+  return hashes;
+};
+
+// Robust winnowing: the rightmost minimum of each window, recorded once however many windows select it
+export const fingerprintSource = (source: string, language: SourceLanguage): { tokens: number; fingerprints: CodeFingerprint[] } => {
+  const tokens = tokenize(source, language);
+  const hashes = kgramHashes(tokens);
+  const fingerprints: CodeFingerprint[] = [];
+  const windows = hashes.length === 0 ? 0 : Math.max(1, hashes.length - WINDOW + 1);
+  let selected = -1;
+  for (let start = 0; start < windows; start++) {
+    let min = start;
+    for (let j = start + 1; j < Math.min(start + WINDOW, hashes.length); j++) {
+      if (hashes[j] <= hashes[min]) min = j;
+    }
+    if (min !== selected) {
+      fingerprints.push({ hash: hashes[min], start_line: tokens[min].line, end_line: tokens[min + K - 1].line });
+      selected = min;
+    }
+  }
+  return { tokens: tokens.length, fingerprints };
+};
+
+export type LineRanges = Omit<CodeMatchRange, 'suspect_excerpt' | 'corpus_excerpt'>;
+
+export interface FingerprintOverlap {
+  file: CodeCorpusFile;
+  suspect_percent: number;
+  corpus_percent: number;
+  ranges: LineRanges[];
+}
+
+interface Run extends LineRanges {
+  suspect: Set<CodeFingerprint>;
+  corpus: Set<CodeFingerprint>;
+}
+
+// Pairs of shared fingerprints that sit close together on both sides grow into one range
+const mergeRuns = (pairs: [CodeFingerprint, CodeFingerprint][]): Run[] => {
+  const runs: Run[] = [];
+  pairs.sort(([a, x], [b, y]) => a.start_line - b.start_line || x.start_line - y.start_line);
+  for (const [s, c] of pairs) {
+    const run = runs.find(r =>
+      s.start_line <= r.suspect_end + MAX_LINE_GAP
+      && c.start_line <= r.corpus_end + MAX_LINE_GAP && c.end_line >= r.corpus_start - MAX_LINE_GAP);
+    if (run) {
+      run.suspect_end = Math.max(run.suspect_end, s.end_line);
+      run.corpus_start = Math.min(run.corpus_start, c.start_line);
+      run.corpus_end = Math.max(run.corpus_end, c.end_line);
+      run.suspect.add(s);
+      run.corpus.add(c);
+    } else {
+      runs.push({
+        suspect_start: s.start_line, suspect_end: s.end_line, corpus_start: c.start_line, corpus_end: c.end_line,
+        suspect: new Set([s]), corpus: new Set([c]),
+      });
+    }
+  }
+  return runs.filter(run => run.suspect.size >= MIN_RANGE_FINGERPRINTS);
+};
+
+const percent = (part: number, whole: number) => Math.round((part / Math.max(1, whole)) * 100);
+
+// Corpus files sharing fingerprints with the scanned file, best first. Percentages count only the fingerprints
+// inside reported ranges, so isolated coincidences do not inflate them
+export const matchFingerprints = (suspect: CodeFingerprint[], files: CodeCorpusFile[]): FingerprintOverlap[] => {
+  const wanted = new Set(suspect.map(f => f.hash));
+  const candidates: { file: CodeCorpusFile; shared: Map<number, CodeFingerprint[]> }[] = [];
+  const filesPerHash = new Map<number, number>();
+  for (const file of files) {
+    const shared = new Map<number, CodeFingerprint[]>();
+    for (const fingerprint of file.fingerprints) {
+      if (wanted.has(fingerprint.hash)) shared.set(fingerprint.hash, [...(shared.get(fingerprint.hash) ?? []), fingerprint]);
+    }
+    if (shared.size === 0) continue;
+    candidates.push({ file, shared });
+    for (const hash of shared.keys()) filesPerHash.set(hash, (filesPerHash.get(hash) ?? 0) + 1);
+  }
+
+  const overlaps: FingerprintOverlap[] = [];
+  for (const { file, shared } of candidates) {
+    const pairs = suspect
+      .filter(s => (filesPerHash.get(s.hash) ?? 0) <= MAX_HASH_FILES)
+      .flatMap(s => (shared.get(s.hash) ?? []).map((c): [CodeFingerprint, CodeFingerprint] => [s, c]));
+    const runs = mergeRuns(pairs);
+    if (runs.length === 0) continue;
+    const matchedSuspect = new Set(runs.flatMap(run => [...run.suspect]));
+    const matchedCorpus = new Set(runs.flatMap(run => [...run.corpus]));
+    overlaps.push({
+      file,
+      suspect_percent: percent(matchedSuspect.size, suspect.length),
+      corpus_percent: percent(matchedCorpus.size, file.fingerprints.length),
+      ranges: runs
+        .sort((a, b) => a.suspect_start - b.suspect_start)
+        .map(({ suspect_start, suspect_end, corpus_start, corpus_end }) => ({ suspect_start, suspect_end, corpus_start, corpus_end })),
+    });
+  }
+  return overlaps
+    .sort((a, b) => b.suspect_percent - a.suspect_percent || b.corpus_percent - a.corpus_percent)
+    .slice(0, MAX_FILE_MATCHES);
+};
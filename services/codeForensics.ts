@@ -0,0 +1,121 @@
+import { CodeCorpus, CodeFileMatch, LocalFindings, SourceLanguage } from "../types";
+import { fingerprintSource, K, matchFingerprints } from "./codeFingerprint";
+import { loadCodeCorpus } from "./codeCorpus";
+import { findLicenseHeaders, formatLicenseHeader } from "./licenseHeaders";
+import { measured } from "./evidence";
+import { stageWarning } from "./stageLog";
+
+// Longest excerpt kept per side of a matched range
+const MAX_EXCERPT_LINES = 40;
+
+const excerpt = (lines: string[], start: number, end: number) =>
+  lines.slice(start - 1, Math.min(end, start + MAX_EXCERPT_LINES - 1)).join('\n');
+
+const lineSpan = (start: number, end: number) => (start === end ? `${start}` : `${start}–${end}`);
+
+const sameName = (a: string, b: string) => {
+  const x = a.toLowerCase().trim();
+  const y = b.toLowerCase().trim();
+  return x.includes(y) || y.includes(x);
+};
+
+export const formatCodeMatch = (m: CodeFileMatch) =>
+  `${m.repo}/${m.path}: ${m.suspect_percent}% of the scanned file (${m.corpus_percent}% of theirs), lines ` +
+  m.ranges.map(r => `${lineSpan(r.suspect_start, r.suspect_end)} ↔ ${lineSpan(r.corpus_start, r.corpus_end)}`).join(', ');
+
+// `corpus` is given on the command line; in the browser the corpus saved in the vault is read
+export const analyzeCodeLocally = async (
+  name: string, source: string, language: SourceLanguage, corpus?: CodeCorpus
+): Promise<LocalFindings> => {
+  const findings: LocalFindings = { evidence: [], promptContext: [], dataGaps: [] };
+  if (!corpus) {
+    try {
+      corpus = await loadCodeCorpus();
+    } catch (error) {
+      stageWarning("Code corpus unavailable:", error);
+      findings.dataGaps.push("Code corpus could not be opened here; the source was not compared against our repositories.");
+    }
+  }
+
+  const { tokens, fingerprints } = fingerprintSource(source, language);
+  const files = corpus?.files ?? [];
+  const repos = new Map((corpus?.repos ?? []).map(repo => [repo.id, repo]));
+  const suspectLines = source.split('\n');
+  const matches: CodeFileMatch[] = [];
+  for (const overlap of matchFingerprints(fingerprints, files)) {
+    const repo = repos.get(overlap.file.repo_id);
+    const corpusLines = (await corpus!.readSource(overlap.file.id))?.split('\n') ?? [];
+    matches.push({
+      repo_id: overlap.file.repo_id,
+      repo: repo?.name ?? 'unknown repository',
+      owner: repo?.owner ?? '',
+      license: repo?.license ?? '',
+      path: overlap.file.path,
+      suspect_percent: overlap.suspect_percent,
+      corpus_percent: overlap.corpus_percent,
+      ranges: overlap.ranges.map(r => ({
+        ...r,
+        suspect_excerpt: excerpt(suspectLines, r.suspect_start, r.suspect_end),
+        corpus_excerpt: excerpt(corpusLines, r.corpus_start, r.corpus_end),
+      })),
+    });
+  }
+  const headers = findLicenseHeaders(source);
+
+  findings.report = {
+    code_analysis: {
+      language,
+      token_count: tokens,
+      fingerprint_count: fingerprints.length,
+      files_checked: files.length,
+      repos_checked: repos.size,
+      matches,
+      license_headers: headers,
+    },
+  };
+  if (matches.length > 0) findings.engineScores = [{ name: 'Code overlap', score: matches[0].suspect_percent }];
+
+  findings.evidence.push(...matches.slice(0, 5).map(m =>
+    measured('code_match', 'Code winnowing', formatCodeMatch(m), m.suspect_percent, { label: `${m.repo}/${m.path}` })));
+  if (matches.length === 0 && files.length > 0 && fingerprints.length > 0) {
+    findings.evidence.push(measured('code_match', 'Code winnowing', `No overlap with ${files.length} file(s) in ${repos.size} corpus repositories`, -10));
+  }
+
+  // A notice naming one of our owners is telling on its own; a different license or holder on matched code means relicensing
+  const best = matches[0];
+  for (const header of headers) {
+    if (header.kind === 'copyright' && header.holder) {
+      const ours = [...repos.values()].find(repo => repo.owner && sameName(header.holder!, repo.owner));
+      if (ours) {
+        findings.evidence.push(measured('metadata', 'License scanner',
+          `Copyright notice on line ${header.line} names ${ours.owner}, owner of corpus repository ${ours.name}`, 40, { label: ours.name }));
+      } else if (best?.owner) {
+        findings.evidence.push(measured('metadata', 'License scanner',
+          `Copyright notice on line ${header.line} names "${header.holder}", but the matching code in ${best.repo} belongs to ${best.owner}`, 25,
+          { label: `${best.repo}/${best.path}` }));
+      }
+    } else if (header.license && header.license !== 'Proprietary' && best?.license && !sameName(header.license, best.license)) {
+      findings.evidence.push(measured('metadata', 'License scanner',
+        `Line ${header.line} declares ${header.license}, but the matching code in ${best.repo} is licensed "${best.license}"`, 25,
+        { label: `${best.repo}/${best.path}` }));
+    }
+  }
+
+  findings.promptContext.push(
+    `Source code (${language}, ${name}): ${tokens} tokens, ${fingerprints.length} winnowed fingerprints, compared against ` +
+    `${files.length} file(s) in ${repos.size} proprietary repositories; ` +
+    (matches.length > 0
+      ? `${matches.length} proprietary file(s) matched. These are OUR code: ${matches.slice(0, 5).map(formatCodeMatch).join('; ')}`
+      : 'no overlap found.'),
+    headers.length > 0
+      ? `License headers in the scanned file (measured): ${headers.map(formatLicenseHeader).join('; ')}`
+      : 'License headers in the scanned file (measured): none found.',
+  );
+  if (corpus && files.length === 0) {
+    findings.dataGaps.push("Code corpus is empty; import proprietary repositories in the vault to enable source matching.");
+  }
+  if (fingerprints.length === 0) {
+    findings.dataGaps.push(`The file has ${tokens} tokens, too few to fingerprint (at least ${K} are needed).`);
+  }
+  return findings;
+};
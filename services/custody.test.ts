@@ -0,0 +1,61 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { snapshotUrl } from './custody';
+import { MAX_DIRECT_UPLOAD_BYTES } from './fileUtils';
+import { setStageWarnings } from './stageLog';
+
+setStageWarnings(false);
+
+const redirect = (location: string) => new Response(null, { status: 302, headers: { location } });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('snapshotUrl', () => {
+  it('hashes the page at the end of public redirects', async () => {
+    const fetch = vi.fn()
+      .mockResolvedValueOnce(redirect('/moved'))
+      .mockResolvedValueOnce(new Response('hello', { headers: { 'content-type': 'text/html; charset=utf-8' } }));
+    vi.stubGlobal('fetch', fetch);
+    const snapshot = await snapshotUrl('https://example.com/start');
+    expect(fetch.mock.calls.map(([url]) => url)).toEqual(['https://example.com/start', 'https://example.com/moved']);
+    expect(fetch.mock.calls[0][1]).toMatchObject({ redirect: 'manual' });
+    expect(snapshot).toEqual({
+      sha256: '2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824',
+      status: 200,
+      mime_type: 'text/html',
+      size: 5,
+    });
+  });
+
+  it('refuses redirects from a public URL into private addresses', async () => {
+    for (const target of ['http://169.254.169.254/latest/meta-data/', 'http://127.0.0.1:8787/api/scans', 'http://[::1]/', 'file:///etc/passwd']) {
+      const fetch = vi.fn().mockResolvedValueOnce(redirect(target)).mockResolvedValue(new Response('secret'));
+      vi.stubGlobal('fetch', fetch);
+      expect(await snapshotUrl('https://example.com/')).toBeNull();
+      expect(fetch).toHaveBeenCalledTimes(1);
+    }
+  });
+
+  it('gives up after too many redirects', async () => {
+    const fetch = vi.fn().mockImplementation(async () => redirect('https://example.com/again'));
+    vi.stubGlobal('fetch', fetch);
+    expect(await snapshotUrl('https://example.com/')).toBeNull();
+    expect(fetch).toHaveBeenCalledTimes(6);
+  });
+
+  it('stops reading a body that passes the size cap', async () => {
+    const chunk = new Uint8Array(1024 * 1024);
+    let pulls = 0;
+    const endless = new ReadableStream<Uint8Array>({ pull: controller => { pulls++; controller.enqueue(chunk); } });
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(endless)));
+    expect(await snapshotUrl('https://example.com/huge')).toBeNull();
+    expect(pulls).toBeLessThan(MAX_DIRECT_UPLOAD_BYTES / chunk.byteLength + 5);
+  });
+
+  it('rejects a declared length over the cap without reading', async () => {
+    const response = new Response('x', { headers: { 'content-length': String(MAX_DIRECT_UPLOAD_BYTES + 1) } });
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(response));
+    expect(await snapshotUrl('https://example.com/big')).toBeNull();
+  });
+});
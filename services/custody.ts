@@ -0,0 +1,197 @@
+import { ForensicReport, ReportSignature, ReportSigner } from "../types";
+import { getOne, put, STORES } from "./db";
+import { sha256Hex } from "./contentHash";
+import { MAX_DIRECT_UPLOAD_BYTES } from "./fileUtils";
+import { stageWarning } from "./stageLog";
+import { checkPublicUrl, isPrivateHost } from "./publicUrl";
+
+const KEY_ID = 'report-signing';
+const SIGN_PARAMS: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+const KEY_PARAMS: EcKeyGenParams = { name: 'ECDSA', namedCurve: 'P-256' };
+const SNAPSHOT_TIMEOUT_MS = 10000;
+const MAX_REDIRECTS = 5;
+
+interface SigningKeyRecord {
+  id: string;
+  privateKey: CryptoKey; // non-extractable; IndexedDB stores the handle, never the key material
+  publicJwk: JsonWebKey;
+  fingerprint: string;
+  created_at: string;
+}
+
+export interface UrlSnapshot {
+  sha256: string;
+  status: number;
+  mime_type?: string;
+  size: number;
+}
+
+export interface VerificationResult {
+  signature: 'valid' | 'invalid' | 'unsigned';
+  signed_by_this_installation: boolean;
+  key_fingerprint?: string;
+  file: 'match' | 'mismatch' | 'not_checked' | 'no_hash';
+  file_sha256?: string;
+}
+
+// Sorted keys and no whitespace, so the same report always serializes to the same bytes
+export const canonicalJson = (value: unknown): string => {
+  if (value === null || typeof value !== 'object') return JSON.stringify(value) ?? 'null';
+  if (Array.isArray(value)) return `[${value.map(v => v === undefined ? 'null' : canonicalJson(v)).join(',')}]`;
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+};
+
+const signedPayload = (report: ForensicReport) => {
+  const { signature: _omit, analyst_review: _review, ...unsigned } = report;
+  return new TextEncoder().encode(canonicalJson(unsigned));
+};
+
+const toBase64 = (buffer: ArrayBuffer) => btoa(String.fromCharCode(...new Uint8Array(buffer)));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), ch => ch.charCodeAt(0));
+
+const publicKeyFingerprint = ({ kty, crv, x, y }: JsonWebKey) => sha256Hex(canonicalJson({ crv, kty, x, y }));
+
+// The body up to `limit` bytes, or null once it grows past it; nothing beyond the limit is read
+const readCapped = async (response: Response, limit: number): Promise<Uint8Array | null> => {
+  if (Number(response.headers.get('content-length')) > limit) {
+    await response.body?.cancel();
+    return null;
+  }
+  const reader = response.body?.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (reader) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > limit) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+};
+
+// Fetches the page once so the report can be tied to the exact bytes that were served. Redirects are followed
+// by hand: from a public URL, no hop may lead to a private or loopback address (the scan server must not be
+// steered at its own network). Browsers block most cross-origin reads; that is recorded as a gap, not an error.
+export const snapshotUrl = async (url: string, signal?: AbortSignal): Promise<UrlSnapshot | null> => {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal?.reason);
+  signal?.addEventListener('abort', onAbort, { once: true });
+  const timer = setTimeout(() => controller.abort(), SNAPSHOT_TIMEOUT_MS);
+  try {
+    const publicOnly = !isPrivateHost(new URL(url).hostname);
+    let current = url;
+    for (let hops = 0; ; hops++) {
+      const response = await fetch(current, { signal: controller.signal, redirect: 'manual' });
+      const location = response.status >= 300 && response.status < 400 ? response.headers.get('location') : null;
+      if (location) {
+        await response.body?.cancel();
+        if (hops >= MAX_REDIRECTS) throw new Error(`More than ${MAX_REDIRECTS} redirects`);
+        const next = new URL(location, current).toString();
+        current = publicOnly ? checkPublicUrl(next) : next;
+        continue;
+      }
+      const bytes = await readCapped(response, MAX_DIRECT_UPLOAD_BYTES);
+      if (!bytes) return null;
+      return {
+        sha256: await sha256Hex(bytes),
+        status: response.status,
+        mime_type: response.headers.get('content-type')?.split(';')[0] || undefined,
+        size: bytes.byteLength,
+      };
+    }
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    stageWarning("URL snapshot unavailable:", error);
+    return null;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+const loadOrCreateKey = async (): Promise<SigningKeyRecord> => {
+  const existing = await getOne<SigningKeyRecord>(STORES.keys, KEY_ID);
+  if (existing) return existing;
+
+  const pair = await crypto.subtle.generateKey(KEY_PARAMS, false, ['sign', 'verify']);
+  const publicJwk = await crypto.subtle.exportKey('jwk', pair.publicKey);
+  const record: SigningKeyRecord = {
+    id: KEY_ID,
+    privateKey: pair.privateKey,
+    publicJwk,
+    fingerprint: await publicKeyFingerprint(publicJwk),
+    created_at: new Date().toISOString(),
+  };
+  await put(STORES.keys, record);
+  return record;
+};
+
+// Undefined until this installation has signed its first report
+export const localKeyFingerprint = async () => (await getOne<SigningKeyRecord>(STORES.keys, KEY_ID))?.fingerprint;
+
+// Signs with this installation's key pair, generated on first use
+export const browserSigner: ReportSigner = {
+  sign: async (report) => {
+    const key = await loadOrCreateKey();
+    const value = await crypto.subtle.sign(SIGN_PARAMS, key.privateKey, signedPayload(report));
+    return {
+      algorithm: 'ECDSA-P256-SHA256',
+      public_key: key.publicJwk,
+      key_fingerprint: key.fingerprint,
+      signed_at: new Date().toISOString(),
+      value: toBase64(value),
+    };
+  },
+};
+
+export const verifySignature = async (report: ForensicReport): Promise<boolean> => {
+  const signature: ReportSignature | undefined = report.signature;
+  if (!signature || signature.algorithm !== 'ECDSA-P256-SHA256') return false;
+  try {
+    const key = await crypto.subtle.importKey('jwk', signature.public_key, KEY_PARAMS, false, ['verify']);
+    return await crypto.subtle.verify(SIGN_PARAMS, key, fromBase64(signature.value), signedPayload(report));
+  } catch {
+    return false;
+  }
+};
+
+// Checks the report's signature and, when the original evidence is supplied, its SHA-256
+export const verifyReport = async (report: ForensicReport, evidence?: Blob): Promise<VerificationResult> => {
+  const result: VerificationResult = {
+    signature: report.signature ? (await verifySignature(report) ? 'valid' : 'invalid') : 'unsigned',
+    signed_by_this_installation: false,
+    key_fingerprint: report.signature?.key_fingerprint,
+    file: 'not_checked',
+  };
+
+  if (report.signature && result.signature === 'valid') {
+    // The embedded fingerprint is not trusted; recompute it from the embedded key
+    const fingerprint = await publicKeyFingerprint(report.signature.public_key);
+    result.key_fingerprint = fingerprint;
+    try {
+      result.signed_by_this_installation = fingerprint === await localKeyFingerprint();
+    } catch {
+      result.signed_by_this_installation = false;
+    }
+  }
+
+  if (evidence) {
+    result.file_sha256 = await sha256Hex(evidence);
+    const expected = report.provenance?.sha256;
+    result.file = !expected ? 'no_hash' : expected === result.file_sha256 ? 'match' : 'mismatch';
+  }
+  return result;
+};
@@ -0,0 +1,67 @@
+// Thin promise wrapper around the app's single IndexedDB database.
+// Bump DB_VERSION and extend STORES whenever a new object store is needed.
+const DB_NAME = 'decryptc';
+const DB_VERSION = 5;
+
+export const STORES = {
+  vault: 'vault_assets',
+  vaultFiles: 'vault_files',
+  cases: 'cases',
+  keys: 'signing_keys',
+  settings: 'settings',
+  codeRepos: 'code_repos',
+  codeFiles: 'code_files',
+  codeSources: 'code_sources',
+} as const;
+
+type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const name of Object.values(STORES)) {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, { keyPath: 'id' });
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  run: (s: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return promisify(run(db.transaction(store, mode).objectStore(store)));
+};
+
+export const getAll = <T>(store: StoreName) => withStore<T[]>(store, 'readonly', s => s.getAll());
+
+export const getOne = <T>(store: StoreName, id: string) =>
+  withStore<T | undefined>(store, 'readonly', s => s.get(id));
+
+export const put = <T>(store: StoreName, value: T) =>
+  withStore(store, 'readwrite', s => s.put(value)).then(() => undefined);
+
+export const remove = (store: StoreName, id: string) =>
+  withStore(store, 'readwrite', s => s.delete(id)).then(() => undefined);
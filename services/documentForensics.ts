@@ -0,0 +1,99 @@
+import { DocumentMetadata, EvidenceItem, LocalFindings } from "../types";
+import { parseDocument } from "./documentParser";
+import { MAX_DECODE_BYTES } from "./fileUtils";
+import { measured } from "./evidence";
+import { stageWarning } from "./stageLog";
+
+// Sustained typing speed above this (words per editing minute) suggests pasted content
+const MAX_PLAUSIBLE_WPM = 150;
+
+export interface DocumentAnalysis {
+  findings: LocalFindings;
+  text: string;
+}
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+const describeMetadata = (m: DocumentMetadata) => [
+  `Format: ${m.format.toUpperCase()}`,
+  m.title && `Title: ${m.title}`,
+  m.creator && `Author: ${m.creator}`,
+  m.last_modified_by && `Last modified by: ${m.last_modified_by}`,
+  m.created && `Created: ${m.created}`,
+  m.modified && `Modified: ${m.modified}`,
+  m.revision !== undefined && `Revision count: ${m.revision}`,
+  m.total_edit_minutes !== undefined && `Total editing time: ${m.total_edit_minutes} min`,
+  m.template && `Template: ${m.template}`,
+  m.application && `Application: ${m.application}`,
+  m.company && `Company: ${m.company}`,
+].filter(Boolean).join('; ');
+
+const metadataEvidence = (m: DocumentMetadata, actualWords: number): EvidenceItem[] => {
+  const evidence: EvidenceItem[] = [];
+  if (m.format === 'doc') return evidence;
+  const add = (claim: string, weight: number) => evidence.push(measured('metadata', 'Document metadata', claim, weight));
+
+  if (!m.creator && !m.last_modified_by) {
+    add("Author fields are empty (document metadata likely scrubbed)", 20);
+  } else if (m.creator && m.last_modified_by && m.creator !== m.last_modified_by) {
+    add(`Authored by "${m.creator}" but last modified by "${m.last_modified_by}"`, 15);
+  }
+
+  if (m.created && m.modified && Date.parse(m.created) > Date.parse(m.modified)) {
+    add(`Creation date (${m.created}) is later than last modification (${m.modified})`, 20);
+  }
+
+  if (m.revision !== undefined && m.revision <= 1 && actualWords > 500) {
+    add(`Single saved revision for a ${actualWords}-word document (content likely pasted in)`, 20);
+  }
+
+  if (m.total_edit_minutes !== undefined && actualWords > 200) {
+    const wpm = actualWords / Math.max(m.total_edit_minutes, 1);
+    if (wpm > MAX_PLAUSIBLE_WPM) {
+      add(`${actualWords} words with only ${m.total_edit_minutes} min of recorded editing time (${Math.round(wpm)} words/min)`, 25);
+    }
+  }
+
+  if (m.words !== undefined && actualWords > 50 && Math.abs(m.words - actualWords) / actualWords > 0.2) {
+    add(`Stored word count (${m.words}) does not match extracted text (${actualWords} words)`, 15);
+  }
+
+  if (m.template && !/^normal(\.dotm?)?$/i.test(m.template)) {
+    add(`Based on non-default template "${m.template}"`, 10);
+  }
+
+  return evidence;
+};
+
+export const analyzeDocumentLocally = async (file: File): Promise<DocumentAnalysis> => {
+  const findings: LocalFindings = { evidence: [], promptContext: [], dataGaps: [] };
+  if (file.size > MAX_DECODE_BYTES) {
+    findings.dataGaps.push(`${file.name} was not parsed: files over ${MAX_DECODE_BYTES / 1024 / 1024} MB are not unpacked locally.`);
+    return { findings, text: '' };
+  }
+
+  let parsed;
+  try {
+    parsed = await parseDocument(file);
+  } catch (error) {
+    stageWarning("Document parsing failed:", error);
+    findings.dataGaps.push(`Could not parse ${file.name}: ${error instanceof Error ? error.message : 'unknown error'}`);
+    return { findings, text: '' };
+  }
+
+  const { text, metadata, warnings, gaps } = parsed;
+  const words = countWords(text);
+
+  findings.report = { document_metadata: metadata };
+  findings.evidence.push(
+    ...warnings.map(warning => measured('document_structure', 'Document parser', warning, 10)),
+    ...metadataEvidence(metadata, words),
+  );
+  findings.dataGaps.push(...gaps);
+  findings.promptContext.push(`Document metadata: ${describeMetadata(metadata)}`);
+  findings.promptContext.push(`Extracted ${words} words of text.`);
+
+  if (!text) findings.dataGaps.push("No text content could be extracted from the document.");
+
+  return { findings, text };
+};
@@ -0,0 +1,185 @@
+import { DocumentMetadata } from "../types";
+import { isZip, openZip, ZipArchive } from "./zipReader";
+
+export interface ParsedDocument {
+  text: string;
+  metadata: DocumentMetadata;
+  warnings: string[]; // structural anomalies worth reporting as evidence
+  gaps: string[]; // limits of what could be parsed
+}
+
+// --- XML helpers (regex based so this also runs where DOMParser is unavailable) ---
+
+const decodeXmlEntities = (text: string) =>
+  text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const tagText = (xml: string | null, tag: string): string | undefined => {
+  if (!xml) return undefined;
+  const match = xml.match(new RegExp(`<${escapeRegExp(tag)}(?:\\s[^>]*)?>([\\s\\S]*?)</${escapeRegExp(tag)}>`));
+  const value = match ? decodeXmlEntities(match[1].replace(/<[^>]+>/g, '')).trim() : '';
+  return value || undefined;
+};
+
+const tagAttribute = (xml: string | null, tag: string, attribute: string): string | undefined => {
+  if (!xml) return undefined;
+  const element = xml.match(new RegExp(`<${escapeRegExp(tag)}\\s[^>]*>`));
+  const match = element?.[0].match(new RegExp(`${escapeRegExp(attribute)}="([^"]*)"`));
+  return match ? decodeXmlEntities(match[1]) : undefined;
+};
+
+const toNumber = (value?: string) => {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+};
+
+// ISO 8601 duration as used by ODF meta:editing-duration, e.g. "P1DT2H3M4S"
+const durationToMinutes = (value?: string) => {
+  const match = value?.match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:([\d.]+)S)?)?$/);
+  if (!match) return undefined;
+  const [, d = '0', h = '0', m = '0', s = '0'] = match;
+  return Math.round(Number(d) * 1440 + Number(h) * 60 + Number(m) + Number(s) / 60);
+};
+
+const collapseWhitespace = (text: string) =>
+  text.replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+
+// --- DOCX ---
+
+const extractDocxText = (documentXml: string) =>
+  collapseWhitespace(decodeXmlEntities(
+    documentXml
+      .replace(/<w:tab\/>/g, '\t')
+      .replace(/<w:(?:br|cr)\/>/g, '\n')
+      .replace(/<\/w:p>/g, '\n')
+      // Deleted runs in tracked changes are not part of the visible text
+      .replace(/<w:delText[^>]*>[\s\S]*?<\/w:delText>/g, '')
+      .replace(/<[^>]+>/g, '')
+  ));
+
+const parseDocx = async (zip: ZipArchive): Promise<ParsedDocument> => {
+  const [documentXml, core, app] = await Promise.all([
+    zip.readText('word/document.xml'),
+    zip.readText('docProps/core.xml'),
+    zip.readText('docProps/app.xml'),
+  ]);
+  if (!documentXml) throw new Error("DOCX is missing word/document.xml");
+
+  const warnings: string[] = [];
+  if (!core) warnings.push("docProps/core.xml is missing (core metadata removed)");
+  if (!app) warnings.push("docProps/app.xml is missing (application metadata removed)");
+  if (/<w:(?:ins|del)\s/.test(documentXml)) warnings.push("Document contains tracked insertions or deletions");
+
+  return {
+    text: extractDocxText(documentXml),
+    warnings,
+    gaps: [],
+    metadata: {
+      format: 'docx',
+      title: tagText(core, 'dc:title'),
+      subject: tagText(core, 'dc:subject'),
+      creator: tagText(core, 'dc:creator'),
+      last_modified_by: tagText(core, 'cp:lastModifiedBy'),
+      created: tagText(core, 'dcterms:created'),
+      modified: tagText(core, 'dcterms:modified'),
+      last_printed: tagText(core, 'cp:lastPrinted'),
+      revision: toNumber(tagText(core, 'cp:revision')),
+      template: tagText(app, 'Template'),
+      application: [tagText(app, 'Application'), tagText(app, 'AppVersion')].filter(Boolean).join(' ') || undefined,
+      company: tagText(app, 'Company'),
+      total_edit_minutes: toNumber(tagText(app, 'TotalTime')),
+      pages: toNumber(tagText(app, 'Pages')),
+      words: toNumber(tagText(app, 'Words')),
+      characters: toNumber(tagText(app, 'Characters')),
+    },
+  };
+};
+
+// --- ODT ---
+
+const extractOdtText = (contentXml: string) => {
+  const body = contentXml.match(/<office:body>([\s\S]*)<\/office:body>/)?.[1] ?? contentXml;
+  return collapseWhitespace(decodeXmlEntities(
+    body
+      .replace(/<text:s(?:\s+text:c="(\d+)")?\s*\/>/g, (_, count) => ' '.repeat(Number(count || 1)))
+      .replace(/<text:tab\s*\/>/g, '\t')
+      .replace(/<text:line-break\s*\/>/g, '\n')
+      .replace(/<\/text:(?:p|h)>/g, '\n')
+      .replace(/<[^>]+>/g, '')
+  ));
+};
+
+const parseOdt = async (zip: ZipArchive): Promise<ParsedDocument> => {
+  const [contentXml, meta] = await Promise.all([zip.readText('content.xml'), zip.readText('meta.xml')]);
+  if (!contentXml) throw new Error("ODT is missing content.xml");
+
+  const warnings: string[] = [];
+  if (!meta) warnings.push("meta.xml is missing (document metadata removed)");
+  if (/<text:tracked-changes/.test(contentXml)) warnings.push("Document contains tracked changes");
+
+  return {
+    text: extractOdtText(contentXml),
+    warnings,
+    gaps: [],
+    metadata: {
+      format: 'odt',
+      title: tagText(meta, 'dc:title'),
+      subject: tagText(meta, 'dc:subject'),
+      creator: tagText(meta, 'meta:initial-creator'),
+      // In ODF dc:creator is the person who last saved the document
+      last_modified_by: tagText(meta, 'dc:creator'),
+      created: tagText(meta, 'meta:creation-date'),
+      modified: tagText(meta, 'dc:date'),
+      last_printed: tagText(meta, 'meta:print-date'),
+      revision: toNumber(tagText(meta, 'meta:editing-cycles')),
+      template: tagAttribute(meta, 'meta:template', 'xlink:title') ?? tagAttribute(meta, 'meta:template', 'xlink:href'),
+      application: tagText(meta, 'meta:generator'),
+      total_edit_minutes: durationToMinutes(tagText(meta, 'meta:editing-duration')),
+      pages: toNumber(tagAttribute(meta, 'meta:document-statistic', 'meta:page-count')),
+      words: toNumber(tagAttribute(meta, 'meta:document-statistic', 'meta:word-count')),
+      characters: toNumber(tagAttribute(meta, 'meta:document-statistic', 'meta:character-count')),
+    },
+  };
+};
+
+// --- Legacy .doc (OLE compound file) ---
+
+// Word 97-2003 stores text as UTF-16LE or 8-bit runs inside the WordDocument stream.
+// Without a full CFB parser we recover readable runs, which is enough for text comparison.
+const recoverLegacyText = (bytes: Uint8Array) => {
+  const runs: string[] = [];
+  const utf16 = new TextDecoder('utf-16le', { fatal: false }).decode(bytes);
+  for (const match of utf16.matchAll(/[\p{L}\p{N}\p{P}\p{Zs}\r\n\t]{20,}/gu)) runs.push(match[0]);
+  if (runs.join('').length < 200) {
+    const latin = new TextDecoder('latin1').decode(bytes);
+    for (const match of latin.matchAll(/[\x20-\x7e\r\n\t]{20,}/g)) runs.push(match[0]);
+  }
+  return collapseWhitespace(runs.join('\n').replace(/\r/g, '\n'));
+};
+
+export const parseDocument = async (file: File): Promise<ParsedDocument> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+
+  if (isZip(bytes)) {
+    const zip = openZip(bytes);
+    if (zip.entries.has('word/document.xml')) return parseDocx(zip);
+    if (zip.entries.has('content.xml')) return parseOdt(zip);
+    throw new Error("ZIP container is neither a Word (OOXML) nor an OpenDocument text file");
+  }
+
+  return {
+    text: recoverLegacyText(bytes),
+    metadata: { format: 'doc' },
+    warnings: [],
+    gaps: ["Legacy binary .doc: text recovered heuristically, summary metadata not parsed"],
+  };
+};
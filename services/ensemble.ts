@@ -0,0 +1,72 @@
+import { EnsembleMember, EnsembleRun, EnsembleSummary, ForensicReport, Verdict } from "../types";
+
+// Rotated over ensemble members so runs of the same model do not simply repeat each other
+export const PERSPECTIVES: { id: string; instruction?: string }[] = [
+  { id: 'default' },
+  {
+    id: 'sceptical',
+    instruction: "Before deciding, look for every reason the asset could be an original, licensed or fair use. Only conclude PIRATED when the evidence survives that scrutiny.",
+  },
+  {
+    id: 'evidence-first',
+    instruction: "Weigh each item of local evidence on its own before forming a verdict, and let the strongest measured items drive the confidence score.",
+  },
+];
+
+export const DEFAULT_ENSEMBLE_TEMPERATURES = [0.2, 0.7, 1.0];
+
+export const memberLabel = ({ provider, temperature, perspective }: EnsembleMember) => {
+  const id = PERSPECTIVES.find(p => p.instruction === perspective)?.id;
+  return `${provider.id}/${provider.model}${temperature !== undefined ? ` @${temperature}` : ''}${id && id !== 'default' ? ` · ${id}` : ''}`;
+};
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+export interface EnsembleResult {
+  label: string;
+  report: ForensicReport;
+}
+
+// Majority verdict (ties go to the higher summed confidence). The representative run is the member of the
+// majority closest to its mean confidence; its narrative and evidence carry the report. Disagreement lowers
+// the confidence: the majority's mean is scaled by the share of runs that agree with it.
+export const combineRuns = (results: EnsembleResult[], failed: number): { report: ForensicReport; ensemble: EnsembleSummary } => {
+  const votes = new Map<Verdict, EnsembleResult[]>();
+  for (const result of results) votes.set(result.report.verdict, [...(votes.get(result.report.verdict) ?? []), result]);
+  const support = (group: EnsembleResult[]) => group.reduce((sum, r) => sum + r.report.confidence_score, 0);
+  const majority = [...votes.values()].sort((a, b) => b.length - a.length || support(b) - support(a))[0];
+
+  const majorityMean = mean(majority.map(r => r.report.confidence_score));
+  const representative = [...majority].sort((a, b) =>
+    Math.abs(a.report.confidence_score - majorityMean) - Math.abs(b.report.confidence_score - majorityMean))[0];
+  const agreement = majority.length / results.length;
+
+  const confidences = results.map(r => r.report.confidence_score);
+  const confidenceMean = mean(confidences);
+  const ensemble: EnsembleSummary = {
+    runs: results.map(({ label, report }): EnsembleRun => ({
+      label, verdict: report.verdict, confidence_score: report.confidence_score, risk_level: report.risk_level,
+    })),
+    failed,
+    agreement: Math.round(agreement * 100),
+    confidence_mean: round1(confidenceMean),
+    confidence_stdev: round1(Math.sqrt(mean(confidences.map(c => (c - confidenceMean) ** 2)))),
+    confidence_spread: Math.max(...confidences) - Math.min(...confidences),
+  };
+
+  const warnings = [...new Set(results.flatMap(r => r.report.validation_warnings ?? []))];
+  const report: ForensicReport = {
+    ...representative.report,
+    confidence_score: Math.round(majorityMean * agreement),
+  };
+  if (warnings.length > 0) report.validation_warnings = warnings;
+  if (agreement < 1) {
+    report.data_gaps = [
+      ...report.data_gaps,
+      `Ensemble runs disagreed: ${results.length - majority.length} of ${results.length} reached a different verdict.`,
+    ];
+  }
+  return { report, ensemble };
+};
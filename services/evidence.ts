@@ -0,0 +1,49 @@
+import { EvidenceItem, EvidenceReference, EvidenceType, ForensicReport } from "../types";
+import { isRecord } from "./typeGuards";
+
+export const EVIDENCE_TYPES: { type: EvidenceType; label: string }[] = [
+  { type: 'watermark', label: 'Watermark' },
+  { type: 'hash_match', label: 'Hash Match' },
+  { type: 'audio_match', label: 'Audio Match' },
+  { type: 'text_match', label: 'Text Match' },
+  { type: 'code_match', label: 'Code Match' },
+  { type: 'metadata', label: 'Metadata' },
+  { type: 'document_structure', label: 'Document Structure' },
+  { type: 'url_heuristic', label: 'URL Heuristic' },
+  { type: 'model_observation', label: 'Model Observation' },
+];
+
+export const isEvidenceType = (value: unknown): value is EvidenceType =>
+  EVIDENCE_TYPES.some(t => t.type === value);
+
+const clampWeight = (weight: number) => Math.max(-100, Math.min(100, Math.round(weight)));
+
+// Evidence produced by a local stage
+export const measured = (
+  type: EvidenceType, engine: string, claim: string, weight: number, reference?: EvidenceReference
+): EvidenceItem => ({ type, claim, engine, weight: clampWeight(weight), origin: 'measured', ...(reference ? { reference } : {}) });
+
+export const isEvidenceItem = (value: unknown): value is EvidenceItem =>
+  isRecord(value)
+  && isEvidenceType(value.type) && typeof value.claim === 'string' && typeof value.engine === 'string'
+  && typeof value.weight === 'number' && Number.isFinite(value.weight)
+  && (value.origin === 'measured' || value.origin === 'inferred');
+
+// Reports filed before evidence was structured carry plain strings; their origin is unknown,
+// so they are shown as unverified model output rather than guessed to be measured
+export const evidenceItems = (report: Pick<ForensicReport, 'key_evidence'>): EvidenceItem[] =>
+  (report.key_evidence as (EvidenceItem | string)[]).map(item =>
+    typeof item === 'string'
+      ? { type: 'model_observation', claim: item, engine: 'unrecorded', weight: 0, origin: 'inferred' }
+      : item);
+
+export const groupEvidence = (items: EvidenceItem[]) =>
+  EVIDENCE_TYPES
+    .map(({ type, label }) => ({ type, label, items: items.filter(item => item.type === type) }))
+    .filter(group => group.items.length > 0);
+
+// One line for text exports and notices: claim, then where it came from
+export const formatEvidence = (item: EvidenceItem) =>
+  `${item.claim} [${item.origin === 'measured' ? 'measured' : 'model-inferred'} · ${item.engine}` +
+  `${item.weight ? ` · weight ${item.weight > 0 ? '+' : ''}${item.weight}` : ''}]` +
+  (item.reference?.url ? ` <${item.reference.url}>` : '');
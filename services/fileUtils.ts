@@ -0,0 +1,70 @@
+import { SourceLanguage, VaultAssetKind } from "../types";
+
+// Text sent to the model is capped to keep requests well under inline limits
+export const MAX_PROMPT_TEXT = 60000;
+
+// Gemini rejects requests whose inline data exceeds ~20MB once base64 encoded
+export const MAX_INLINE_BYTES = 15 * 1024 * 1024;
+
+// Largest file the scanner accepts at all; the Gemini Files API limit
+export const MAX_UPLOAD_BYTES = 2 * 1024 * 1024 * 1024;
+
+// Largest file sent to the scan API in a single request; bigger ones go through resumable uploads
+export const MAX_DIRECT_UPLOAD_BYTES = 50 * 1024 * 1024;
+
+// Largest file the local stages read into memory whole (decoding audio, parsing PDFs and documents)
+export const MAX_DECODE_BYTES = 256 * 1024 * 1024;
+
+// Large texts, PDFs and long videos are analyzed in at most this many model requests
+export const MAX_SEGMENTS = 8;
+
+// fileUri of a file stored on the scan server through /api/uploads
+export const UPLOAD_URI_PREFIX = 'upload:';
+
+const TEXT_EXTENSIONS = ['.txt', '.md', '.csv', '.json'];
+
+export const isTextFile = (file: File) =>
+  file.type.startsWith('text/') || TEXT_EXTENSIONS.some(ext => file.name.endsWith(ext));
+
+const SOURCE_EXTENSIONS: Record<string, SourceLanguage> = {
+  ts: 'typescript', tsx: 'typescript', mts: 'typescript', cts: 'typescript',
+  js: 'javascript', jsx: 'javascript', mjs: 'javascript', cjs: 'javascript',
+  py: 'python', java: 'java', c: 'c', h: 'c', go: 'go',
+};
+
+// Decided by extension alone: browsers report .ts as an MPEG transport stream
+export const sourceLanguage = (name: string): SourceLanguage | null => {
+  const dot = name.lastIndexOf('.');
+  return dot < 0 ? null : SOURCE_EXTENSIONS[name.slice(dot + 1).toLowerCase()] ?? null;
+};
+
+export const isSupportedMimeType = (mime: string) => {
+  return (
+    mime === 'application/pdf' ||
+    mime.startsWith('image/') ||
+    mime.startsWith('video/')
+  );
+};
+
+export const classifyFile = (file: File): VaultAssetKind => {
+  if (sourceLanguage(file.name)) return 'text';
+  if (file.type.startsWith('image/')) return 'image';
+  if (file.type.startsWith('video/')) return 'video';
+  if (file.type.startsWith('audio/') || /\.(mp3|wav|flac|m4a)$/i.test(file.name)) return 'audio';
+  if (file.type === 'application/pdf') return 'pdf';
+  if (isTextFile(file)) return 'text';
+  if (/\.(docx?|odt)$/i.test(file.name)) return 'document';
+  return 'other';
+};
+
+// Blob methods rather than FileReader, so the same code runs in the browser and on the scan server
+export const fileToBase64 = async (file: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+export const fileToText = (file: Blob): Promise<string> => file.text();
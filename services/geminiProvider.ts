@@ -0,0 +1,66 @@
+import { FileState, GoogleGenAI, Part } from "@google/genai";
+import { AnalysisProvider, AnalysisRequest, PromptPart, ProviderConfig } from "../types";
+import { sleep } from "./rateLimitGate";
+
+// Re-asks, ensemble members and retries reuse an upload instead of sending the file again
+const MAX_CACHED_UPLOADS = 16;
+const PROCESSING_POLL_MS = 2000;
+
+export const createGeminiProvider = (config: ProviderConfig): AnalysisProvider => {
+  if (!config.apiKey) {
+    throw new Error("GEMINI_API_KEY is missing from environment variables");
+  }
+  const ai = new GoogleGenAI({ apiKey: config.apiKey });
+  const uploads = new Map<string, Promise<string>>(); // our fileUri -> Files API uri
+
+  // The SDK uploads in resumable chunks; videos can be referenced once Gemini has processed them
+  const upload = async (blob: Blob, mimeType: string, signal?: AbortSignal): Promise<string> => {
+    let file = await ai.files.upload({ file: blob, config: { mimeType, abortSignal: signal } });
+    while (file.state === FileState.PROCESSING && file.name) {
+      await sleep(PROCESSING_POLL_MS, signal);
+      file = await ai.files.get({ name: file.name, config: { abortSignal: signal } });
+    }
+    if (file.state === FileState.FAILED || !file.uri) {
+      throw new Error(`Gemini Files API rejected the upload: ${file.error?.message ?? file.state ?? 'no file URI'}`);
+    }
+    return file.uri;
+  };
+
+  const toGeminiPart = async (part: PromptPart, { openFile, signal }: AnalysisRequest): Promise<Part> => {
+    if (!('fileData' in part)) return part;
+    const { fileUri, mimeType } = part.fileData;
+    let uploaded = uploads.get(fileUri);
+    if (!uploaded) {
+      uploaded = (async () => {
+        const blob = await openFile?.(fileUri);
+        if (!blob) throw new Error(`Stored file ${fileUri} is no longer available`);
+        return upload(blob, mimeType, signal);
+      })();
+      uploads.set(fileUri, uploaded);
+      uploaded.catch(() => uploads.delete(fileUri));
+      if (uploads.size > MAX_CACHED_UPLOADS) uploads.delete(uploads.keys().next().value!);
+    }
+    return { fileData: { fileUri: await uploaded, mimeType } };
+  };
+
+  return {
+    id: 'gemini',
+    model: config.model,
+    generate: async (request) => {
+      const { systemPrompt, parts, schema, signal, temperature } = request;
+      const response = await ai.models.generateContent({
+        model: config.model,
+        config: {
+          systemInstruction: systemPrompt,
+          responseMimeType: "application/json",
+          responseJsonSchema: schema,
+          temperature: temperature ?? 0.2,
+          abortSignal: signal,
+        },
+        contents: [{ parts: await Promise.all(parts.map(part => toGeminiPart(part, request))) }]
+      });
+      if (!response.text) throw new Error("No response from AI");
+      return response.text;
+    }
+  };
+};
@@ -0,0 +1,150 @@
+import { FingerprintMatch, ImageFingerprint, ImageMetadata, LocalFindings } from "../types";
+import { fingerprintImage, hashSimilarity } from "./perceptualHash";
+import { MATCH_THRESHOLD, rankAgainst } from "./imageIndex";
+import { listReferenceFingerprints } from "./vaultService";
+import { parseImageMetadata } from "./imageMetadata";
+import { measured } from "./evidence";
+import { stageWarning } from "./stageLog";
+
+// Below this pHash similarity the EXIF preview is treated as a different picture
+const THUMBNAIL_MISMATCH_THRESHOLD = 70;
+
+const EDITING_SOFTWARE = /photoshop|gimp|lightroom|affinity|pixelmator|snapseed|canva|paint\.net|picsart|facetune|capture one/i;
+
+// Names embedded in the file that claim ownership (EXIF, XMP, IPTC)
+export const claimedOwners = (m: ImageMetadata): string[] =>
+  [m.artist, m.copyright, m.xmp_rights, m.iptc_byline, m.iptc_copyright, m.iptc_credit, ...(m.xmp_creators ?? [])]
+    .filter((v): v is string => !!v && !!v.trim());
+
+const toDataUrl = (bytes: Uint8Array, mime: string) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return `data:${mime};base64,${btoa(binary)}`;
+};
+
+// Per-hash scores against the closest registered original; the vault stage records the match itself as evidence
+const fingerprintStage = async (findings: LocalFindings, fingerprint: ImageFingerprint) => {
+  findings.promptContext.push(
+    `Image dimensions: ${fingerprint.width}x${fingerprint.height}px. pHash ${fingerprint.phash}, dHash ${fingerprint.dhash}, aHash ${fingerprint.ahash}.`
+  );
+
+  let ranked: FingerprintMatch[] = [];
+  try {
+    ranked = rankAgainst(fingerprint, await listReferenceFingerprints());
+  } catch (error) {
+    stageWarning("Vault unavailable for perceptual matching:", error);
+  }
+  const matches = ranked.filter(m => m.phash_similarity >= MATCH_THRESHOLD);
+  const best = ranked[0];
+
+  findings.report = { ...findings.report, image_fingerprint: fingerprint, fingerprint_matches: matches };
+  findings.engineScores = best ? [
+    { name: 'pHash', score: best.phash_similarity },
+    { name: 'dHash', score: best.dhash_similarity },
+    { name: 'aHash', score: best.ahash_similarity },
+  ] : [];
+
+  if (matches.length > 0) {
+    findings.promptContext.push(
+      `Perceptual hashes: ${matches.length} registered original(s) are near-duplicates; best is "${matches[0].label}" at ${matches[0].similarity}% blended similarity.`
+    );
+  } else if (best) {
+    findings.promptContext.push(`Perceptual hashes: no registered original is a near-duplicate (closest pHash similarity ${best.phash_similarity}%).`);
+  }
+};
+
+const metadataStage = async (file: File, findings: LocalFindings, fingerprint?: ImageFingerprint) => {
+  let parsed;
+  try {
+    parsed = await parseImageMetadata(file);
+  } catch (error) {
+    stageWarning("Image metadata parsing failed:", error);
+    findings.dataGaps.push("Embedded image metadata could not be parsed (malformed container).");
+    return;
+  }
+  const { metadata: m, thumbnail } = parsed;
+
+  if (thumbnail) {
+    try {
+      const thumbFingerprint = await fingerprintImage(new Blob([thumbnail], { type: 'image/jpeg' }));
+      m.thumbnail = {
+        width: thumbFingerprint.width,
+        height: thumbFingerprint.height,
+        data_url: toDataUrl(thumbnail, 'image/jpeg'),
+        similarity_to_main: fingerprint ? hashSimilarity(fingerprint.phash, thumbFingerprint.phash) : undefined,
+      };
+    } catch (error) {
+      stageWarning("Embedded thumbnail could not be decoded:", error);
+    }
+  }
+
+  findings.report = { ...findings.report, metadata: m };
+
+  // Stripped metadata is only suspicious where camera output normally carries it
+  if ((m.container === 'jpeg' || m.container === 'heic') && !m.has_exif) {
+    findings.evidence.push(measured('metadata', 'EXIF', "EXIF stripped: no camera metadata present in the file", 20));
+  } else if (m.has_exif && !m.make && !m.model) {
+    findings.evidence.push(measured('metadata', 'EXIF', "EXIF present but camera make/model removed", 25));
+  }
+
+  const software = m.software || m.xmp_creator_tool;
+  if (software && EDITING_SOFTWARE.test(software)) {
+    findings.evidence.push(measured('metadata', m.software ? 'EXIF' : 'XMP', `Processed with editing software: ${software}`, 15));
+  }
+
+  if (m.date_time_original && m.date_time_modified && m.date_time_original !== m.date_time_modified) {
+    findings.evidence.push(measured('metadata', 'EXIF', `File modified (${m.date_time_modified}) after original capture (${m.date_time_original})`, 15));
+  }
+
+  if (m.edit_history.length > 0) {
+    const last = m.edit_history[m.edit_history.length - 1];
+    findings.evidence.push(measured('metadata', 'XMP',
+      `XMP history records ${m.edit_history.length} edit event(s); last "${last.action}"${last.software ? ` via ${last.software}` : ''}${last.when ? ` at ${last.when}` : ''}`,
+      15));
+  }
+
+  if (m.document_id && m.original_document_id && m.document_id !== m.original_document_id) {
+    findings.evidence.push(measured('metadata', 'XMP', "XMP DocumentID differs from OriginalDocumentID (derived from another file)", 35));
+  }
+
+  if (m.thumbnail?.similarity_to_main !== undefined && m.thumbnail.similarity_to_main < THUMBNAIL_MISMATCH_THRESHOLD) {
+    findings.evidence.push(measured('metadata', 'EXIF thumbnail', `Embedded EXIF thumbnail differs from main image (${m.thumbnail.similarity_to_main}% pHash similarity)`, 40));
+  }
+
+  if (fingerprint && m.pixel_width && m.pixel_height) {
+    const sameSize = (m.pixel_width === fingerprint.width && m.pixel_height === fingerprint.height) ||
+      (m.pixel_width === fingerprint.height && m.pixel_height === fingerprint.width);
+    if (!sameSize) {
+      findings.evidence.push(measured('metadata', 'EXIF',
+        `EXIF dimensions ${m.pixel_width}x${m.pixel_height} differ from actual ${fingerprint.width}x${fingerprint.height} (resized or cropped after capture)`,
+        20));
+    }
+  }
+
+  const camera = [m.make, m.model].filter(Boolean).join(' ');
+  const owners = claimedOwners(m);
+  findings.promptContext.push(
+    `Image metadata (${m.container.toUpperCase()}): EXIF ${m.has_exif ? 'present' : 'absent'}, XMP ${m.has_xmp ? 'present' : 'absent'}, IPTC ${m.has_iptc ? 'present' : 'absent'}` +
+    (camera ? `; camera ${camera}` : '') +
+    (software ? `; software ${software}` : '') +
+    (m.date_time_original ? `; captured ${m.date_time_original}` : '') +
+    (m.gps ? `; GPS ${m.gps.latitude.toFixed(5)}, ${m.gps.longitude.toFixed(5)}` : '') +
+    (owners.length ? `; rights/creator fields: ${owners.join(' | ')}` : '') + '.'
+  );
+};
+
+export const analyzeImageLocally = async (file: File): Promise<LocalFindings> => {
+  const findings: LocalFindings = { evidence: [], promptContext: [], dataGaps: [] };
+
+  let fingerprint: ImageFingerprint | undefined;
+  try {
+    fingerprint = await fingerprintImage(file);
+  } catch (error) {
+    stageWarning("Image fingerprinting failed:", error);
+    findings.dataGaps.push(`Local perceptual hashing unavailable: the browser could not decode ${file.type || 'this image'}.`);
+  }
+
+  if (fingerprint) await fingerprintStage(findings, fingerprint);
+  await metadataStage(file, findings, fingerprint);
+  return findings;
+};
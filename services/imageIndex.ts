@@ -0,0 +1,39 @@
+import { FingerprintMatch, ImageFingerprint } from "../types";
+import { hashSimilarity } from "./perceptualHash";
+
+// pHash similarity at or above this is treated as the same picture (<= 12 differing bits)
+export const MATCH_THRESHOLD = 81;
+
+// A fingerprint scans are compared against. Only registered originals qualify: earlier scans are not
+// references, or a rescanned file would match itself
+export interface ReferenceFingerprint {
+  id: string;
+  label: string;
+  fingerprint: ImageFingerprint;
+}
+
+export const compareFingerprint = (
+  fingerprint: ImageFingerprint,
+  referenceId: string,
+  label: string,
+  reference: ImageFingerprint
+): FingerprintMatch => {
+  const ahash_similarity = hashSimilarity(fingerprint.ahash, reference.ahash);
+  const dhash_similarity = hashSimilarity(fingerprint.dhash, reference.dhash);
+  const phash_similarity = hashSimilarity(fingerprint.phash, reference.phash);
+  return {
+    reference_id: referenceId,
+    label,
+    ahash_similarity,
+    dhash_similarity,
+    phash_similarity,
+    // pHash is the most robust to re-encoding and resizing, so it dominates the blend
+    similarity: Math.round(phash_similarity * 0.6 + dhash_similarity * 0.25 + ahash_similarity * 0.15)
+  };
+};
+
+// Every reference compared against the fingerprint, best match first
+export const rankAgainst = (fingerprint: ImageFingerprint, references: ReferenceFingerprint[]): FingerprintMatch[] =>
+  references
+    .map(reference => compareFingerprint(fingerprint, reference.id, reference.label, reference.fingerprint))
+    .sort((a, b) => b.similarity - a.similarity);
@@ -0,0 +1,410 @@
+import { GpsCoordinates, ImageMetadata } from "../types";
+import { parseXmpHistory, xmpList, xmpValue } from "./xmp";
+import { inflate } from "./zipReader";
+import { stageWarning } from "./stageLog";
+
+export interface ParsedImageMetadata {
+  metadata: ImageMetadata;
+  thumbnail?: Uint8Array; // embedded JPEG preview from EXIF IFD1
+}
+
+// Raw blocks pulled out of the container before decoding
+interface MetadataBlocks {
+  container: ImageMetadata['container'];
+  exif?: Uint8Array; // starts at the TIFF header
+  xmp?: string;
+  iptc?: Uint8Array; // IPTC-IIM datasets
+  pngText: Record<string, string>;
+}
+
+const latin1 = new TextDecoder('latin1');
+const utf8 = new TextDecoder();
+
+const startsWith = (bytes: Uint8Array, offset: number, ascii: string) => {
+  for (let i = 0; i < ascii.length; i++) {
+    if (bytes[offset + i] !== ascii.charCodeAt(i)) return false;
+  }
+  return true;
+};
+
+// --- Container walkers ---
+
+const IPTC_RESOURCE_ID = 0x0404;
+
+// Photoshop APP13: "Photoshop 3.0\0" followed by 8BIM image resource blocks
+const extractIptcFromPhotoshop = (bytes: Uint8Array): Uint8Array | undefined => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 14;
+  while (offset + 12 <= bytes.length && startsWith(bytes, offset, '8BIM')) {
+    const id = view.getUint16(offset + 4);
+    const nameLength = bytes[offset + 6];
+    // Pascal string padded to even length (including the length byte)
+    let cursor = offset + 6 + ((nameLength + 2) & ~1);
+    const size = view.getUint32(cursor);
+    cursor += 4;
+    if (id === IPTC_RESOURCE_ID) return bytes.subarray(cursor, cursor + size);
+    offset = cursor + size + (size & 1);
+  }
+  return undefined;
+};
+
+const readJpegBlocks = (bytes: Uint8Array): MetadataBlocks => {
+  const blocks: MetadataBlocks = { container: 'jpeg', pngText: {} };
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // Start of scan / end of image: no more metadata segments follow
+    if (marker === 0xda || marker === 0xd9) break;
+    const length = view.getUint16(offset + 2);
+    const segment = bytes.subarray(offset + 4, offset + 2 + length);
+    if (marker === 0xe1 && startsWith(segment, 0, 'Exif\0\0')) {
+      blocks.exif ??= segment.subarray(6);
+    } else if (marker === 0xe1 && startsWith(segment, 0, 'http://ns.adobe.com/xap/1.0/\0')) {
+      blocks.xmp ??= utf8.decode(segment.subarray(29));
+    } else if (marker === 0xed && startsWith(segment, 0, 'Photoshop 3.0\0')) {
+      blocks.iptc ??= extractIptcFromPhotoshop(segment);
+    }
+    offset += 2 + length;
+  }
+  return blocks;
+};
+
+const readPngBlocks = async (bytes: Uint8Array): Promise<MetadataBlocks> => {
+  const blocks: MetadataBlocks = { container: 'png', pngText: {} };
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 8;
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = latin1.decode(bytes.subarray(offset + 4, offset + 8));
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+    if (type === 'eXIf') {
+      blocks.exif = data;
+    } else if (type === 'tEXt' || type === 'iTXt' || type === 'zTXt') {
+      const nul = data.indexOf(0);
+      const keyword = latin1.decode(data.subarray(0, nul));
+      let value: string;
+      if (type === 'tEXt') {
+        value = latin1.decode(data.subarray(nul + 1));
+      } else if (type === 'zTXt') {
+        value = latin1.decode(await inflate(data.subarray(nul + 2), 'deflate'));
+      } else {
+        // iTXt: compression flag, method, language tag\0, translated keyword\0, text
+        const compressed = data[nul + 1] === 1;
+        let cursor = data.indexOf(0, nul + 3) + 1;
+        cursor = data.indexOf(0, cursor) + 1;
+        const text = data.subarray(cursor);
+        value = utf8.decode(compressed ? await inflate(text, 'deflate') : text);
+      }
+      if (keyword === 'XML:com.adobe.xmp') blocks.xmp = value;
+      else blocks.pngText[keyword] = value;
+    } else if (type === 'IEND') {
+      break;
+    }
+    offset += 12 + length;
+  }
+  return blocks;
+};
+
+const readWebpBlocks = (bytes: Uint8Array): MetadataBlocks => {
+  const blocks: MetadataBlocks = { container: 'webp', pngText: {} };
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const fourcc = latin1.decode(bytes.subarray(offset, offset + 4));
+    const size = view.getUint32(offset + 4, true);
+    const data = bytes.subarray(offset + 8, offset + 8 + size);
+    if (fourcc === 'EXIF') {
+      // Some encoders keep the JPEG "Exif\0\0" prefix inside the chunk
+      blocks.exif = startsWith(data, 0, 'Exif\0\0') ? data.subarray(6) : data;
+    } else if (fourcc === 'XMP ') {
+      blocks.xmp = utf8.decode(data);
+    }
+    offset += 8 + size + (size & 1);
+  }
+  return blocks;
+};
+
+// ISO BMFF (HEIC/HEIF/AVIF): locate Exif and XMP items through meta/iinf/iloc
+const readHeicBlocks = (bytes: Uint8Array): MetadataBlocks => {
+  const blocks: MetadataBlocks = { container: 'heic', pngText: {} };
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  const readUint = (offset: number, size: number) =>
+    size === 0 ? 0 : size === 2 ? view.getUint16(offset) : size === 4 ? view.getUint32(offset) : Number(view.getBigUint64(offset));
+
+  const children = (start: number, end: number) => {
+    const boxes: { type: string; start: number; end: number }[] = [];
+    let offset = start;
+    while (offset + 8 <= end) {
+      let size = view.getUint32(offset);
+      const type = latin1.decode(bytes.subarray(offset + 4, offset + 8));
+      let header = 8;
+      if (size === 1) {
+        size = Number(view.getBigUint64(offset + 8));
+        header = 16;
+      } else if (size === 0) {
+        size = end - offset;
+      }
+      boxes.push({ type, start: offset + header, end: offset + size });
+      offset += size;
+    }
+    return boxes;
+  };
+
+  const meta = children(0, bytes.length).find(b => b.type === 'meta');
+  if (!meta) return blocks;
+  // meta is a FullBox: skip version/flags
+  const metaChildren = children(meta.start + 4, meta.end);
+
+  const itemTypes = new Map<number, { type: string; contentType?: string }>();
+  const iinf = metaChildren.find(b => b.type === 'iinf');
+  if (iinf) {
+    const version = bytes[iinf.start];
+    const entriesStart = iinf.start + 4 + (version === 0 ? 2 : 4);
+    for (const infe of children(entriesStart, iinf.end).filter(b => b.type === 'infe')) {
+      const infeVersion = bytes[infe.start];
+      if (infeVersion < 2) continue;
+      let cursor = infe.start + 4;
+      const id = infeVersion === 2 ? view.getUint16(cursor) : view.getUint32(cursor);
+      cursor += (infeVersion === 2 ? 2 : 4) + 2;
+      const type = latin1.decode(bytes.subarray(cursor, cursor + 4));
+      cursor += 4;
+      const nameEnd = bytes.indexOf(0, cursor);
+      let contentType: string | undefined;
+      if (type === 'mime' && nameEnd >= 0) {
+        const typeEnd = bytes.indexOf(0, nameEnd + 1);
+        contentType = latin1.decode(bytes.subarray(nameEnd + 1, typeEnd < 0 ? infe.end : typeEnd));
+      }
+      itemTypes.set(id, { type, contentType });
+    }
+  }
+
+  const iloc = metaChildren.find(b => b.type === 'iloc');
+  if (!iloc) return blocks;
+  const version = bytes[iloc.start];
+  let cursor = iloc.start + 4;
+  const offsetSize = bytes[cursor] >> 4;
+  const lengthSize = bytes[cursor] & 0xf;
+  const baseOffsetSize = bytes[cursor + 1] >> 4;
+  const indexSize = version === 1 || version === 2 ? bytes[cursor + 1] & 0xf : 0;
+  cursor += 2;
+  const itemCount = version < 2 ? view.getUint16(cursor) : view.getUint32(cursor);
+  cursor += version < 2 ? 2 : 4;
+
+  for (let i = 0; i < itemCount; i++) {
+    const id = version < 2 ? view.getUint16(cursor) : view.getUint32(cursor);
+    cursor += version < 2 ? 2 : 4;
+    if (version === 1 || version === 2) cursor += 2; // construction_method
+    cursor += 2; // data_reference_index
+    const baseOffset = readUint(cursor, baseOffsetSize);
+    cursor += baseOffsetSize;
+    const extentCount = view.getUint16(cursor);
+    cursor += 2;
+    let extentOffset = 0;
+    let extentLength = 0;
+    for (let e = 0; e < extentCount; e++) {
+      cursor += indexSize;
+      const o = readUint(cursor, offsetSize);
+      cursor += offsetSize;
+      const l = readUint(cursor, lengthSize);
+      cursor += lengthSize;
+      // Metadata items are stored in a single extent in practice; keep the first
+      if (e === 0) {
+        extentOffset = o;
+        extentLength = l;
+      }
+    }
+
+    const item = itemTypes.get(id);
+    if (!item) continue;
+    const data = bytes.subarray(baseOffset + extentOffset, baseOffset + extentOffset + extentLength);
+    if (item.type === 'Exif' && data.length > 4) {
+      // Payload starts with the offset to the TIFF header
+      const tiffOffset = new DataView(data.buffer, data.byteOffset).getUint32(0);
+      blocks.exif = data.subarray(4 + tiffOffset);
+    } else if (item.type === 'mime' && item.contentType?.includes('rdf+xml')) {
+      blocks.xmp = utf8.decode(data);
+    }
+  }
+  return blocks;
+};
+
+const readBlocks = async (bytes: Uint8Array): Promise<MetadataBlocks> => {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return readJpegBlocks(bytes);
+  if (startsWith(bytes, 0, '\x89PNG')) return readPngBlocks(bytes);
+  if (startsWith(bytes, 0, 'RIFF') && startsWith(bytes, 8, 'WEBP')) return readWebpBlocks(bytes);
+  if (startsWith(bytes, 4, 'ftyp')) return readHeicBlocks(bytes);
+  return { container: 'unknown', pngText: {} };
+};
+
+// --- TIFF / EXIF ---
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+type TagValue = string | number | number[];
+
+const readIfd = (view: DataView, tiff: Uint8Array, offset: number, little: boolean) => {
+  const tags = new Map<number, TagValue>();
+  const count = view.getUint16(offset, little);
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12;
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const n = view.getUint32(entry + 4, little);
+    const size = (TYPE_SIZES[type] ?? 1) * n;
+    const valueOffset = size > 4 ? view.getUint32(entry + 8, little) : entry + 8;
+    if (valueOffset + size > tiff.length) continue;
+
+    if (type === 2) {
+      tags.set(tag, latin1.decode(tiff.subarray(valueOffset, valueOffset + n)).replace(/\0+$/, '').trim());
+      continue;
+    }
+    const values: number[] = [];
+    for (let k = 0; k < Math.min(n, 16); k++) {
+      const at = valueOffset + k * (TYPE_SIZES[type] ?? 1);
+      switch (type) {
+        case 3: values.push(view.getUint16(at, little)); break;
+        case 4: values.push(view.getUint32(at, little)); break;
+        case 9: values.push(view.getInt32(at, little)); break;
+        case 5: values.push(view.getUint32(at, little) / (view.getUint32(at + 4, little) || 1)); break;
+        case 10: values.push(view.getInt32(at, little) / (view.getInt32(at + 4, little) || 1)); break;
+        default: values.push(tiff[at]);
+      }
+    }
+    tags.set(tag, values.length === 1 ? values[0] : values);
+  }
+  const next = view.getUint32(offset + 2 + count * 12, little);
+  return { tags, next };
+};
+
+const asString = (value?: TagValue) => (typeof value === 'string' && value ? value : undefined);
+const asNumber = (value?: TagValue) => (typeof value === 'number' ? value : undefined);
+
+const toDegrees = (value?: TagValue, ref?: TagValue) => {
+  if (!Array.isArray(value) || value.length < 3) return undefined;
+  const degrees = value[0] + value[1] / 60 + value[2] / 3600;
+  return ref === 'S' || ref === 'W' ? -degrees : degrees;
+};
+
+// EXIF "YYYY:MM:DD HH:MM:SS" to ISO-like "YYYY-MM-DDTHH:MM:SS"
+const exifDate = (value?: TagValue) => {
+  const text = asString(value);
+  const match = text?.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}:\d{2}:\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}T${match[4]}` : text;
+};
+
+const parseExif = (tiff: Uint8Array, metadata: ImageMetadata): Uint8Array | undefined => {
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const little = tiff[0] === 0x49; // "II" vs "MM"
+  const ifd0 = readIfd(view, tiff, view.getUint32(4, little), little);
+  const t0 = ifd0.tags;
+
+  metadata.make = asString(t0.get(0x010f));
+  metadata.model = asString(t0.get(0x0110));
+  metadata.description = asString(t0.get(0x010e));
+  metadata.orientation = asNumber(t0.get(0x0112));
+  metadata.software = asString(t0.get(0x0131));
+  metadata.date_time_modified = exifDate(t0.get(0x0132));
+  metadata.artist = asString(t0.get(0x013b));
+  metadata.copyright = asString(t0.get(0x8298));
+
+  const exifPointer = asNumber(t0.get(0x8769));
+  if (exifPointer) {
+    const exif = readIfd(view, tiff, exifPointer, little).tags;
+    metadata.date_time_original = exifDate(exif.get(0x9003));
+    metadata.date_time_digitized = exifDate(exif.get(0x9004));
+    metadata.pixel_width = asNumber(exif.get(0xa002));
+    metadata.pixel_height = asNumber(exif.get(0xa003));
+    metadata.serial_number = asString(exif.get(0xa431));
+    metadata.lens = asString(exif.get(0xa434));
+  }
+
+  const gpsPointer = asNumber(t0.get(0x8825));
+  if (gpsPointer) {
+    const gps = readIfd(view, tiff, gpsPointer, little).tags;
+    const latitude = toDegrees(gps.get(2), gps.get(1));
+    const longitude = toDegrees(gps.get(4), gps.get(3));
+    if (latitude !== undefined && longitude !== undefined) {
+      const coordinates: GpsCoordinates = { latitude, longitude };
+      const altitude = asNumber(gps.get(6));
+      if (altitude !== undefined) coordinates.altitude = gps.get(5) === 1 ? -altitude : altitude;
+      metadata.gps = coordinates;
+    }
+  }
+
+  // IFD1 holds the embedded JPEG thumbnail
+  if (ifd0.next) {
+    const ifd1 = readIfd(view, tiff, ifd0.next, little).tags;
+    const start = asNumber(ifd1.get(0x0201));
+    const length = asNumber(ifd1.get(0x0202));
+    if (start && length && start + length <= tiff.length) {
+      return tiff.subarray(start, start + length);
+    }
+  }
+  return undefined;
+};
+
+// --- XMP ---
+
+const parseXmp = (xmp: string, metadata: ImageMetadata) => {
+  metadata.xmp_creator_tool = xmpValue(xmp, 'xmp:CreatorTool');
+  metadata.xmp_create_date = xmpValue(xmp, 'xmp:CreateDate');
+  metadata.xmp_modify_date = xmpValue(xmp, 'xmp:ModifyDate');
+  const creators = xmpList(xmp, 'dc:creator');
+  if (creators.length) metadata.xmp_creators = creators;
+  metadata.xmp_rights = xmpValue(xmp, 'dc:rights');
+  metadata.document_id = xmpValue(xmp, 'xmpMM:DocumentID');
+  metadata.original_document_id = xmpValue(xmp, 'xmpMM:OriginalDocumentID');
+  metadata.edit_history = parseXmpHistory(xmp);
+};
+
+// --- IPTC-IIM ---
+
+const parseIptc = (iim: Uint8Array, metadata: ImageMetadata) => {
+  let offset = 0;
+  while (offset + 5 <= iim.length && iim[offset] === 0x1c) {
+    const record = iim[offset + 1];
+    const dataset = iim[offset + 2];
+    const length = (iim[offset + 3] << 8) | iim[offset + 4];
+    const value = utf8.decode(iim.subarray(offset + 5, offset + 5 + length)).trim();
+    if (record === 2) {
+      if (dataset === 80) metadata.iptc_byline ??= value;
+      else if (dataset === 116) metadata.iptc_copyright = value;
+      else if (dataset === 110) metadata.iptc_credit = value;
+      else if (dataset === 115) metadata.iptc_source = value;
+    }
+    offset += 5 + length;
+  }
+};
+
+export const parseImageMetadata = async (file: Blob): Promise<ParsedImageMetadata> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const blocks = await readBlocks(bytes);
+  const metadata: ImageMetadata = {
+    container: blocks.container,
+    has_exif: !!blocks.exif,
+    has_xmp: !!blocks.xmp,
+    has_iptc: !!blocks.iptc,
+    edit_history: [],
+  };
+
+  let thumbnail: Uint8Array | undefined;
+  if (blocks.exif) {
+    try {
+      thumbnail = parseExif(blocks.exif, metadata);
+    } catch (error) {
+      stageWarning("EXIF block is malformed:", error);
+    }
+  }
+  if (blocks.xmp) parseXmp(blocks.xmp, metadata);
+  if (blocks.iptc) parseIptc(blocks.iptc, metadata);
+
+  // PNG text chunks use free-form keywords; map the common ones
+  metadata.artist ??= blocks.pngText['Author'] || blocks.pngText['Artist'];
+  metadata.copyright ??= blocks.pngText['Copyright'];
+  metadata.software ??= blocks.pngText['Software'];
+  metadata.description ??= blocks.pngText['Description'];
+
+  return { metadata, thumbnail };
+};
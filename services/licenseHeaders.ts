@@ -0,0 +1,74 @@
+import { LicenseHeader } from "../types";
+
+// Phrases that identify a license from its usual header or LICENSE-file wording
+const LICENSES: { license: string; pattern: RegExp }[] = [
+  { license: 'MIT', pattern: /Permission is hereby granted, free of charge|\bMIT License\b/i },
+  { license: 'Apache-2.0', pattern: /Apache License,? Version 2\.0/i },
+  { license: 'AGPL-3.0', pattern: /GNU Affero General Public License/i },
+  { license: 'LGPL', pattern: /GNU (Lesser|Library) General Public License/i },
+  { license: 'GPL-3.0', pattern: /GNU General Public License.{0,60}version 3/i },
+  { license: 'GPL-2.0', pattern: /GNU General Public License.{0,60}version 2/i },
+  { license: 'GPL', pattern: /GNU General Public License/i },
+  { license: 'MPL-2.0', pattern: /Mozilla Public License,? v(ersion)?\.? ?2\.0/i },
+  { license: 'BSD', pattern: /Redistribution and use in source and binary forms/i },
+  { license: 'Unlicense', pattern: /free and unencumbered software released into the public domain/i },
+  { license: 'Proprietary', pattern: /proprietary and confidential|unauthori[sz]ed copying of this file/i },
+];
+
+const SPDX = /SPDX-License-Identifier:\s*([^\s*]+(?:\s+(?:AND|OR|WITH)\s+[^\s*]+)*)/;
+const COPYRIGHT = /\bcopyright\b|©|\(c\)\s*(19|20)\d\d/i;
+// Comment lines only, so a `copyright` variable or string does not count; C preprocessor lines are code
+const COMMENT = /^\s*(\/\/|\/\*|\*|#(?!\s*(include|define|if|ifdef|ifndef|else|elif|endif|pragma|undef)\b|!)|"""|''')/;
+const MAX_HEADERS = 20;
+
+// The license named anywhere in a text such as a LICENSE file
+export const licenseOfText = (text: string): string | undefined =>
+  text.match(SPDX)?.[1] ?? LICENSES.find(({ pattern }) => pattern.test(text))?.license;
+
+const stripComment = (line: string) =>
+  line.replace(/^\s*(\/\/+|\/\*+|\*+|#+|"""|''')\s*/, '').replace(/\s*(\*\/|"""|''')\s*$/, '').trim().slice(0, 200);
+
+// GPL-3.0 found after GPL (or the reverse) is the same license named twice
+const related = (a: string, b: string) => a.startsWith(b) || b.startsWith(a);
+
+const holderOf = (text: string) =>
+  text
+    .replace(/copyright|\(c\)|©/gi, '')
+    .replace(/all rights reserved\.?/i, '')
+    .replace(/(19|20)\d\d(\s*[-–,]\s*((19|20)\d\d|present))*/gi, '')
+    .replace(/^[\s,.:;-]+|[\s,.:;-]+$/g, '');
+
+// SPDX tags, license wording (reported once per license) and copyright lines found in comments
+export const findLicenseHeaders = (source: string): LicenseHeader[] => {
+  const headers: LicenseHeader[] = [];
+  const named = new Set<string>();
+  const lines = source.split('\n');
+  for (let i = 0; i < lines.length && headers.length < MAX_HEADERS; i++) {
+    if (!COMMENT.test(lines[i])) continue;
+    const text = stripComment(lines[i]);
+    const spdx = text.match(SPDX);
+    if (spdx) {
+      named.add(spdx[1]);
+      headers.push({ line: i + 1, kind: 'spdx', license: spdx[1], text });
+      continue;
+    }
+    if (COPYRIGHT.test(text)) {
+      const holder = holderOf(text);
+      headers.push({ line: i + 1, kind: 'copyright', ...(holder ? { holder } : {}), text });
+      continue;
+    }
+    // License wording often wraps, so each comment line is read together with the next; wording wholly on the
+    // next line is left for that line to report
+    const next = stripComment(lines[i + 1] ?? '');
+    const found = LICENSES.find(({ license, pattern }) =>
+      pattern.test(`${text} ${next}`) && !pattern.test(next) && ![...named].some(n => related(n, license)));
+    if (found) {
+      named.add(found.license);
+      headers.push({ line: i + 1, kind: 'license_text', license: found.license, text });
+    }
+  }
+  return headers;
+};
+
+export const formatLicenseHeader = (header: LicenseHeader) =>
+  `line ${header.line}: ${header.kind === 'copyright' ? `copyright ${header.holder ?? 'notice'}` : `${header.license} license`} — "${header.text}"`;
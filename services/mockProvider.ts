@@ -0,0 +1,57 @@
+import { AnalysisProvider, ForensicReport, ProviderConfig, Verdict } from "../types";
+import { fnv1a } from "./textFingerprint";
+
+// Canned reports for offline runs and tests. The same request always yields the same report
+type Fixture = Omit<ForensicReport, 'case_id'>;
+
+const FIXTURES: Record<'pirated' | 'original' | 'inconclusive', Fixture> = {
+  pirated: {
+    verdict: Verdict.PIRATED,
+    confidence_score: 92,
+    summary: "Mock analysis: the asset matches an original registered in the protected-asset vault.",
+    key_evidence: [{ type: 'model_observation', claim: "Mock provider: vault match reported by local forensics", engine: 'mock', weight: 40, origin: 'inferred' }],
+    risk_level: 'HIGH',
+    suspicious_urls: [],
+    probable_original_sources: [],
+    data_gaps: ["Mock provider: no model was consulted"],
+    recommended_actions: ["Review the vault match and prepare a takedown notice"],
+  },
+  original: {
+    verdict: Verdict.ORIGINAL,
+    confidence_score: 74,
+    summary: "Mock analysis: no local forensic stage linked the asset to known content.",
+    key_evidence: [{ type: 'model_observation', claim: "Mock provider: no vault or index match reported by local forensics", engine: 'mock', weight: -20, origin: 'inferred' }],
+    risk_level: 'LOW',
+    suspicious_urls: [],
+    probable_original_sources: [],
+    data_gaps: ["Mock provider: no model was consulted"],
+    recommended_actions: ["Register the asset in the vault to protect it in future scans"],
+  },
+  inconclusive: {
+    verdict: Verdict.INCONCLUSIVE,
+    confidence_score: 40,
+    summary: "Mock analysis: URL scans carry no content, so nothing could be measured.",
+    key_evidence: [{ type: 'model_observation', claim: "Mock provider: URL input, no file content", engine: 'mock', weight: 0, origin: 'inferred' }],
+    risk_level: 'MEDIUM',
+    suspicious_urls: [],
+    probable_original_sources: [],
+    data_gaps: ["Mock provider: no model was consulted"],
+    recommended_actions: ["Upload the asset itself for a measured scan"],
+  },
+};
+
+export const createMockProvider = (config: ProviderConfig): AnalysisProvider => ({
+  id: 'mock',
+  model: config.model,
+  generate: async ({ parts, signal }) => {
+    signal?.throwIfAborted();
+    const text = parts.map(p =>
+      'text' in p ? p.text : 'inlineData' in p ? `${p.inlineData.mimeType}:${p.inlineData.data.length}` : `${p.fileData.mimeType}:file`
+    ).join('\n');
+    const fixture = /(registered original|proprietary file)\(s\) matched/.test(text) ? FIXTURES.pirated
+      : /^Analyze this URL/.test(text) ? FIXTURES.inconclusive
+      : FIXTURES.original;
+    const case_id = `MOCK-${fnv1a(text).toString(16).toUpperCase().padStart(8, '0')}`;
+    return JSON.stringify({ case_id, ...fixture });
+  }
+});
@@ -0,0 +1,63 @@
+import { AnalysisProvider, PromptPart, ProviderConfig } from "../types";
+
+// Any server speaking the OpenAI chat completions API: OpenAI itself, Ollama, LM Studio, vLLM, llama.cpp
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+
+// Carries the HTTP status so the caller's rate-limit handling sees 429s the same way as Gemini's
+export class ProviderHttpError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'ProviderHttpError';
+  }
+}
+
+type InlinePart = Extract<PromptPart, { text: string } | { inlineData: unknown }>;
+
+const toContent = (part: InlinePart) =>
+  'text' in part
+    ? { type: 'text', text: part.text }
+    : { type: 'image_url', image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` } };
+
+export const createOpenAiProvider = (config: ProviderConfig): AnalysisProvider => {
+  const baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+
+  return {
+    id: 'openai',
+    model: config.model,
+    generate: async ({ systemPrompt, parts, schema, signal, temperature }) => {
+      // Only inline images travel as image_url; other binaries and stored files cannot be expressed in this API
+      const supported = parts.filter((p): p is InlinePart => 'text' in p || ('inlineData' in p && p.inlineData.mimeType.startsWith('image/')));
+      const content = supported.map(toContent);
+      if (supported.length < parts.length) {
+        content.push({ type: 'text', text: `[${parts.length - supported.length} attachment(s) omitted: this provider accepts inline images only]` });
+      }
+
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        signal,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: config.model,
+          temperature: temperature ?? 0.2,
+          response_format: { type: 'json_schema', json_schema: { name: 'forensic_report', schema } },
+          messages: [
+            { role: 'system', content: systemPrompt },
+            { role: 'user', content },
+          ],
+        }),
+      });
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        throw new ProviderHttpError(`${config.model} request failed (${response.status}): ${detail.slice(0, 300)}`, response.status);
+      }
+      const body = await response.json();
+      const text: string | undefined = body?.choices?.[0]?.message?.content;
+      if (!text) throw new Error("No response from AI");
+      return text;
+    }
+  };
+};
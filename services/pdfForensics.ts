@@ -0,0 +1,96 @@
+import { EvidenceItem, EvidenceType, LocalFindings, PdfMetadata } from "../types";
+import { parsePdf } from "./pdfParser";
+import { MAX_DECODE_BYTES } from "./fileUtils";
+import { measured } from "./evidence";
+import { stageWarning } from "./stageLog";
+
+// Producers that typically re-save someone else's PDF rather than author one
+const REPROCESSING_TOOLS = /ilovepdf|smallpdf|pdf24|sejda|pdftk|qpdf|ghostscript|print to pdf|pdfescape|soda pdf|foxit phantom|cutepdf/i;
+
+export interface PdfAnalysis {
+  findings: LocalFindings;
+  pages: string[];
+}
+
+const datesDiffer = (a?: string, b?: string) => {
+  if (!a || !b) return false;
+  const x = Date.parse(a);
+  const y = Date.parse(b);
+  return Number.isFinite(x) && Number.isFinite(y) && Math.abs(x - y) > 60_000;
+};
+
+const structureEvidence = (m: PdfMetadata, pages: string[]): EvidenceItem[] => {
+  const evidence: EvidenceItem[] = [];
+  const add = (type: EvidenceType, claim: string, weight: number) => evidence.push(measured(type, 'PDF structure', claim, weight));
+
+  if (m.revision_count > 1) {
+    add('document_structure', `PDF modified by ${m.revision_count - 1} incremental update(s) after creation (${m.redefined_objects} object(s) rewritten)`, 15);
+  }
+
+  for (const removed of m.removed_objects.slice(0, 5)) {
+    add('document_structure', `${removed.kind === 'watermark' ? 'Watermark' : 'Annotation'} object #${removed.object} from revision ${removed.revision} removed (${removed.detail})`, removed.kind === 'watermark' ? 40 : 15);
+  }
+  if (m.removed_objects.length > 5) {
+    add('document_structure', `${m.removed_objects.length - 5} further watermark/annotation object(s) removed in later revisions`, 30);
+  }
+
+  if (m.producer && m.xmp_producer && m.producer !== m.xmp_producer) {
+    add('metadata', `Info Producer "${m.producer}" disagrees with XMP pdf:Producer "${m.xmp_producer}" (metadata edited by a second tool)`, 20);
+  }
+  if (datesDiffer(m.created, m.xmp_created)) {
+    add('metadata', `Info CreationDate (${m.created}) disagrees with XMP CreateDate (${m.xmp_created})`, 15);
+  }
+  if (m.created && m.modified && Date.parse(m.created) > Date.parse(m.modified)) {
+    add('metadata', `Creation date (${m.created}) is later than modification date (${m.modified})`, 20);
+  }
+
+  if (m.producer && REPROCESSING_TOOLS.test(m.producer)) {
+    add('metadata', `Re-processed by "${m.producer}"${m.creator ? ` after authoring in "${m.creator}"` : ''}`, 15);
+  }
+
+  const blankPages = pages.filter(p => !p).length;
+  if (!m.encrypted && m.images.length > 0 && blankPages > 0) {
+    add('document_structure', `${blankPages} of ${m.page_count} page(s) have no text layer (scanned or flattened pages)`, 10);
+  }
+
+  return evidence;
+};
+
+const describe = (m: PdfMetadata) => [
+  `PDF ${m.version}, ${m.page_count} page(s), ${m.revision_count} revision(s)${m.encrypted ? ', encrypted' : ''}`,
+  m.title && `Title: ${m.title}`,
+  m.author && `Author: ${m.author}`,
+  m.creator && `Creator: ${m.creator}`,
+  m.producer && `Producer: ${m.producer}`,
+  m.created && `Created: ${m.created}`,
+  m.modified && `Modified: ${m.modified}`,
+  m.xmp_creator_tool && `XMP CreatorTool: ${m.xmp_creator_tool}`,
+  m.fonts.length > 0 && `Fonts: ${m.fonts.slice(0, 12).map(f => `${f.name}${f.embedded ? '' : ' (not embedded)'}`).join(', ')}`,
+  `${m.images.length} embedded image(s)`,
+].filter(Boolean).join('; ');
+
+export const analyzePdfLocally = async (file: File): Promise<PdfAnalysis> => {
+  const findings: LocalFindings = { evidence: [], promptContext: [], dataGaps: [] };
+  if (file.size > MAX_DECODE_BYTES) {
+    findings.dataGaps.push(`PDF structure and text were not extracted: files over ${MAX_DECODE_BYTES / 1024 / 1024} MB are not parsed locally.`);
+    return { findings, pages: [] };
+  }
+
+  let parsed;
+  try {
+    parsed = await parsePdf(file);
+  } catch (error) {
+    stageWarning("PDF parsing failed:", error);
+    findings.dataGaps.push(`Could not parse PDF structure: ${error instanceof Error ? error.message : 'unknown error'}`);
+    return { findings, pages: [] };
+  }
+
+  const { metadata, pages, gaps } = parsed;
+  findings.report = { pdf_metadata: metadata };
+  findings.evidence.push(...structureEvidence(metadata, pages));
+  findings.dataGaps.push(...gaps);
+  findings.promptContext.push(`PDF structure: ${describe(metadata)}.`);
+  findings.promptContext.push(`Text extracted from ${metadata.text_pages} of ${metadata.page_count} page(s).`);
+
+  return { findings, pages };
+};
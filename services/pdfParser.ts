@@ -0,0 +1,788 @@
+import { PdfFontInfo, PdfImageInfo, PdfMetadata, PdfRemovedObject } from "../types";
+import { inflate } from "./zipReader";
+import { parseXmpHistory, xmpValue } from "./xmp";
+
+export interface ParsedPdf {
+  metadata: PdfMetadata;
+  pages: string[]; // extracted text, one entry per page
+  gaps: string[];
+}
+
+// --- Object model ---
+
+interface PdfName { kind: 'name'; value: string }
+interface PdfString { kind: 'string'; value: string } // raw bytes, one char per byte
+interface PdfRef { kind: 'ref'; num: number }
+interface PdfDict { kind: 'dict'; entries: Map<string, PdfValue> }
+interface PdfOp { kind: 'op'; value: string } // bare keyword, only meaningful in content streams
+type PdfValue = number | boolean | null | PdfName | PdfString | PdfRef | PdfDict | PdfOp | PdfValue[];
+
+interface PdfObject {
+  num: number;
+  value: PdfValue;
+  stream?: string;
+  revision: number;
+  offset: number;
+}
+
+const isDict = (v: PdfValue | undefined): v is PdfDict => !!v && typeof v === 'object' && !Array.isArray(v) && v.kind === 'dict';
+const isName = (v: PdfValue | undefined, name?: string): v is PdfName =>
+  !!v && typeof v === 'object' && !Array.isArray(v) && v.kind === 'name' && (name === undefined || v.value === name);
+const isString = (v: PdfValue | undefined): v is PdfString => !!v && typeof v === 'object' && !Array.isArray(v) && v.kind === 'string';
+const isRef = (v: PdfValue | undefined): v is PdfRef => !!v && typeof v === 'object' && !Array.isArray(v) && v.kind === 'ref';
+const isOp = (v: PdfValue | undefined): v is PdfOp => !!v && typeof v === 'object' && !Array.isArray(v) && v.kind === 'op';
+
+// --- Byte/string helpers ---
+
+// TextDecoder('latin1') is really windows-1252, so build a lossless one-char-per-byte string by hand
+const bytesToBinary = (bytes: Uint8Array) => {
+  let out = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    out += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return out;
+};
+
+const binaryToBytes = (text: string) => {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i) & 0xff;
+  return bytes;
+};
+
+const decodeUtf16be = (raw: string) => {
+  let out = '';
+  for (let i = 0; i + 1 < raw.length; i += 2) out += String.fromCharCode((raw.charCodeAt(i) << 8) | raw.charCodeAt(i + 1));
+  return out;
+};
+
+// PDF text strings are UTF-16BE with BOM, UTF-8 with BOM, or PDFDocEncoding (close enough to Latin-1)
+const decodeTextString = (raw: string) => {
+  if (raw.startsWith('\xfe\xff')) return decodeUtf16be(raw.slice(2));
+  if (raw.startsWith('\xef\xbb\xbf')) return new TextDecoder().decode(binaryToBytes(raw.slice(3)));
+  return raw;
+};
+
+// "D:20240131120000+01'00'" -> "2024-01-31T12:00:00+01:00"
+const parsePdfDate = (raw?: string) => {
+  const match = raw?.match(/^(?:D:)?(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?([Zz+-])?(\d{2})?'?(\d{2})?/);
+  if (!match) return raw;
+  const [, y, mo = '01', d = '01', h = '00', mi = '00', s = '00', tz, tzh, tzm = '00'] = match;
+  const zone = !tz ? '' : /z/i.test(tz) ? 'Z' : `${tz}${tzh ?? '00'}:${tzm}`;
+  return `${y}-${mo}-${d}T${h}:${mi}:${s}${zone}`;
+};
+
+// --- Lexer ---
+
+const WHITESPACE = new Set(['\0', '\t', '\n', '\f', '\r', ' ']);
+const DELIMITERS = new Set(['(', ')', '<', '>', '[', ']', '{', '}', '/', '%']);
+
+class PdfLexer {
+  constructor(public src: string, public pos = 0) {}
+
+  skipWhitespace() {
+    const { src } = this;
+    while (this.pos < src.length) {
+      const c = src[this.pos];
+      if (WHITESPACE.has(c)) {
+        this.pos++;
+      } else if (c === '%') {
+        while (this.pos < src.length && src[this.pos] !== '\n' && src[this.pos] !== '\r') this.pos++;
+      } else {
+        break;
+      }
+    }
+  }
+
+  private readRegular() {
+    const start = this.pos;
+    while (this.pos < this.src.length && !WHITESPACE.has(this.src[this.pos]) && !DELIMITERS.has(this.src[this.pos])) this.pos++;
+    return this.src.slice(start, this.pos);
+  }
+
+  private readLiteralString(): PdfString {
+    const { src } = this;
+    let depth = 1;
+    let out = '';
+    this.pos++;
+    while (this.pos < src.length) {
+      const c = src[this.pos++];
+      if (c === '\\') {
+        const next = src[this.pos++];
+        switch (next) {
+          case 'n': out += '\n'; break;
+          case 'r': out += '\r'; break;
+          case 't': out += '\t'; break;
+          case 'b': out += '\b'; break;
+          case 'f': out += '\f'; break;
+          case '\r': if (src[this.pos] === '\n') this.pos++; break;
+          case '\n': break;
+          default:
+            if (next >= '0' && next <= '7') {
+              let octal = next;
+              while (octal.length < 3 && src[this.pos] >= '0' && src[this.pos] <= '7') octal += src[this.pos++];
+              out += String.fromCharCode(parseInt(octal, 8) & 0xff);
+            } else {
+              out += next;
+            }
+        }
+      } else if (c === '(') {
+        depth++;
+        out += c;
+      } else if (c === ')') {
+        if (--depth === 0) break;
+        out += c;
+      } else {
+        out += c;
+      }
+    }
+    return { kind: 'string', value: out };
+  }
+
+  private readHexString(): PdfString {
+    const end = this.src.indexOf('>', this.pos);
+    let hex = this.src.slice(this.pos + 1, end < 0 ? undefined : end).replace(/[^0-9a-fA-F]/g, '');
+    this.pos = end < 0 ? this.src.length : end + 1;
+    if (hex.length % 2) hex += '0';
+    let out = '';
+    for (let i = 0; i < hex.length; i += 2) out += String.fromCharCode(parseInt(hex.slice(i, i + 2), 16));
+    return { kind: 'string', value: out };
+  }
+
+  private readName(): PdfName {
+    this.pos++;
+    const raw = this.readRegular();
+    return { kind: 'name', value: raw.replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))) };
+  }
+
+  parseValue(): PdfValue {
+    this.skipWhitespace();
+    const { src } = this;
+    const c = src[this.pos];
+
+    if (c === '<' && src[this.pos + 1] === '<') {
+      this.pos += 2;
+      const entries = new Map<string, PdfValue>();
+      while (true) {
+        this.skipWhitespace();
+        if (this.pos >= src.length) break;
+        if (src[this.pos] === '>' && src[this.pos + 1] === '>') {
+          this.pos += 2;
+          break;
+        }
+        const key = this.parseValue();
+        if (!isName(key)) continue;
+        entries.set(key.value, this.parseValue());
+      }
+      return { kind: 'dict', entries };
+    }
+    if (c === '<') return this.readHexString();
+    if (c === '(') return this.readLiteralString();
+    if (c === '/') return this.readName();
+    if (c === '[') {
+      this.pos++;
+      const items: PdfValue[] = [];
+      while (true) {
+        this.skipWhitespace();
+        if (this.pos >= src.length) break;
+        if (src[this.pos] === ']') {
+          this.pos++;
+          break;
+        }
+        items.push(this.parseValue());
+      }
+      return items;
+    }
+
+    const word = this.readRegular();
+    if (!word) {
+      // Stray delimiter such as ')' or '>': skip it so callers always make progress
+      this.pos++;
+      return { kind: 'op', value: '' };
+    }
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+      const number = parseFloat(word);
+      // "12 0 R" is an indirect reference
+      if (/^\d+$/.test(word)) {
+        const save = this.pos;
+        const ref = src.slice(save, save + 32).match(/^\s+(\d+)\s+R(?=[\s\/<>\[\]()%]|$)/);
+        if (ref) {
+          this.pos = save + ref[0].length;
+          return { kind: 'ref', num: number };
+        }
+      }
+      return number;
+    }
+    if (word === 'true') return true;
+    if (word === 'false') return false;
+    if (word === 'null') return null;
+    return { kind: 'op', value: word };
+  }
+}
+
+// --- Stream decoding ---
+
+// PNG row predictors (Predictor >= 10), as used by xref and object streams
+const unpredict = (data: Uint8Array, columns: number, bpp = 1) => {
+  const rowLength = columns + 1;
+  const rows = Math.floor(data.length / rowLength);
+  const out = new Uint8Array(rows * columns);
+  for (let r = 0; r < rows; r++) {
+    const type = data[r * rowLength];
+    for (let c = 0; c < columns; c++) {
+      const raw = data[r * rowLength + 1 + c];
+      const left = c >= bpp ? out[r * columns + c - bpp] : 0;
+      const up = r > 0 ? out[(r - 1) * columns + c] : 0;
+      const upLeft = r > 0 && c >= bpp ? out[(r - 1) * columns + c - bpp] : 0;
+      let predicted = 0;
+      if (type === 1) predicted = left;
+      else if (type === 2) predicted = up;
+      else if (type === 3) predicted = (left + up) >> 1;
+      else if (type === 4) {
+        const p = left + up - upLeft;
+        const pa = Math.abs(p - left), pb = Math.abs(p - up), pc = Math.abs(p - upLeft);
+        predicted = pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+      }
+      out[r * columns + c] = (raw + predicted) & 0xff;
+    }
+  }
+  return out;
+};
+
+// --- Document ---
+
+class PdfDocument {
+  latest = new Map<number, PdfObject>();
+  history = new Map<number, PdfObject[]>();
+  trailers: { offset: number; dict: PdfDict }[] = [];
+  freed = new Map<number, number[]>(); // object number -> revisions that freed it
+  private decoded = new Map<PdfObject, Uint8Array | null>();
+
+  constructor(public src: string, public eofOffsets: number[]) {}
+
+  revisionAt(offset: number) {
+    let revision = 0;
+    while (revision < this.eofOffsets.length && this.eofOffsets[revision] < offset) revision++;
+    return Math.min(revision, Math.max(this.eofOffsets.length - 1, 0));
+  }
+
+  add(object: PdfObject) {
+    const list = this.history.get(object.num) ?? [];
+    list.push(object);
+    this.history.set(object.num, list);
+    const current = this.latest.get(object.num);
+    if (!current || current.offset <= object.offset) this.latest.set(object.num, object);
+  }
+
+  resolve(value: PdfValue | undefined, depth = 0): PdfValue | undefined {
+    if (isRef(value) && depth < 16) return this.resolve(this.latest.get(value.num)?.value, depth + 1);
+    return value;
+  }
+
+  get(dict: PdfValue | undefined, key: string): PdfValue | undefined {
+    return isDict(dict) ? this.resolve(dict.entries.get(key)) : undefined;
+  }
+
+  name(dict: PdfValue | undefined, key: string) {
+    const value = this.get(dict, key);
+    return isName(value) ? value.value : undefined;
+  }
+
+  text(dict: PdfValue | undefined, key: string) {
+    const value = this.get(dict, key);
+    return isString(value) ? decodeTextString(value.value).replace(/\0/g, '').trim() || undefined : undefined;
+  }
+
+  number(dict: PdfValue | undefined, key: string) {
+    const value = this.get(dict, key);
+    return typeof value === 'number' ? value : undefined;
+  }
+
+  trailerValue(key: string) {
+    for (let i = this.trailers.length - 1; i >= 0; i--) {
+      const value = this.trailers[i].dict.entries.get(key);
+      if (value !== undefined) return this.resolve(value);
+    }
+    return undefined;
+  }
+
+  // Returns null for filters we do not implement (DCT, JBIG2, LZW...)
+  async decode(object: PdfObject): Promise<Uint8Array | null> {
+    if (this.decoded.has(object)) return this.decoded.get(object)!;
+    let result: Uint8Array | null = null;
+    if (object.stream !== undefined) {
+      const filterValue = this.get(object.value, 'Filter');
+      const filters = (Array.isArray(filterValue) ? filterValue : filterValue ? [filterValue] : [])
+        .map(f => isName(f) ? f.value : '');
+      let data = binaryToBytes(object.stream);
+      try {
+        if (filters.length === 0) {
+          result = data;
+        } else if (filters.length === 1 && filters[0] === 'FlateDecode') {
+          data = await inflate(data, 'deflate');
+          const parms = this.get(object.value, 'DecodeParms');
+          const predictor = this.number(parms, 'Predictor') ?? 1;
+          result = predictor >= 10 ? unpredict(data, this.number(parms, 'Columns') ?? 1) : data;
+        }
+      } catch {
+        result = null;
+      }
+    }
+    this.decoded.set(object, result);
+    return result;
+  }
+
+  async decodeText(object: PdfObject) {
+    const bytes = await this.decode(object);
+    return bytes ? bytesToBinary(bytes) : null;
+  }
+}
+
+const scanObjects = (doc: PdfDocument) => {
+  const { src } = doc;
+  const objectPattern = /(\d+)\s+(\d+)\s+obj\b/g;
+  let match: RegExpExecArray | null;
+  while ((match = objectPattern.exec(src))) {
+    const lexer = new PdfLexer(src, objectPattern.lastIndex);
+    let value: PdfValue;
+    try {
+      value = lexer.parseValue();
+    } catch {
+      continue;
+    }
+    lexer.skipWhitespace();
+    let stream: string | undefined;
+    if (src.startsWith('stream', lexer.pos)) {
+      let start = lexer.pos + 6;
+      if (src[start] === '\r') start++;
+      if (src[start] === '\n') start++;
+      const end = src.indexOf('endstream', start);
+      if (end < 0) break;
+      stream = src.slice(start, end).replace(/\r?\n$|\r$/, '');
+      objectPattern.lastIndex = end + 9;
+    } else {
+      objectPattern.lastIndex = Math.max(lexer.pos, objectPattern.lastIndex);
+    }
+    const object: PdfObject = { num: Number(match[1]), value, stream, offset: match.index, revision: doc.revisionAt(match.index) };
+    doc.add(object);
+    if (isName(doc.get(value, 'Type'), 'XRef')) doc.trailers.push({ offset: match.index, dict: value as PdfDict });
+  }
+
+  for (const trailer of src.matchAll(/trailer\s*<</g)) {
+    try {
+      const dict = new PdfLexer(src, trailer.index! + 7).parseValue();
+      if (isDict(dict)) doc.trailers.push({ offset: trailer.index!, dict });
+    } catch {
+      // A corrupt trailer only costs us Info/Root lookups from that revision
+    }
+  }
+  doc.trailers.sort((a, b) => a.offset - b.offset);
+};
+
+// Objects packed inside /Type /ObjStm containers (PDF 1.5+)
+const expandObjectStreams = async (doc: PdfDocument) => {
+  const containers = [...doc.history.values()].flat().filter(o => isName(doc.get(o.value, 'Type'), 'ObjStm'));
+  for (const container of containers) {
+    const text = await doc.decodeText(container);
+    if (!text) continue;
+    const count = doc.number(container.value, 'N') ?? 0;
+    const first = doc.number(container.value, 'First') ?? 0;
+    const header = text.slice(0, first).trim().split(/\s+/).map(Number);
+    for (let i = 0; i < count; i++) {
+      const num = header[i * 2];
+      const offset = header[i * 2 + 1];
+      if (!Number.isFinite(num) || !Number.isFinite(offset)) break;
+      try {
+        const value = new PdfLexer(text, first + offset).parseValue();
+        // Order compressed objects right after their container
+        doc.add({ num, value, offset: container.offset + (i + 1) / (count + 1), revision: container.revision });
+      } catch {
+        // skip unparseable compressed object
+      }
+    }
+  }
+};
+
+// Free ('f') entries in later xref sections mark objects deleted by an update
+const collectFreedObjects = async (doc: PdfDocument) => {
+  const markFreed = (num: number, revision: number) => {
+    if (num === 0) return;
+    doc.freed.set(num, [...(doc.freed.get(num) ?? []), revision]);
+  };
+
+  for (const section of doc.src.matchAll(/(?:^|[\r\n])xref\s+([\s\S]*?)trailer/g)) {
+    const revision = doc.revisionAt(section.index!);
+    const tokens = section[1].trim().split(/\s+/);
+    let i = 0;
+    while (i + 1 < tokens.length) {
+      const start = Number(tokens[i]);
+      const count = Number(tokens[i + 1]);
+      i += 2;
+      for (let k = 0; k < count && i + 2 < tokens.length; k++, i += 3) {
+        if (tokens[i + 2] === 'f') markFreed(start + k, revision);
+      }
+    }
+  }
+
+  for (const { dict, offset } of doc.trailers) {
+    if (!isName(dict.entries.get('Type'), 'XRef')) continue;
+    const object = [...(doc.history.values())].flat().find(o => o.offset === offset);
+    const bytes = object && await doc.decode(object);
+    const widths = doc.get(dict, 'W');
+    if (!bytes || !Array.isArray(widths)) continue;
+    const [w1, w2, w3] = widths.map(w => (typeof w === 'number' ? w : 0));
+    const index = doc.get(dict, 'Index');
+    const ranges = Array.isArray(index) ? index.map(v => (typeof v === 'number' ? v : 0)) : [0, doc.number(dict, 'Size') ?? 0];
+    const rowLength = w1 + w2 + w3;
+    const readField = (at: number, width: number) => {
+      let value = 0;
+      for (let b = 0; b < width; b++) value = value * 256 + bytes[at + b];
+      return value;
+    };
+    let row = 0;
+    for (let r = 0; r + 1 < ranges.length; r += 2) {
+      for (let k = 0; k < ranges[r + 1]; k++, row++) {
+        const at = row * rowLength;
+        if (at + rowLength > bytes.length) break;
+        const type = w1 === 0 ? 1 : readField(at, w1);
+        if (type === 0) markFreed(ranges[r] + k, doc.revisionAt(offset));
+      }
+    }
+  }
+};
+
+// --- Fonts and text ---
+
+interface FontDecoder {
+  twoByte: boolean;
+  toUnicode?: Map<number, string>;
+}
+
+const parseToUnicode = (cmap: string) => {
+  const map = new Map<number, string>();
+  let twoByte = false;
+  const hexToString = (hex: string) => decodeUtf16be(bytesToBinary(Uint8Array.from(hex.match(/../g) ?? [], h => parseInt(h, 16))));
+
+  for (const block of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const pair of block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) {
+      if (pair[1].length >= 4) twoByte = true;
+      map.set(parseInt(pair[1], 16), hexToString(pair[2]));
+    }
+  }
+  for (const block of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    for (const range of block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g)) {
+      if (range[1].length >= 4) twoByte = true;
+      const low = parseInt(range[1], 16);
+      const high = Math.min(parseInt(range[2], 16), low + 0xffff);
+      if (range[3].startsWith('[')) {
+        const targets = [...range[3].matchAll(/<([0-9a-fA-F]*)>/g)];
+        targets.forEach((t, i) => map.set(low + i, hexToString(t[1])));
+      } else {
+        const base = range[3].slice(1, -1);
+        const start = parseInt(base.slice(-4) || '0', 16);
+        const prefix = base.length > 4 ? hexToString(base.slice(0, -4)) : '';
+        for (let code = low; code <= high; code++) map.set(code, prefix + String.fromCharCode(start + code - low));
+      }
+    }
+  }
+  return { map, twoByte };
+};
+
+const buildFontDecoder = async (doc: PdfDocument, font: PdfValue | undefined): Promise<FontDecoder> => {
+  const decoder: FontDecoder = { twoByte: doc.name(font, 'Subtype') === 'Type0' };
+  const toUnicodeRef = isDict(font) ? font.entries.get('ToUnicode') : undefined;
+  const toUnicode = isRef(toUnicodeRef) ? doc.latest.get(toUnicodeRef.num) : undefined;
+  if (toUnicode) {
+    const text = await doc.decodeText(toUnicode);
+    if (text) {
+      const { map, twoByte } = parseToUnicode(text);
+      decoder.toUnicode = map;
+      decoder.twoByte ||= twoByte;
+    }
+  }
+  return decoder;
+};
+
+const decodeShown = (raw: string, font?: FontDecoder) => {
+  if (font?.toUnicode) {
+    const step = font.twoByte ? 2 : 1;
+    let out = '';
+    for (let i = 0; i + step - 1 < raw.length; i += step) {
+      const code = step === 2 ? (raw.charCodeAt(i) << 8) | raw.charCodeAt(i + 1) : raw.charCodeAt(i);
+      out += font.toUnicode.get(code) ?? (step === 1 ? raw[i] : '');
+    }
+    return out;
+  }
+  // Two-byte glyph ids without a ToUnicode map cannot be recovered
+  if (font?.twoByte) return '';
+  return raw.replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, '');
+};
+
+const extractContentText = (content: string, fonts: Map<string, FontDecoder>) => {
+  const lexer = new PdfLexer(content);
+  const operands: PdfValue[] = [];
+  let font: FontDecoder | undefined;
+  let out = '';
+
+  while (true) {
+    lexer.skipWhitespace();
+    if (lexer.pos >= content.length) break;
+    const value = lexer.parseValue();
+    if (!isOp(value)) {
+      operands.push(value);
+      continue;
+    }
+    const last = operands[operands.length - 1];
+    switch (value.value) {
+      case 'Tf':
+        font = isName(operands[0]) ? fonts.get(operands[0].value) : undefined;
+        break;
+      case 'Tj':
+        if (isString(last)) out += decodeShown(last.value, font);
+        break;
+      case "'":
+      case '"':
+        if (isString(last)) out += '\n' + decodeShown(last.value, font);
+        break;
+      case 'TJ':
+        if (Array.isArray(last)) {
+          for (const item of last) {
+            if (isString(item)) out += decodeShown(item.value, font);
+            // Large negative kerning is how most producers encode word gaps
+            else if (typeof item === 'number' && item < -200) out += ' ';
+          }
+        }
+        break;
+      case 'Td':
+      case 'TD':
+        out += operands[1] === 0 ? ' ' : '\n';
+        break;
+      case 'T*':
+      case 'ET':
+        out += '\n';
+        break;
+      case 'BI': {
+        // Inline image data is binary; jump past the closing EI
+        const dataStart = content.indexOf('ID', lexer.pos);
+        const end = dataStart < 0 ? -1 : content.slice(dataStart + 2).search(/\sEI(?=\s|$)/);
+        lexer.pos = end < 0 ? content.length : dataStart + 2 + end + 3;
+        break;
+      }
+    }
+    operands.length = 0;
+  }
+
+  return out.split('\n').map(line => line.replace(/\s+/g, ' ').trim()).filter(Boolean).join('\n');
+};
+
+interface PageNode {
+  dict: PdfDict;
+  resources?: PdfValue;
+}
+
+const collectPages = (doc: PdfDocument, root: PdfValue | undefined): PageNode[] => {
+  const pages: PageNode[] = [];
+  const seen = new Set<PdfValue>();
+  const walk = (node: PdfValue | undefined, inherited?: PdfValue) => {
+    if (!isDict(node) || seen.has(node)) return;
+    seen.add(node);
+    const resources = doc.get(node, 'Resources') ?? inherited;
+    const kids = doc.get(node, 'Kids');
+    if (Array.isArray(kids)) {
+      kids.forEach(kid => walk(doc.resolve(kid), resources));
+    } else if (doc.name(node, 'Type') === 'Page' || node.entries.has('Contents')) {
+      pages.push({ dict: node, resources });
+    }
+  };
+  walk(doc.get(root, 'Pages'));
+
+  // Broken page trees still leave /Type /Page objects behind
+  if (pages.length === 0) {
+    for (const object of [...doc.latest.values()].sort((a, b) => a.offset - b.offset)) {
+      if (isName(doc.get(object.value, 'Type'), 'Page')) {
+        pages.push({ dict: object.value as PdfDict, resources: doc.get(object.value, 'Resources') });
+      }
+    }
+  }
+  return pages;
+};
+
+const pageText = async (doc: PdfDocument, page: PageNode, fontCache: Map<PdfValue, FontDecoder>) => {
+  const fonts = new Map<string, FontDecoder>();
+  const fontDict = doc.get(page.resources, 'Font');
+  if (isDict(fontDict)) {
+    for (const [name, ref] of fontDict.entries) {
+      const font = doc.resolve(ref);
+      if (!font) continue;
+      if (!fontCache.has(font)) fontCache.set(font, await buildFontDecoder(doc, font));
+      fonts.set(name, fontCache.get(font)!);
+    }
+  }
+
+  const contents = page.dict.entries.get('Contents');
+  const refs = Array.isArray(contents) ? contents : contents ? [contents] : [];
+  const chunks: string[] = [];
+  for (const ref of refs) {
+    const object = isRef(ref) ? doc.latest.get(ref.num) : undefined;
+    const text = object && await doc.decodeText(object);
+    if (text) chunks.push(text);
+  }
+  return extractContentText(chunks.join('\n'), fonts);
+};
+
+// --- Forensic extraction ---
+
+const ANNOTATION_SUBTYPES = /^(Text|Link|FreeText|Line|Square|Circle|Polygon|PolyLine|Highlight|Underline|Squiggly|StrikeOut|Stamp|Caret|Ink|FileAttachment|Sound|Movie|Widget|Screen|PrinterMark|Watermark|Redact)$/;
+
+const classify = (doc: PdfDocument, object: PdfObject, decodedStream?: string | null): PdfRemovedObject['kind'] | null => {
+  const value = object.value;
+  if (doc.name(value, 'Subtype') === 'Watermark') return 'watermark';
+  if (doc.name(value, 'Type') === 'OCG' && /watermark/i.test(doc.text(value, 'Name') ?? '')) return 'watermark';
+  if (decodedStream && /\/Watermark\b|\/Artifact\s*<<[^>]*\/Subtype\s*\/Watermark/.test(decodedStream)) return 'watermark';
+  const subtype = doc.name(value, 'Subtype');
+  if (doc.name(value, 'Type') === 'Annot' || (subtype && ANNOTATION_SUBTYPES.test(subtype) && isDict(value) && value.entries.has('Rect'))) {
+    return 'annotation';
+  }
+  return null;
+};
+
+const findRemovedObjects = async (doc: PdfDocument, pages: PageNode[], finalRevision: number) => {
+  const removed: PdfRemovedObject[] = [];
+  if (finalRevision === 0) return removed;
+
+  const referencedAnnots = new Set<number>();
+  for (const page of pages) {
+    const annots = doc.get(page.dict, 'Annots');
+    if (Array.isArray(annots)) annots.forEach(a => isRef(a) && referencedAnnots.add(a.num));
+  }
+
+  for (const [num, occurrences] of doc.history) {
+    const latest = doc.latest.get(num)!;
+    const rewritten = occurrences.length > 1;
+    const latestDecoded = rewritten && latest.stream !== undefined ? await doc.decodeText(latest) : null;
+    const latestKind = classify(doc, latest, latestDecoded);
+
+    for (const occurrence of occurrences) {
+      if (occurrence.revision >= finalRevision) continue;
+      const decoded = occurrence === latest ? latestDecoded :
+        rewritten && occurrence.stream !== undefined ? await doc.decodeText(occurrence) : null;
+      const kind = classify(doc, occurrence, decoded);
+      if (!kind) continue;
+
+      const freedLater = (doc.freed.get(num) ?? []).some(r => r > occurrence.revision);
+      if (freedLater || (occurrence !== latest && latestKind !== kind)) {
+        removed.push({
+          object: num,
+          kind,
+          revision: occurrence.revision,
+          detail: freedLater ? 'object freed by a later update' : 'object rewritten without it by a later update',
+        });
+        break;
+      }
+    }
+
+    // Annotation still defined but detached from every page in the final revision
+    const isAnnotation = doc.name(latest.value, 'Type') === 'Annot' || latestKind === 'annotation';
+    if (latestKind && isAnnotation && latest.revision < finalRevision && pages.length > 0 &&
+        doc.name(latest.value, 'Subtype') !== 'Popup' && !referencedAnnots.has(num) && !removed.some(r => r.object === num)) {
+      removed.push({ object: num, kind: latestKind, revision: latest.revision, detail: 'no longer referenced by any page' });
+    }
+  }
+  return removed;
+};
+
+const listFonts = (doc: PdfDocument): PdfFontInfo[] => {
+  const fonts = new Map<string, PdfFontInfo>();
+  for (const object of doc.latest.values()) {
+    if (doc.name(object.value, 'Type') !== 'Font') continue;
+    const subtype = doc.name(object.value, 'Subtype');
+    // Descendant CID fonts are reported through their Type0 parent
+    if (subtype === 'CIDFontType0' || subtype === 'CIDFontType2') continue;
+    const name = doc.name(object.value, 'BaseFont') ?? `Font ${object.num}`;
+    const descendants = doc.get(object.value, 'DescendantFonts');
+    const descriptorOwner = Array.isArray(descendants) ? doc.resolve(descendants[0]) : object.value;
+    const descriptor = doc.get(descriptorOwner, 'FontDescriptor');
+    const embedded = isDict(descriptor) && ['FontFile', 'FontFile2', 'FontFile3'].some(k => descriptor.entries.has(k));
+    if (!fonts.has(name)) fonts.set(name, { name, subtype, embedded, subset: /^[A-Z]{6}\+/.test(name) });
+  }
+  return [...fonts.values()];
+};
+
+const listImages = (doc: PdfDocument): PdfImageInfo[] =>
+  [...doc.latest.values()]
+    .filter(o => o.stream !== undefined && doc.name(o.value, 'Subtype') === 'Image')
+    .sort((a, b) => a.num - b.num)
+    .map(o => {
+      const filter = doc.get(o.value, 'Filter');
+      return {
+        object: o.num,
+        width: doc.number(o.value, 'Width'),
+        height: doc.number(o.value, 'Height'),
+        filter: isName(filter) ? filter.value : Array.isArray(filter) ? filter.filter(f => isName(f)).map(f => (f as PdfName).value).join('+') : undefined,
+      };
+    });
+
+export const parsePdf = async (file: Blob): Promise<ParsedPdf> => {
+  const src = bytesToBinary(new Uint8Array(await file.arrayBuffer()));
+  if (!src.startsWith('%PDF-') && src.indexOf('%PDF-') < 0) throw new Error("Not a PDF file (missing %PDF header)");
+
+  const eofOffsets = [...src.matchAll(/%%EOF/g)].map(m => m.index!);
+  const doc = new PdfDocument(src, eofOffsets);
+  scanObjects(doc);
+  await expandObjectStreams(doc);
+  await collectFreedObjects(doc);
+
+  const gaps: string[] = [];
+  const root = doc.trailerValue('Root');
+  const info = doc.trailerValue('Info');
+  const encrypted = doc.trailerValue('Encrypt') !== undefined;
+  const finalRevision = Math.max(eofOffsets.length - 1, 0);
+
+  const pages = collectPages(doc, root);
+  const pageTexts: string[] = [];
+  if (encrypted) {
+    gaps.push("PDF is encrypted; page text and Info strings could not be decrypted locally.");
+  } else {
+    const fontCache = new Map<PdfValue, FontDecoder>();
+    for (const page of pages) {
+      try {
+        pageTexts.push(await pageText(doc, page, fontCache));
+      } catch {
+        pageTexts.push('');
+      }
+    }
+  }
+
+  let xmp: string | undefined;
+  const metadataRef = isDict(root) ? root.entries.get('Metadata') : undefined;
+  const metadataObject = isRef(metadataRef) ? doc.latest.get(metadataRef.num) : undefined;
+  if (metadataObject) {
+    const bytes = await doc.decode(metadataObject);
+    if (bytes) xmp = new TextDecoder().decode(bytes);
+  }
+
+  const metadata: PdfMetadata = {
+    version: doc.name(root, 'Version') ?? src.match(/%PDF-(\d\.\d)/)?.[1] ?? 'unknown',
+    page_count: pages.length,
+    revision_count: Math.max(eofOffsets.length, 1),
+    encrypted,
+    title: encrypted ? undefined : doc.text(info, 'Title'),
+    author: encrypted ? undefined : doc.text(info, 'Author'),
+    subject: encrypted ? undefined : doc.text(info, 'Subject'),
+    creator: encrypted ? undefined : doc.text(info, 'Creator'),
+    producer: encrypted ? undefined : doc.text(info, 'Producer'),
+    created: encrypted ? undefined : parsePdfDate(doc.text(info, 'CreationDate')),
+    modified: encrypted ? undefined : parsePdfDate(doc.text(info, 'ModDate')),
+    xmp_creator_tool: xmp && xmpValue(xmp, 'xmp:CreatorTool'),
+    xmp_producer: xmp && xmpValue(xmp, 'pdf:Producer'),
+    xmp_created: xmp && xmpValue(xmp, 'xmp:CreateDate'),
+    xmp_modified: xmp && xmpValue(xmp, 'xmp:ModifyDate'),
+    xmp_history: xmp ? parseXmpHistory(xmp) : [],
+    fonts: listFonts(doc),
+    images: listImages(doc),
+    redefined_objects: [...doc.history.values()].filter(list => new Set(list.map(o => o.revision)).size > 1).length,
+    removed_objects: await findRemovedObjects(doc, pages, finalRevision),
+    text_pages: pageTexts.filter(Boolean).length,
+  };
+
+  return { metadata, pages: pageTexts, gaps };
+};
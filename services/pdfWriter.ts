@@ -0,0 +1,175 @@
+// Minimal PDF 1.4 writer: A4 pages, standard Helvetica fonts, wrapped text and filled rectangles.
+// No dependencies and no DOM, so reports can be rendered in the browser and in Node alike.
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+
+export const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+// Helvetica advance widths (1/1000 em) for ASCII 32-126, from the standard AFM
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+// Unicode punctuation that WinAnsiEncoding has a slot for
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '•': 0x95, '–': 0x96, '—': 0x97,
+  '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '™': 0x99,
+};
+
+export type Rgb = [number, number, number]; // 0-1
+
+export interface TextStyle {
+  size?: number;
+  bold?: boolean;
+  color?: Rgb;
+  indent?: number;
+}
+
+const encodeChar = (ch: string) => {
+  const code = ch.charCodeAt(0);
+  if (code >= 32 && code <= 126) return code;
+  if (code >= 160 && code <= 255) return code;
+  return WIN_ANSI[ch] ?? 63; // '?'
+};
+
+const charWidth = (code: number, bold: boolean) =>
+  (code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556) * (bold ? 1.06 : 1);
+
+export const textWidth = (text: string, size: number, bold = false) =>
+  [...text].reduce((sum, ch) => sum + charWidth(encodeChar(ch), bold), 0) * size / 1000;
+
+const escapeString = (text: string) =>
+  [...text].map(ch => {
+    const code = encodeChar(ch);
+    if (code === 40 || code === 41 || code === 92) return `\\${String.fromCharCode(code)}`;
+    return String.fromCharCode(code);
+  }).join('');
+
+const num = (n: number) => (Math.round(n * 100) / 100).toString();
+const rgb = ([r, g, b]: Rgb) => `${num(r)} ${num(g)} ${num(b)}`;
+
+const wrap = (text: string, size: number, bold: boolean, width: number): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, size, bold) <= width) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      // Break words longer than a whole line (URLs, hashes)
+      let rest = word;
+      while (textWidth(rest, size, bold) > width) {
+        let cut = rest.length - 1;
+        while (cut > 1 && textWidth(rest.slice(0, cut), size, bold) > width) cut--;
+        lines.push(rest.slice(0, cut));
+        rest = rest.slice(cut);
+      }
+      line = rest;
+    }
+    lines.push(line);
+  }
+  return lines;
+};
+
+export class PdfWriter {
+  private pages: string[][] = [];
+  private y = 0;
+
+  constructor(private info: Record<string, string> = {}) {
+    this.addPage();
+  }
+
+  private get ops() {
+    return this.pages[this.pages.length - 1];
+  }
+
+  addPage() {
+    this.pages.push([]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  // Starts a new page unless `height` points still fit above the bottom margin
+  ensureSpace(height: number) {
+    if (this.y - height < MARGIN) this.addPage();
+  }
+
+  space(height: number) {
+    this.y -= height;
+  }
+
+  text(text: string, style: TextStyle = {}) {
+    const size = style.size ?? 10;
+    const bold = style.bold ?? false;
+    const indent = style.indent ?? 0;
+    const leading = size * 1.35;
+    for (const line of wrap(text, size, bold, CONTENT_WIDTH - indent)) {
+      this.ensureSpace(leading);
+      this.y -= leading;
+      this.ops.push(
+        `BT /${bold ? 'F2' : 'F1'} ${num(size)} Tf ${rgb(style.color ?? [0.1, 0.1, 0.1])} rg ${num(MARGIN + indent)} ${num(this.y + size * 0.25)} Td (${escapeString(line)}) Tj ET`
+      );
+    }
+  }
+
+  // Text at an absolute position on the current line, without wrapping or advancing
+  label(text: string, x: number, baselineOffset: number, style: TextStyle = {}) {
+    const size = style.size ?? 10;
+    this.ops.push(
+      `BT /${style.bold ? 'F2' : 'F1'} ${num(size)} Tf ${rgb(style.color ?? [0.1, 0.1, 0.1])} rg ${num(MARGIN + x)} ${num(this.y + baselineOffset)} Td (${escapeString(text)}) Tj ET`
+    );
+  }
+
+  // Filled rectangle; x is relative to the left margin, y to the current cursor (top edge)
+  rect(x: number, width: number, height: number, color: Rgb) {
+    this.ops.push(`${rgb(color)} rg ${num(MARGIN + x)} ${num(this.y - height)} ${num(width)} ${num(height)} re f`);
+  }
+
+  rule(color: Rgb = [0.8, 0.8, 0.8]) {
+    this.ensureSpace(8);
+    this.y -= 4;
+    this.rect(0, CONTENT_WIDTH, 0.6, color);
+    this.y -= 4;
+  }
+
+  toBytes(): Uint8Array {
+    const objects: string[] = [];
+    const add = (body: string) => objects.push(body);
+
+    add('<< /Type /Catalog /Pages 2 0 R >>');
+    const pageIds = this.pages.map((_, i) => 5 + i * 2);
+    add(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+    add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+    this.pages.forEach((ops, i) => {
+      const content = ops.join('\n');
+      add(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`);
+      add(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    });
+    const infoId = objects.length + 1;
+    add(`<< ${Object.entries(this.info).map(([key, value]) => `/${key} (${escapeString(value)})`).join(' ')} >>`);
+
+    let out = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+    const offsets: number[] = [];
+    objects.forEach((body, i) => {
+      offsets.push(out.length);
+      out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    });
+    const xref = out.length;
+    out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    out += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+    // Every character is already a single byte (WinAnsi), so offsets above are byte offsets
+    return Uint8Array.from(out, ch => ch.charCodeAt(0));
+  }
+}
@@ -0,0 +1,143 @@
+import { ImageFingerprint } from "../types";
+
+// Hashes are 64-bit, stored as 16-char hex strings
+const HASH_BITS = 64;
+
+type GrayGrid = Float64Array;
+
+const createCanvas = (width: number, height: number) => {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+// Draws the source onto a small canvas and returns luminance values (row-major)
+const toGrayscale = (source: CanvasImageSource, width: number, height: number): GrayGrid => {
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, 0, 0, width, height);
+
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const gray = new Float64Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    const o = i * 4;
+    gray[i] = 0.299 * data[o] + 0.587 * data[o + 1] + 0.114 * data[o + 2];
+  }
+  return gray;
+};
+
+const bitsToHex = (bits: boolean[]): string => {
+  let hex = '';
+  for (let i = 0; i < bits.length; i += 4) {
+    const nibble = (bits[i] ? 8 : 0) | (bits[i + 1] ? 4 : 0) | (bits[i + 2] ? 2 : 0) | (bits[i + 3] ? 1 : 0);
+    hex += nibble.toString(16);
+  }
+  return hex;
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Average hash: 8x8 thumbnail, bit set when pixel is brighter than the mean
+const averageHash = (source: CanvasImageSource) => {
+  const gray = toGrayscale(source, 8, 8);
+  const mean = gray.reduce((sum, v) => sum + v, 0) / gray.length;
+  return bitsToHex(Array.from(gray, v => v > mean));
+};
+
+// Difference hash: 9x8 thumbnail, bit set when a pixel is brighter than its right neighbour
+const differenceHash = (source: CanvasImageSource) => {
+  const gray = toGrayscale(source, 9, 8);
+  const bits: boolean[] = [];
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      bits.push(gray[y * 9 + x] > gray[y * 9 + x + 1]);
+    }
+  }
+  return bitsToHex(bits);
+};
+
+// 1-D DCT-II over `size` samples, used row- then column-wise for pHash
+const dct1d = (input: Float64Array, size: number): Float64Array => {
+  const out = new Float64Array(size);
+  for (let k = 0; k < size; k++) {
+    let sum = 0;
+    for (let n = 0; n < size; n++) {
+      sum += input[n] * Math.cos((Math.PI / size) * (n + 0.5) * k);
+    }
+    out[k] = sum;
+  }
+  return out;
+};
+
+export const dct2d = (grid: Float64Array, size: number): Float64Array => {
+  const rows = new Float64Array(size * size);
+  for (let y = 0; y < size; y++) {
+    rows.set(dct1d(grid.subarray(y * size, (y + 1) * size), size), y * size);
+  }
+  const out = new Float64Array(size * size);
+  const column = new Float64Array(size);
+  for (let x = 0; x < size; x++) {
+    for (let y = 0; y < size; y++) column[y] = rows[y * size + x];
+    const transformed = dct1d(column, size);
+    for (let y = 0; y < size; y++) out[y * size + x] = transformed[y];
+  }
+  return out;
+};
+
+// Perceptual hash: 32x32 DCT, keep the 8x8 low-frequency block, threshold on its median (DC excluded)
+const perceptualHash = (source: CanvasImageSource) => {
+  const size = 32;
+  const coeffs = dct2d(toGrayscale(source, size, size), size);
+  const low: number[] = [];
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) low.push(coeffs[y * size + x]);
+  }
+  const threshold = median(low.slice(1));
+  return bitsToHex(low.map(v => v > threshold));
+};
+
+export const fingerprintSource = (source: CanvasImageSource, width: number, height: number): ImageFingerprint => ({
+  ahash: averageHash(source),
+  dhash: differenceHash(source),
+  phash: perceptualHash(source),
+  width,
+  height
+});
+
+export const fingerprintImage = async (file: Blob): Promise<ImageFingerprint> => {
+  const bitmap = await createImageBitmap(file);
+  try {
+    return fingerprintSource(bitmap, bitmap.width, bitmap.height);
+  } finally {
+    bitmap.close();
+  }
+};
+
+export const hammingDistance = (a: string, b: string): number => {
+  if (a.length !== b.length) return HASH_BITS;
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let x = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (x) {
+      distance += x & 1;
+      x >>= 1;
+    }
+  }
+  return distance;
+};
+
+// 0-100 similarity derived from the Hamming distance of two 64-bit hashes
+export const hashSimilarity = (a: string, b: string) =>
+  Math.round((1 - hammingDistance(a, b) / HASH_BITS) * 100);
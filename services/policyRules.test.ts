@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { ForensicReport, Verdict } from '../types';
+import { applyPolicy, EXAMPLE_POLICY, parsePolicy, parsePolicyText } from './policyRules';
+
+const report = (patch: Partial<ForensicReport> = {}): ForensicReport => ({
+  case_id: 'C-1',
+  verdict: Verdict.INCONCLUSIVE,
+  confidence_score: 60,
+  summary: '',
+  key_evidence: [],
+  risk_level: 'MEDIUM',
+  suspicious_urls: [],
+  probable_original_sources: [],
+  data_gaps: [],
+  recommended_actions: ['Monitor'],
+  ...patch,
+});
+
+const lists = { brand_domains: [], blocklist: ['1337x.to'], allowlist: ['partner.com'] };
+
+describe('parsePolicyText', () => {
+  it('parses the example policy', () => {
+    const rules = parsePolicyText(EXAMPLE_POLICY);
+    expect(rules.map(r => r.id)).toEqual(['pirate-domain', 'allowlisted-source', 'escalate-high']);
+    expect(rules[0].then).toEqual({ verdict: Verdict.PIRATED, risk_level: 'HIGH' });
+  });
+
+  it('accepts JSON and a bare list of rules', () => {
+    expect(parsePolicyText('[{"id": "a", "when": {"verdict": "original"}, "then": {"max_risk": "low"}}]'))
+      .toEqual([{ id: 'a', when: { verdict: [Verdict.ORIGINAL] }, then: { max_risk: 'LOW' } }]);
+    expect(parsePolicyText('')).toEqual([]);
+  });
+
+  it('reports the path of the first problem', () => {
+    expect(() => parsePolicy({ rules: [{ id: 'a', when: { colour: 'red' }, then: { verdict: 'pirated' } }] }))
+      .toThrow('rules[0].when.colour: unknown condition');
+    expect(() => parsePolicy([{ id: 'a', when: {}, then: { risk_level: 'extreme' } }])).toThrow(/rules\[0\]\.then\.risk_level: unknown risk level/);
+    expect(() => parsePolicy([{ id: 'a', when: {}, then: {} }])).toThrow('rules[0].then: a rule must change something');
+    expect(() => parsePolicy([{ id: 'a', when: {}, then: { verdict: 'pirated' } }, { id: 'a', when: {}, then: { verdict: 'pirated' } }]))
+      .toThrow(/duplicate rule id "a"/);
+    expect(() => parsePolicy({ rules: 'nope' })).toThrow('rules: expected a list');
+    expect(() => parsePolicy('rules')).toThrow(/expected \{rules: \[\.\.\.\]\} or a list of rules/);
+    expect(() => parsePolicy([{ id: 'a', when: { evidence: [] }, then: { verdict: 'pirated' } }])).toThrow('rules[0].when.evidence: expected {type, origin, min_weight}');
+  });
+});
+
+describe('applyPolicy', () => {
+  it('applies rules in order and keeps the model output', () => {
+    const rules = parsePolicyText(EXAMPLE_POLICY);
+    const result = applyPolicy(report({ suspicious_urls: ['https://www.1337x.to/torrent/1'] }), rules, lists);
+    expect(result.verdict).toBe(Verdict.PIRATED);
+    expect(result.risk_level).toBe('HIGH');
+    expect(result.recommended_actions).toEqual(['Monitor', 'Escalate to legal']);
+    expect(result.policy!.fired.map(f => f.rule_id)).toEqual(['pirate-domain', 'escalate-high']);
+    expect(result.policy!.model_output).toEqual({ verdict: Verdict.INCONCLUSIVE, risk_level: 'MEDIUM', recommended_actions: ['Monitor'] });
+  });
+
+  it('returns the report untouched when no rule fires', () => {
+    const input = report();
+    expect(applyPolicy(input, parsePolicyText(EXAMPLE_POLICY), lists)).toBe(input);
+  });
+
+  it('combines all, any and not', () => {
+    const rules = parsePolicy([{
+      id: 'combo',
+      when: { all: [{ confidence_min: 50 }, { not: { verdict: 'original' } }], any: [{ risk_level: 'medium' }, { watermark: true }] },
+      then: { min_risk: 'high' },
+    }]);
+    expect(applyPolicy(report(), rules).risk_level).toBe('HIGH');
+    expect(applyPolicy(report({ confidence_score: 40 }), rules).risk_level).toBe('MEDIUM');
+    expect(applyPolicy(report({ verdict: Verdict.ORIGINAL }), rules).risk_level).toBe('MEDIUM');
+  });
+
+  it('skips disabled rules', () => {
+    const rules = parsePolicy([{ id: 'off', enabled: false, when: {}, then: { verdict: 'pirated' } }]);
+    expect(applyPolicy(report(), rules).verdict).toBe(Verdict.INCONCLUSIVE);
+  });
+});
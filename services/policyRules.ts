@@ -0,0 +1,251 @@
+import { ForensicReport, PolicyChange, PolicyCondition, PolicyEffect, PolicyFiring, PolicyRule, UrlLists, Verdict } from "../types";
+import { getOne, put, STORES } from "./db";
+import { evidenceItems, isEvidenceType } from "./evidence";
+import { EMPTY_URL_LISTS, findListEntry } from "./urlHeuristics";
+import { isRecord } from "./typeGuards";
+import { parseYaml } from "./yaml";
+
+const POLICY_ID = 'policy-rules';
+
+type Risk = ForensicReport['risk_level'];
+const RISK_ORDER: Risk[] = ['LOW', 'MEDIUM', 'HIGH'];
+
+const VERDICT_NAMES: Record<string, Verdict> = {
+  pirated: Verdict.PIRATED,
+  original: Verdict.ORIGINAL,
+  inconclusive: Verdict.INCONCLUSIVE,
+};
+
+const LIST_REFERENCES: Record<string, keyof UrlLists> = {
+  '@blocklist': 'blocklist',
+  '@allowlist': 'allowlist',
+  '@brand_domains': 'brand_domains',
+};
+
+export const EXAMPLE_POLICY = `# Rules run top to bottom on the finished report; each sees the changes made above it.
+# Domain lists can name the saved URL lists: @blocklist, @allowlist, @brand_domains.
+rules:
+  - id: pirate-domain
+    description: Any suspicious URL on a known pirate domain is piracy
+    when:
+      suspicious_url_domain: ["@blocklist", thepiratebay.org, 1337x.to]
+    then:
+      verdict: pirated
+      risk_level: high
+
+  - id: allowlisted-source
+    description: URLs on our allowlist can never be HIGH risk
+    when:
+      source_domain: ["@allowlist"]
+    then:
+      max_risk: medium
+
+  - id: escalate-high
+    description: HIGH risk goes to legal
+    when:
+      risk_level: [high]
+    then:
+      add_actions: [Escalate to legal]
+`;
+
+// --- Parsing ----------------------------------------------------------------
+
+const fail = (path: string, message: string): never => {
+  throw new Error(`${path}: ${message}`);
+};
+
+const toVerdict = (value: unknown, path: string): Verdict => {
+  if (typeof value === 'string') {
+    const verdict = VERDICT_NAMES[value.trim().toLowerCase()] ?? Object.values(Verdict).find(v => v === value);
+    if (verdict) return verdict;
+  }
+  return fail(path, `unknown verdict ${JSON.stringify(value)} (expected ${Object.keys(VERDICT_NAMES).join(', ')})`);
+};
+
+const toRisk = (value: unknown, path: string): Risk => {
+  const risk = typeof value === 'string' ? value.trim().toUpperCase() : '';
+  return RISK_ORDER.includes(risk as Risk) ? risk as Risk : fail(path, `unknown risk level ${JSON.stringify(value)} (expected low, medium, high)`);
+};
+
+// A single value is accepted where a list is expected
+const toList = <T>(value: unknown, path: string, item: (v: unknown, path: string) => T): T[] =>
+  (Array.isArray(value) ? value : [value]).map((v, i) => item(v, `${path}[${i}]`));
+
+const toText = (value: unknown, path: string): string =>
+  typeof value === 'string' && value.trim() ? value.trim()
+  : typeof value === 'number' ? String(value)
+  : fail(path, 'expected text');
+
+const toPercent = (value: unknown, path: string): number =>
+  typeof value === 'number' && value >= 0 && value <= 100 ? value : fail(path, 'expected a number from 0 to 100');
+
+const toBoolean = (value: unknown, path: string): boolean =>
+  typeof value === 'boolean' ? value : fail(path, 'expected true or false');
+
+const CONDITION_KEYS = new Set(['verdict', 'risk_level', 'confidence_min', 'confidence_max', 'input_kind', 'source_domain',
+  'suspicious_url_domain', 'evidence', 'vault_match', 'watermark', 'all', 'any', 'not']);
+
+const toCondition = (value: unknown, path: string): PolicyCondition => {
+  if (!isRecord(value)) return fail(path, 'expected a condition object');
+  const unknown = Object.keys(value).find(key => !CONDITION_KEYS.has(key));
+  if (unknown) fail(`${path}.${unknown}`, 'unknown condition');
+
+  const c: PolicyCondition = {};
+  if (value.verdict !== undefined) c.verdict = toList(value.verdict, `${path}.verdict`, toVerdict);
+  if (value.risk_level !== undefined) c.risk_level = toList(value.risk_level, `${path}.risk_level`, toRisk);
+  if (value.confidence_min !== undefined) c.confidence_min = toPercent(value.confidence_min, `${path}.confidence_min`);
+  if (value.confidence_max !== undefined) c.confidence_max = toPercent(value.confidence_max, `${path}.confidence_max`);
+  if (value.input_kind !== undefined) {
+    c.input_kind = value.input_kind === 'file' || value.input_kind === 'url' ? value.input_kind : fail(`${path}.input_kind`, 'expected file or url');
+  }
+  if (value.source_domain !== undefined) c.source_domain = toList(value.source_domain, `${path}.source_domain`, toText);
+  if (value.suspicious_url_domain !== undefined) c.suspicious_url_domain = toList(value.suspicious_url_domain, `${path}.suspicious_url_domain`, toText);
+  if (value.evidence !== undefined) {
+    const e = isRecord(value.evidence) ? value.evidence : fail(`${path}.evidence`, 'expected {type, origin, min_weight}');
+    c.evidence = {};
+    if (e.type !== undefined) {
+      c.evidence.type = toList(e.type, `${path}.evidence.type`, (v, p) => isEvidenceType(v) ? v : fail(p, `unknown evidence type ${JSON.stringify(v)}`));
+    }
+    if (e.origin !== undefined) {
+      c.evidence.origin = e.origin === 'measured' || e.origin === 'inferred' ? e.origin : fail(`${path}.evidence.origin`, 'expected measured or inferred');
+    }
+    if (e.min_weight !== undefined) {
+      c.evidence.min_weight = typeof e.min_weight === 'number' ? e.min_weight : fail(`${path}.evidence.min_weight`, 'expected a number');
+    }
+  }
+  if (value.vault_match !== undefined) c.vault_match = toBoolean(value.vault_match, `${path}.vault_match`);
+  if (value.watermark !== undefined) c.watermark = toBoolean(value.watermark, `${path}.watermark`);
+  if (value.all !== undefined) c.all = toList(value.all, `${path}.all`, toCondition);
+  if (value.any !== undefined) c.any = toList(value.any, `${path}.any`, toCondition);
+  if (value.not !== undefined) c.not = toCondition(value.not, `${path}.not`);
+  return c;
+};
+
+const toEffect = (value: unknown, path: string): PolicyEffect => {
+  if (!isRecord(value)) return fail(path, 'expected an effect object');
+  const unknown = Object.keys(value).find(key => !['verdict', 'risk_level', 'min_risk', 'max_risk', 'add_actions'].includes(key));
+  if (unknown) fail(`${path}.${unknown}`, 'unknown effect');
+  const effect: PolicyEffect = {};
+  if (value.verdict !== undefined) effect.verdict = toVerdict(value.verdict, `${path}.verdict`);
+  if (value.risk_level !== undefined) effect.risk_level = toRisk(value.risk_level, `${path}.risk_level`);
+  if (value.min_risk !== undefined) effect.min_risk = toRisk(value.min_risk, `${path}.min_risk`);
+  if (value.max_risk !== undefined) effect.max_risk = toRisk(value.max_risk, `${path}.max_risk`);
+  if (value.add_actions !== undefined) effect.add_actions = toList(value.add_actions, `${path}.add_actions`, toText);
+  if (Object.keys(effect).length === 0) fail(path, 'a rule must change something');
+  return effect;
+};
+
+// Accepts {rules: [...]} or a bare list of rules; throws with the path of the first problem
+export const parsePolicy = (value: unknown): PolicyRule[] => {
+  if (value === null || value === undefined) return [];
+  const rules = Array.isArray(value) ? value : isRecord(value) ? value.rules ?? [] : fail('rules', 'expected {rules: [...]} or a list of rules');
+  if (!Array.isArray(rules)) return fail('rules', 'expected a list');
+  const ids = new Set<string>();
+  return rules.map((rule: unknown, i: number): PolicyRule => {
+    const path = `rules[${i}]`;
+    if (!isRecord(rule)) return fail(path, 'expected a rule object');
+    const id = toText(rule.id, `${path}.id`);
+    if (ids.has(id)) fail(`${path}.id`, `duplicate rule id "${id}"`);
+    ids.add(id);
+    if (rule.when === undefined) fail(`${path}.when`, 'missing');
+    if (rule.then === undefined) fail(`${path}.then`, 'missing');
+    return {
+      id,
+      ...(rule.description !== undefined ? { description: toText(rule.description, `${path}.description`) } : {}),
+      ...(rule.enabled !== undefined ? { enabled: toBoolean(rule.enabled, `${path}.enabled`) } : {}),
+      when: toCondition(rule.when, `${path}.when`),
+      then: toEffect(rule.then, `${path}.then`),
+    };
+  });
+};
+
+// JSON when it looks like JSON, YAML otherwise
+export const parsePolicyText = (text: string): PolicyRule[] =>
+  parsePolicy(/^\s*[[{]/.test(text) ? JSON.parse(text) : parseYaml(text));
+
+// --- Evaluation -------------------------------------------------------------
+
+const expandDomains = (entries: string[], lists: UrlLists) =>
+  entries.flatMap(entry => LIST_REFERENCES[entry] ? lists[LIST_REFERENCES[entry]] : [entry]);
+
+const matches = (c: PolicyCondition, report: ForensicReport, lists: UrlLists): boolean => {
+  if (c.verdict && !c.verdict.includes(report.verdict)) return false;
+  if (c.risk_level && !c.risk_level.includes(report.risk_level)) return false;
+  if (c.confidence_min !== undefined && report.confidence_score < c.confidence_min) return false;
+  if (c.confidence_max !== undefined && report.confidence_score > c.confidence_max) return false;
+  if (c.input_kind && report.provenance?.input_kind !== c.input_kind) return false;
+  if (c.source_domain) {
+    const source = report.provenance?.input_kind === 'url' ? report.provenance.source : undefined;
+    if (!source || !findListEntry(source, expandDomains(c.source_domain, lists))) return false;
+  }
+  if (c.suspicious_url_domain) {
+    const domains = expandDomains(c.suspicious_url_domain, lists);
+    if (!report.suspicious_urls.some(url => findListEntry(url, domains))) return false;
+  }
+  if (c.evidence) {
+    const { type, origin, min_weight } = c.evidence;
+    const found = evidenceItems(report).some(item =>
+      (!type || type.includes(item.type)) && (!origin || item.origin === origin) && (min_weight === undefined || item.weight >= min_weight));
+    if (!found) return false;
+  }
+  if (c.vault_match !== undefined && (report.vault_matches?.length ?? 0) > 0 !== c.vault_match) return false;
+  if (c.watermark !== undefined && !!report.watermark !== c.watermark) return false;
+  if (c.all && !c.all.every(sub => matches(sub, report, lists))) return false;
+  if (c.any && !c.any.some(sub => matches(sub, report, lists))) return false;
+  if (c.not && matches(c.not, report, lists)) return false;
+  return true;
+};
+
+const applyEffect = (effect: PolicyEffect, report: ForensicReport): PolicyChange[] => {
+  const changes: PolicyChange[] = [];
+  const setRisk = (risk: Risk) => {
+    if (risk === report.risk_level) return;
+    changes.push({ field: 'risk_level', from: report.risk_level, to: risk });
+    report.risk_level = risk;
+  };
+  if (effect.verdict && effect.verdict !== report.verdict) {
+    changes.push({ field: 'verdict', from: report.verdict, to: effect.verdict });
+    report.verdict = effect.verdict;
+  }
+  if (effect.risk_level) setRisk(effect.risk_level);
+  if (effect.min_risk && RISK_ORDER.indexOf(report.risk_level) < RISK_ORDER.indexOf(effect.min_risk)) setRisk(effect.min_risk);
+  if (effect.max_risk && RISK_ORDER.indexOf(report.risk_level) > RISK_ORDER.indexOf(effect.max_risk)) setRisk(effect.max_risk);
+  for (const action of effect.add_actions ?? []) {
+    if (report.recommended_actions.includes(action)) continue;
+    changes.push({ field: 'recommended_actions', from: '', to: action });
+    report.recommended_actions = [...report.recommended_actions, action];
+  }
+  return changes;
+};
+
+// Rules run in order on a copy of the report; the model's own verdict, risk and actions are kept alongside
+export const applyPolicy = (report: ForensicReport, rules: PolicyRule[], lists: UrlLists = EMPTY_URL_LISTS): ForensicReport => {
+  const result: ForensicReport = { ...report, recommended_actions: [...report.recommended_actions] };
+  const fired: PolicyFiring[] = [];
+  for (const rule of rules) {
+    if (rule.enabled === false || !matches(rule.when, result, lists)) continue;
+    fired.push({ rule_id: rule.id, ...(rule.description ? { description: rule.description } : {}), changes: applyEffect(rule.then, result) });
+  }
+  if (fired.length === 0) return report;
+  result.policy = {
+    fired,
+    model_output: { verdict: report.verdict, risk_level: report.risk_level, recommended_actions: report.recommended_actions },
+  };
+  return result;
+};
+
+export const formatPolicyChange = (change: PolicyChange) =>
+  change.field === 'recommended_actions' ? `added action "${change.to}"` : `${change.field} ${change.from} → ${change.to}`;
+
+// --- Saved rules ------------------------------------------------------------
+
+// The text is kept as typed so YAML comments survive; it is validated before saving
+export const loadPolicyText = async (): Promise<string> =>
+  (await getOne<{ id: string; value: string }>(STORES.settings, POLICY_ID))?.value ?? '';
+
+export const savePolicyText = (text: string) => {
+  parsePolicyText(text);
+  return put(STORES.settings, { id: POLICY_ID, value: text });
+};
+
+export const loadPolicy = async (): Promise<PolicyRule[]> => parsePolicyText(await loadPolicyText());
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { checkPublicUrl, isPrivateHost } from './publicUrl';
+
+const hostOf = (url: string) => new URL(url).hostname;
+
+describe('isPrivateHost', () => {
+  it('flags loopback, private, link-local and shared IPv4 addresses', () => {
+    for (const host of ['127.0.0.1', '10.1.2.3', '172.16.0.1', '172.31.255.255', '192.168.1.1', '169.254.169.254', '0.0.0.0', '100.64.0.1', '100.127.255.255']) {
+      expect(isPrivateHost(host), host).toBe(true);
+    }
+  });
+
+  it('leaves public IPv4 addresses and names alone', () => {
+    for (const host of ['8.8.8.8', '172.32.0.1', '100.63.255.255', '100.128.0.1', '192.169.0.1', 'example.com', '10.example.com']) {
+      expect(isPrivateHost(host), host).toBe(false);
+    }
+  });
+
+  it('flags local names', () => {
+    for (const host of ['localhost', 'api.localhost', 'printer.local', 'metadata.google.internal']) {
+      expect(isPrivateHost(host), host).toBe(true);
+    }
+  });
+
+  it('sees through the forms URL parsing gives IPv4 addresses', () => {
+    for (const url of ['http://[::ffff:127.0.0.1]/', 'http://[::ffff:7f00:1]/', 'http://[::ffff:a9fe:a9fe]/', 'http://[::127.0.0.1]/',
+      'http://[64:ff9b::10.0.0.1]/', 'http://0x7f.1/', 'http://2130706433/', 'http://[::ffff:100.64.0.1]/']) {
+      expect(isPrivateHost(hostOf(url)), url).toBe(true);
+    }
+    expect(isPrivateHost(hostOf('http://[::ffff:8.8.8.8]/'))).toBe(false);
+  });
+
+  it('flags loopback, unique-local and link-local IPv6 addresses', () => {
+    for (const url of ['http://[::1]/', 'http://[::]/', 'http://[fd12:3456::1]/', 'http://[fc00::1]/', 'http://[fe80::1]/', 'http://[0:0:0:0:0:0:0:1]/']) {
+      expect(isPrivateHost(hostOf(url)), url).toBe(true);
+    }
+    expect(isPrivateHost(hostOf('http://[2606:4700::1111]/'))).toBe(false);
+  });
+});
+
+describe('checkPublicUrl', () => {
+  it('returns the normalized URL of a public http(s) address', () => {
+    expect(checkPublicUrl(' https://Example.com/a ')).toBe('https://example.com/a');
+  });
+
+  it('refuses other schemes, invalid URLs and private hosts', () => {
+    expect(() => checkPublicUrl('file:///etc/passwd')).toThrow('Only http and https');
+    expect(() => checkPublicUrl('not a url')).toThrow('Not a valid URL');
+    expect(() => checkPublicUrl('http://[::ffff:127.0.0.1]:8787/api/health')).toThrow('Private and loopback');
+  });
+});
@@ -0,0 +1,64 @@
+// Which URLs the scan server may fetch. Literal loopback, private, link-local and shared (CGNAT) addresses only;
+// a public name that resolves inward is not caught here
+
+const ipv4Octets = (host: string): number[] | null => {
+  if (!/^\d{1,3}(\.\d{1,3}){3}$/.test(host)) return null;
+  const octets = host.split('.').map(Number);
+  return octets.every(o => o <= 255) ? octets : null;
+};
+
+// Eight 16-bit groups, with `::` expanded and a trailing dotted IPv4 folded into the last two
+const ipv6Groups = (host: string): number[] | null => {
+  const dotted = host.match(/^(.*:)([^:]+\.[^:]+)$/);
+  if (dotted) {
+    const o = ipv4Octets(dotted[2]);
+    if (!o) return null;
+    host = `${dotted[1]}${((o[0] << 8) | o[1]).toString(16)}:${((o[2] << 8) | o[3]).toString(16)}`;
+  }
+  const halves = host.split('::');
+  if (halves.length > 2) return null;
+  const [head, tail] = halves.map(half => half ? half.split(':') : []);
+  const groups = tail ? [...head, ...Array(8 - head.length - tail.length).fill('0'), ...tail] : head;
+  if (groups.length !== 8 || !groups.every(g => /^[0-9a-f]{1,4}$/.test(g))) return null;
+  return groups.map(g => parseInt(g, 16));
+};
+
+const isPrivateIpv4 = ([a, b]: number[]) =>
+  a === 0 || a === 10 || a === 127 || a >= 224
+  || (a === 169 && b === 254) || (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168)
+  || (a === 100 && b >= 64 && b <= 127);
+
+const isPrivateIpv6 = (g: number[]) => {
+  const zeros = (count: number) => g.slice(0, count).every(x => x === 0);
+  const embedded = [g[6] >> 8, g[6] & 0xff];
+  if (zeros(7) && g[7] <= 1) return true; // :: and ::1
+  // IPv4-mapped (::ffff:a.b.c.d), IPv4-compatible (::a.b.c.d) and NAT64 (64:ff9b::a.b.c.d) reach the IPv4 address
+  if ((zeros(5) && (g[5] === 0xffff || g[5] === 0)) || (g[0] === 0x64 && g[1] === 0xff9b && g.slice(2, 6).every(x => x === 0))) {
+    return isPrivateIpv4(embedded);
+  }
+  return (g[0] & 0xfe00) === 0xfc00 || (g[0] & 0xff80) === 0xfe80; // unique local, link- and site-local
+};
+
+export const isPrivateHost = (hostname: string) => {
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal')) return true;
+  const octets = ipv4Octets(host);
+  if (octets) return isPrivateIpv4(octets);
+  if (!host.includes(':')) return false;
+  // An IPv6 literal that does not parse is refused rather than guessed at
+  const groups = ipv6Groups(host);
+  return !groups || isPrivateIpv6(groups);
+};
+
+// The normalized URL when it is http(s) on a public host; throws a message fit to show the requester
+export const checkPublicUrl = (value: string): string => {
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    throw new Error(`Not a valid URL: ${value}`);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new Error('Only http and https URLs can be scanned');
+  if (isPrivateHost(url.hostname)) throw new Error('Private and loopback addresses cannot be scanned');
+  return url.toString();
+};
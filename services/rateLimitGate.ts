@@ -0,0 +1,46 @@
+import { RateLimitGate } from "../types";
+
+// Increased initial delay to handle aggressive rate limits
+const BASE_DELAY = 4000;
+const MAX_DELAY = 64000;
+
+// Resolves after `ms`, or rejects with the abort reason as soon as the scan is cancelled
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+export const createRateLimitGate = (onChange?: (resumeAt: number) => void): RateLimitGate => {
+  let resumeAt = 0;
+  let delay = BASE_DELAY;
+
+  return {
+    resumeAt: () => resumeAt > Date.now() ? resumeAt : 0,
+    // Concurrent 429s while already paused count once, so parallel jobs don't multiply the backoff
+    trip: () => {
+      if (resumeAt > Date.now()) return;
+      resumeAt = Date.now() + delay;
+      delay = Math.min(delay * 2, MAX_DELAY); // Exponential backoff
+      onChange?.(resumeAt);
+    },
+    succeed: () => {
+      delay = BASE_DELAY;
+    },
+    wait: async (signal, onTick) => {
+      // Re-read on every tick: another job may extend the pause while we wait
+      while (resumeAt > Date.now()) {
+        const left = resumeAt - Date.now();
+        onTick?.(Math.ceil(left / 1000));
+        await sleep(Math.min(1000, left), signal);
+      }
+      signal?.throwIfAborted();
+    },
+  };
+};
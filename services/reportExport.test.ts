@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { CaseReview, ForensicReport, Verdict } from '../types';
+import { measured } from './evidence';
+import { reportsToCsv, reportToJson, reportToMarkdown } from './reportExport';
+import { DEFAULT_TEMPLATES, EMPTY_PROFILE, renderNotice } from './takedownNotice';
+
+const report: ForensicReport = {
+  case_id: 'CASE-1',
+  verdict: Verdict.PIRATED,
+  confidence_score: 80,
+  summary: 'Frames copied from a registered original.',
+  risk_level: 'HIGH',
+  key_evidence: [
+    measured('hash_match', 'Vault', 'Vault match: "Trailer" 97%', 97),
+    measured('metadata', 'EXIF', 'EXIF stripped', 20),
+  ],
+  suspicious_urls: ['https://pirate.example/watch'],
+  probable_original_sources: [],
+  data_gaps: [],
+  recommended_actions: [],
+};
+
+const review: CaseReview = {
+  status: 'dismissed',
+  override: { verdict: Verdict.ORIGINAL, risk_level: 'LOW', justification: 'Licensed to the uploader', analyst: 'Sam', at: '2026-10-01T10:00:00Z' },
+  notes: [],
+  evidence: { 1: { decision: 'rejected', analyst: 'Sam', at: '2026-10-01T09:00:00Z' } },
+  audit: [{ at: '2026-10-01T10:00:00Z', analyst: 'Sam', action: 'override', detail: 'Outcome changed', justification: 'Licensed to the uploader' }],
+};
+
+// Quoted cells may hold commas and doubled quotes
+const csvCells = (line: string) =>
+  [...line.matchAll(/(?:^|,)(?:"((?:[^"]|"")*)"|([^,]*))/g)].map(m => m[1]?.replace(/""/g, '"') ?? m[2]);
+
+const csvRow = (csv: string) => {
+  const [header, row] = csv.trim().split('\r\n').map(csvCells);
+  return Object.fromEntries(header.map((name, i) => [name, row[i]]));
+};
+
+describe('exports of a reviewed case', () => {
+  it('put the reviewed outcome, status and override in the CSV and drop rejected evidence', () => {
+    const row = csvRow(reportsToCsv([{ report, review }]));
+    expect(row.verdict).toBe(Verdict.ORIGINAL);
+    expect(row.risk_level).toBe('LOW');
+    expect(row.review_status).toBe('Dismissed');
+    expect(row.analyst_override).toContain('Licensed to the uploader');
+    expect(row.key_evidence).toContain('Vault match');
+    expect(row.key_evidence).not.toContain('EXIF stripped');
+    expect(row.audit_log).toContain('Outcome changed');
+  });
+
+  it('leave an unreviewed report as the model wrote it', () => {
+    const row = csvRow(reportsToCsv([{ report }]));
+    expect(row.verdict).toBe(Verdict.PIRATED);
+    expect(row.key_evidence).toContain('EXIF stripped');
+    expect(row.review_status).toBe('');
+  });
+
+  it('show the review in Markdown', () => {
+    const markdown = reportToMarkdown(report, review);
+    expect(markdown).toContain(`| Verdict | **${Verdict.ORIGINAL}** |`);
+    expect(markdown).toContain('| Case status | Dismissed |');
+    expect(markdown).toContain('## Analyst Review');
+    expect(markdown).not.toContain('EXIF stripped');
+  });
+
+  it('keep the signed report intact in JSON and add the review beside it', () => {
+    const json = JSON.parse(reportToJson(report, review));
+    expect(json.verdict).toBe(Verdict.PIRATED);
+    expect(json.key_evidence).toHaveLength(2);
+    expect(json.analyst_review).toEqual(review);
+  });
+});
+
+describe('renderNotice', () => {
+  it('leaves out evidence the analyst rejected', () => {
+    const notice = renderNotice(DEFAULT_TEMPLATES.dmca, { report, review, profile: EMPTY_PROFILE, urls: report.suspicious_urls, works: ['Trailer'] });
+    expect(notice.body).toContain('Vault match');
+    expect(notice.body).not.toContain('EXIF stripped');
+  });
+
+  it('fills the reviewed verdict, risk, status and justification', () => {
+    const template = { kind: 'abuse' as const, subject: '{{case_id}}', body: '{{verdict}} / {{risk_level}} / {{case_status}} / {{override_justification}}' };
+    const notice = renderNotice(template, { report, review, profile: EMPTY_PROFILE, urls: [], works: [] });
+    expect(notice.body).toBe(`${Verdict.ORIGINAL} / LOW / Dismissed / Licensed to the uploader`);
+  });
+});
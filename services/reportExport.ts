@@ -0,0 +1,340 @@
+import { AuditEntry, CaseReview, CodeAnalysis, ForensicReport, SegmentResult, Verdict } from "../types";
+import { CONTENT_WIDTH, PdfWriter, Rgb, textWidth } from "./pdfWriter";
+import { formatVaultMatch } from "./vaultService";
+import { APP_NAME, APP_VERSION } from "./appInfo";
+import { formatEvidence } from "./evidence";
+import { acceptedEvidence, reviewedOutcome, statusLabel } from "./caseReview";
+import { formatPolicyChange } from "./policyRules";
+import { formatCodeMatch } from "./codeForensics";
+import { formatLicenseHeader } from "./licenseHeaders";
+
+export type ExportFormat = 'pdf' | 'json' | 'md' | 'csv';
+type DownloadFormat = ExportFormat | 'txt';
+
+// A report and, for a filed case, its analyst review: exports show the reviewed verdict and leave out rejected evidence
+export interface ReviewedReport {
+  report: ForensicReport;
+  review?: CaseReview;
+}
+
+const MIME_TYPES: Record<DownloadFormat, string> = {
+  pdf: 'application/pdf',
+  json: 'application/json',
+  md: 'text/markdown',
+  csv: 'text/csv',
+  txt: 'text/plain',
+};
+
+// URL scans have no content to hash; say so explicitly rather than leaving the field blank
+export const contentHash = (report: ForensicReport) =>
+  report.provenance?.sha256 ?? (report.provenance?.input_kind === 'url' ? 'n/a (URL scan)' : 'unknown');
+
+export const exportFileName = (report: ForensicReport, format: ExportFormat) =>
+  `${report.case_id.replace(/[^\w.-]+/g, '_') || 'report'}.${format}`;
+
+const formatWatermark = ({ watermark: w }: ForensicReport) =>
+  !w ? undefined
+  : w.asset ? `${w.asset.owner || 'unnamed owner'} — "${w.asset.title}"${w.owner_mismatch ? ' (owner id mismatch)' : ''}, ${w.agreement}% agreement`
+  : `owner ${w.owner_id}, asset ${w.asset_id} (not in vault), ${w.agreement}% agreement`;
+
+const formatEnsemble = ({ ensemble: e }: ForensicReport) =>
+  e && `${e.runs.length} runs${e.failed ? ` (+${e.failed} failed)` : ''}, ${e.agreement}% agree on verdict, ` +
+  `confidence spread ${e.confidence_spread} pts (σ ${e.confidence_stdev})`;
+
+const formatCalibration = ({ calibration: c, confidence_score }: ForensicReport) =>
+  c && `raw ${c.raw_confidence}% → ${confidence_score}% (curve fitted on ${c.samples} labeled scans)`;
+
+const formatSegment = (s: SegmentResult) =>
+  `${s.label}: ${s.verdict}, ${s.confidence_score}%, ${s.risk_level} risk${s.agreement !== undefined ? `, ${s.agreement}% agree` : ''}`;
+
+const formatPolicy = ({ policy }: ForensicReport) =>
+  (policy?.fired ?? []).map(f =>
+    `${f.rule_id}${f.description ? ` (${f.description})` : ''}: ${f.changes.length ? f.changes.map(formatPolicyChange).join(', ') : 'no change'}`);
+
+const outcomeOf = (report: ForensicReport, review?: CaseReview) =>
+  reviewedOutcome({ verdict: report.verdict, risk_level: report.risk_level, review });
+
+const formatOverride = (report: ForensicReport, review?: CaseReview) => {
+  const o = review?.override;
+  return o && `${o.verdict}, ${o.risk_level} risk by ${o.analyst} at ${o.at} (model output ${report.verdict}, ${report.risk_level} risk): ${o.justification}`;
+};
+
+const formatAudit = (entry: AuditEntry) =>
+  `${entry.at} ${entry.analyst}: ${entry.detail}${entry.justification ? ` (“${entry.justification}”)` : ''}`;
+
+const reviewLines = (report: ForensicReport, review: CaseReview) => [
+  `Case status: ${statusLabel(review.status)}`,
+  ...(review.override ? [`Analyst override: ${formatOverride(report, review)}`] : []),
+  ...review.audit.map(formatAudit),
+];
+
+// The signed report is exported unchanged, rejected evidence included; the review is added beside it, outside the signature
+export const reportToJson = (report: ForensicReport, review?: CaseReview) =>
+  JSON.stringify(review ? { ...report, analyst_review: review } : report, null, 2);
+
+// --- CSV --------------------------------------------------------------------
+
+const CSV_COLUMNS: [string, (r: ForensicReport, review?: CaseReview) => string | number][] = [
+  ['case_id', r => r.case_id],
+  ['scanned_at', r => r.provenance?.scanned_at ?? ''],
+  ['source', r => r.provenance?.source ?? ''],
+  ['content_sha256', contentHash],
+  ['verdict', (r, review) => outcomeOf(r, review).verdict],
+  ['risk_level', (r, review) => outcomeOf(r, review).risk_level],
+  ['review_status', (_r, review) => review ? statusLabel(review.status) : ''],
+  ['analyst_override', (r, review) => formatOverride(r, review) ?? ''],
+  ['confidence_score', r => r.confidence_score],
+  ['raw_confidence', r => r.calibration?.raw_confidence ?? ''],
+  ['ensemble_runs', r => r.ensemble?.runs.length ?? ''],
+  ['ensemble_agreement', r => r.ensemble?.agreement ?? ''],
+  ['confidence_spread', r => r.ensemble?.confidence_spread ?? ''],
+  ['parts_analyzed', r => (r.segments ?? []).map(formatSegment).join('; ')],
+  ['provider', r => r.provenance ? `${r.provenance.provider}/${r.provenance.model}` : ''],
+  ['app_version', r => r.provenance?.app_version ?? ''],
+  ['signature_key', r => r.signature?.key_fingerprint ?? ''],
+  ['vault_matches', r => (r.vault_matches ?? []).map(formatVaultMatch).join('; ')],
+  ['code_matches', r => (r.code_analysis?.matches ?? []).map(formatCodeMatch).join('; ')],
+  ['license_headers', r => (r.code_analysis?.license_headers ?? []).map(formatLicenseHeader).join('; ')],
+  ['key_evidence', (r, review) => acceptedEvidence(r, review).map(formatEvidence).join('; ')],
+  ['suspicious_urls', r => r.suspicious_urls.join('; ')],
+  ['recommended_actions', r => r.recommended_actions.join('; ')],
+  ['policy_rules', r => (r.policy?.fired ?? []).map(f => f.rule_id).join('; ')],
+  ['model_verdict', r => r.policy?.model_output.verdict ?? ''],
+  ['data_gaps', r => r.data_gaps.join('; ')],
+  ['audit_log', (_r, review) => (review?.audit ?? []).map(formatAudit).join('; ')],
+];
+
+const csvCell = (value: string | number) => {
+  let text = String(value);
+  // Stop spreadsheets from evaluating model-written text as a formula
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One header row plus one row per report, so several reports share a single sheet
+export const reportsToCsv = (reports: ReviewedReport[]) =>
+  [CSV_COLUMNS.map(([name]) => name), ...reports.map(({ report, review }) => CSV_COLUMNS.map(([, get]) => get(report, review)))]
+    .map(row => row.map(csvCell).join(','))
+    .join('\r\n') + '\r\n';
+
+// --- Markdown ---------------------------------------------------------------
+
+const bulletList = (items: string[], empty: string) =>
+  items.length ? items.map(item => `- ${item}`).join('\n') : `_${empty}_`;
+
+// Each matched range as a pair of fenced excerpts, scanned file first
+const codeMatchMarkdown = ({ matches, license_headers }: CodeAnalysis) => [
+  '## Source Code Matches', '',
+  ...(matches.length === 0 ? ['_No overlap with the code corpus._', ''] : matches.flatMap(m => [
+    `### ${m.repo}/${m.path} — ${m.suspect_percent}% of the scanned file, ${m.corpus_percent}% of theirs`, '',
+    ...m.ranges.flatMap(r => [
+      `Scanned file, lines ${r.suspect_start}–${r.suspect_end}:`, '', '```', r.suspect_excerpt, '```', '',
+      `${m.path}, lines ${r.corpus_start}–${r.corpus_end}:`, '', '```', r.corpus_excerpt, '```', '',
+    ]),
+  ])),
+  '## License Headers', '', bulletList(license_headers.map(formatLicenseHeader), 'None found.'), '',
+];
+
+export const reportToMarkdown = (report: ForensicReport, review?: CaseReview) => {
+  const p = report.provenance;
+  const outcome = outcomeOf(report, review);
+  const lines = [
+    `# Forensic Report ${report.case_id}`,
+    '',
+    `| Field | Value |`,
+    `| --- | --- |`,
+    `| Verdict | **${outcome.verdict}** |`,
+    `| Risk level | ${outcome.risk_level} |`,
+    review ? `| Case status | ${statusLabel(review.status)} |` : undefined,
+    review?.override ? `| Analyst override | ${formatOverride(report, review)!.replace(/\|/g, '\\|')} |` : undefined,
+    `| Confidence | ${report.confidence_score}% |`,
+    report.calibration ? `| Calibration | ${formatCalibration(report)} |` : undefined,
+    report.ensemble ? `| Ensemble | ${formatEnsemble(report)} |` : undefined,
+    p ? `| Source | ${p.source.replace(/\|/g, '\\|')} |` : undefined,
+    `| Content SHA-256 | \`${contentHash(report)}\` |`,
+    p ? `| Scanned | ${p.scanned_at} |` : undefined,
+    p ? `| Model | ${p.provider} / ${p.model} |` : undefined,
+    p ? `| App version | ${p.app_version} |` : undefined,
+    report.watermark ? `| Invisible watermark | ${formatWatermark(report)!.replace(/\|/g, '\\|')} |` : undefined,
+    `| Signature | ${report.signature ? `ECDSA P-256, key \`${report.signature.key_fingerprint}\`` : 'unsigned'} |`,
+    '',
+    '## Summary',
+    '',
+    report.summary,
+    '',
+    '## Key Evidence',
+    '',
+    bulletList(acceptedEvidence(report, review).map(formatEvidence), 'None recorded.'),
+    '',
+  ];
+  if (report.engine_scores?.length) {
+    lines.push('## Engine Scores', '', '| Engine | Score |', '| --- | --- |',
+      ...report.engine_scores.map(e => `| ${e.name} | ${e.score} |`), '');
+  }
+  if (report.policy) {
+    lines.push('## Policy Rules', '', `Model output: ${report.policy.model_output.verdict}, ${report.policy.model_output.risk_level} risk.`, '',
+      bulletList(formatPolicy(report), ''), '');
+  }
+  if (report.ensemble) {
+    lines.push('## Ensemble Runs', '', '| Run | Verdict | Confidence |', '| --- | --- | --- |',
+      ...report.ensemble.runs.map(run => `| ${run.label} | ${run.verdict} | ${run.confidence_score} |`), '');
+  }
+  if (report.segments?.length) {
+    lines.push('## Parts Analyzed', '', '| Part | Verdict | Confidence | Risk |', '| --- | --- | --- | --- |',
+      ...report.segments.map(s => `| ${s.label} | ${s.verdict} | ${s.confidence_score} | ${s.risk_level} |`), '');
+  }
+  if (report.code_analysis) {
+    lines.push(...codeMatchMarkdown(report.code_analysis));
+  }
+  if (report.vault_matches?.length) {
+    lines.push('## Probable Original Sources', '', bulletList(report.vault_matches.map(formatVaultMatch), ''), '');
+  }
+  lines.push(
+    '## Suspicious URLs', '', bulletList(report.suspicious_urls.map(url => `<${url}>`), 'No suspicious sources detected.'), '',
+    '## Recommended Actions', '', bulletList(report.recommended_actions, 'None.'), '',
+    '## Data Gaps', '', bulletList(report.data_gaps, 'None.'), '',
+  );
+  if (review) {
+    lines.push('## Analyst Review', '', bulletList(reviewLines(report, review), ''), '');
+  }
+  return lines.filter((line): line is string => line !== undefined).join('\n');
+};
+
+// --- PDF --------------------------------------------------------------------
+
+const VERDICT_COLORS: Record<Verdict, Rgb> = {
+  [Verdict.PIRATED]: [0.85, 0, 0.2],
+  [Verdict.ORIGINAL]: [0.05, 0.6, 0.3],
+  [Verdict.INCONCLUSIVE]: [0.85, 0.55, 0.05],
+};
+const MUTED: Rgb = [0.45, 0.45, 0.5];
+const TRACK: Rgb = [0.9, 0.9, 0.92];
+
+const section = (pdf: PdfWriter, title: string, items: string[], empty: string) => {
+  pdf.space(10);
+  pdf.text(title.toUpperCase(), { size: 11, bold: true });
+  pdf.rule();
+  if (items.length === 0) pdf.text(empty, { color: MUTED });
+  for (const item of items) pdf.text(`•  ${item}`, { indent: 6 });
+};
+
+// Horizontal bar per score; the same scale as the in-app correlation chart
+const barChart = (pdf: PdfWriter, rows: { name: string; score: number }[], color: Rgb) => {
+  const labelWidth = 140;
+  const barWidth = CONTENT_WIDTH - labelWidth - 40;
+  for (const row of rows) {
+    pdf.ensureSpace(18);
+    pdf.space(4);
+    const name = textWidth(row.name, 9) > labelWidth - 8 ? `${row.name.slice(0, 24)}…` : row.name;
+    pdf.label(name, 0, -10, { size: 9 });
+    pdf.rect(labelWidth, barWidth, 12, TRACK);
+    pdf.rect(labelWidth, Math.max(0, Math.min(100, row.score)) / 100 * barWidth, 12, color);
+    pdf.label(`${Math.round(row.score)}`, labelWidth + barWidth + 8, -10, { size: 9, color: MUTED });
+    pdf.space(14);
+  }
+};
+
+export const reportToPdf = (report: ForensicReport, review?: CaseReview): Uint8Array => {
+  const p = report.provenance;
+  const outcome = outcomeOf(report, review);
+  const pdf = new PdfWriter({
+    Title: `Forensic Report ${report.case_id}`,
+    Producer: `${APP_NAME} ${APP_VERSION}`,
+    Subject: `Content SHA-256 ${contentHash(report)}`,
+  });
+  const color = VERDICT_COLORS[outcome.verdict];
+
+  pdf.text('DECRYPTC FORENSIC REPORT', { size: 9, bold: true, color: MUTED });
+  pdf.text(`Case ${report.case_id}`, { size: 18, bold: true });
+  pdf.space(6);
+  pdf.text(outcome.verdict, { size: 14, bold: true, color });
+  pdf.text(`Risk ${outcome.risk_level}  ·  Confidence ${report.confidence_score}%`, { size: 10, color: MUTED });
+  if (review?.override) pdf.text(`Analyst override: ${formatOverride(report, review)}`, { size: 9, bold: true });
+  if (report.calibration) pdf.text(`Calibrated: ${formatCalibration(report)}`, { size: 9, color: MUTED });
+  pdf.space(6);
+  barChart(pdf, [{ name: 'Confidence', score: report.confidence_score }], color);
+
+  pdf.space(6);
+  if (p) {
+    pdf.text(`Source: ${p.source}`, { size: 9 });
+    pdf.text(`Scanned: ${p.scanned_at}  ·  Model: ${p.provider} / ${p.model}  ·  ${p.app_version}`, { size: 9, color: MUTED });
+  }
+  pdf.text(`Content SHA-256: ${contentHash(report)}`, { size: 9, color: MUTED });
+  if (report.watermark) pdf.text(`Invisible watermark: ${formatWatermark(report)}`, { size: 9, bold: true });
+  pdf.text(report.signature ? `Signed: ECDSA P-256, key ${report.signature.key_fingerprint}` : 'Unsigned report', { size: 9, color: MUTED });
+
+  pdf.space(10);
+  pdf.text('SUMMARY', { size: 11, bold: true });
+  pdf.rule();
+  pdf.text(report.summary);
+
+  section(pdf, 'Key Evidence', acceptedEvidence(report, review).map(formatEvidence), 'None recorded.');
+
+  if (report.engine_scores?.length) {
+    pdf.space(10);
+    pdf.text('ENGINE SCORES', { size: 11, bold: true });
+    pdf.rule();
+    barChart(pdf, report.engine_scores, color);
+  }
+
+  if (report.policy) {
+    section(pdf, 'Policy Rules', [
+      `Model output: ${report.policy.model_output.verdict}, ${report.policy.model_output.risk_level} risk`,
+      ...formatPolicy(report),
+    ], '');
+  }
+  if (report.ensemble) {
+    section(pdf, 'Ensemble Runs', [
+      formatEnsemble(report)!,
+      ...report.ensemble.runs.map(run => `${run.label}: ${run.verdict}, ${run.confidence_score}%`),
+    ], '');
+  }
+
+  if (report.segments?.length) {
+    section(pdf, 'Parts Analyzed', report.segments.map(formatSegment), '');
+  }
+
+  if (report.code_analysis) {
+    const { matches, license_headers } = report.code_analysis;
+    section(pdf, 'Source Code Matches', matches.map(formatCodeMatch), 'No overlap with the code corpus.');
+    section(pdf, 'License Headers', license_headers.map(formatLicenseHeader), 'None found.');
+  }
+  if (report.vault_matches?.length) {
+    section(pdf, 'Probable Original Sources', report.vault_matches.map(formatVaultMatch), '');
+  }
+  section(pdf, 'Suspicious URLs', report.suspicious_urls, 'No suspicious sources detected.');
+  section(pdf, 'Recommended Actions', report.recommended_actions, 'None.');
+  section(pdf, 'Data Gaps', report.data_gaps, 'None.');
+  if (review) section(pdf, 'Analyst Review', reviewLines(report, review), '');
+
+  return pdf.toBytes();
+};
+
+// --- Download ---------------------------------------------------------------
+
+export const renderExport = (report: ForensicReport, format: ExportFormat, review?: CaseReview): string | Uint8Array => {
+  switch (format) {
+    case 'pdf': return reportToPdf(report, review);
+    case 'json': return reportToJson(report, review);
+    case 'md': return reportToMarkdown(report, review);
+    case 'csv': return reportsToCsv([{ report, review }]);
+  }
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const downloadFile = (data: string | Uint8Array, fileName: string, format: DownloadFormat) =>
+  downloadBlob(new Blob([data as BlobPart], { type: MIME_TYPES[format] }), fileName);
+
+export const exportReport = (report: ForensicReport, format: ExportFormat, review?: CaseReview) =>
+  downloadFile(renderExport(report, format, review), exportFileName(report, format), format);
+
+export const exportCombinedCsv = (reports: ReviewedReport[]) =>
+  downloadFile(reportsToCsv(reports), `decryptc-cases-${new Date().toISOString().slice(0, 10)}.csv`, 'csv');
@@ -0,0 +1,40 @@
+import { Verdict } from "../types";
+import { EVIDENCE_TYPES } from "./evidence";
+
+// JSON Schema for the model's part of a ForensicReport; shared by every provider
+export const reportSchema = {
+  type: "object",
+  properties: {
+    case_id: { type: "string" },
+    verdict: { type: "string", enum: Object.values(Verdict) },
+    confidence_score: { type: "number", description: "Score from 0 to 100" },
+    summary: { type: "string" },
+    key_evidence: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          type: { type: "string", enum: EVIDENCE_TYPES.map(t => t.type) },
+          claim: { type: "string" },
+          weight: { type: "number", description: "-100 (points to an original) to 100 (points to infringement)" },
+          reference_url: { type: "string" }
+        },
+        required: ["type", "claim", "weight"]
+      }
+    },
+    risk_level: { type: "string", enum: ["LOW", "MEDIUM", "HIGH"] },
+    suspicious_urls: {
+      type: "array",
+      items: { type: "string" }
+    },
+    data_gaps: {
+      type: "array",
+      items: { type: "string" }
+    },
+    recommended_actions: {
+      type: "array",
+      items: { type: "string" }
+    }
+  },
+  required: ["case_id", "verdict", "confidence_score", "summary", "risk_level"]
+};
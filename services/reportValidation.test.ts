@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { Verdict } from '../types';
+import { validateReport } from './reportValidation';
+
+const reply = (fields: Record<string, unknown>) =>
+  JSON.stringify({ verdict: Verdict.PIRATED, confidence_score: 80, risk_level: 'HIGH', summary: 'Copied frames.', ...fields });
+
+describe('validateReport', () => {
+  it('accepts the verdict enum values, trimmed and in any case', () => {
+    expect(validateReport(reply({ verdict: `  ${Verdict.ORIGINAL.toLowerCase()} ` })).report?.verdict).toBe(Verdict.ORIGINAL);
+    expect(validateReport(reply({ verdict: Verdict.INCONCLUSIVE, risk_level: 'medium', confidence_score: 40 })).report)
+      .toMatchObject({ verdict: Verdict.INCONCLUSIVE, risk_level: 'MEDIUM' });
+  });
+
+  it('rejects verdicts that only mention an enum word', () => {
+    for (const verdict of ['NOT PIRATED', 'NO UNAUTHORIZED USE', 'ORIGINAL', 'pirated', 42]) {
+      const result = validateReport(reply({ verdict }));
+      expect(result.report, String(verdict)).toBeUndefined();
+      expect(result.errors[0]).toMatch(/^verdict .* is not one of/);
+    }
+  });
+
+  it('reads a report wrapped in a markdown fence and scales fractional confidence', () => {
+    const result = validateReport('```json\n' + reply({ confidence_score: 0.85 }) + '\n```');
+    expect(result.report?.confidence_score).toBe(85);
+    expect(result.errors).toEqual([]);
+  });
+
+  it('warns when the verdict contradicts the risk level', () => {
+    const result = validateReport(reply({ verdict: Verdict.ORIGINAL, risk_level: 'HIGH' }));
+    expect(result.report).toBeDefined();
+    expect(result.warnings).toEqual([`verdict "${Verdict.ORIGINAL}" contradicts risk_level HIGH`]);
+  });
+});
@@ -0,0 +1,139 @@
+import { EvidenceItem, ForensicReport, Verdict } from "../types";
+import { isEvidenceType } from "./evidence";
+import { isRecord } from "./typeGuards";
+
+const RISK_LEVELS: ForensicReport['risk_level'][] = ["LOW", "MEDIUM", "HIGH"];
+
+// Raised when the model's output cannot be turned into a usable report, even after a re-ask
+export class ReportValidationError extends Error {
+  constructor(message: string, public issues: string[], public raw: string) {
+    super(message);
+    this.name = 'ReportValidationError';
+  }
+}
+
+export interface ReportValidation {
+  report?: ForensicReport; // present when there are no errors
+  errors: string[]; // make the output unusable
+  warnings: string[]; // usable, but contradictory
+}
+
+const clamp = (value: number) => Math.min(100, Math.max(0, Math.round(value)));
+
+// Models sometimes wrap JSON in markdown fences or add a sentence around it
+const extractJson = (raw: string): unknown => {
+  const trimmed = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    const start = trimmed.indexOf('{');
+    const end = trimmed.lastIndexOf('}');
+    if (start >= 0 && end > start) return JSON.parse(trimmed.slice(start, end + 1));
+    throw new Error("no JSON object found");
+  }
+};
+
+// Only the enum values themselves: a substring test would read "NOT PIRATED" as pirated
+const toVerdict = (value: unknown): Verdict | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const folded = value.trim().toUpperCase();
+  return Object.values(Verdict).find(v => v === folded);
+};
+
+const toScore = (value: unknown): number | undefined => {
+  const n = typeof value === 'string' ? parseFloat(value) : value;
+  if (typeof n !== 'number' || !Number.isFinite(n)) return undefined;
+  // A fraction like 0.85 means 85%
+  return clamp(n > 0 && n < 1 ? n * 100 : n);
+};
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? value.filter(v => typeof v === 'string' || typeof v === 'number').map(v => String(v).trim()).filter(Boolean)
+    : typeof value === 'string' && value.trim() ? [value.trim()] : [];
+
+// Model evidence is always recorded as inferred, whatever the model claims about it
+const toEvidenceList = (value: unknown, engine: string): EvidenceItem[] =>
+  (Array.isArray(value) ? value : [value]).flatMap((item): EvidenceItem[] => {
+    if (typeof item === 'string' || typeof item === 'number') {
+      const claim = String(item).trim();
+      return claim ? [{ type: 'model_observation', claim, engine, weight: 0, origin: 'inferred' }] : [];
+    }
+    if (!isRecord(item)) return [];
+    const claim = typeof item.claim === 'string' ? item.claim.trim() : '';
+    if (!claim) return [];
+    const weight = typeof item.weight === 'number' && Number.isFinite(item.weight) ? Math.round(Math.max(-100, Math.min(100, item.weight))) : 0;
+    const url = typeof item.reference_url === 'string' && /^https?:\/\//i.test(item.reference_url.trim()) ? item.reference_url.trim() : undefined;
+    return [{
+      type: isEvidenceType(item.type) ? item.type : 'model_observation',
+      claim,
+      engine,
+      weight,
+      origin: 'inferred',
+      ...(url ? { reference: { label: url, url } } : {}),
+    }];
+  });
+
+const consistencyWarnings = (r: ForensicReport): string[] => {
+  const warnings: string[] = [];
+  if (r.verdict === Verdict.ORIGINAL && r.risk_level === 'HIGH') {
+    warnings.push(`verdict "${r.verdict}" contradicts risk_level HIGH`);
+  }
+  if (r.verdict === Verdict.PIRATED && r.risk_level === 'LOW') {
+    warnings.push(`verdict "${r.verdict}" contradicts risk_level LOW`);
+  }
+  if (r.verdict === Verdict.INCONCLUSIVE && r.confidence_score >= 90) {
+    warnings.push(`verdict is inconclusive but confidence_score is ${r.confidence_score}`);
+  }
+  return warnings;
+};
+
+// Checks the model's JSON against the report contract and repairs what can be repaired safely.
+// `engine` labels the model's evidence items, e.g. "gemini/gemini-2.5-flash"
+export const validateReport = (raw: string, engine = 'model'): ReportValidation => {
+  let data: unknown;
+  try {
+    data = extractJson(raw);
+  } catch (error) {
+    return { errors: [`response is not valid JSON (${error instanceof Error ? error.message : 'parse error'})`], warnings: [] };
+  }
+  if (!isRecord(data)) {
+    return { errors: ["response must be a single JSON object"], warnings: [] };
+  }
+
+  const errors: string[] = [];
+  const verdict = toVerdict(data.verdict);
+  if (!verdict) errors.push(`verdict ${JSON.stringify(data.verdict)} is not one of: ${Object.values(Verdict).join(' | ')}`);
+
+  const confidence = toScore(data.confidence_score);
+  if (confidence === undefined) errors.push(`confidence_score ${JSON.stringify(data.confidence_score)} is not a number from 0 to 100`);
+
+  const risk = RISK_LEVELS.find(level => typeof data.risk_level === 'string' && data.risk_level.trim().toUpperCase() === level);
+  if (!risk) errors.push(`risk_level ${JSON.stringify(data.risk_level)} is not one of: ${RISK_LEVELS.join(' | ')}`);
+
+  const summary = typeof data.summary === 'string' ? data.summary.trim() : '';
+  if (!summary) errors.push("summary is missing or empty");
+
+  if (errors.length > 0) return { errors, warnings: [] };
+
+  // Only contract fields are copied: measured fields must never come from the model
+  const report: ForensicReport = {
+    case_id: typeof data.case_id === 'string' && data.case_id.trim() ? data.case_id.trim() : `CASE-${crypto.randomUUID().slice(0, 8).toUpperCase()}`,
+    verdict: verdict!,
+    confidence_score: confidence!,
+    summary,
+    risk_level: risk!,
+    key_evidence: toEvidenceList(data.key_evidence ?? [], engine),
+    suspicious_urls: toStringList(data.suspicious_urls),
+    probable_original_sources: toStringList(data.probable_original_sources),
+    data_gaps: toStringList(data.data_gaps),
+    recommended_actions: toStringList(data.recommended_actions),
+  };
+  return { report, errors: [], warnings: consistencyWarnings(report) };
+};
+
+// Follow-up prompt that names exactly what was wrong with the previous answer
+export const buildReask = (raw: string, issues: string[]) =>
+  `Your previous response was rejected:\n${issues.map(issue => `- ${issue}`).join('\n')}\n\n` +
+  `Previous response:\n${raw.slice(0, 4000)}\n\n` +
+  `Return the complete corrected JSON report. Fix only the listed problems and keep everything else consistent with the evidence.`;
@@ -0,0 +1,135 @@
+import { ForensicReport, RemoteScan, ScanOptions, UploadSession } from "../types";
+import { prepareScan } from "./analysisService";
+import { createRateLimitGate, sleep } from "./rateLimitGate";
+import { ReportValidationError } from "./reportValidation";
+import { loadUrlLists } from "./urlHeuristics";
+import { applyPolicy, loadPolicy } from "./policyRules";
+import { UPLOAD_URI_PREFIX } from "./fileUtils";
+
+// Empty means same origin: the Vite dev server and the production server both mount the API at /api
+const API_BASE = (process.env.SCAN_API_URL || '').replace(/\/+$/, '');
+const POLL_INTERVAL_MS = 1000;
+const MAX_SUBMIT_ATTEMPTS = 5;
+const MAX_CHUNK_ATTEMPTS = 5;
+const CHUNK_RETRY_MS = 2000;
+
+export class ScanApiError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'ScanApiError';
+  }
+}
+
+const request = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE}${path}`, init);
+  } catch (error) {
+    if (init.signal?.aborted) throw error;
+    throw new ScanApiError("Scan server unreachable. Start it with `npm run dev` or `npm start`.", 0);
+  }
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) throw new ScanApiError(body.error ?? `Scan server returned HTTP ${response.status}`, response.status);
+  return body as T;
+};
+
+// Best effort: the server stops paying for a scan nobody is waiting on
+const cancelRemote = (id: string) =>
+  fetch(`${API_BASE}/api/scans/${encodeURIComponent(id)}`, { method: 'DELETE' }).catch(() => undefined);
+
+// Chunked and resumable: after a dropped connection the server's offset says where to continue, and a file the
+// server already holds (same SHA-256) is not sent again
+export const uploadToServer = async (
+  file: File, sha256: string, onProgress: (sent: number) => void, signal?: AbortSignal
+): Promise<string> => {
+  let session = await request<UploadSession>('/api/uploads', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ name: file.name, mime_type: file.type, size: file.size, sha256 }),
+    signal,
+  });
+  const path = `/api/uploads/${encodeURIComponent(session.id)}`;
+  let failures = 0;
+  while (!session.complete) {
+    onProgress(session.received);
+    try {
+      session = await request<UploadSession>(`${path}?offset=${session.received}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body: file.slice(session.received, session.received + session.chunk_size),
+        signal,
+      });
+      failures = 0;
+    } catch (error) {
+      // Unreachable server, 5xx or an offset conflict: wait, ask where the upload stands and carry on from there
+      const retryable = error instanceof ScanApiError && (error.status === 0 || error.status === 409 || error.status >= 500);
+      if (!retryable || ++failures >= MAX_CHUNK_ATTEMPTS) throw error;
+      await sleep(CHUNK_RETRY_MS * failures, signal);
+      session = await request<UploadSession>(path, { signal }).catch(() => session);
+    }
+  }
+  onProgress(file.size);
+  return `${UPLOAD_URI_PREFIX}${session.id}`;
+};
+
+// Local stages run here, where the vault and the browser decoders are; the model stage runs on the server,
+// which holds the API key. URLs go to the server whole since the browser cannot snapshot cross-origin pages.
+export const scanViaServer = async (input: File | string, options: ScanOptions = {}): Promise<ForensicReport> => {
+  const { gate = createRateLimitGate(), signer, signal, onProgress } = options;
+
+  const body = typeof input === 'string'
+    ? JSON.stringify({ url: input, url_lists: options.urlLists ?? await loadUrlLists().catch(() => undefined) })
+    : JSON.stringify({ prepared: await prepareScan(input, { ...options, uploadFile: options.uploadFile ?? uploadToServer }) });
+
+  let scan: RemoteScan | undefined;
+  for (let attempt = 1; !scan; attempt++) {
+    await gate.wait(signal, seconds => onProgress?.({ stage: 'model', status: 'active', detail: `Scan server busy, retrying in ${seconds}s` }));
+    try {
+      scan = await request<RemoteScan>('/api/scans', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body,
+        signal,
+      });
+      gate.succeed();
+    } catch (error) {
+      if (error instanceof ScanApiError && error.status === 429 && attempt < MAX_SUBMIT_ATTEMPTS) {
+        gate.trip();
+        continue;
+      }
+      throw error;
+    }
+  }
+
+  // Replay the server's progress events; the local stages have already reported their own
+  let seen = 0;
+  try {
+    while (true) {
+      const fresh = scan.events.slice(seen);
+      seen = scan.events.length;
+      for (const event of fresh) {
+        if (typeof input === 'string' || event.stage === 'model' || event.stage === 'validate') onProgress?.(event);
+      }
+      if (scan.status !== 'running') break;
+      await sleep(POLL_INTERVAL_MS, signal);
+      scan = await request<RemoteScan>(`/api/scans/${encodeURIComponent(scan.id)}`, { signal });
+    }
+  } catch (error) {
+    if (signal?.aborted) cancelRemote(scan.id);
+    throw error;
+  }
+
+  if (scan.status === 'failed' || !scan.report) {
+    const message = scan.error?.message ?? `Scan ${scan.status}`;
+    throw scan.error?.issues ? new ReportValidationError(message, scan.error.issues, '') : new ScanApiError(message, 500);
+  }
+  // Team policy is a browser setting, so it runs here rather than on the shared server
+  const policy = options.policy ?? await loadPolicy().catch(error => {
+    console.warn("Saved policy rules could not be loaded:", error);
+    return [];
+  });
+  const lists = options.urlLists ?? await loadUrlLists().catch(() => undefined);
+  const report: ForensicReport = policy.length > 0 ? applyPolicy(scan.report, policy, lists) : scan.report;
+  if (signer) report.signature = await signer.sign(report);
+  return report;
+};
@@ -0,0 +1,133 @@
+import { ForensicReport, SegmentResult, Verdict } from "../types";
+import { MAX_PROMPT_TEXT, MAX_SEGMENTS } from "./fileUtils";
+
+export interface TextSegment {
+  label: string;
+  text: string;
+}
+
+export interface Segmented {
+  segments: TextSegment[];
+  truncated: boolean; // content past MAX_SEGMENTS segments was dropped
+}
+
+const range = (noun: string, first: number, last: number) =>
+  first === last ? `${noun} ${first}` : `${noun}s ${first}–${last}`;
+
+// Cuts text at line breaks into segments of at most MAX_PROMPT_TEXT characters; a longer line is cut on its own
+export const textSegments = (text: string): Segmented => {
+  const segments: TextSegment[] = [];
+  const lines = text.split('\n');
+  let current = '';
+  let first = 1;
+
+  const push = (label: string, chunk: string) => {
+    if (chunk.trim()) segments.push({ label, text: chunk });
+  };
+
+  for (let i = 0; i < lines.length && segments.length <= MAX_SEGMENTS; i++) {
+    let line = lines[i] + (i < lines.length - 1 ? '\n' : '');
+    if (current && current.length + line.length > MAX_PROMPT_TEXT) {
+      push(range('Line', first, i), current);
+      current = '';
+    }
+    if (!current) first = i + 1;
+    while (line.length > MAX_PROMPT_TEXT) {
+      push(range('Line', i + 1, i + 1), line.slice(0, MAX_PROMPT_TEXT));
+      line = line.slice(MAX_PROMPT_TEXT);
+    }
+    current += line;
+    if (i === lines.length - 1) push(range('Line', first, i + 1), current);
+  }
+  return { segments: segments.slice(0, MAX_SEGMENTS), truncated: segments.length > MAX_SEGMENTS };
+};
+
+// Groups consecutive pages into segments of at most MAX_PROMPT_TEXT characters; a single over-long page is cut
+export const pageSegments = (pages: string[]): Segmented => {
+  const segments: TextSegment[] = [];
+  let text = '';
+  let first = 0;
+  let last = 0;
+
+  const flush = () => {
+    if (text) segments.push({ label: range('Page', first, last), text: text.trim() });
+    text = '';
+  };
+
+  for (let i = 0; i < pages.length; i++) {
+    if (!pages[i]) continue;
+    let block = `--- Page ${i + 1} ---\n${pages[i]}\n\n`;
+    if (block.length > MAX_PROMPT_TEXT) block = `${block.slice(0, MAX_PROMPT_TEXT - 40)}\n[page ${i + 1} truncated]\n\n`;
+    if (text && text.length + block.length > MAX_PROMPT_TEXT) {
+      flush();
+      if (segments.length >= MAX_SEGMENTS) return { segments, truncated: true };
+    }
+    if (!text) first = i + 1;
+    text += block;
+    last = i + 1;
+  }
+  flush();
+  return { segments, truncated: false };
+};
+
+export interface SegmentRun {
+  label: string;
+  report: ForensicReport;
+  agreement?: number;
+}
+
+const RISK_ORDER: ForensicReport['risk_level'][] = ['LOW', 'MEDIUM', 'HIGH'];
+
+const unique = (values: string[]) => [...new Set(values)];
+
+// One infringing part makes the whole asset infringing, so any PIRATED part decides the verdict with the strongest
+// such part's confidence. ORIGINAL needs every part to agree and takes the weakest confidence; otherwise the
+// verdict is INCONCLUSIVE at the mean of the inconclusive parts. Risk is the highest of any part.
+export const combineSegments = (runs: SegmentRun[], failed: string[]): { report: ForensicReport; segments: SegmentResult[] } => {
+  const withVerdict = (verdict: Verdict) => runs.filter(r => r.report.verdict === verdict);
+  const pirated = withVerdict(Verdict.PIRATED);
+  const inconclusive = withVerdict(Verdict.INCONCLUSIVE);
+  const confidences = (group: SegmentRun[]) => group.map(r => r.report.confidence_score);
+
+  let verdict: Verdict;
+  let confidence: number;
+  let decisive: SegmentRun[];
+  if (pirated.length > 0) {
+    [verdict, decisive, confidence] = [Verdict.PIRATED, pirated, Math.max(...confidences(pirated))];
+  } else if (inconclusive.length > 0 || failed.length > 0) {
+    decisive = inconclusive.length > 0 ? inconclusive : runs;
+    verdict = Verdict.INCONCLUSIVE;
+    confidence = Math.round(confidences(decisive).reduce((sum, c) => sum + c, 0) / decisive.length);
+  } else {
+    [verdict, decisive, confidence] = [Verdict.ORIGINAL, runs, Math.min(...confidences(runs))];
+  }
+  const representative = decisive.find(r => r.report.confidence_score === confidence) ?? decisive[0];
+  const risk = RISK_ORDER[Math.max(...runs.map(r => RISK_ORDER.indexOf(r.report.risk_level)))];
+
+  const flagged = pirated.map(r => r.label);
+  const partsNote = ` Analyzed in ${runs.length + failed.length} parts; ${flagged.length > 0
+    ? `${flagged.length} likely pirated (${flagged.join(', ')}).`
+    : 'none was flagged as pirated.'}`;
+
+  const warnings = runs.flatMap(r => (r.report.validation_warnings ?? []).map(w => `${r.label}: ${w}`));
+  const report: ForensicReport = {
+    ...representative.report,
+    verdict,
+    confidence_score: confidence,
+    risk_level: risk,
+    summary: `${runs.length > 1 ? `${representative.label}: ` : ''}${representative.report.summary}${partsNote}`,
+    key_evidence: runs.flatMap(r => r.report.key_evidence.map(item => ({ ...item, claim: `${r.label}: ${item.claim}` }))),
+    suspicious_urls: unique(runs.flatMap(r => r.report.suspicious_urls)),
+    probable_original_sources: unique(runs.flatMap(r => r.report.probable_original_sources)),
+    data_gaps: unique([...failed.map(label => `${label} could not be analyzed.`), ...runs.flatMap(r => r.report.data_gaps)]),
+    recommended_actions: unique(runs.flatMap(r => r.report.recommended_actions)),
+  };
+  delete report.validation_warnings;
+  if (warnings.length > 0) report.validation_warnings = warnings;
+
+  const segments = runs.map(({ label, report: part, agreement }): SegmentResult => ({
+    label, verdict: part.verdict, confidence_score: part.confidence_score, risk_level: part.risk_level, summary: part.summary,
+    ...(agreement !== undefined ? { agreement } : {}),
+  }));
+  return { report, segments };
+};
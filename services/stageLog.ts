@@ -0,0 +1,12 @@
+// Local stages that fail softly (no vault, no canvas, an unparsable file) log here. The failure is already in
+// the report's data gaps, so a host that prints those, like the CLI without --verbose, can turn these off.
+// Provider and network errors are real failures and go to the console directly
+let enabled = true;
+
+export const setStageWarnings = (on: boolean) => {
+  enabled = on;
+};
+
+export const stageWarning = (message: string, error?: unknown) => {
+  if (enabled) console.warn(message, ...(error === undefined ? [] : [error]));
+};
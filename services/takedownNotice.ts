@@ -0,0 +1,224 @@
+import { CaseReview, ForensicReport, NoticeKind, NoticeTemplate, RightsHolderProfile } from "../types";
+import { getOne, put, remove, STORES } from "./db";
+import { PdfWriter } from "./pdfWriter";
+import { contentHash, downloadFile } from "./reportExport";
+import { formatEvidence } from "./evidence";
+import { acceptedEvidence, reviewedOutcome, statusLabel } from "./caseReview";
+
+const PROFILE_ID = 'rights-holder-profile';
+const templateId = (kind: NoticeKind) => `notice-template:${kind}`;
+
+interface SettingRecord<T> {
+  id: string;
+  value: T;
+}
+
+export const NOTICE_KINDS: { kind: NoticeKind; label: string }[] = [
+  { kind: 'dmca', label: 'DMCA 512(c)' },
+  { kind: 'dsa', label: 'EU DSA Art. 16' },
+  { kind: 'abuse', label: 'Hosting abuse' },
+];
+
+export const EMPTY_PROFILE: RightsHolderProfile = {
+  name: '', organization: '', email: '', phone: '', address: '', signature: '',
+};
+
+// Each template covers the elements its legal basis requires; the DMCA one follows 17 U.S.C. 512(c)(3)(A) (i)-(vi)
+export const DEFAULT_TEMPLATES: Record<NoticeKind, NoticeTemplate> = {
+  dmca: {
+    kind: 'dmca',
+    subject: 'DMCA Takedown Notice — {{case_id}}',
+    body: `{{date}}
+
+To the Designated Copyright Agent,
+
+I am writing to notify you, under the Digital Millennium Copyright Act, 17 U.S.C. § 512(c), of material on your service that infringes copyrights owned by or licensed to {{holder_party}}.
+
+1. Copyrighted work(s):
+{{works}}
+
+2. Infringing material and its location:
+{{urls}}
+
+3. Basis for this notice (forensic case {{case_id}}):
+{{evidence}}
+
+I request that you expeditiously remove or disable access to the material listed above.
+
+I have a good faith belief that use of the material in the manner complained of is not authorized by the copyright owner, its agent, or the law.
+
+The information in this notification is accurate, and under penalty of perjury, I am authorized to act on behalf of the owner of an exclusive right that is allegedly infringed.
+
+Contact information:
+{{holder_name}}
+{{holder_organization}}
+{{holder_address}}
+{{holder_email}}
+{{holder_phone}}
+
+Signature: /{{signature}}/`,
+  },
+  dsa: {
+    kind: 'dsa',
+    subject: 'Notice of illegal content under Article 16 DSA — {{case_id}}',
+    body: `{{date}}
+
+Dear Sir or Madam,
+
+Pursuant to Article 16 of Regulation (EU) 2022/2065 (Digital Services Act), I notify you of the following content, which infringes the intellectual property rights of {{holder_party}}.
+
+Exact electronic location of the content:
+{{urls}}
+
+Explanation of why the content is illegal:
+The content reproduces or makes available the following protected work(s) without authorisation from the rights holder:
+{{works}}
+
+Supporting findings from forensic case {{case_id}}:
+{{evidence}}
+
+I confirm my bona fide belief that the information and allegations contained in this notice are accurate and complete.
+
+Submitted by:
+{{holder_name}}
+{{holder_organization}}
+{{holder_email}}
+
+{{signature}}`,
+  },
+  abuse: {
+    kind: 'abuse',
+    subject: 'Copyright abuse report — {{case_id}}',
+    body: `Hello,
+
+We have identified content hosted on your network that infringes copyrights held by {{holder_party}}. Please review and remove it in line with your acceptable use policy.
+
+Reported URLs:
+{{urls}}
+
+Original work(s):
+{{works}}
+
+Evidence (case {{case_id}}, content SHA-256 {{content_sha256}}):
+{{evidence}}
+
+Please confirm once the content has been removed. We are happy to provide further information.
+
+Regards,
+{{signature}}
+{{holder_organization}}
+{{holder_email}}
+{{holder_phone}}`,
+  },
+};
+
+// Placeholders that may be left empty; lines holding only one of them are dropped instead
+const OPTIONAL_FIELDS = new Set(['holder_organization', 'holder_phone', 'case_status', 'override_justification']);
+
+export interface NoticeInput {
+  report: ForensicReport;
+  review?: CaseReview; // of a filed case: its verdict stands and evidence the analyst rejected is left out
+  profile: RightsHolderProfile;
+  urls: string[];
+  works: string[];
+}
+
+export interface RenderedNotice {
+  kind: NoticeKind;
+  subject: string;
+  body: string;
+  missing: string[]; // required placeholders that had no value
+}
+
+// URLs a notice can target: the model's suspicious URLs plus the scanned page itself
+export const noticeTargets = (report: ForensicReport) => {
+  const urls = [...report.suspicious_urls];
+  if (report.provenance?.input_kind === 'url') urls.unshift(report.provenance.source);
+  return [...new Set(urls.map(url => url.trim()).filter(Boolean))];
+};
+
+const numbered = (items: string[]) => items.map((item, i) => `  ${i + 1}. ${item}`).join('\n');
+
+const noticeFields = ({ report, review, profile, urls, works }: NoticeInput): Record<string, string> => {
+  const outcome = reviewedOutcome({ verdict: report.verdict, risk_level: report.risk_level, review });
+  return {
+    date: new Date().toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' }),
+    case_id: report.case_id,
+    verdict: outcome.verdict,
+    risk_level: outcome.risk_level,
+    case_status: review ? statusLabel(review.status) : '',
+    override_justification: review?.override?.justification ?? '',
+    confidence: `${report.confidence_score}%`,
+    content_sha256: contentHash(report),
+    urls: numbered(urls),
+    works: numbered(works.map(w => w.trim()).filter(Boolean)),
+    evidence: numbered(acceptedEvidence(report, review).map(formatEvidence)),
+    holder_name: profile.name.trim(),
+    holder_organization: profile.organization.trim(),
+    holder_party: (profile.organization || profile.name).trim(),
+    holder_email: profile.email.trim(),
+    holder_phone: profile.phone.trim(),
+    holder_address: profile.address.trim(),
+    signature: (profile.signature || profile.name).trim(),
+  };
+};
+
+const fill = (text: string, fields: Record<string, string>, missing: Set<string>) =>
+  text.split('\n').flatMap(line => {
+    const only = line.trim().match(/^\{\{(\w+)\}\}$/);
+    if (only && OPTIONAL_FIELDS.has(only[1]) && !fields[only[1]]) return [];
+    return [line.replace(/\{\{(\w+)\}\}/g, (placeholder, name: string) => {
+      const value = fields[name];
+      if (value === undefined) {
+        missing.add(`unknown placeholder ${placeholder}`);
+        return placeholder;
+      }
+      if (!value && !OPTIONAL_FIELDS.has(name)) missing.add(name);
+      return value;
+    })];
+  }).join('\n');
+
+export const renderNotice = (template: NoticeTemplate, input: NoticeInput): RenderedNotice => {
+  const fields = noticeFields(input);
+  const missing = new Set<string>();
+  return {
+    kind: template.kind,
+    subject: fill(template.subject, fields, missing),
+    body: fill(template.body, fields, missing),
+    missing: [...missing],
+  };
+};
+
+export const noticeToText = (notice: RenderedNotice) => `Subject: ${notice.subject}\n\n${notice.body}\n`;
+
+export const noticeToPdf = (notice: RenderedNotice): Uint8Array => {
+  const pdf = new PdfWriter({ Title: notice.subject });
+  pdf.text(notice.subject, { size: 12, bold: true });
+  pdf.rule();
+  pdf.space(6);
+  pdf.text(notice.body);
+  return pdf.toBytes();
+};
+
+export const exportNotice = (notice: RenderedNotice, caseId: string, format: 'txt' | 'pdf') =>
+  downloadFile(
+    format === 'pdf' ? noticeToPdf(notice) : noticeToText(notice),
+    `${caseId.replace(/[^\w.-]+/g, '_') || 'case'}-${notice.kind}-notice.${format}`,
+    format,
+  );
+
+// --- Saved settings ---------------------------------------------------------
+
+export const loadProfile = async (): Promise<RightsHolderProfile> =>
+  ({ ...EMPTY_PROFILE, ...(await getOne<SettingRecord<RightsHolderProfile>>(STORES.settings, PROFILE_ID))?.value });
+
+export const saveProfile = (profile: RightsHolderProfile) =>
+  put<SettingRecord<RightsHolderProfile>>(STORES.settings, { id: PROFILE_ID, value: profile });
+
+export const loadTemplate = async (kind: NoticeKind): Promise<NoticeTemplate> =>
+  (await getOne<SettingRecord<NoticeTemplate>>(STORES.settings, templateId(kind)))?.value ?? DEFAULT_TEMPLATES[kind];
+
+export const saveTemplate = (template: NoticeTemplate) =>
+  put<SettingRecord<NoticeTemplate>>(STORES.settings, { id: templateId(template.kind), value: template });
+
+export const resetTemplate = (kind: NoticeKind) => remove(STORES.settings, templateId(kind));
@@ -0,0 +1,65 @@
+// MinHash signatures over word shingles, for near-duplicate text detection
+const SHINGLE_SIZE = 5;
+const SIGNATURE_SIZE = 64;
+const PRIME = 4294967311; // smallest prime above 2^32
+
+// FNV-1a 32-bit
+export const fnv1a = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+};
+
+// Deterministic permutation coefficients so signatures stay comparable across sessions
+const COEFFICIENTS = Array.from({ length: SIGNATURE_SIZE }, (_, i) => ({
+  a: (fnv1a(`a${i}`) % (PRIME - 1)) + 1,
+  b: fnv1a(`b${i}`) % PRIME,
+}));
+
+// (a*x + b) mod p without losing precision in doubles
+const permute = (x: number, a: number, b: number) => {
+  const high = Math.floor(a / 65536);
+  const low = a % 65536;
+  const partial = ((high * x) % PRIME) * 65536 % PRIME;
+  return (partial + low * x + b) % PRIME;
+};
+
+export const normalizeText = (text: string) =>
+  text.toLowerCase().normalize('NFKD').replace(/[^\p{L}\p{N}\s]/gu, ' ').split(/\s+/).filter(Boolean);
+
+const shingles = (words: string[]): Set<number> => {
+  const set = new Set<number>();
+  if (words.length < SHINGLE_SIZE) {
+    if (words.length) set.add(fnv1a(words.join(' ')));
+    return set;
+  }
+  for (let i = 0; i <= words.length - SHINGLE_SIZE; i++) {
+    set.add(fnv1a(words.slice(i, i + SHINGLE_SIZE).join(' ')));
+  }
+  return set;
+};
+
+// Returns null when the text has no usable words
+export const textSignature = (text: string): number[] | null => {
+  const set = shingles(normalizeText(text));
+  if (set.size === 0) return null;
+  const signature = new Array(SIGNATURE_SIZE).fill(Infinity);
+  for (const value of set) {
+    for (let i = 0; i < SIGNATURE_SIZE; i++) {
+      const h = permute(value, COEFFICIENTS[i].a, COEFFICIENTS[i].b);
+      if (h < signature[i]) signature[i] = h;
+    }
+  }
+  return signature;
+};
+
+// Estimated Jaccard similarity of the shingle sets, as 0-100
+export const signatureSimilarity = (a: number[], b: number[]) => {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let equal = 0;
+  for (let i = 0; i < a.length; i++) if (a[i] === b[i]) equal++;
+  return Math.round((equal / a.length) * 100);
+};
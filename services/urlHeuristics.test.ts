@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeUrl, analyzeUrlLocally, findListEntry, parseUrlLists, registrableDomain } from './urlHeuristics';
+
+const ids = (input: string, lists = { brand_domains: ['acme.com'], blocklist: [], allowlist: [] }) =>
+  analyzeUrl(input, lists)!.signals.map(s => s.id);
+
+describe('analyzeUrl', () => {
+  it('returns null for input that is not a URL', () => {
+    expect(analyzeUrl('http://')).toBeNull();
+  });
+
+  it('flags lookalikes of brand domains', () => {
+    expect(ids('https://acme.com/x')).toEqual(['official-domain']);
+    expect(ids('https://acrne.com')).toContain('homoglyph');
+    expect(ids('https://acne.com')).toContain('typosquat');
+    expect(ids('https://acme.net')).toContain('tld-swap');
+    expect(ids('https://acme.com.evil.io')).toContain('brand-in-subdomain');
+  });
+
+  it('flags structural red flags', () => {
+    expect(ids('http://user:pw@10.0.0.1:8080/a')).toEqual(expect.arrayContaining(['ip-host', 'userinfo', 'no-tls', 'port']));
+    expect(ids('https://example.com/go?to=https://other.org/x')).toContain('redirect-param');
+  });
+
+  it('ignores redirect parameters that are not valid URLs', () => {
+    expect(ids('https://example.com/go?next=http://&u=https://[x')).not.toContain('redirect-param');
+    expect(ids('https://example.com/go?next=http://&to=https://other.org')).toContain('redirect-param');
+    expect(analyzeUrlLocally('https://example.com/?u=https://[x').engineScores).toEqual([{ name: 'URL heuristics', score: 0 }]);
+  });
+
+  it('lets the allowlist skip other checks and the blocklist win over it', () => {
+    const lists = { brand_domains: [], blocklist: ['bad.example/files'], allowlist: ['example'] };
+    expect(ids('https://cdn.example/a', { ...lists, allowlist: ['cdn.example'] })).toEqual(['allowlist']);
+    expect(ids('https://bad.example/files/1', { ...lists, allowlist: ['bad.example'] })).toEqual(['blocklist']);
+  });
+
+  it('clamps the score to 0–100', () => {
+    expect(analyzeUrl('https://acme.com', { brand_domains: ['acme.com'], blocklist: [], allowlist: [] })!.score).toBe(0);
+  });
+});
+
+describe('analyzeUrlLocally', () => {
+  it('records a data gap when the URL does not parse', () => {
+    const findings = analyzeUrlLocally('https://[x');
+    expect(findings.evidence).toEqual([]);
+    expect(findings.dataGaps[0]).toMatch(/could not be parsed/);
+  });
+});
+
+describe('list helpers', () => {
+  it('matches domains, subdomains and path prefixes', () => {
+    expect(findListEntry('https://www.thepiratebay.org/x', ['thepiratebay.org'])).toBe('thepiratebay.org');
+    expect(findListEntry('files.example.com/share/1', ['*.example.com/share'])).toBe('*.example.com/share');
+    expect(findListEntry('https://example.com/other', ['example.com/share'])).toBeUndefined();
+    expect(findListEntry('https://[x', ['x'])).toBeUndefined();
+  });
+
+  it('knows multi-part public suffixes', () => {
+    expect(registrableDomain('a.b.example.co.uk')).toBe('example.co.uk');
+    expect(registrableDomain('a.b.example.com')).toBe('example.com');
+  });
+
+  it('validates and dedupes saved lists', () => {
+    expect(parseUrlLists({ blocklist: [' a.to ', 'a.to', ''] })).toEqual({ brand_domains: [], blocklist: ['a.to'], allowlist: [] });
+    expect(() => parseUrlLists({ allowlist: 'a.to' })).toThrow(/allowlist must be a list of strings/);
+    expect(() => parseUrlLists(null)).toThrow(/must be an object/);
+  });
+});
@@ -0,0 +1,355 @@
+import { LocalFindings, UrlAnalysis, UrlLists, UrlSignal } from "../types";
+import { getOne, put, STORES } from "./db";
+import { measured } from "./evidence";
+import { isRecord } from "./typeGuards";
+
+// Deterministic checks on the URL string itself: nothing is fetched here.
+// Weights are additive; the clamped sum is reported as the "URL heuristics" engine score.
+
+export const EMPTY_URL_LISTS: UrlLists = { brand_domains: [], blocklist: [], allowlist: [] };
+
+const LISTS_ID = 'url-lists';
+const MAX_LIST_ENTRIES = 5000;
+
+// Second-level suffixes under which the registrable domain has three labels
+const MULTI_PART_SUFFIXES = new Set([
+  'co.uk', 'org.uk', 'ac.uk', 'gov.uk', 'me.uk', 'com.au', 'net.au', 'org.au', 'co.nz', 'co.jp', 'ne.jp', 'or.jp',
+  'com.br', 'com.mx', 'co.in', 'co.za', 'com.cn', 'com.tr', 'com.ar', 'co.kr', 'com.sg', 'com.hk', 'com.tw',
+]);
+
+// Cheap or free registries that dominate abuse feeds
+const SUSPICIOUS_TLDS = new Set([
+  'tk', 'ml', 'ga', 'cf', 'gq', 'top', 'xyz', 'click', 'link', 'live', 'stream', 'to', 'ws', 'su', 'cc', 'pw',
+  'icu', 'buzz', 'rest', 'sbs', 'cfd', 'cyou', 'mom', 'lol', 'fun', 'site', 'online', 'monster', 'quest',
+]);
+
+const SHORTENERS = new Set([
+  'bit.ly', 'tinyurl.com', 't.co', 'goo.gl', 'ow.ly', 'is.gd', 'buff.ly', 'cutt.ly', 'rebrand.ly', 'shorturl.at',
+  'tiny.cc', 'rb.gy', 'adf.ly', 'shorte.st', 'ouo.io', 'bc.vc', 'linkvertise.com', 'v.gd', 'clck.ru', 's.id',
+]);
+
+const CYBERLOCKERS = new Set([
+  'mega.nz', 'mediafire.com', 'rapidgator.net', 'uploaded.net', 'nitroflare.com', '1fichier.com', 'turbobit.net',
+  'katfile.com', 'uptobox.com', 'ddownload.com', 'filefactory.com', 'zippyshare.com', 'krakenfiles.com', 'gofile.io',
+]);
+
+interface PatternRule {
+  id: string;
+  label: string;
+  weight: number;
+  pattern: RegExp;
+}
+
+// Matched against the decoded host, path and query
+const PATTERN_RULES: PatternRule[] = [
+  {
+    id: 'streaming-pattern',
+    label: 'Unlicensed streaming pattern',
+    weight: 20,
+    pattern: /\b(full[-_ ]?movies?|watch[-_ ]?(free|online)|free[-_ ]?movies?|movies?[-_ ]?online|\bs\d{1,2}e\d{1,2}\b|123movies|putlocker|fmovies|soap2day|gomovies|solarmovie|primewire|hdrezka)\b/,
+  },
+  {
+    id: 'torrent-pattern',
+    label: 'Torrent / P2P pattern',
+    weight: 25,
+    pattern: /(\.torrent\b|\bmagnet:|\bbtih\b|\btorrents?\b|\b(1337x|thepiratebay|piratebay|rarbg|yts|nyaa|kickass|limetorrents|torrentz2?)\b)/,
+  },
+  {
+    id: 'free-download-pattern',
+    label: '"Free download" / cracked software pattern',
+    weight: 25,
+    pattern: /\b(free[-_ ]?download|crack(ed)?|keygen|serial[-_ ]?keys?|warez|nulled|full[-_ ]?version|activator|repack|mod[-_ ]?apk|pirated?)\b/,
+  },
+];
+
+// --- Punycode (RFC 3492) ----------------------------------------------------
+
+const PUNY_BASE = 36;
+const PUNY_TMIN = 1;
+const PUNY_TMAX = 26;
+
+const punyDigit = (code: number) =>
+  code >= 48 && code <= 57 ? code - 22
+  : code >= 65 && code <= 90 ? code - 65
+  : code >= 97 && code <= 122 ? code - 97
+  : PUNY_BASE;
+
+const punyAdapt = (delta: number, points: number, first: boolean) => {
+  delta = first ? Math.floor(delta / 700) : delta >> 1;
+  delta += Math.floor(delta / points);
+  let k = 0;
+  while (delta > ((PUNY_BASE - PUNY_TMIN) * PUNY_TMAX) >> 1) {
+    delta = Math.floor(delta / (PUNY_BASE - PUNY_TMIN));
+    k += PUNY_BASE;
+  }
+  return k + Math.floor(((PUNY_BASE - PUNY_TMIN + 1) * delta) / (delta + 38));
+};
+
+const decodePunycodeLabel = (input: string): string => {
+  const basic = input.lastIndexOf('-');
+  const output = [...input.slice(0, Math.max(basic, 0))].map(ch => ch.charCodeAt(0));
+  let n = 128;
+  let bias = 72;
+  let i = 0;
+  for (let index = basic > 0 ? basic + 1 : 0; index < input.length;) {
+    const previous = i;
+    for (let w = 1, k = PUNY_BASE; ; k += PUNY_BASE) {
+      if (index >= input.length) throw new Error('Truncated punycode');
+      const digit = punyDigit(input.charCodeAt(index++));
+      if (digit >= PUNY_BASE) throw new Error('Invalid punycode digit');
+      i += digit * w;
+      const t = k <= bias ? PUNY_TMIN : k >= bias + PUNY_TMAX ? PUNY_TMAX : k - bias;
+      if (digit < t) break;
+      w *= PUNY_BASE - t;
+    }
+    bias = punyAdapt(i - previous, output.length + 1, previous === 0);
+    n += Math.floor(i / (output.length + 1));
+    i %= output.length + 1;
+    output.splice(i++, 0, n);
+  }
+  return String.fromCodePoint(...output);
+};
+
+export const toUnicodeHost = (host: string) =>
+  host.split('.').map(label => {
+    if (!label.startsWith('xn--')) return label;
+    try {
+      return decodePunycodeLabel(label.slice(4));
+    } catch {
+      return label;
+    }
+  }).join('.');
+
+// --- Lookalike helpers ------------------------------------------------------
+
+// Characters (and pairs) commonly substituted for Latin letters in lookalike domains
+const HOMOGLYPHS: Record<string, string> = {
+  'а': 'a', 'е': 'e', 'о': 'o', 'р': 'p', 'с': 'c', 'х': 'x', 'у': 'y', 'і': 'i', 'ј': 'j', 'ԁ': 'd', 'ѕ': 's',
+  'ɡ': 'g', 'ӏ': 'l', 'ο': 'o', 'α': 'a', 'ν': 'v', 'ρ': 'p', 'ι': 'i', 'κ': 'k', 'τ': 't', 'ε': 'e',
+  'à': 'a', 'á': 'a', 'â': 'a', 'ä': 'a', 'å': 'a', 'è': 'e', 'é': 'e', 'ê': 'e', 'ë': 'e', 'ì': 'i', 'í': 'i',
+  'î': 'i', 'ï': 'i', 'ò': 'o', 'ó': 'o', 'ô': 'o', 'ö': 'o', 'ù': 'u', 'ú': 'u', 'û': 'u', 'ü': 'u', 'ñ': 'n', 'ç': 'c',
+  '0': 'o', '1': 'l', '3': 'e', '5': 's', '7': 't', '@': 'a',
+};
+
+export const skeleton = (text: string) =>
+  [...text.toLowerCase()].map(ch => HOMOGLYPHS[ch] ?? ch).join('')
+    .replace(/rn/g, 'm').replace(/vv/g, 'w').replace(/cl/g, 'd').replace(/[il]/g, 'l');
+
+// Optimal string alignment distance: insertions, deletions, substitutions and adjacent swaps
+export const editDistance = (a: string, b: string) => {
+  const d = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+    }
+  }
+  return d[a.length][b.length];
+};
+
+export const registrableDomain = (host: string) => {
+  const labels = host.split('.');
+  const suffix = labels.slice(-2).join('.');
+  return labels.slice(labels.length > 2 && MULTI_PART_SUFFIXES.has(suffix) ? -3 : -2).join('.');
+};
+
+const splitDomain = (domain: string) => {
+  const registrable = registrableDomain(domain);
+  const dot = registrable.indexOf('.');
+  return { name: registrable.slice(0, dot), suffix: registrable.slice(dot + 1) };
+};
+
+// "https://www.Example.com/x" and "*.example.com" both become "example.com"; entries with a path keep it
+const normalizeEntry = (entry: string) =>
+  entry.trim().toLowerCase().replace(/^[a-z]+:\/\//, '').replace(/^\*?\.+/, '').replace(/^www\./, '').replace(/\/+$/, '');
+
+const matchesEntry = (host: string, path: string, entry: string) => {
+  const normalized = normalizeEntry(entry);
+  if (!normalized) return false;
+  const slash = normalized.indexOf('/');
+  if (slash < 0) return host === normalized || host.endsWith(`.${normalized}`);
+  const entryHost = normalized.slice(0, slash);
+  return (host === entryHost || host.endsWith(`.${entryHost}`)) && path.startsWith(normalized.slice(slash));
+};
+
+// Bare domains are read as https; null when the input does not parse
+const parseUrl = (input: string): URL | null => {
+  try {
+    return new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(input) ? input : `https://${input}`);
+  } catch {
+    return null;
+  }
+};
+
+const hostOf = (url: URL) => url.hostname.toLowerCase().replace(/\.$/, '').replace(/^\[|\]$/g, '');
+
+// The first list entry a URL falls under, for callers outside the heuristics (policy rules)
+export const findListEntry = (input: string, entries: string[]) => {
+  const url = parseUrl(input);
+  if (!url) return undefined;
+  const host = hostOf(url);
+  return entries.find(entry => matchesEntry(host, url.pathname, entry));
+};
+
+// The single strongest lookalike signal for one brand domain, if any
+const brandSignal = (host: string, unicodeHost: string, brand: string): UrlSignal | null => {
+  const brandHost = normalizeEntry(brand).split('/')[0];
+  if (!brandHost.includes('.')) return null;
+  if (host === brandHost || host.endsWith(`.${brandHost}`)) {
+    return { id: 'official-domain', category: 'lookalike', label: 'Official brand domain', weight: -40, detail: `${host} belongs to ${brandHost}` };
+  }
+
+  const target = splitDomain(brandHost);
+  const actual = splitDomain(host);
+  const unicodeName = splitDomain(unicodeHost).name;
+
+  if (unicodeName !== actual.name && skeleton(unicodeName) === skeleton(target.name)) {
+    return { id: 'homoglyph', category: 'lookalike', label: 'Homoglyph lookalike', weight: 45, detail: `"${unicodeHost}" (${host}) renders like ${brandHost}` };
+  }
+  if (actual.name !== target.name && skeleton(actual.name) === skeleton(target.name)) {
+    return { id: 'homoglyph', category: 'lookalike', label: 'Lookalike characters', weight: 40, detail: `"${actual.name}" reads as "${target.name}" (${brandHost})` };
+  }
+  if (actual.name === target.name) {
+    return { id: 'tld-swap', category: 'lookalike', label: 'Brand name on another TLD', weight: 25, detail: `${registrableDomain(host)} mirrors ${brandHost}` };
+  }
+  const distance = editDistance(actual.name, target.name);
+  if (distance > 0 && distance <= (target.name.length >= 6 ? 2 : 1)) {
+    return { id: 'typosquat', category: 'lookalike', label: 'Typosquat', weight: 35, detail: `"${actual.name}" is ${distance} edit(s) from "${target.name}" (${brandHost})` };
+  }
+  if (host.includes(`${brandHost}.`) || host.split('.').slice(0, -2).includes(target.name)) {
+    return { id: 'brand-in-subdomain', category: 'lookalike', label: 'Brand name in subdomain', weight: 30, detail: `${host} puts "${target.name}" in front of ${registrableDomain(host)}` };
+  }
+  if (target.name.length >= 4 && actual.name.includes(target.name)) {
+    return { id: 'combosquat', category: 'lookalike', label: 'Brand name combined with other words', weight: 25, detail: `"${actual.name}" contains "${target.name}" (${brandHost})` };
+  }
+  return null;
+};
+
+const safeDecode = (text: string) => {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+};
+
+// --- Analysis ---------------------------------------------------------------
+
+export const analyzeUrl = (input: string, lists: UrlLists = EMPTY_URL_LISTS): UrlAnalysis | null => {
+  const url = parseUrl(input);
+  if (!url) return null;
+
+  const host = hostOf(url);
+  const unicodeHost = toUnicodeHost(host);
+  const path = safeDecode(url.pathname + url.search).toLowerCase();
+  const signals: UrlSignal[] = [];
+  const add = (signal: UrlSignal) => signals.push(signal);
+
+  const blocked = lists.blocklist.find(entry => matchesEntry(host, url.pathname, entry));
+  if (blocked) add({ id: 'blocklist', category: 'list', label: 'On local blocklist', weight: 60, detail: `Matches "${blocked}"` });
+
+  const allowed = lists.allowlist.find(entry => matchesEntry(host, url.pathname, entry));
+  if (allowed && !blocked) {
+    add({ id: 'allowlist', category: 'list', label: 'On local allowlist', weight: -60, detail: `Matches "${allowed}"; other heuristics not applied` });
+  } else {
+    const isIp = /^\d{1,3}(\.\d{1,3}){3}$/.test(host) || host.includes(':');
+
+    if (!isIp) {
+      const brand = lists.brand_domains.map(b => brandSignal(host, unicodeHost, b)).filter((s): s is UrlSignal => s !== null)
+        .sort((a, b) => a.weight - b.weight)[0];
+      if (brand) add(brand);
+      if (unicodeHost !== host && brand?.id !== 'homoglyph') {
+        add({ id: 'punycode', category: 'lookalike', label: 'Internationalized (punycode) domain', weight: 10, detail: `${host} displays as ${unicodeHost}` });
+      }
+
+      const tld = host.slice(host.lastIndexOf('.') + 1);
+      if (SUSPICIOUS_TLDS.has(tld)) add({ id: 'suspicious-tld', category: 'tld', label: 'High-abuse TLD', weight: 10, detail: `.${tld}` });
+    }
+
+    const registrable = registrableDomain(host);
+    if (SHORTENERS.has(host) || SHORTENERS.has(registrable)) {
+      add({ id: 'shortener', category: 'shortener', label: 'URL shortener hides the destination', weight: 15, detail: host });
+    }
+    if (CYBERLOCKERS.has(registrable)) {
+      add({ id: 'cyberlocker', category: 'pattern', label: 'Cyberlocker / file host', weight: 20, detail: registrable });
+    }
+    for (const rule of PATTERN_RULES) {
+      const match = `${unicodeHost}${path}`.match(rule.pattern);
+      if (match) add({ id: rule.id, category: 'pattern', label: rule.label, weight: rule.weight, detail: `"${match[0]}"` });
+    }
+
+    if (isIp) add({ id: 'ip-host', category: 'structure', label: 'Raw IP address instead of a domain', weight: 15, detail: host });
+    if (url.username || url.password) add({ id: 'userinfo', category: 'structure', label: 'Credentials before the host', weight: 15, detail: `Real host is ${host}` });
+    if (url.protocol === 'http:') add({ id: 'no-tls', category: 'structure', label: 'Plain HTTP', weight: 5, detail: 'No TLS' });
+    if (url.port) add({ id: 'port', category: 'structure', label: 'Non-standard port', weight: 5, detail: `:${url.port}` });
+    if (!isIp && host.split('.').length > 4) add({ id: 'deep-subdomain', category: 'structure', label: 'Deeply nested subdomains', weight: 5, detail: host });
+    for (const [key, value] of url.searchParams) {
+      // Values such as "http://" that do not parse are not redirects
+      const parsed = /^https?:\/\//i.test(value) ? parseUrl(value) : null;
+      const target = parsed && hostOf(parsed);
+      if (target && target !== host) {
+        add({ id: 'redirect-param', category: 'structure', label: 'Redirects to another host', weight: 10, detail: `${key}=${target}` });
+        break;
+      }
+    }
+  }
+
+  const total = signals.reduce((sum, s) => sum + s.weight, 0);
+  return {
+    host,
+    unicode_host: unicodeHost !== host ? unicodeHost : undefined,
+    registrable_domain: registrableDomain(host),
+    score: Math.max(0, Math.min(100, total)),
+    signals,
+  };
+};
+
+const formatSignal = (s: UrlSignal) => `URL heuristic ${s.weight > 0 ? '+' : ''}${s.weight}: ${s.label} — ${s.detail}`;
+
+export const analyzeUrlLocally = (input: string, lists?: UrlLists): LocalFindings => {
+  const findings: LocalFindings = { evidence: [], promptContext: [], dataGaps: [] };
+  const analysis = analyzeUrl(input, lists);
+  if (!analysis) {
+    findings.dataGaps.push("The URL could not be parsed, so no local URL heuristics were applied.");
+    return findings;
+  }
+
+  findings.evidence.push(...analysis.signals.map(s => measured('url_heuristic', 'URL heuristics', `${s.label} — ${s.detail}`, s.weight)));
+  findings.promptContext.push(
+    `URL heuristics (deterministic, measured locally): score ${analysis.score}/100 from ${analysis.signals.length} signal(s) on ${analysis.host}.`,
+    ...analysis.signals.map(formatSignal),
+  );
+  if (analysis.signals.length === 0) findings.promptContext.push("No URL heuristic fired: the domain, TLD and path look unremarkable.");
+  if (!lists || lists.brand_domains.length === 0) {
+    findings.dataGaps.push("No brand domains configured; typosquat and lookalike checks were skipped.");
+  }
+  findings.engineScores = [{ name: 'URL heuristics', score: analysis.score }];
+  findings.report = { url_analysis: analysis };
+  return findings;
+};
+
+// --- Saved lists ------------------------------------------------------------
+
+const cleanList = (value: unknown, name: string): string[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) throw new Error(`${name} must be a list of strings`);
+  if (value.length > MAX_LIST_ENTRIES) throw new Error(`${name} has more than ${MAX_LIST_ENTRIES} entries`);
+  return [...new Set(value.map(item => item.trim()).filter(Boolean))];
+};
+
+// Accepts lists from JSON files and API requests; throws on anything that is not a list of strings
+export const parseUrlLists = (value: unknown): UrlLists => {
+  if (!isRecord(value)) throw new Error('URL lists must be an object');
+  return {
+    brand_domains: cleanList(value.brand_domains, 'brand_domains'),
+    blocklist: cleanList(value.blocklist, 'blocklist'),
+    allowlist: cleanList(value.allowlist, 'allowlist'),
+  };
+};
+
+export const loadUrlLists = async (): Promise<UrlLists> =>
+  (await getOne<{ id: string; value: UrlLists }>(STORES.settings, LISTS_ID))?.value ?? EMPTY_URL_LISTS;
+
+export const saveUrlLists = (lists: UrlLists) => put(STORES.settings, { id: LISTS_ID, value: parseUrlLists(lists) });
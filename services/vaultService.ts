@@ -0,0 +1,236 @@
+import { AudioMatch, EvidenceType, ImageFingerprint, LocalFindings, VaultAsset, VaultMatch } from "../types";
+import { getAll, getOne, put, remove, STORES } from "./db";
+import { sha256Hex } from "./contentHash";
+import { classifyFile, fileToText } from "./fileUtils";
+import { fingerprintImage } from "./perceptualHash";
+import { compareFingerprint, MATCH_THRESHOLD, ReferenceFingerprint } from "./imageIndex";
+import { signatureSimilarity, textSignature } from "./textFingerprint";
+import { parseDocument } from "./documentParser";
+import { parsePdf } from "./pdfParser";
+import { formatTimestamp, sampleKeyframes } from "./videoFrames";
+import { fingerprintAudio } from "./audioFingerprint";
+import { measured } from "./evidence";
+import { stageWarning } from "./stageLog";
+
+// Estimated shingle overlap at or above this counts as reuse of a vault text
+const TEXT_MATCH_THRESHOLD = 40;
+
+export interface VaultAssetInput {
+  title: string;
+  owner: string;
+  license: string;
+}
+
+// What a scanned asset looks like to the vault matcher
+export interface VaultProbe {
+  sha256: string;
+  imageFingerprint?: ImageFingerprint;
+  textSignature?: number[];
+  claimedOwners?: string[]; // creator/copyright names embedded in the scanned file
+  videoKeyframes?: ImageFingerprint[];
+  audioMatches?: AudioMatch[]; // already matched against vault audio fingerprints
+}
+
+interface VaultFileRecord {
+  id: string;
+  file: Blob;
+}
+
+export const listVaultAssets = async (): Promise<VaultAsset[]> => {
+  const assets = await getAll<VaultAsset>(STORES.vault);
+  return assets.sort((a, b) => b.created_at.localeCompare(a.created_at));
+};
+
+// Image fingerprints and video keyframes of every registered original, for perceptual matching
+export const listReferenceFingerprints = async (): Promise<ReferenceFingerprint[]> =>
+  (await listVaultAssets()).flatMap(asset => [
+    ...(asset.image_fingerprint ? [{ id: asset.id, label: asset.title, fingerprint: asset.image_fingerprint }] : []),
+    ...(asset.video_keyframes ?? []).map(frame => ({
+      id: asset.id, label: `${asset.title} @ ${formatTimestamp(frame.timestamp)}`, fingerprint: frame.fingerprint,
+    })),
+  ]);
+
+export const getVaultFile = async (id: string): Promise<Blob | undefined> =>
+  (await getOne<VaultFileRecord>(STORES.vaultFiles, id))?.file;
+
+export const addVaultAsset = async (file: File, input: VaultAssetInput): Promise<VaultAsset> => {
+  const kind = classifyFile(file);
+  const asset: VaultAsset = {
+    id: crypto.randomUUID(),
+    title: input.title.trim() || file.name,
+    owner: input.owner.trim(),
+    license: input.license.trim(),
+    file_name: file.name,
+    mime_type: file.type,
+    size: file.size,
+    kind,
+    sha256: await sha256Hex(file),
+    created_at: new Date().toISOString(),
+  };
+
+  if (kind === 'video') {
+    try {
+      const sampled = await sampleKeyframes(file);
+      asset.video_keyframes = sampled.keyframes.map(k => ({ timestamp: k.timestamp, fingerprint: k.fingerprint }));
+    } catch (error) {
+      console.warn("Vault video could not be decoded; storing exact hash only:", error);
+    }
+    try {
+      asset.audio_fingerprint = await fingerprintAudio(file);
+    } catch (error) {
+      console.warn("Vault video has no decodable soundtrack:", error);
+    }
+  } else if (kind === 'audio') {
+    try {
+      asset.audio_fingerprint = await fingerprintAudio(file);
+    } catch (error) {
+      console.warn("Vault audio could not be decoded; storing exact hash only:", error);
+    }
+  } else if (kind === 'image') {
+    try {
+      asset.image_fingerprint = await fingerprintImage(file);
+    } catch (error) {
+      console.warn("Vault image could not be decoded; storing exact hash only:", error);
+    }
+  } else if (kind === 'text') {
+    asset.text_signature = textSignature(await fileToText(file)) ?? undefined;
+  } else if (kind === 'pdf') {
+    try {
+      asset.text_signature = textSignature((await parsePdf(file)).pages.join('\n')) ?? undefined;
+    } catch (error) {
+      console.warn("Vault PDF could not be parsed; storing exact hash only:", error);
+    }
+  } else if (kind === 'document') {
+    try {
+      asset.text_signature = textSignature((await parseDocument(file)).text) ?? undefined;
+    } catch (error) {
+      console.warn("Vault document could not be parsed; storing exact hash only:", error);
+    }
+  }
+
+  await put(STORES.vault, asset);
+  await put<VaultFileRecord>(STORES.vaultFiles, { id: asset.id, file });
+  return asset;
+};
+
+export const deleteVaultAsset = async (id: string) => {
+  await remove(STORES.vault, id);
+  await remove(STORES.vaultFiles, id);
+};
+
+const toMatch = (asset: VaultAsset, method: VaultMatch['method'], similarity: number): VaultMatch => ({
+  asset_id: asset.id,
+  title: asset.title,
+  owner: asset.owner,
+  license: asset.license,
+  method,
+  similarity,
+});
+
+// Average similarity of the probe frames that matched any asset frame, or null when none did
+const perceptualOverlap = (probeFrames: ImageFingerprint[], assetFrames: ImageFingerprint[]) => {
+  const matched: number[] = [];
+  for (const frame of probeFrames) {
+    let best = 0;
+    for (const reference of assetFrames) {
+      const compared = compareFingerprint(frame, '', '', reference);
+      if (compared.phash_similarity >= MATCH_THRESHOLD) best = Math.max(best, compared.similarity);
+    }
+    if (best > 0) matched.push(best);
+  }
+  return matched.length ? Math.round(matched.reduce((a, b) => a + b, 0) / matched.length) : null;
+};
+
+export const findVaultMatches = (probe: VaultProbe, assets: VaultAsset[]): VaultMatch[] => {
+  const matches: VaultMatch[] = [];
+  for (const asset of assets) {
+    if (asset.sha256 === probe.sha256) {
+      matches.push(toMatch(asset, 'exact', 100));
+      continue;
+    }
+    const probeFrames = probe.videoKeyframes ?? (probe.imageFingerprint ? [probe.imageFingerprint] : []);
+    const assetFrames = asset.video_keyframes?.map(k => k.fingerprint) ?? (asset.image_fingerprint ? [asset.image_fingerprint] : []);
+    if (probeFrames.length > 0 && assetFrames.length > 0) {
+      const similarity = perceptualOverlap(probeFrames, assetFrames);
+      if (similarity !== null) {
+        matches.push(toMatch(asset, 'perceptual', similarity));
+        continue;
+      }
+    }
+    const audio = probe.audioMatches?.filter(m => m.reference_id === asset.id) ?? [];
+    if (audio.length > 0) {
+      matches.push(toMatch(asset, 'audio', Math.max(...audio.map(m => m.similarity))));
+      continue;
+    }
+    if (probe.textSignature && asset.text_signature) {
+      const similarity = signatureSimilarity(probe.textSignature, asset.text_signature);
+      if (similarity >= TEXT_MATCH_THRESHOLD) {
+        matches.push(toMatch(asset, 'text', similarity));
+      }
+    }
+  }
+  return matches.sort((a, b) => b.similarity - a.similarity);
+};
+
+export const formatVaultMatch = (match: VaultMatch) =>
+  `${match.title} — ${match.owner || 'Unknown owner'}${match.license ? ` (${match.license})` : ''} · ${match.similarity}% ${match.method} match`;
+
+const MATCH_EVIDENCE: Record<VaultMatch['method'], EvidenceType> = {
+  exact: 'hash_match',
+  perceptual: 'hash_match',
+  text: 'text_match',
+  audio: 'audio_match',
+};
+
+const namesOverlap = (a: string, b: string) => {
+  const x = a.toLowerCase().trim();
+  const y = b.toLowerCase().trim();
+  return x.includes(y) || y.includes(x);
+};
+
+export const checkAgainstVault = async (probe: VaultProbe): Promise<LocalFindings> => {
+  const findings: LocalFindings = { evidence: [], promptContext: [], dataGaps: [] };
+
+  let assets: VaultAsset[];
+  try {
+    assets = await listVaultAssets();
+  } catch (error) {
+    stageWarning("Vault unavailable:", error);
+    findings.dataGaps.push("Protected-asset vault could not be opened; no ownership comparison was made.");
+    findings.report = { probable_original_sources: [], vault_matches: [] };
+    return findings;
+  }
+
+  const matches = findVaultMatches(probe, assets);
+  findings.report = {
+    probable_original_sources: matches.map(formatVaultMatch),
+    vault_matches: matches,
+  };
+
+  if (assets.length === 0) {
+    findings.dataGaps.push("Protected-asset vault is empty; register originals to enable ownership matching.");
+    findings.promptContext.push("Protected-asset vault: empty, no ownership comparison possible.");
+  } else if (matches.length === 0) {
+    findings.evidence.push(measured('hash_match', 'Vault', `No match against ${assets.length} registered vault asset(s)`, -10));
+    findings.promptContext.push(`Protected-asset vault: checked ${assets.length} registered original(s), none matched.`);
+  } else {
+    for (const match of matches.slice(0, 5)) {
+      findings.evidence.push(measured(MATCH_EVIDENCE[match.method], 'Vault', `Vault match: ${formatVaultMatch(match)}`, match.similarity,
+        { label: match.title, asset_id: match.asset_id }));
+    }
+    const claimed = probe.claimedOwners ?? [];
+    for (const match of matches) {
+      if (match.owner && claimed.length > 0 && !claimed.some(name => namesOverlap(name, match.owner))) {
+        findings.evidence.push(measured('metadata', 'Vault',
+          `Copyright/creator field names a different owner ("${claimed[0]}") than registered rights holder "${match.owner}" of "${match.title}"`,
+          30, { label: match.title, asset_id: match.asset_id }));
+        break;
+      }
+    }
+    findings.promptContext.push(
+      `Protected-asset vault: ${matches.length} registered original(s) matched. These are OUR assets: ` +
+      matches.slice(0, 5).map(formatVaultMatch).join('; ')
+    );
+  }
+  return findings;
+};
@@ -0,0 +1,118 @@
+import { FrameMatch, ImageFingerprint, LocalFindings, VideoKeyframe } from "../types";
+import { captureStills, formatTimestamp, sampleKeyframes } from "./videoFrames";
+import { compareFingerprint, MATCH_THRESHOLD, ReferenceFingerprint } from "./imageIndex";
+import { listReferenceFingerprints } from "./vaultService";
+import { measured } from "./evidence";
+import { MAX_SEGMENTS } from "./fileUtils";
+import { stageWarning } from "./stageLog";
+
+// Frames sent to the model per time window
+const MAX_STILLS = 6;
+
+// Longer videos are shown to the model one window at a time
+const WINDOW_SECONDS = 10 * 60;
+
+// Stills from one stretch of the video; a video shorter than WINDOW_SECONDS has a single window
+export interface StillWindow {
+  start: number;
+  end: number;
+  stills: string[]; // base64 JPEG
+}
+
+export interface VideoAnalysisResult {
+  findings: LocalFindings;
+  keyframes: ImageFingerprint[];
+  windows: StillWindow[];
+}
+
+const loadReferences = async (): Promise<ReferenceFingerprint[]> => {
+  try {
+    return await listReferenceFingerprints();
+  } catch (error) {
+    stageWarning("Vault unavailable for frame matching:", error);
+    return [];
+  }
+};
+
+const bestMatch = (fingerprint: ImageFingerprint, references: ReferenceFingerprint[]): FrameMatch | undefined => {
+  let best: FrameMatch | undefined;
+  for (const reference of references) {
+    const compared = compareFingerprint(fingerprint, reference.id, reference.label, reference.fingerprint);
+    if (compared.phash_similarity < MATCH_THRESHOLD) continue;
+    if (!best || compared.similarity > best.similarity) {
+      best = { reference_id: reference.id, label: reference.label, source: 'vault', similarity: compared.similarity };
+    }
+  }
+  return best;
+};
+
+const evenlySpaced = <T,>(items: T[], count: number) =>
+  items.length <= count ? items : Array.from({ length: count }, (_, i) => items[Math.floor((i * items.length) / count)]);
+
+export const analyzeVideoLocally = async (file: File, signal?: AbortSignal): Promise<VideoAnalysisResult | null> => {
+  const findings: LocalFindings = { evidence: [], promptContext: [], dataGaps: [] };
+
+  let sampled;
+  try {
+    sampled = await sampleKeyframes(file, signal);
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    stageWarning("Video decoding failed:", error);
+    return null;
+  }
+
+  const references = await loadReferences();
+  const keyframes: VideoKeyframe[] = sampled.keyframes.map(k => ({ ...k, match: bestMatch(k.fingerprint, references) }));
+  const matched = keyframes.filter(k => k.match);
+
+  findings.report = { video_analysis: { ...sampled, keyframes } };
+  findings.engineScores = keyframes.length ? [
+    { name: 'Frame match rate', score: Math.round((matched.length / keyframes.length) * 100) },
+    { name: 'Best frame pHash', score: Math.max(0, ...matched.map(k => k.match!.similarity)) },
+  ] : [];
+
+  // One evidence line per matched reference, listing the timestamps where it appears
+  const byReference = new Map<string, VideoKeyframe[]>();
+  for (const frame of matched) {
+    const label = frame.match!.label.replace(/ @ .*$/, '');
+    byReference.set(label, [...(byReference.get(label) ?? []), frame]);
+  }
+  for (const [label, frames] of byReference) {
+    const average = Math.round(frames.reduce((sum, f) => sum + f.match!.similarity, 0) / frames.length);
+    findings.evidence.push(measured('hash_match', 'Keyframe pHash',
+      `Keyframes at ${frames.slice(0, 6).map(f => formatTimestamp(f.timestamp)).join(', ')}${frames.length > 6 ? '…' : ''} match vault asset "${label}" (avg ${average}%)`,
+      average, { label }
+    ));
+  }
+  if (matched.length === 0) {
+    findings.evidence.push(measured('hash_match', 'Keyframe pHash', `None of ${keyframes.length} keyframes matched ${references.length} known reference frame(s)`, -10));
+  }
+
+  findings.promptContext.push(
+    `Video: ${formatTimestamp(sampled.duration)} long, ${sampled.width}x${sampled.height}, ${sampled.sampled_frames} frames sampled every ${sampled.sample_interval}s, ${keyframes.length} scene keyframes; ${matched.length} matched known content.`
+  );
+
+  // Per window: matched frames first, then fill with evenly spaced ones
+  const windowCount = Math.min(MAX_SEGMENTS, Math.max(1, Math.ceil(sampled.duration / WINDOW_SECONDS)));
+  const windowLength = sampled.duration / windowCount;
+  const windowOf = (k: VideoKeyframe) => windowCount === 1 ? 0 : Math.min(windowCount - 1, Math.floor(k.timestamp / windowLength));
+  const chosen = Array.from({ length: windowCount }, (_, w) => {
+    const inWindow = keyframes.filter(k => windowOf(k) === w);
+    const frames = [...inWindow.filter(k => k.match), ...evenlySpaced(inWindow.filter(k => !k.match), MAX_STILLS)].slice(0, MAX_STILLS)
+      .sort((a, b) => a.timestamp - b.timestamp);
+    return { start: w * windowLength, end: (w + 1) * windowLength, frames };
+  }).filter(w => w.frames.length > 0);
+  let windows: StillWindow[] = [];
+  try {
+    const stills = await captureStills(file, chosen.flatMap(w => w.frames.map(k => k.timestamp)), signal);
+    let next = 0;
+    windows = chosen.map(({ start, end, frames }) => ({ start, end, stills: stills.slice(next, next += frames.length) }));
+    findings.promptContext.push(`Representative frames attached at ${chosen.flatMap(w => w.frames).map(k => formatTimestamp(k.timestamp)).join(', ')}.`);
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    stageWarning("Could not capture representative frames:", error);
+    findings.dataGaps.push("Representative frames could not be captured for visual review.");
+  }
+
+  return { findings, keyframes: keyframes.map(k => k.fingerprint), windows };
+};
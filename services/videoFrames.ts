@@ -0,0 +1,151 @@
+import { ImageFingerprint } from "../types";
+import { fingerprintSource, hammingDistance } from "./perceptualHash";
+
+// Sampling budget: at most this many seeks per video, never closer than MIN_INTERVAL seconds
+const MAX_SAMPLES = 240;
+const MIN_INTERVAL = 0.5;
+const MAX_KEYFRAMES = 32;
+
+// dHash bits that must change between neighbouring samples to call it a cut,
+// or against the last keyframe to catch slow pans and fades
+const CUT_THRESHOLD = 16;
+const DRIFT_THRESHOLD = 24;
+
+export interface SampledKeyframe {
+  timestamp: number;
+  fingerprint: ImageFingerprint;
+  scene_change: number; // 0-100, share of dHash bits that flipped
+  thumbnail_data_url: string;
+}
+
+export interface SampledVideo {
+  duration: number;
+  width: number;
+  height: number;
+  sampled_frames: number;
+  sample_interval: number;
+  keyframes: SampledKeyframe[];
+}
+
+export const formatTimestamp = (seconds: number) => {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+const waitFor = (video: HTMLVideoElement, event: string) =>
+  new Promise<void>((resolve, reject) => {
+    const onEvent = () => { cleanup(); resolve(); };
+    const onError = () => { cleanup(); reject(new Error(video.error?.message || "Video could not be decoded")); };
+    const cleanup = () => {
+      video.removeEventListener(event, onEvent);
+      video.removeEventListener('error', onError);
+    };
+    video.addEventListener(event, onEvent);
+    video.addEventListener('error', onError);
+  });
+
+const seek = async (video: HTMLVideoElement, time: number) => {
+  const seeked = waitFor(video, 'seeked');
+  video.currentTime = time;
+  await seeked;
+};
+
+// Current frame scaled to fit `maxWidth`, as a JPEG data URL
+export const captureFrame = (video: HTMLVideoElement, maxWidth: number, quality = 0.7) => {
+  const scale = Math.min(1, maxWidth / video.videoWidth);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(video.videoWidth * scale));
+  canvas.height = Math.max(1, Math.round(video.videoHeight * scale));
+  canvas.getContext('2d')!.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', quality);
+};
+
+export const openVideo = async (file: Blob) => {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'auto';
+  video.playsInline = true;
+  const url = URL.createObjectURL(file);
+  video.src = url;
+  try {
+    await waitFor(video, 'loadeddata');
+  } catch (error) {
+    URL.revokeObjectURL(url);
+    throw error;
+  }
+  const close = () => {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  };
+  return { video, close };
+};
+
+export const sampleKeyframes = async (file: Blob, signal?: AbortSignal): Promise<SampledVideo> => {
+  const { video, close } = await openVideo(file);
+  try {
+    const duration = Number.isFinite(video.duration) ? video.duration : 0;
+    const interval = Math.max(MIN_INTERVAL, duration / MAX_SAMPLES);
+    const candidates: SampledKeyframe[] = [];
+    let previous: ImageFingerprint | null = null;
+    let lastKeyframe: ImageFingerprint | null = null;
+    let sampled = 0;
+
+    for (let time = 0; time < Math.max(duration, 0.001); time += interval) {
+      signal?.throwIfAborted();
+      await seek(video, Math.min(time, Math.max(duration - 0.05, 0)));
+      const fingerprint = fingerprintSource(video, video.videoWidth, video.videoHeight);
+      sampled++;
+
+      const cut = previous ? hammingDistance(previous.dhash, fingerprint.dhash) : 64;
+      const drift = lastKeyframe ? hammingDistance(lastKeyframe.dhash, fingerprint.dhash) : 64;
+      if (!lastKeyframe || cut >= CUT_THRESHOLD || drift >= DRIFT_THRESHOLD) {
+        candidates.push({
+          timestamp: Math.round(video.currentTime * 100) / 100,
+          fingerprint,
+          scene_change: Math.round((Math.max(cut, drift) / 64) * 100),
+          thumbnail_data_url: captureFrame(video, 160),
+        });
+        lastKeyframe = fingerprint;
+      }
+      previous = fingerprint;
+      if (duration === 0) break;
+    }
+
+    // Keep the opening frame plus the strongest scene changes, in playback order
+    const keyframes = candidates.length <= MAX_KEYFRAMES ? candidates : [
+      candidates[0],
+      ...candidates.slice(1).sort((a, b) => b.scene_change - a.scene_change).slice(0, MAX_KEYFRAMES - 1),
+    ].sort((a, b) => a.timestamp - b.timestamp);
+
+    return {
+      duration,
+      width: video.videoWidth,
+      height: video.videoHeight,
+      sampled_frames: sampled,
+      sample_interval: Math.round(interval * 100) / 100,
+      keyframes,
+    };
+  } finally {
+    close();
+  }
+};
+
+// Larger JPEG stills of the chosen timestamps, for the model request
+export const captureStills = async (file: Blob, timestamps: number[], signal?: AbortSignal, maxWidth = 640): Promise<string[]> => {
+  const { video, close } = await openVideo(file);
+  try {
+    const stills: string[] = [];
+    for (const time of timestamps) {
+      signal?.throwIfAborted();
+      await seek(video, time);
+      stills.push(captureFrame(video, maxWidth, 0.8).split(',')[1]);
+    }
+    return stills;
+  } finally {
+    close();
+  }
+};
@@ -0,0 +1,324 @@
+import { LocalFindings, VaultAsset, WatermarkDetection, WatermarkPayload } from "../types";
+import { getVaultFile, listVaultAssets } from "./vaultService";
+import { put, STORES } from "./db";
+import { measured } from "./evidence";
+import { stageWarning } from "./stageLog";
+
+// Invisible watermark in the block-DCT domain of a size-normalised luminance grid. Every image is
+// resampled to GRID x GRID before embedding and detection, so the 1024 8x8 blocks land on the same
+// content at any output size; each block carries one bit as the sign of a mid-frequency coefficient pair.
+// The 80-bit codeword (64-bit payload + CRC-16) is repeated ~12 times across shuffled blocks and
+// decoded by soft majority vote, which is what lets it survive resizing and JPEG re-compression.
+// Cropping, rotation and mirroring move the grid and are not survived.
+
+const GRID = 256;
+const BLOCK = 8;
+const BLOCKS_PER_ROW = GRID / BLOCK;
+const BLOCK_COUNT = BLOCKS_PER_ROW * BLOCKS_PER_ROW;
+const CODE_BITS = 80;
+// Target coefficient gap on the 0-255 luma scale; peaks at a few grey levels in the pixel domain (~47 dB PSNR)
+const STRENGTH = 14;
+// Below this share of agreeing copies a CRC match is treated as chance
+const MIN_AGREEMENT = 65;
+const KEY = 0x44c7a3e1;
+const MAX_PIXELS = 40_000_000;
+
+// Coefficients (row 1, col 2) and (row 2, col 1) of the orthonormal 8x8 DCT
+const COEFF_A: [number, number] = [1, 2];
+const COEFF_B: [number, number] = [2, 1];
+
+const DCT_BASIS = Array.from({ length: BLOCK }, (_, k) =>
+  Float64Array.from({ length: BLOCK }, (_, n) =>
+    Math.sqrt((k === 0 ? 1 : 2) / BLOCK) * Math.cos(((2 * n + 1) * k * Math.PI) / (2 * BLOCK))));
+
+// --- Keyed layout -----------------------------------------------------------
+
+const mulberry32 = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Which codeword bit each block carries, and the whitening bit XORed onto it
+const LAYOUT = (() => {
+  const random = mulberry32(KEY);
+  const order = Array.from({ length: BLOCK_COUNT }, (_, i) => i);
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  const bitOf = new Int32Array(BLOCK_COUNT);
+  const flip = new Uint8Array(BLOCK_COUNT);
+  order.forEach((block, i) => {
+    bitOf[block] = i % CODE_BITS;
+    flip[block] = random() < 0.5 ? 1 : 0;
+  });
+  return { bitOf, flip };
+})();
+
+// --- Payload coding ---------------------------------------------------------
+
+const crc16 = (bits: number[]) => {
+  let crc = 0xffff;
+  for (const bit of bits) {
+    const top = ((crc >> 15) & 1) ^ bit;
+    crc = ((crc << 1) & 0xffff) ^ (top ? 0x1021 : 0);
+  }
+  return crc;
+};
+
+const hexToBits = (hex: string) =>
+  [...hex].flatMap(ch => { const n = parseInt(ch, 16); return [(n >> 3) & 1, (n >> 2) & 1, (n >> 1) & 1, n & 1]; });
+
+const bitsToHex = (bits: number[]) => {
+  let hex = '';
+  for (let i = 0; i < bits.length; i += 4) hex += ((bits[i] << 3) | (bits[i + 1] << 2) | (bits[i + 2] << 1) | bits[i + 3]).toString(16);
+  return hex;
+};
+
+const encodePayload = ({ owner_id, asset_id }: WatermarkPayload) => {
+  const bits = hexToBits(owner_id + asset_id);
+  return [...bits, ...hexToBits(crc16(bits).toString(16).padStart(4, '0'))];
+};
+
+// FNV-1a over the normalised name, so the same owner always gets the same id
+export const ownerId = (owner: string) => {
+  let hash = 0x811c9dc5;
+  for (const byte of new TextEncoder().encode(owner.trim().toLowerCase())) hash = Math.imul(hash ^ byte, 0x01000193);
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+export const payloadFor = (asset: VaultAsset): WatermarkPayload => ({
+  owner_id: ownerId(asset.owner),
+  asset_id: asset.id.replace(/-/g, '').slice(0, 8).toLowerCase(),
+});
+
+// --- Grid maths -------------------------------------------------------------
+
+// Area-weighted resampling along one axis: each output sample averages the input span it covers
+const resampleAxis = (src: Float64Array, width: number, height: number, size: number, horizontal: boolean) => {
+  const length = horizontal ? width : height;
+  const out = new Float64Array(horizontal ? size * height : width * size);
+  const scale = length / size;
+  for (let d = 0; d < size; d++) {
+    const start = d * scale;
+    const end = start + scale;
+    for (let s = Math.floor(start); s < Math.min(Math.ceil(end), length); s++) {
+      const weight = (Math.min(end, s + 1) - Math.max(start, s)) / scale;
+      if (weight <= 0) continue;
+      if (horizontal) {
+        for (let y = 0; y < height; y++) out[y * size + d] += src[y * width + s] * weight;
+      } else {
+        for (let x = 0; x < width; x++) out[d * width + x] += src[s * width + x] * weight;
+      }
+    }
+  }
+  return out;
+};
+
+export const toGrid = (luma: Float64Array, width: number, height: number) =>
+  resampleAxis(resampleAxis(luma, width, height, GRID, true), GRID, height, GRID, false);
+
+const coefficient = (grid: Float64Array, bx: number, by: number, [row, col]: [number, number]) => {
+  let sum = 0;
+  for (let y = 0; y < BLOCK; y++) {
+    const offset = (by * BLOCK + y) * GRID + bx * BLOCK;
+    for (let x = 0; x < BLOCK; x++) sum += grid[offset + x] * DCT_BASIS[row][y] * DCT_BASIS[col][x];
+  }
+  return sum;
+};
+
+// Soft bit per block: positive leans towards 1
+const blockGap = (grid: Float64Array, block: number) => {
+  const bx = block % BLOCKS_PER_ROW;
+  const by = Math.floor(block / BLOCKS_PER_ROW);
+  return coefficient(grid, bx, by, COEFF_A) - coefficient(grid, bx, by, COEFF_B);
+};
+
+// Pixel-domain change on the grid that pushes every block's coefficient gap past STRENGTH
+export const embedDelta = (grid: Float64Array, payload: WatermarkPayload) => {
+  const code = encodePayload(payload);
+  const delta = new Float64Array(GRID * GRID);
+  for (let block = 0; block < BLOCK_COUNT; block++) {
+    const sign = (code[LAYOUT.bitOf[block]] ^ LAYOUT.flip[block]) ? 1 : -1;
+    const gap = blockGap(grid, block) * sign;
+    if (gap >= STRENGTH) continue;
+    // Split the correction evenly between the two coefficients
+    const shift = ((STRENGTH - gap) / 2) * sign;
+    const bx = block % BLOCKS_PER_ROW;
+    const by = Math.floor(block / BLOCKS_PER_ROW);
+    for (let y = 0; y < BLOCK; y++) {
+      for (let x = 0; x < BLOCK; x++) {
+        delta[(by * BLOCK + y) * GRID + bx * BLOCK + x] = shift * (
+          DCT_BASIS[COEFF_A[0]][y] * DCT_BASIS[COEFF_A[1]][x] - DCT_BASIS[COEFF_B[0]][y] * DCT_BASIS[COEFF_B[1]][x]
+        );
+      }
+    }
+  }
+  return delta;
+};
+
+export const decodeGrid = (grid: Float64Array): (WatermarkPayload & { agreement: number }) | null => {
+  const votes = new Float64Array(CODE_BITS);
+  const gaps = new Float64Array(BLOCK_COUNT);
+  for (let block = 0; block < BLOCK_COUNT; block++) {
+    gaps[block] = blockGap(grid, block) * (LAYOUT.flip[block] ? -1 : 1);
+    votes[LAYOUT.bitOf[block]] += gaps[block];
+  }
+  const bits = Array.from(votes, v => (v > 0 ? 1 : 0));
+  const payloadBits = bits.slice(0, 64);
+  if (crc16(payloadBits) !== parseInt(bitsToHex(bits.slice(64)), 16)) return null;
+
+  let agreeing = 0;
+  for (let block = 0; block < BLOCK_COUNT; block++) {
+    if ((gaps[block] > 0 ? 1 : 0) === bits[LAYOUT.bitOf[block]]) agreeing++;
+  }
+  const agreement = Math.round((agreeing / BLOCK_COUNT) * 100);
+  if (agreement < MIN_AGREEMENT) return null;
+  const hex = bitsToHex(payloadBits);
+  return { owner_id: hex.slice(0, 8), asset_id: hex.slice(8), agreement };
+};
+
+// Bilinear upsampling keeps the embedded pattern smooth at full resolution
+const upsample = (grid: Float64Array, width: number, height: number) => {
+  const out = new Float64Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const gy = Math.min(Math.max(((y + 0.5) * GRID) / height - 0.5, 0), GRID - 1);
+    const y0 = Math.floor(gy);
+    const y1 = Math.min(y0 + 1, GRID - 1);
+    const fy = gy - y0;
+    for (let x = 0; x < width; x++) {
+      const gx = Math.min(Math.max(((x + 0.5) * GRID) / width - 0.5, 0), GRID - 1);
+      const x0 = Math.floor(gx);
+      const x1 = Math.min(x0 + 1, GRID - 1);
+      const fx = gx - x0;
+      const top = grid[y0 * GRID + x0] * (1 - fx) + grid[y0 * GRID + x1] * fx;
+      const bottom = grid[y1 * GRID + x0] * (1 - fx) + grid[y1 * GRID + x1] * fx;
+      out[y * width + x] = top * (1 - fy) + bottom * fy;
+    }
+  }
+  return out;
+};
+
+// --- Image I/O --------------------------------------------------------------
+
+const createCanvas = (width: number, height: number) => {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+const readPixels = async (file: Blob) => {
+  const bitmap = await createImageBitmap(file);
+  try {
+    const { width, height } = bitmap;
+    if (width * height > MAX_PIXELS) throw new Error(`Image too large to watermark (${width}x${height})`);
+    const canvas = createCanvas(width, height);
+    const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+    if (!ctx) throw new Error("Canvas 2D context unavailable");
+    ctx.drawImage(bitmap, 0, 0);
+    return { canvas, ctx, image: ctx.getImageData(0, 0, width, height), width, height };
+  } finally {
+    bitmap.close();
+  }
+};
+
+const lumaOf = ({ data }: ImageData) => {
+  const luma = new Float64Array(data.length / 4);
+  for (let i = 0; i < luma.length; i++) luma[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  return luma;
+};
+
+// Returns a watermarked copy: JPEG stays JPEG (high quality), everything else becomes PNG
+export const embedWatermark = async (file: Blob, payload: WatermarkPayload): Promise<Blob> => {
+  const { canvas, ctx, image, width, height } = await readPixels(file);
+  const delta = upsample(embedDelta(toGrid(lumaOf(image), width, height), payload), width, height);
+  const { data } = image;
+  for (let i = 0; i < delta.length; i++) {
+    // Adding the same amount to R, G and B shifts luma by exactly that amount
+    for (let c = 0; c < 3; c++) data[i * 4 + c] = Math.min(255, Math.max(0, Math.round(data[i * 4 + c] + delta[i])));
+  }
+  ctx.putImageData(image, 0, 0);
+
+  const type = file.type === 'image/jpeg' ? 'image/jpeg' : 'image/png';
+  if ('convertToBlob' in canvas) return canvas.convertToBlob({ type, quality: 0.95 });
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Could not encode the watermarked image"))), type, 0.95));
+};
+
+export const readWatermark = async (file: Blob) => {
+  const { image, width, height } = await readPixels(file);
+  return decodeGrid(toGrid(lumaOf(image), width, height));
+};
+
+// Watermarks the stored original of a vault asset and records when it was done
+export const watermarkVaultAsset = async (asset: VaultAsset) => {
+  const file = await getVaultFile(asset.id);
+  if (!file) throw new Error(`The original of "${asset.title}" is no longer stored in the vault`);
+  const blob = await embedWatermark(file, payloadFor(asset));
+  const updated: VaultAsset = { ...asset, watermarked_at: new Date().toISOString() };
+  await put(STORES.vault, updated);
+  const extension = blob.type === 'image/jpeg' ? 'jpg' : 'png';
+  return { blob, fileName: `${asset.file_name.replace(/\.[^.]+$/, '')}-watermarked.${extension}`, asset: updated };
+};
+
+// --- Scan stage -------------------------------------------------------------
+
+const resolve = (found: WatermarkPayload & { agreement: number }, assets: VaultAsset[]): WatermarkDetection => {
+  const asset = assets.find(a => payloadFor(a).asset_id === found.asset_id);
+  if (!asset) return found;
+  return {
+    ...found,
+    asset: { id: asset.id, title: asset.title, owner: asset.owner, license: asset.license },
+    owner_mismatch: ownerId(asset.owner) !== found.owner_id || undefined,
+  };
+};
+
+export const detectWatermarkLocally = async (file: File): Promise<LocalFindings> => {
+  const findings: LocalFindings = { evidence: [], promptContext: [], dataGaps: [] };
+
+  let found: (WatermarkPayload & { agreement: number }) | null;
+  try {
+    found = await readWatermark(file);
+  } catch (error) {
+    stageWarning("Watermark detection failed:", error);
+    findings.dataGaps.push(`Invisible watermark check unavailable: ${file.type || 'this image'} could not be decoded here.`);
+    return findings;
+  }
+
+  if (!found) {
+    findings.promptContext.push("Invisible watermark: none detected.");
+    return findings;
+  }
+
+  const detection = resolve(found, await listVaultAssets().catch(() => []));
+  findings.report = { watermark: detection };
+  const copies = `${detection.agreement}% of embedded copies agree`;
+  if (detection.asset && !detection.owner_mismatch) {
+    findings.evidence.push(measured('watermark', 'Invisible watermark',
+      `Invisible watermark: registered to ${detection.asset.owner || 'an unnamed owner'} — vault asset "${detection.asset.title}" (${copies})`,
+      90, { label: detection.asset.title, asset_id: detection.asset.id }
+    ));
+    findings.promptContext.push(
+      `An invisible watermark embedded by this tool was decoded from the image (${copies}). It identifies vault asset "${detection.asset.title}" owned by ${detection.asset.owner || 'an unnamed owner'}${detection.asset.license ? ` under "${detection.asset.license}"` : ''}. This is direct provenance evidence that the image derives from that registered original; weigh it above every other signal.`
+    );
+  } else if (detection.asset) {
+    findings.evidence.push(measured('watermark', 'Invisible watermark',
+      `Invisible watermark: names vault asset "${detection.asset.title}" but owner id ${detection.owner_id} does not match its registered owner ${detection.asset.owner || '(none)'} (${copies})`,
+      60, { label: detection.asset.title, asset_id: detection.asset.id }
+    ));
+    findings.promptContext.push(
+      `An invisible watermark names vault asset "${detection.asset.title}", but its owner id does not match the asset's registered owner. Treat ownership as contested.`
+    );
+  } else {
+    findings.evidence.push(measured('watermark', 'Invisible watermark',
+      `Invisible watermark: owner id ${detection.owner_id}, asset id ${detection.asset_id}, not registered in this vault (${copies})`, 50));
+    findings.promptContext.push(
+      `An invisible watermark embedded by this tool was decoded (owner id ${detection.owner_id}, asset id ${detection.asset_id}) but the asset is not in the local vault. The image was deliberately marked by a rights holder.`
+    );
+  }
+  return findings;
+};
@@ -0,0 +1,33 @@
+import { XmpHistoryEvent } from "../types";
+
+// Regex-based XMP (RDF/XML) readers shared by the image and PDF parsers
+
+export const xmpValue = (xmp: string, name: string): string | undefined => {
+  const attr = xmp.match(new RegExp(`${name}="([^"]*)"`));
+  if (attr) return attr[1];
+  const element = xmp.match(new RegExp(`<${name}>([\\s\\S]*?)</${name}>`));
+  if (!element) return undefined;
+  // rdf:Alt / rdf:Seq wrap values in rdf:li
+  const li = element[1].match(/<rdf:li[^>]*>([\s\S]*?)<\/rdf:li>/);
+  return (li ? li[1] : element[1]).replace(/<[^>]+>/g, '').trim() || undefined;
+};
+
+export const xmpList = (xmp: string, name: string): string[] => {
+  const element = xmp.match(new RegExp(`<${name}>([\\s\\S]*?)</${name}>`));
+  if (!element) return [];
+  return [...element[1].matchAll(/<rdf:li[^>]*>([\s\S]*?)<\/rdf:li>/g)].map(m => m[1].trim()).filter(Boolean);
+};
+
+export const parseXmpHistory = (xmp: string): XmpHistoryEvent[] => {
+  const history = xmp.match(/<xmpMM:History>([\s\S]*?)<\/xmpMM:History>/);
+  if (!history) return [];
+  const events: XmpHistoryEvent[] = [];
+  // Entries are either <rdf:li stEvt:action="..."/> or <rdf:li><stEvt:action>...</stEvt:action></rdf:li>
+  for (const match of history[1].matchAll(/<rdf:li([^>]*?)(?:\/>|>([\s\S]*?)<\/rdf:li>)/g)) {
+    const entry = `${match[1]} ${match[2] ?? ''}`;
+    const action = xmpValue(entry, 'stEvt:action');
+    if (!action) continue;
+    events.push({ action, when: xmpValue(entry, 'stEvt:when'), software: xmpValue(entry, 'stEvt:softwareAgent') });
+  }
+  return events;
+};
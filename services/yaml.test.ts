@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { parseYaml, YamlError } from './yaml';
+
+describe('parseYaml', () => {
+  it('reads block mappings, sequences and scalars', () => {
+    expect(parseYaml(`
+# comment
+name: policy
+count: 3
+enabled: true
+empty: ~
+items:
+  - one
+  - "two # not a comment"
+  - 'it''s'
+`)).toEqual({ name: 'policy', count: 3, enabled: true, empty: null, items: ['one', 'two # not a comment', "it's"] });
+  });
+
+  it('reads sequences of mappings and same-indent sequences', () => {
+    expect(parseYaml(`
+rules:
+- id: a
+  then:
+    verdict: pirated
+- id: b
+`)).toEqual({ rules: [{ id: 'a', then: { verdict: 'pirated' } }, { id: 'b' }] });
+  });
+
+  it('reads nested flow collections', () => {
+    expect(parseYaml('when: { domain: ["@blocklist", a.to], min: 40, deep: { x: [] } }'))
+      .toEqual({ when: { domain: ['@blocklist', 'a.to'], min: 40, deep: { x: [] } } });
+  });
+
+  it('returns null for an empty document', () => {
+    expect(parseYaml('# nothing\n---\n')).toBeNull();
+  });
+
+  it('rejects duplicate keys with the line number', () => {
+    expect(() => parseYaml('a: 1\nb: 2\na: 3')).toThrow(new YamlError('duplicate key "a"', 3));
+  });
+
+  it('stores prototype names as ordinary keys', () => {
+    const block = parseYaml('constructor: a\ntoString: b\n__proto__: { polluted: true }') as Record<string, unknown>;
+    expect(Object.keys(block)).toEqual(['constructor', 'toString', '__proto__']);
+    expect(block.constructor).toBe('a');
+    expect(block['__proto__']).toEqual({ polluted: true });
+    expect(Object.getPrototypeOf(block)).toBeNull();
+    const flow = (parseYaml('m: { __proto__: x, constructor: y }') as Record<string, Record<string, unknown>>).m;
+    expect(Object.keys(flow)).toEqual(['__proto__', 'constructor']);
+    expect(() => parseYaml('m: { a: 1, a: 2 }')).toThrow(/duplicate key "a"/);
+  });
+
+  it('rejects unsupported features and bad structure', () => {
+    expect(() => parseYaml('a: &anchor 1')).toThrow(/unsupported YAML feature "&"/);
+    expect(() => parseYaml('a: "open')).toThrow(/unterminated quoted string/);
+    expect(() => parseYaml('a:\n\t- b')).toThrow(/tabs cannot indent/);
+    expect(() => parseYaml('just text')).toThrow(/expected "key: value"/);
+    expect(() => parseYaml('a: [1, 2')).toThrow(/expected , or \]/);
+  });
+});
@@ -0,0 +1,214 @@
+// The YAML subset policy files need: block mappings and sequences, flow [lists] and {maps}, quoted and plain
+// scalars, comments. Anchors, tags, multi-document streams and multi-line scalars are rejected.
+
+export class YamlError extends Error {
+  constructor(message: string, public line: number) {
+    super(`line ${line}: ${message}`);
+    this.name = 'YamlError';
+  }
+}
+
+interface Line {
+  indent: number;
+  text: string;
+  number: number;
+}
+
+// Cuts a trailing comment, ignoring # inside quotes
+const stripComment = (text: string) => {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quote) {
+      if (c === '\\' && quote === '"') i++;
+      else if (c === quote) quote = null;
+    } else if (c === '"' || c === "'") {
+      quote = c;
+    } else if (c === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i).trimEnd();
+    }
+  }
+  return text.trimEnd();
+};
+
+const toLines = (source: string): Line[] =>
+  source.split(/\r?\n/).flatMap((raw, i) => {
+    if (raw.includes('\t') && /^\s*\t/.test(raw)) throw new YamlError('tabs cannot indent YAML', i + 1);
+    const text = stripComment(raw);
+    if (!text.trim() || text.trim() === '---') return [];
+    return [{ indent: text.length - text.trimStart().length, text: text.trim(), number: i + 1 }];
+  });
+
+const plainScalar = (text: string): unknown => {
+  if (/^(null|~)$/i.test(text)) return null;
+  if (/^true$/i.test(text)) return true;
+  if (/^false$/i.test(text)) return false;
+  if (/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(text)) return Number(text);
+  return text;
+};
+
+// Without a prototype, so keys such as "constructor" or "__proto__" are stored as plain fields
+const emptyMap = (): Record<string, unknown> => Object.create(null);
+
+// Flow values ([a, b], {k: v}, quoted or plain scalars) with a cursor, so they can nest
+const parseFlow = (text: string, line: number): unknown => {
+  let i = 0;
+  const skip = () => { while (i < text.length && /\s/.test(text[i])) i++; };
+  const fail = (message: string): never => { throw new YamlError(message, line); };
+
+  const quoted = (): string => {
+    const quote = text[i++];
+    let out = '';
+    while (i < text.length) {
+      const c = text[i++];
+      if (c === quote) {
+        if (quote === "'" && text[i] === "'") { out += "'"; i++; continue; }
+        return out;
+      }
+      if (c === '\\' && quote === '"') {
+        const escaped = text[i++];
+        out += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+      } else {
+        out += c;
+      }
+    }
+    return fail('unterminated quoted string');
+  };
+
+  const value = (inFlow: boolean): unknown => {
+    skip();
+    const c = text[i];
+    if (c === '[') {
+      i++;
+      const items: unknown[] = [];
+      skip();
+      if (text[i] === ']') { i++; return items; }
+      while (true) {
+        items.push(value(true));
+        skip();
+        if (text[i] === ',') { i++; continue; }
+        if (text[i] === ']') { i++; return items; }
+        fail('expected , or ] in flow sequence');
+      }
+    }
+    if (c === '{') {
+      i++;
+      const map = emptyMap();
+      skip();
+      if (text[i] === '}') { i++; return map; }
+      while (true) {
+        skip();
+        const key = text[i] === '"' || text[i] === "'" ? quoted() : String(plain(true, true));
+        skip();
+        if (text[i++] !== ':') fail('expected : in flow mapping');
+        if (Object.hasOwn(map, key)) fail(`duplicate key "${key}"`);
+        map[key] = value(true);
+        skip();
+        if (text[i] === ',') { i++; continue; }
+        if (text[i] === '}') { i++; return map; }
+        fail('expected , or } in flow mapping');
+      }
+    }
+    if (c === '"' || c === "'") return quoted();
+    if (c === '&' || c === '*' || c === '!' || c === '|' || c === '>') fail(`unsupported YAML feature "${c}"`);
+    return plainScalar(plain(inFlow, false) as string);
+  };
+
+  const plain = (inFlow: boolean, isKey: boolean) => {
+    const start = i;
+    while (i < text.length) {
+      const c = text[i];
+      if (inFlow && (c === ',' || c === ']' || c === '}')) break;
+      if (isKey && c === ':') break;
+      i++;
+    }
+    return text.slice(start, i).trim();
+  };
+
+  const result = value(false);
+  skip();
+  if (i < text.length) fail(`unexpected "${text.slice(i)}"`);
+  return result;
+};
+
+// "key: value" split at the first ": " (or a trailing ":") outside quotes and brackets
+const splitKey = (text: string): [string, string] | null => {
+  let quote: string | null = null;
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quote) {
+      if (c === '\\' && quote === '"') i++;
+      else if (c === quote) quote = null;
+    } else if (c === '"' || c === "'") quote = c;
+    else if (c === '[' || c === '{') depth++;
+    else if (c === ']' || c === '}') depth--;
+    else if (c === ':' && depth === 0 && (i === text.length - 1 || text[i + 1] === ' ')) {
+      return [text.slice(0, i).trim(), text.slice(i + 1).trim()];
+    }
+  }
+  return null;
+};
+
+const unquoteKey = (key: string, line: number) =>
+  key.startsWith('"') || key.startsWith("'") ? String(parseFlow(key, line)) : key;
+
+const isSequenceItem = (text: string) => text === '-' || text.startsWith('- ');
+
+export const parseYaml = (source: string): unknown => {
+  const lines = toLines(source);
+  let pos = 0;
+
+  const block = (indent: number): unknown =>
+    isSequenceItem(lines[pos].text) ? sequence(indent) : mapping(indent);
+
+  // The block nested under a line at `parentIndent`, or null when nothing is nested
+  const nested = (parentIndent: number, allowSameIndentSequence: boolean): unknown => {
+    const next = lines[pos];
+    if (!next) return null;
+    if (next.indent > parentIndent) return block(next.indent);
+    if (allowSameIndentSequence && next.indent === parentIndent && isSequenceItem(next.text)) return sequence(parentIndent);
+    return null;
+  };
+
+  const sequence = (indent: number): unknown[] => {
+    const items: unknown[] = [];
+    while (pos < lines.length && lines[pos].indent === indent && isSequenceItem(lines[pos].text)) {
+      const line = lines[pos];
+      const rest = line.text.slice(1).trim();
+      if (!rest) {
+        pos++;
+        items.push(nested(indent, false));
+      } else if (!/^[[{"']/.test(rest) && splitKey(rest)) {
+        // "- key: value" opens a mapping whose keys line up with "key"
+        lines[pos] = { indent: indent + line.text.indexOf(rest), text: rest, number: line.number };
+        items.push(mapping(lines[pos].indent));
+      } else {
+        pos++;
+        items.push(parseFlow(rest, line.number));
+      }
+    }
+    if (pos < lines.length && lines[pos].indent > indent) throw new YamlError('unexpected indentation', lines[pos].number);
+    return items;
+  };
+
+  const mapping = (indent: number): Record<string, unknown> => {
+    const map = emptyMap();
+    while (pos < lines.length && lines[pos].indent === indent && !isSequenceItem(lines[pos].text)) {
+      const line = lines[pos];
+      const pair = splitKey(line.text);
+      if (!pair) throw new YamlError(`expected "key: value", got "${line.text}"`, line.number);
+      const key = unquoteKey(pair[0], line.number);
+      if (Object.hasOwn(map, key)) throw new YamlError(`duplicate key "${key}"`, line.number);
+      pos++;
+      map[key] = pair[1] ? parseFlow(pair[1], line.number) : nested(indent, true);
+    }
+    if (pos < lines.length && lines[pos].indent > indent) throw new YamlError('unexpected indentation', lines[pos].number);
+    return map;
+  };
+
+  if (lines.length === 0) return null;
+  const root = block(lines[0].indent);
+  if (pos < lines.length) throw new YamlError('unexpected content after the document', lines[pos].number);
+  return root;
+};
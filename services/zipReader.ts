@@ -0,0 +1,85 @@
+// Minimal read-only ZIP reader (stored and deflate entries, no ZIP64) for OOXML/ODF containers
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+export interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  size: number;
+  localOffset: number;
+}
+
+export interface ZipArchive {
+  entries: Map<string, ZipEntry>;
+  read: (name: string) => Promise<Uint8Array | null>;
+  readText: (name: string) => Promise<string | null>;
+}
+
+export const inflate = async (data: Uint8Array, format: CompressionFormat = 'deflate-raw'): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream(format));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const findEndOfCentralDirectory = (view: DataView) => {
+  // EOCD is 22 bytes plus an optional comment of up to 64KB
+  const minOffset = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let i = view.byteLength - 22; i >= minOffset; i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) return i;
+  }
+  return -1;
+};
+
+export const isZip = (bytes: Uint8Array) =>
+  bytes.length >= 4 && bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04;
+
+export const openZip = (bytes: Uint8Array): ZipArchive => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const eocd = findEndOfCentralDirectory(view);
+  if (eocd < 0) throw new Error("Not a ZIP archive (end of central directory not found)");
+
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, ZipEntry>();
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_SIGNATURE) {
+      throw new Error("Corrupt ZIP central directory");
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    entries.set(name, {
+      name,
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      size: view.getUint32(offset + 24, true),
+      localOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  const read = async (name: string) => {
+    const entry = entries.get(name);
+    if (!entry) return null;
+    const local = entry.localOffset;
+    if (view.getUint32(local, true) !== LOCAL_SIGNATURE) {
+      throw new Error(`Corrupt ZIP local header for ${name}`);
+    }
+    const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+    const data = bytes.subarray(start, start + entry.compressedSize);
+    if (entry.method === 0) return data;
+    if (entry.method === 8) return inflate(data);
+    throw new Error(`Unsupported ZIP compression method ${entry.method} for ${name}`);
+  };
+
+  const readText = async (name: string) => {
+    const data = await read(name);
+    return data ? decoder.decode(data) : null;
+  };
+
+  return { entries, read, readText };
+};
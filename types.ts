@@ -2,7 +2,11 @@ export enum AppState {
   IDLE = 'IDLE',
   SCANNING = 'SCANNING',
   REPORT_READY = 'REPORT_READY',
-  ERROR = 'ERROR'
+  ERROR = 'ERROR',
+  VAULT = 'VAULT',
+  BATCH = 'BATCH',
+  HISTORY = 'HISTORY',
+  VERIFY = 'VERIFY'
 }
 
 export enum Verdict {
@@ -16,22 +20,738 @@ export interface EngineScore {
   score: number; // 0-100
 }
 
+export interface ImageFingerprint {
+  ahash: string; // 64-bit hex
+  dhash: string;
+  phash: string;
+  width: number;
+  height: number;
+}
+
+export interface FingerprintMatch {
+  reference_id: string;
+  label: string;
+  ahash_similarity: number; // 0-100
+  dhash_similarity: number;
+  phash_similarity: number;
+  similarity: number; // weighted blend, 0-100
+}
+
+// Best vault reference a sampled video frame matched
+export interface FrameMatch {
+  reference_id: string;
+  label: string;
+  source: 'vault' | 'index'; // 'index': reports saved before scans stopped being used as references
+  similarity: number; // blended perceptual similarity, 0-100
+}
+
+export interface VideoKeyframe {
+  timestamp: number; // seconds
+  fingerprint: ImageFingerprint;
+  scene_change: number; // 0-100
+  thumbnail_data_url: string;
+  match?: FrameMatch;
+}
+
+export interface VideoAnalysis {
+  duration: number;
+  width: number;
+  height: number;
+  sampled_frames: number;
+  sample_interval: number;
+  keyframes: VideoKeyframe[];
+}
+
+// Constellation fingerprint: hashes of spectral-peak pairs, each anchored at a spectrogram frame
+export interface AudioFingerprint {
+  hop_seconds: number; // time between spectrogram frames
+  duration: number; // seconds analysed
+  hashes: number[]; // packed (anchor bin, target bin, frame gap)
+  offsets: number[]; // anchor frame of each hash, parallel to `hashes`
+}
+
+// A stretch of the scanned audio that lines up with a stretch of a reference track
+export interface AudioMatch {
+  reference_id: string;
+  label: string;
+  query_start: number; // seconds in the scanned file
+  query_end: number;
+  reference_start: number; // seconds in the reference
+  reference_end: number;
+  similarity: number; // 0-100: share of the stretch corroborated by aligned peak pairs
+}
+
+export interface AudioAnalysis {
+  source: 'audio' | 'soundtrack';
+  duration: number;
+  hash_count: number;
+  references_checked: number;
+  matches: AudioMatch[];
+}
+
+export type SourceLanguage = 'typescript' | 'javascript' | 'python' | 'java' | 'c' | 'go';
+
+// A winnowed k-gram of normalized tokens and the source lines it spans
+export interface CodeFingerprint {
+  hash: number;
+  start_line: number;
+  end_line: number;
+}
+
+// A repository imported into the local code corpus
+export interface CodeRepo {
+  id: string;
+  name: string;
+  owner: string;
+  license: string;
+  file_count: number;
+  created_at: string;
+}
+
+// Fingerprints of one corpus file; its text is stored separately and read only when it matches
+export interface CodeCorpusFile {
+  id: string;
+  repo_id: string;
+  path: string; // relative to the repository root
+  language: SourceLanguage;
+  line_count: number;
+  fingerprints: CodeFingerprint[];
+}
+
+export interface CodeCorpus {
+  repos: CodeRepo[];
+  files: CodeCorpusFile[];
+  readSource: (fileId: string) => Promise<string | undefined>;
+}
+
+// Lines of the scanned file and of a corpus file that share fingerprints, with both excerpts for side-by-side display
+export interface CodeMatchRange {
+  suspect_start: number;
+  suspect_end: number;
+  corpus_start: number;
+  corpus_end: number;
+  suspect_excerpt: string;
+  corpus_excerpt: string;
+}
+
+export interface CodeFileMatch {
+  repo_id: string;
+  repo: string;
+  owner: string;
+  license: string;
+  path: string;
+  suspect_percent: number; // share of the scanned file's fingerprints found in this corpus file
+  corpus_percent: number; // share of the corpus file's fingerprints found in the scanned file
+  ranges: CodeMatchRange[];
+}
+
+// A license or copyright notice found in a comment of the scanned file
+export interface LicenseHeader {
+  line: number;
+  kind: 'spdx' | 'license_text' | 'copyright';
+  license?: string; // SPDX id or license name; absent on copyright lines
+  holder?: string; // copyright lines only
+  text: string;
+}
+
+export interface CodeAnalysis {
+  language: SourceLanguage;
+  token_count: number;
+  fingerprint_count: number;
+  files_checked: number;
+  repos_checked: number;
+  matches: CodeFileMatch[];
+  license_headers: LicenseHeader[];
+}
+
+export type VaultAssetKind = 'image' | 'pdf' | 'text' | 'video' | 'audio' | 'document' | 'other';
+
+// An original we own, registered in the local protected-asset vault
+export interface VaultAsset {
+  id: string;
+  title: string;
+  owner: string;
+  license: string;
+  file_name: string;
+  mime_type: string;
+  size: number;
+  kind: VaultAssetKind;
+  sha256: string;
+  image_fingerprint?: ImageFingerprint;
+  text_signature?: number[];
+  video_keyframes?: { timestamp: number; fingerprint: ImageFingerprint }[];
+  audio_fingerprint?: AudioFingerprint; // audio files and video soundtracks
+  watermarked_at?: string; // last time a watermarked copy was exported
+  created_at: string;
+}
+
+export interface VaultMatch {
+  asset_id: string;
+  title: string;
+  owner: string;
+  license: string;
+  method: 'exact' | 'perceptual' | 'text' | 'audio';
+  similarity: number; // 0-100
+}
+
+// Parsed from docProps/core.xml + app.xml (DOCX) or meta.xml (ODT)
+export interface DocumentMetadata {
+  format: 'docx' | 'odt' | 'doc';
+  title?: string;
+  subject?: string;
+  creator?: string;
+  last_modified_by?: string;
+  created?: string; // ISO 8601
+  modified?: string;
+  last_printed?: string;
+  revision?: number;
+  template?: string;
+  application?: string;
+  company?: string;
+  total_edit_minutes?: number;
+  pages?: number;
+  words?: number;
+  characters?: number;
+}
+
+export interface GpsCoordinates {
+  latitude: number;
+  longitude: number;
+  altitude?: number;
+}
+
+// One stEvt entry from the XMP Media Management history
+export interface XmpHistoryEvent {
+  action: string;
+  when?: string;
+  software?: string;
+}
+
+export interface EmbeddedThumbnail {
+  width: number;
+  height: number;
+  data_url: string;
+  similarity_to_main?: number; // pHash similarity, 0-100
+}
+
+// Parsed locally from EXIF / XMP / IPTC blocks of the uploaded image
+export interface ImageMetadata {
+  container: 'jpeg' | 'png' | 'webp' | 'heic' | 'unknown';
+  has_exif: boolean;
+  has_xmp: boolean;
+  has_iptc: boolean;
+  make?: string;
+  model?: string;
+  lens?: string;
+  serial_number?: string;
+  software?: string;
+  orientation?: number;
+  pixel_width?: number;
+  pixel_height?: number;
+  date_time_original?: string;
+  date_time_digitized?: string;
+  date_time_modified?: string;
+  gps?: GpsCoordinates;
+  artist?: string;
+  copyright?: string;
+  description?: string;
+  xmp_creator_tool?: string;
+  xmp_create_date?: string;
+  xmp_modify_date?: string;
+  xmp_creators?: string[];
+  xmp_rights?: string;
+  document_id?: string;
+  original_document_id?: string;
+  edit_history: XmpHistoryEvent[];
+  iptc_byline?: string;
+  iptc_copyright?: string;
+  iptc_credit?: string;
+  iptc_source?: string;
+  thumbnail?: EmbeddedThumbnail;
+}
+
+export interface PdfFontInfo {
+  name: string;
+  subtype?: string;
+  embedded: boolean;
+  subset: boolean; // ABCDEF+Name prefix
+}
+
+export interface PdfImageInfo {
+  object: number;
+  width?: number;
+  height?: number;
+  filter?: string;
+}
+
+// A watermark or annotation present in an earlier revision but gone from the final document
+export interface PdfRemovedObject {
+  object: number;
+  kind: 'watermark' | 'annotation';
+  revision: number; // revision in which it last appeared (0 = original)
+  detail: string;
+}
+
+// Parsed locally from the PDF body, Info dictionary and XMP packet
+export interface PdfMetadata {
+  version: string;
+  page_count: number;
+  revision_count: number; // 1 + number of incremental updates
+  encrypted: boolean;
+  title?: string;
+  author?: string;
+  subject?: string;
+  creator?: string;
+  producer?: string;
+  created?: string;
+  modified?: string;
+  xmp_creator_tool?: string;
+  xmp_producer?: string;
+  xmp_created?: string;
+  xmp_modified?: string;
+  xmp_history: XmpHistoryEvent[];
+  fonts: PdfFontInfo[];
+  images: PdfImageInfo[];
+  redefined_objects: number; // objects rewritten by incremental updates
+  removed_objects: PdfRemovedObject[];
+  text_pages: number; // pages with extractable text
+}
+
+// 64-bit invisible watermark payload, both halves as 8-char hex
+export interface WatermarkPayload {
+  owner_id: string; // hash of the registered owner's name
+  asset_id: string; // first 32 bits of the vault asset id
+}
+
+// A payload decoded from a scanned image, resolved against the vault when possible
+export interface WatermarkDetection extends WatermarkPayload {
+  agreement: number; // 0-100: share of redundant payload copies that agree with the decoded bits
+  asset?: { id: string; title: string; owner: string; license: string };
+  owner_mismatch?: boolean; // asset found, but its registered owner hashes differently
+}
+
+export type UrlSignalCategory = 'list' | 'lookalike' | 'tld' | 'shortener' | 'pattern' | 'structure';
+
+// One triggered URL heuristic; positive weights raise risk, negative weights lower it
+export interface UrlSignal {
+  id: string; // stable rule id, e.g. 'typosquat'
+  category: UrlSignalCategory;
+  label: string;
+  weight: number;
+  detail: string;
+}
+
+// Deterministic analysis of the URL itself, run before the model sees it
+export interface UrlAnalysis {
+  host: string;
+  unicode_host?: string; // decoded form of a punycode host
+  registrable_domain: string;
+  score: number; // 0-100: sum of signal weights, clamped
+  signals: UrlSignal[];
+}
+
+// Brand domains plus the locally maintained block/allowlists used by the URL heuristics
+export interface UrlLists {
+  brand_domains: string[];
+  blocklist: string[];
+  allowlist: string[];
+}
+
+// What was scanned and by which backend, recorded locally alongside the model's answer
+export interface ScanProvenance {
+  input_kind: 'file' | 'url';
+  source: string; // file name or URL
+  mime_type?: string;
+  size?: number;
+  sha256?: string; // of the file bytes, or of the fetched URL snapshot
+  snapshot_status?: number; // HTTP status of the URL snapshot fetch
+  provider: ProviderId;
+  model: string;
+  app_version: string;
+  scanned_at: string; // ISO 8601
+}
+
+// Detached signature over the canonical JSON of the report without this field
+export interface ReportSignature {
+  algorithm: 'ECDSA-P256-SHA256';
+  public_key: JsonWebKey;
+  key_fingerprint: string; // SHA-256 of the canonical public JWK
+  signed_at: string;
+  value: string; // base64
+}
+
+// Groups evidence in the report; listed roughly from strongest to weakest kind of proof
+export type EvidenceType =
+  | 'watermark'
+  | 'hash_match'
+  | 'audio_match'
+  | 'text_match'
+  | 'code_match'
+  | 'metadata'
+  | 'document_structure'
+  | 'url_heuristic'
+  | 'model_observation';
+
+// What an evidence item was matched against, when anything
+export interface EvidenceReference {
+  label: string;
+  url?: string;
+  asset_id?: string; // vault asset
+}
+
+export interface EvidenceItem {
+  type: EvidenceType;
+  claim: string;
+  engine: string; // the check that produced it, e.g. "pHash index", "URL heuristics", or the model
+  weight: number; // -100 to 100: positive supports infringement, negative supports originality
+  origin: 'measured' | 'inferred'; // measured locally, or inferred by the model
+  reference?: EvidenceReference;
+}
+
+// One independent model run of an ensemble scan
+export interface EnsembleRun {
+  label: string; // e.g. "gemini/gemini-2.5-flash @0.7 · sceptical"
+  verdict: Verdict;
+  confidence_score: number;
+  risk_level: ForensicReport['risk_level'];
+}
+
+export interface EnsembleSummary {
+  runs: EnsembleRun[];
+  failed: number; // runs that errored or returned an unusable report
+  agreement: number; // 0-100: share of runs that reached the final verdict
+  confidence_mean: number; // over every run, whatever its verdict
+  confidence_stdev: number;
+  confidence_spread: number; // max minus min
+}
+
+// One part of a large input (a page range, a stretch of text, a time window) analyzed in its own model request
+export interface SegmentResult {
+  label: string; // e.g. "Pages 13–24"
+  verdict: Verdict;
+  confidence_score: number;
+  risk_level: ForensicReport['risk_level'];
+  summary: string;
+  agreement?: number; // ensemble agreement on this part, when ensembles are on
+}
+
+// Isotonic map from raw model confidence to observed accuracy on a labeled set
+export interface CalibrationCurve {
+  fitted_at: string;
+  samples: number;
+  points: { raw: number; calibrated: number }[]; // ascending raw, non-decreasing calibrated, both 0-100
+  brier_before: number; // on the labeled set, lower is better
+  brier_after: number;
+}
+
+// Team policy rules, applied in order to the finished report. Every key of a condition must hold;
+// domain lists may name the saved URL lists as "@blocklist", "@allowlist" or "@brand_domains"
+export interface PolicyCondition {
+  verdict?: Verdict[];
+  risk_level?: ForensicReport['risk_level'][];
+  confidence_min?: number;
+  confidence_max?: number;
+  input_kind?: 'file' | 'url';
+  source_domain?: string[]; // the scanned URL is on one of these
+  suspicious_url_domain?: string[]; // any suspicious URL is on one of these
+  evidence?: { type?: EvidenceType[]; origin?: EvidenceItem['origin']; min_weight?: number }; // any item matches
+  vault_match?: boolean;
+  watermark?: boolean;
+  all?: PolicyCondition[];
+  any?: PolicyCondition[];
+  not?: PolicyCondition;
+}
+
+export interface PolicyEffect {
+  verdict?: Verdict;
+  risk_level?: ForensicReport['risk_level'];
+  min_risk?: ForensicReport['risk_level'];
+  max_risk?: ForensicReport['risk_level'];
+  add_actions?: string[];
+}
+
+export interface PolicyRule {
+  id: string;
+  description?: string;
+  enabled?: boolean; // default true
+  when: PolicyCondition;
+  then: PolicyEffect;
+}
+
+export interface PolicyChange {
+  field: 'verdict' | 'risk_level' | 'recommended_actions';
+  from: string;
+  to: string;
+}
+
+export interface PolicyFiring {
+  rule_id: string;
+  description?: string;
+  changes: PolicyChange[]; // empty when the rule matched but the report already complied
+}
+
+export interface PolicyOutcome {
+  fired: PolicyFiring[];
+  model_output: Pick<ForensicReport, 'verdict' | 'risk_level' | 'recommended_actions'>; // before any rule ran
+}
+
 export interface ForensicReport {
   case_id: string;
   verdict: Verdict;
   confidence_score: number;
   summary: string;
-  key_evidence: string[];
+  key_evidence: EvidenceItem[];
   risk_level: "LOW" | "MEDIUM" | "HIGH";
   suspicious_urls: string[];
   probable_original_sources: string[];
   data_gaps: string[];
   recommended_actions: string[];
-  engine_scores?: EngineScore[]; // Added for visualization
+  engine_scores?: EngineScore[]; // measured by local stages only
+  ensemble?: EnsembleSummary;
+  segments?: SegmentResult[]; // present when the input was analyzed in parts
+  calibration?: { raw_confidence: number; samples: number; fitted_at: string }; // confidence_score is the calibrated value
+  policy?: PolicyOutcome; // present when at least one rule fired
+  image_fingerprint?: ImageFingerprint; // Measured locally, never produced by the model
+  fingerprint_matches?: FingerprintMatch[];
+  vault_matches?: VaultMatch[];
+  document_metadata?: DocumentMetadata;
+  metadata?: ImageMetadata;
+  pdf_metadata?: PdfMetadata;
+  video_analysis?: VideoAnalysis;
+  audio_analysis?: AudioAnalysis;
+  code_analysis?: CodeAnalysis;
+  url_analysis?: UrlAnalysis;
+  watermark?: WatermarkDetection; // measured locally
+  validation_warnings?: string[]; // inconsistencies the model did not resolve when re-asked
+  provenance?: ScanProvenance;
+  signature?: ReportSignature;
+  analyst_review?: CaseReview; // only in JSON exports of filed cases; not covered by the signature
 }
 
-export interface ScanStep {
+// A finished scan kept in the local case history
+export interface CaseRecord {
+  id: string; // local key; model-issued case_ids are not guaranteed unique
+  case_id: string;
+  source: string;
+  sha256?: string;
+  verdict: Verdict;
+  risk_level: ForensicReport['risk_level'];
+  confidence_score: number;
+  provider: ProviderId;
+  model: string;
+  created_at: string;
+  report: ForensicReport;
+  review?: CaseReview; // absent on cases filed before review existed; treated as new
+}
+
+export type CaseStatus = 'new' | 'under_review' | 'confirmed_infringement' | 'dismissed' | 'takedown_sent';
+
+// An analyst's verdict and risk in place of the model's; the signed report keeps the model output
+export interface CaseOverride {
+  verdict: Verdict;
+  risk_level: ForensicReport['risk_level'];
+  justification: string;
+  analyst: string;
+  at: string;
+}
+
+export interface CaseNote {
   id: string;
+  text: string;
+  analyst: string;
+  created_at: string;
+}
+
+export interface EvidenceReview {
+  decision: 'confirmed' | 'rejected';
+  analyst: string;
+  at: string;
+}
+
+export type AuditAction = 'status' | 'override' | 'override_cleared' | 'note' | 'evidence';
+
+// Append-only; every review change adds one entry
+export interface AuditEntry {
+  at: string;
+  analyst: string;
+  action: AuditAction;
+  detail: string;
+  justification?: string;
+}
+
+export interface CaseReview {
+  status: CaseStatus;
+  override?: CaseOverride;
+  notes: CaseNote[];
+  evidence: Record<number, EvidenceReview>; // keyed by position in evidenceItems(report)
+  audit: AuditEntry[];
+}
+
+export interface CaseFilter {
+  query?: string; // case id, file name or URL
+  verdict?: Verdict; // matched against the analyst override when there is one
+  risk_level?: ForensicReport['risk_level'];
+  status?: CaseStatus;
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string;
+}
+
+export type NoticeKind = 'dmca' | 'dsa' | 'abuse';
+
+// The party on whose behalf takedown notices are sent; saved locally and reused
+export interface RightsHolderProfile {
+  name: string;
+  organization: string;
+  email: string;
+  phone: string;
+  address: string;
+  signature: string; // typed name used as the electronic signature
+}
+
+// Editable notice text; {{placeholders}} are filled from the report and profile
+export interface NoticeTemplate {
+  kind: NoticeKind;
+  subject: string;
+  body: string;
+}
+
+// Output of a local (non-model) analysis stage, merged into the model's report
+export interface LocalFindings {
+  evidence: EvidenceItem[]; // measured facts, listed ahead of the model's key_evidence
+  promptContext: string[]; // handed to the model as ground truth
+  dataGaps: string[];
+  engineScores?: EngineScore[];
+  report?: Partial<ForensicReport>;
+}
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface ProviderConfig {
+  provider: ProviderId;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string; // OpenAI-compatible endpoints only, e.g. http://localhost:11434/v1
+}
+
+export type PromptPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } } // base64
+  | { fileData: { mimeType: string; fileUri: string } }; // a stored file too large to inline, see ScanOptions.uploadFile
+
+export interface AnalysisRequest {
+  systemPrompt: string;
+  parts: PromptPart[];
+  schema: Record<string, unknown>; // JSON Schema the report must satisfy
+  signal?: AbortSignal;
+  temperature?: number; // provider default when omitted
+  openFile?: (fileUri: string) => Promise<Blob | undefined>; // resolves fileData parts the provider has to upload itself
+}
+
+// A model backend. Returns the raw JSON text of a ForensicReport; parsing happens in the caller
+export interface AnalysisProvider {
+  id: ProviderId;
+  model: string;
+  generate: (request: AnalysisRequest) => Promise<string>;
+}
+
+export type ScanStage = 'hash' | 'extract' | 'vault' | 'upload' | 'model' | 'validate';
+
+export interface ScanStep {
+  id: ScanStage;
+  label: string;
+  status: 'pending' | 'active' | 'complete' | 'skipped';
+  detail?: string;
+}
+
+// Emitted by the scan pipeline as each stage starts, reports progress and finishes
+export interface ScanProgressEvent {
+  stage: ScanStage;
+  status: ScanStep['status'];
+  detail?: string;
+}
+
+// Backoff state shared by every scan that uses it: one 429 pauses all of them
+export interface RateLimitGate {
+  resumeAt: () => number; // epoch ms, 0 when open
+  trip: () => void;
+  succeed: () => void;
+  wait: (signal?: AbortSignal, onTick?: (secondsLeft: number) => void) => Promise<void>;
+}
+
+export interface ReportSigner {
+  sign: (report: ForensicReport) => Promise<ReportSignature>;
+}
+
+export interface ScanOptions {
+  provider?: AnalysisProvider;
+  gate?: RateLimitGate;
+  signer?: ReportSigner; // unsigned when omitted
+  signal?: AbortSignal;
+  onProgress?: (event: ScanProgressEvent) => void;
+  urlLists?: UrlLists; // URL scans only; brand lookalike and list checks are skipped without it
+  ensemble?: EnsembleMember[]; // two or more members run independently and are combined; `provider` is ignored
+  calibration?: CalibrationCurve;
+  policy?: PolicyRule[]; // applied to the finished report, before signing
+  codeCorpus?: CodeCorpus; // source files only; the corpus saved in the vault is used when omitted
+  // prepareScan: stores a file too large to inline and returns the fileUri its fileData part will carry
+  uploadFile?: (file: File, sha256: string, onProgress: (sent: number) => void, signal?: AbortSignal) => Promise<string>;
+  openFile?: (fileUri: string) => Promise<Blob | undefined>; // completeScan: finds a file stored by uploadFile
+}
+
+export interface EnsembleMember {
+  provider: AnalysisProvider;
+  temperature?: number;
+  perspective?: string; // extra instruction that makes the run look at the case differently
+}
+
+// analyzeAsset runs the whole pipeline in-process; scanViaServer keeps the model call on the scan server
+export type Scanner = (input: File | string, options?: ScanOptions) => Promise<ForensicReport>;
+
+// Output of the local stages and input to the model stage; plain JSON so the browser can hand it to the scan server
+export interface PreparedScan {
+  parts: PromptPart[]; // the whole request, or the context shared by every segment
+  segments?: PromptSegment[]; // large inputs: one model request per segment, merged into one report
+  local: LocalFindings[];
+  provenance: Pick<ScanProvenance, 'input_kind' | 'source' | 'mime_type' | 'size' | 'sha256' | 'snapshot_status'>;
+}
+
+export interface PromptSegment {
   label: string;
-  status: 'pending' | 'active' | 'complete';
+  parts: PromptPart[];
+}
+
+// A resumable upload to the scan server, as reported by /api/uploads
+export interface UploadSession {
+  id: string;
+  name: string;
+  mime_type: string;
+  size: number;
+  sha256: string;
+  received: number; // bytes stored so far; the next chunk must start here
+  chunk_size: number; // largest chunk the server accepts
+  complete: boolean; // every byte received and the SHA-256 verified
+  expires_at: string;
+}
+
+export type RemoteScanStatus = 'running' | 'done' | 'failed' | 'cancelled';
+
+// A scan as reported by GET /api/scans/:id
+export interface RemoteScan {
+  id: string;
+  status: RemoteScanStatus;
+  created_at: string;
+  events: ScanProgressEvent[]; // every progress event so far, oldest first
+  report?: ForensicReport;
+  error?: { message: string; issues?: string[] };
+}
+
+export type BatchJobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchJob {
+  id: string;
+  label: string; // file path or URL
+  input: File | string;
+  status: BatchJobStatus;
+  detail?: string; // current stage while running, error message when failed
+  report?: ForensicReport;
 }
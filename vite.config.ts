@@ -1,18 +1,38 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+// Dev mode: mounts the scan API (server/api.ts) inside the Vite dev server, so `npm run dev` runs both.
+// API keys are read by the server side only and never reach the client bundle.
+const scanApiDevServer = (env: Record<string, string>): Plugin => ({
+  name: 'decryptc-scan-api',
+  apply: 'serve',
+  configureServer(server) {
+    for (const [key, value] of Object.entries(env)) process.env[key] ??= value;
+    let api: Promise<(req: IncomingMessage, res: ServerResponse, next: () => void) => Promise<void>> | undefined;
+    server.middlewares.use((req, res, next) => {
+      if (!req.url?.startsWith('/api/')) return next();
+      api ??= server.ssrLoadModule('/server/api.ts').then(mod => mod.createScanApi());
+      api.then(handler => handler(req, res, next)).catch(error => {
+        api = undefined;
+        next(error);
+      });
+    });
+  },
+});
+
+export default defineConfig(({ mode, isSsrBuild }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+      plugins: [react(), scanApiDevServer(env)],
+      // The server build reads process.env at runtime; only the client gets build-time values
+      define: isSsrBuild ? {} : {
+        'process.env.SCAN_API_URL': JSON.stringify(env.SCAN_API_URL ?? '')
       },
       resolve: {
         alias: {